@@ -7,11 +7,19 @@
  * @since 2024
  */
 
-// Temporary simple tokenizer to avoid import issues
-function simpleTokenize(text: string): number {
-  // Rough approximation: 1 token per 4 characters
-  return Math.ceil(text.length / 4);
-}
+import { cleanThinkingChunk, createThinkingChunkCleaner, readUpstreamEvents } from "./src/utils/stream.ts";
+import { countTextTokens } from "./src/utils/tokens.ts";
+import {
+  executeToolCalls,
+  formatToolLimitNotice,
+  partitionToolCalls,
+  routeToolCall,
+  stripToolCallMarkup,
+} from "./src/services/tool-processor.ts";
+import { StreamingToolCallDetector, type ToolCallStreamEvent } from "./src/services/tool-call-detector.ts";
+import { DEFAULT_TOOL_CALL_POLICY, requiresToolCall, type ToolCallPolicy } from "./src/services/tool-choice.ts";
+import type { ThinkTagsMode, Tool } from "./src/types/definitions.ts";
+import type { NativeToolCallHandler, NativeToolStep } from "./src/services/agent-loop.ts";
 
 /**
  * Anthropic API interfaces
@@ -30,6 +38,12 @@ interface AnthropicImageContent {
   };
 }
 
+interface AnthropicThinkingContent {
+  type: "thinking";
+  thinking: string;
+  signature?: string;
+}
+
 interface AnthropicToolUseContent {
   type: "tool_use";
   id: string;
@@ -37,6 +51,13 @@ interface AnthropicToolUseContent {
   input: Record<string, unknown>;
 }
 
+interface AnthropicServerToolUseContent {
+  type: "server_tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
 interface AnthropicToolResultContent {
   type: "tool_result";
   tool_use_id: string;
@@ -47,7 +68,9 @@ interface AnthropicToolResultContent {
 type AnthropicContent =
   | AnthropicTextContent
   | AnthropicImageContent
+  | AnthropicThinkingContent
   | AnthropicToolUseContent
+  | AnthropicServerToolUseContent
   | AnthropicToolResultContent;
 
 interface AnthropicMessage {
@@ -66,8 +89,9 @@ interface AnthropicTool {
 }
 
 interface AnthropicToolChoice {
-  type: "auto" | "any" | "tool";
+  type: "auto" | "any" | "tool" | "none";
   name?: string;
+  disable_parallel_tool_use?: boolean;
 }
 
 interface AnthropicMessagesRequest {
@@ -82,6 +106,10 @@ interface AnthropicMessagesRequest {
   stop_sequences?: string[];
   tools?: AnthropicTool[];
   tool_choice?: AnthropicToolChoice;
+  thinking?: { type: "enabled" | "disabled"; budget_tokens?: number };
+  think_tags_mode?: string; // Per-request override of the thinking tags mode
+  max_tool_iterations?: number; // Limit for the server-side native tool loop
+  metadata?: { user_id?: string }; // End user, for per-user rate limits
 }
 
 interface AnthropicUsage {
@@ -108,18 +136,22 @@ interface AnthropicStreamEvent {
     | "content_block_stop"
     | "message_delta"
     | "message_stop"
+    | "ping"
     | "error";
   message?: Partial<AnthropicMessagesResponse>;
   content_block?: AnthropicContent;
   delta?: {
-    type: "text_delta" | "input_json_delta";
+    type?: "text_delta" | "thinking_delta" | "signature_delta" | "input_json_delta";
     text?: string;
+    thinking?: string;
+    signature?: string;
     partial_json?: string;
     stop_reason?: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | null;
     stop_sequence?: string | null;
   };
   index?: number;
   usage?: { output_tokens: number };
+  error?: AnthropicError["error"];
 }
 
 interface AnthropicTokenCountRequest {
@@ -360,6 +392,7 @@ function mapClaudeToZaiModel(claudeModel: string): string {
  */
 interface OpenAIMessage {
   role: string;
+  reasoning_content?: string;
   content:
     | string
     | Array<{
@@ -401,6 +434,7 @@ interface OpenAIRequest {
     type: string;
     function: { name: string };
   };
+  parallel_tool_calls?: boolean;
 }
 
 interface OpenAIResponse {
@@ -580,6 +614,9 @@ function convertAnthropicToOpenAI(request: AnthropicMessagesRequest): OpenAIRequ
         case "auto":
           openaiRequest.tool_choice = "auto";
           break;
+        case "none":
+          openaiRequest.tool_choice = "none";
+          break;
         case "any":
           openaiRequest.tool_choice = "required";
           break;
@@ -592,6 +629,10 @@ function convertAnthropicToOpenAI(request: AnthropicMessagesRequest): OpenAIRequ
           }
           break;
       }
+
+      if (request.tool_choice.disable_parallel_tool_use) {
+        openaiRequest.parallel_tool_calls = false;
+      }
     }
   }
 
@@ -614,6 +655,15 @@ function convertOpenAIToAnthropic(
   const message = choice.message;
   const content: AnthropicContent[] = [];
 
+  // Add thinking content if the reasoning was returned separately
+  if (message.reasoning_content && message.reasoning_content.trim()) {
+    content.push({
+      type: "thinking",
+      thinking: message.reasoning_content,
+      signature: "",
+    });
+  }
+
   // Add text content if present
   if (message.content && typeof message.content === "string" && message.content.trim()) {
     content.push({
@@ -709,179 +759,350 @@ function countTokens(request: AnthropicTokenCountRequest): number {
     text += "\n";
   }
 
-  try {
-    return simpleTokenize(text);
-  } catch (error) {
-    console.warn("Token counting failed, using character-based estimation:", error);
-    return Math.ceil(text.length / 4);
+  return countTextTokens(text);
+}
+
+/**
+ * Options for Anthropic stream conversion
+ */
+interface AnthropicStreamOptions {
+  inputTokens?: number; // Estimated prompt tokens reported in message_start
+  thinkTagsMode?: ThinkTagsMode; // "separate" emits thinking blocks, other modes inline thinking in text (default: "separate")
+  clientTools?: Tool[]; // Client-defined tools; calls to them become tool_use blocks
+  onNativeToolCall?: NativeToolCallHandler; // Runs native tools and returns the next upstream turn
+  toolPolicy?: ToolCallPolicy; // Rules from tool_choice and parallel_tool_calls
+}
+
+/**
+ * Map an OpenAI-style finish reason to an Anthropic stop reason
+ */
+function mapFinishReason(finishReason: string | undefined | null): AnthropicMessagesResponse["stop_reason"] {
+  switch (finishReason) {
+    case "length":
+      return "max_tokens";
+    case "function_call":
+    case "tool_calls":
+      return "tool_use";
+    case "content_filter":
+      return "stop_sequence";
+    default:
+      return "end_turn";
   }
 }
 
 /**
- * Process streaming response and convert to Anthropic format
+ * Format an Anthropic SSE event
+ */
+function formatAnthropicEvent(event: AnthropicStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Convert the upstream Z.ai event stream into Anthropic SSE events.
+ * Uses the same upstream phase data as the OpenAI stream: the thinking phase becomes
+ * thinking blocks, the answer phase becomes text blocks, and detected tool calls become
+ * tool_use blocks.
  */
 async function* processAnthropicStream(
   body: ReadableStream<Uint8Array>,
   originalModel: string,
   requestId: string,
+  options: AnthropicStreamOptions = {},
 ): AsyncGenerator<string, void, unknown> {
-  const reader = body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
-  let messageStarted = false;
-  let contentBlockStarted = false;
-  let _inputTokens = 0;
-  let outputTokens = 0;
+  const thinkTagsMode = options.thinkTagsMode ?? "separate";
+  let cleanThinking = createThinkingChunkCleaner();
+
+  let blockIndex = -1;
+  let openBlockType: "text" | "thinking" | "tool_use" | null = null;
+  let thinkingStreamed = false;
+  let inlineThinkingOpen = false;
+  let stopReason: AnthropicMessagesResponse["stop_reason"] = "end_turn";
+  let outputTokens: number | null = null;
+  let previousTurnTokens = 0;
+  let emittedText = ""; // For the output tokens when the upstream reports none
+  let answerBuffer = "";
+  const toolPolicy = options.toolPolicy ?? DEFAULT_TOOL_CALL_POLICY;
+  const acceptToolCall = (name: string) =>
+    routeToolCall(name, options.clientTools, toolPolicy) !== "unknown" &&
+    (toolPolicy.parallel || toolCallDetector.toolCalls.length === 0);
+  let toolCallMade = false;
+  let toolCallDetector = new StreamingToolCallDetector(acceptToolCall);
+  let clientToolUseBlocks = new Set<number>();
+
+  function* closeBlock(): Generator<string> {
+    if (openBlockType !== null) {
+      yield formatAnthropicEvent({ type: "content_block_stop", index: blockIndex });
+      openBlockType = null;
+    }
+  }
+
+  function* emitDelta(type: "text" | "thinking", text: string): Generator<string> {
+    if (!text) return;
+
+    if (openBlockType !== type) {
+      yield* closeBlock();
+      blockIndex++;
+      openBlockType = type;
+      yield formatAnthropicEvent({
+        type: "content_block_start",
+        index: blockIndex,
+        content_block: type === "text" ? { type: "text", text: "" } : { type: "thinking", thinking: "", signature: "" },
+      });
+    }
+
+    emittedText += text;
+    yield formatAnthropicEvent({
+      type: "content_block_delta",
+      index: blockIndex,
+      delta: type === "text" ? { type: "text_delta", text } : { type: "thinking_delta", thinking: text },
+    });
+  }
+
+  // Opening and closing markup for thinking inlined into text blocks
+  const inlineThinkingTags: Record<ThinkTagsMode, [string, string]> = {
+    think: ["<think>", "</think>"],
+    thinking: ["<thinking>", "</thinking>"],
+    raw: ["", "</details>"],
+    strip: ["", ""],
+    separate: ["", ""],
+  };
+
+  function* emitThinking(rawChunk: string): Generator<string> {
+    if (thinkTagsMode === "separate") {
+      yield* emitDelta("thinking", cleanThinking(rawChunk));
+      return;
+    }
+
+    if (!inlineThinkingOpen) {
+      inlineThinkingOpen = true;
+      yield* emitDelta("text", inlineThinkingTags[thinkTagsMode][0]);
+    }
+    yield* emitDelta("text", thinkTagsMode === "raw" ? rawChunk : cleanThinking(rawChunk));
+  }
+
+  function* closeInlineThinking(): Generator<string> {
+    if (inlineThinkingOpen) {
+      inlineThinkingOpen = false;
+      yield* emitDelta("text", inlineThinkingTags[thinkTagsMode][1]);
+    }
+  }
+
+  function* emitToolUse(
+    toolCall: { id: string; function: { name: string; arguments: string } },
+    type: "tool_use" | "server_tool_use" = "tool_use",
+  ): Generator<string> {
+    yield* closeBlock();
+    blockIndex++;
+    yield formatAnthropicEvent({
+      type: "content_block_start",
+      index: blockIndex,
+      content_block: { type, id: toolCall.id, name: toolCall.function.name, input: {} },
+    });
+    yield formatAnthropicEvent({
+      type: "content_block_delta",
+      index: blockIndex,
+      delta: { type: "input_json_delta", partial_json: toolCall.function.arguments },
+    });
+    yield formatAnthropicEvent({ type: "content_block_stop", index: blockIndex });
+  }
+
+  // Send detector events: prose as text deltas and client tool calls as streamed tool_use blocks.
+  // Native calls are only sent when the turn is finished and they are executed.
+  function* emitToolCallEvents(events: ToolCallStreamEvent[]): Generator<string> {
+    for (const event of events) {
+      if (event.type === "text") {
+        yield* emitDelta("text", event.text);
+      } else if (
+        event.type === "tool_call_start" && routeToolCall(event.name, options.clientTools, toolPolicy) === "client"
+      ) {
+        yield* closeBlock();
+        blockIndex++;
+        openBlockType = "tool_use";
+        clientToolUseBlocks.add(event.index);
+        yield formatAnthropicEvent({
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: { type: "tool_use", id: event.id, name: event.name, input: {} },
+        });
+      } else if (event.type === "tool_call_delta" && clientToolUseBlocks.has(event.index)) {
+        yield formatAnthropicEvent({
+          type: "content_block_delta",
+          index: blockIndex,
+          delta: { type: "input_json_delta", partial_json: event.arguments },
+        });
+      } else if (event.type === "tool_call_end" && clientToolUseBlocks.has(event.index)) {
+        yield* closeBlock();
+      }
+    }
+  }
+
+  yield formatAnthropicEvent({
+    type: "message_start",
+    message: {
+      id: `msg_${requestId}`,
+      type: "message",
+      role: "assistant",
+      model: originalModel,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: options.inputTokens ?? 0, output_tokens: 0 },
+    },
+  });
+  yield formatAnthropicEvent({ type: "ping" });
+
+  // Native tool calls continue the conversation with a new upstream body
+  let currentBody: ReadableStream<Uint8Array> | null = body;
 
   try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const dataStr = line.substring(6).trim();
-          if (dataStr === "[DONE]") {
-            // Send message_stop event
-            yield `event: message_stop\ndata: {\"type\":\"message_stop\"}\n\n`;
-            return;
-          }
+    while (currentBody) {
+      const turnBody: ReadableStream<Uint8Array> = currentBody;
+      currentBody = null;
+
+      for await (const upstreamData of readUpstreamEvents(turnBody)) {
+        const data = upstreamData.data;
+        const upstreamError = upstreamData.error || data.error || data.inner?.error;
+        if (upstreamError) {
+          console.warn("Upstream error in Anthropic stream:", upstreamError.detail);
+          yield* closeBlock();
+          yield formatAnthropicEvent({
+            type: "error",
+            error: { type: "api_error", message: upstreamError.detail || "Upstream service returned an error" },
+          });
+          return;
+        }
 
-          try {
-            const chunk = JSON.parse(dataStr);
-            const choice = chunk.choices?.[0];
-
-            if (!choice) continue;
-
-            // Send message_start if this is the first chunk
-            if (!messageStarted) {
-              messageStarted = true;
-
-              const startEvent: AnthropicStreamEvent = {
-                type: "message_start",
-                message: {
-                  id: `msg_${requestId}`,
-                  type: "message",
-                  role: "assistant",
-                  model: originalModel,
-                  content: [],
-                  stop_reason: null,
-                  usage: { input_tokens: 0, output_tokens: 0 },
-                },
-              };
+        if (data.usage) {
+          outputTokens = data.usage.completion_tokens;
+        }
 
-              yield `event: message_start\ndata: ${JSON.stringify(startEvent)}\n\n`;
-            }
+        const finishReason = (data as { choices?: Array<{ finish_reason?: string | null }> }).choices?.[0]
+          ?.finish_reason;
+        if (finishReason && finishReason !== "stop") {
+          stopReason = mapFinishReason(finishReason);
+        }
 
-            const delta = choice.delta || {};
-
-            // Handle text content
-            if (delta.content && typeof delta.content === "string") {
-              // Send content_block_start if this is the first content
-              if (!contentBlockStarted) {
-                contentBlockStarted = true;
-                const blockStartEvent: AnthropicStreamEvent = {
-                  type: "content_block_start",
-                  index: 0,
-                  content_block: {
-                    type: "text",
-                    text: "",
-                  },
-                };
-                yield `event: content_block_start\ndata: ${JSON.stringify(blockStartEvent)}\n\n`;
-              }
-
-              // Send content delta
-              const deltaEvent: AnthropicStreamEvent = {
-                type: "content_block_delta",
-                index: 0,
-                delta: {
-                  type: "text_delta",
-                  text: delta.content,
-                },
-              };
-              yield `event: content_block_delta\ndata: ${JSON.stringify(deltaEvent)}\n\n`;
+        // edit_content carries the complete thinking block plus the first answer characters
+        let answerText = "";
+        if (data.edit_content && data.edit_content.includes("</details>")) {
+          const parts = data.edit_content.split("</details>");
+          if (!thinkingStreamed) {
+            if (thinkTagsMode === "separate") {
+              yield* emitDelta("thinking", cleanThinkingChunk(parts[0].replace(/^[^>]*>/, "")).trim());
+            } else {
+              yield* emitThinking(thinkTagsMode === "raw" ? parts[0] : parts[0].replace(/^[^>]*>/, ""));
             }
+            thinkingStreamed = true;
+          }
+          yield* closeInlineThinking();
+          answerText += parts.slice(1).join("</details>").replace(/^\n/, "");
+        }
 
-            // Handle completion
-            if (choice.finish_reason) {
-              // Send content_block_stop if we had content
-              if (contentBlockStarted) {
-                const blockStopEvent: AnthropicStreamEvent = {
-                  type: "content_block_stop",
-                  index: 0,
-                };
-                yield `event: content_block_stop\ndata: ${JSON.stringify(blockStopEvent)}\n\n`;
-              }
-
-              // Map finish reason
-              let stopReason: AnthropicMessagesResponse["stop_reason"] = "end_turn";
-              switch (choice.finish_reason) {
-                case "length":
-                  stopReason = "max_tokens";
-                  break;
-                case "function_call":
-                case "tool_calls":
-                  stopReason = "tool_use";
-                  break;
-                case "content_filter":
-                  stopReason = "stop_sequence";
-                  break;
-                default:
-                  stopReason = "end_turn";
-              }
-
-              // Get usage info
-              if (chunk.usage) {
-                outputTokens = chunk.usage.completion_tokens || 0;
-                _inputTokens = chunk.usage.prompt_tokens || 0;
-              }
-
-              // Send message_delta
-              const messageDeltaEvent: AnthropicStreamEvent = {
-                type: "message_delta",
-                delta: {
-                  type: "text_delta",
-                  stop_reason: stopReason,
-                  stop_sequence: null,
-                },
-                usage: { output_tokens: outputTokens },
-              };
-              yield `event: message_delta\ndata: ${JSON.stringify(messageDeltaEvent)}\n\n`;
+        if (data.delta_content) {
+          if (data.phase === "thinking") {
+            yield* emitThinking(data.delta_content);
+            thinkingStreamed = true;
+          } else {
+            yield* closeInlineThinking();
+            answerText += data.delta_content;
+          }
+        }
 
-              // Send message_stop
-              yield `event: message_stop\ndata: {\"type\":\"message_stop\"}\n\n`;
-              return;
-            }
+        if (answerText) {
+          answerBuffer += answerText;
+          yield* emitToolCallEvents(toolCallDetector.push(answerText));
+        }
+
+        if (data.done || data.phase === "done") {
+          break;
+        }
+      }
+
+      // Handle the tool calls of the finished turn; client calls were already streamed as tool_use blocks
+      yield* emitToolCallEvents(toolCallDetector.end());
+      const { client, native } = partitionToolCalls(toolCallDetector.toolCalls, options.clientTools, toolPolicy);
+
+      if (client.length > 0) {
+        if (native.length > 0) {
+          console.warn(`Not executing ${native.length} native tool calls mixed with client tool calls`);
+        }
+        stopReason = "tool_use";
+      } else if (native.length > 0) {
+        toolCallMade = true;
+        const separator = stripToolCallMarkup(answerBuffer) ? "\n\n" : "";
+
+        if (!options.onNativeToolCall) {
+          // Without an agent loop the tool results are the answer
+          const results = await executeToolCalls(native);
+          yield* emitDelta("text", separator + results.map(({ result }) => result).join("\n\n"));
+        } else {
+          // Native tools run server-side; show the calls, keep their results internal and continue with the next turn
+          let step: NativeToolStep | null = null;
+          let failure: string | null = null;
+          try {
+            step = await options.onNativeToolCall(native, answerBuffer);
           } catch (error) {
-            console.warn("Failed to parse streaming chunk:", error);
-            continue;
+            console.error("Failed to continue after tool calls in Anthropic stream:", error);
+            failure = `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`;
+          }
+
+          if (step) {
+            for (const toolCall of native) {
+              yield* emitToolUse(toolCall, "server_tool_use");
+            }
+            currentBody = step.body;
+          } else {
+            yield* emitDelta("text", separator + (failure ?? formatToolLimitNotice(native)));
           }
         }
+      } else if (requiresToolCall(toolPolicy) && !toolCallMade) {
+        // tool_choice requires a call that the model did not make: re-prompt or fail
+        const retry = options.onNativeToolCall
+          ? await options.onNativeToolCall([], answerBuffer).catch((error) => {
+            console.error("Failed to re-prompt for a required tool call:", error);
+            return null;
+          })
+          : null;
+        if (!retry) {
+          yield* closeBlock();
+          yield formatAnthropicEvent({
+            type: "error",
+            error: { type: "api_error", message: "The model did not call the tool required by tool_choice" },
+          });
+          return;
+        }
+        currentBody = retry.body;
+      }
+
+      if (currentBody) {
+        // Reset per-turn state and read the next upstream turn
+        previousTurnTokens += outputTokens ?? 0;
+        outputTokens = null;
+        answerBuffer = "";
+        toolCallDetector = new StreamingToolCallDetector(acceptToolCall);
+        clientToolUseBlocks = new Set();
+        thinkingStreamed = false;
+        inlineThinkingOpen = false;
+        cleanThinking = createThinkingChunkCleaner();
       }
     }
   } catch (error) {
     console.error("Error in Anthropic stream processing:", error);
-    // Send error event
-    const errorEvent = {
+    yield* closeBlock();
+    yield formatAnthropicEvent({
       type: "error",
-      error: {
-        type: "api_error",
-        message: "Stream processing error",
-      },
-    };
-    yield `event: error\ndata: ${JSON.stringify(errorEvent)}\n\n`;
-  } finally {
-    try {
-      reader.releaseLock();
-    } catch {
-      // Ignore lock release errors
-    }
+      error: { type: "api_error", message: "Stream processing error" },
+    });
+    return;
   }
+
+  yield* closeBlock();
+  yield formatAnthropicEvent({
+    type: "message_delta",
+    delta: { stop_reason: stopReason, stop_sequence: null },
+    usage: { output_tokens: outputTokens !== null ? previousTurnTokens + outputTokens : countTextTokens(emittedText) },
+  });
+  yield formatAnthropicEvent({ type: "message_stop" });
 }
 
 /**
@@ -918,6 +1139,7 @@ export {
   type AnthropicMessagesResponse,
   type AnthropicModel,
   type AnthropicStreamEvent,
+  type AnthropicStreamOptions,
   type AnthropicTokenCountRequest,
   type AnthropicTokenCountResponse,
   CLAUDE_MODEL_MAPPINGS,
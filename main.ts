@@ -17,9 +17,13 @@
  * See src/ directory for all module implementations.
  */
 
-import { main } from "./src/server/router.ts";
+import { main, mainMcpStdio } from "./src/server/router.ts";
 
-// Start server
+// Start server (or an MCP server on stdio with --mcp-stdio)
 if (import.meta.main) {
-  main();
+  if (Deno.args.includes("--mcp-stdio")) {
+    await mainMcpStdio();
+  } else {
+    await main();
+  }
 }
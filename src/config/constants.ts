@@ -11,11 +11,16 @@ export const CONFIG = {
   TOKEN_RETRY_THRESHOLD: 3,
   ANONYMOUS_TOKEN_TTL_MS: 60 * 60 * 1000, // 1 hour
   TOKEN_CACHE_DURATION_MS: 5 * 60 * 1000, // 5 minutes
+  TOKEN_FAILOVER_STATUSES: [401, 403, 429] as number[], // Upstream statuses that trigger token failover
+  TOKEN_EXPIRY_MARGIN_MS: 5 * 60 * 1000, // Tokens are no longer used this long before their JWT expires
 
   // Retry Configuration
   MAX_RETRY_ATTEMPTS: 3,
   RETRY_DELAY_MS: 2000,
 
+  // Streaming
+  STREAM_PING_INTERVAL_MS: 15000, // Keepalive interval for Anthropic SSE streams
+
   // Request Limits
   MAX_REQUEST_SIZE: 10 * 1024 * 1024, // 10MB
 
@@ -48,10 +53,214 @@ export const CONFIG = {
   get DASHBOARD_ENABLED(): boolean {
     return Deno.env.get("DASHBOARD_ENABLED") !== "false";
   },
+  get STRICT_PARAMS(): boolean {
+    return Deno.env.get("STRICT_PARAMS") === "true"; // default false
+  },
+  get THINK_TAGS_MODE(): string {
+    return Deno.env.get("THINK_TAGS_MODE") || "think";
+  },
+  get ANTHROPIC_THINK_TAGS_MODE(): string {
+    return Deno.env.get("ANTHROPIC_THINK_TAGS_MODE") || "separate";
+  },
+  get MAX_TOOL_ITERATIONS(): number {
+    // Rounds of native tool calls executed per request before the loop stops
+    const value = parseInt(Deno.env.get("MAX_TOOL_ITERATIONS") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 5 : value;
+  },
+  get TOOL_PARALLELISM(): number {
+    // Native tool calls from the same turn that may run at the same time
+    const value = parseInt(Deno.env.get("TOOL_PARALLELISM") ?? "", 10);
+    return Number.isNaN(value) || value < 1 ? 4 : value;
+  },
+  get TOOL_CHOICE_RETRIES(): number {
+    // Re-prompts when tool_choice requires a tool call and the model answered without one
+    const value = parseInt(Deno.env.get("TOOL_CHOICE_RETRIES") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 1 : value;
+  },
+  get TOOLS_DIR(): string {
+    // Directory scanned for tool pack modules at startup and on reload
+    return Deno.env.get("TOOLS_DIR") || "tools";
+  },
+  get TOOLS_MANIFEST(): string {
+    // Optional JSON manifest listing tool pack modules and disabled tools
+    return Deno.env.get("TOOLS_MANIFEST") || "";
+  },
+  get HTTP_TOOLS_FILE(): string {
+    // Optional JSON file with declarative HTTP tool definitions
+    return Deno.env.get("HTTP_TOOLS_FILE") || "";
+  },
+  get MCP_SERVERS_FILE(): string {
+    // Optional JSON file with the MCP servers whose tools are registered as native tools
+    return Deno.env.get("MCP_SERVERS_FILE") || "";
+  },
+  get MCP_STDIO_KEY(): string {
+    // API key the stdio MCP server runs chat completions and tools with; DEFAULT_KEY when unset
+    return Deno.env.get("MCP_STDIO_KEY") || "";
+  },
+  get MCP_TIMEOUT_MS(): number {
+    // Default timeout of MCP requests, including tool calls
+    const value = parseInt(Deno.env.get("MCP_TIMEOUT_MS") ?? "", 10);
+    return Number.isNaN(value) || value <= 0 ? 30000 : value;
+  },
+  get TOOLS_DISABLED(): string[] {
+    // Comma-separated names of tools that are registered but not offered or executed
+    return (Deno.env.get("TOOLS_DISABLED") || "").split(",").map((name) => name.trim()).filter(Boolean);
+  },
+  get TOOL_POLICY_FILE(): string {
+    // Optional JSON file with per-tool limits and per-API-key tool access
+    return Deno.env.get("TOOL_POLICY_FILE") || "";
+  },
+  get TOOL_TIMEOUT_MS(): number {
+    // Default time a native tool call may take; 0 for none
+    const value = parseInt(Deno.env.get("TOOL_TIMEOUT_MS") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 120000 : value;
+  },
+  get TOOL_MAX_RESULT_CHARS(): number {
+    // Default size cap of a native tool result, in characters; 0 for none
+    const value = parseInt(Deno.env.get("TOOL_MAX_RESULT_CHARS") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 100000 : value;
+  },
+  get DEFAULT_KEY(): string {
+    // Client API key with full access; none when unset or left at the placeholder of the examples
+    const key = Deno.env.get("DEFAULT_KEY") || "";
+    return key === CONFIG.DEFAULT_API_KEY ? "" : key;
+  },
+  get API_KEYS_STORE(): "file" | "kv" {
+    // Where client API keys are stored: a JSON file (API_KEYS_FILE) or Deno KV
+    return Deno.env.get("API_KEYS_STORE") === "kv" ? "kv" : "file";
+  },
+  get API_KEYS_FILE(): string {
+    // JSON file of the file key store; keys are kept in memory only when unset
+    return Deno.env.get("API_KEYS_FILE") || "";
+  },
+  get API_KEYS_KV_PATH(): string {
+    // Deno KV database of the kv key store (Deno's default database when unset)
+    return Deno.env.get("API_KEYS_KV_PATH") || "";
+  },
+  get RATE_LIMIT_RPM(): number {
+    // Requests per minute of each API key without its own limit; 0 for none
+    const value = parseInt(Deno.env.get("RATE_LIMIT_RPM") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 0 : value;
+  },
+  get RATE_LIMIT_TPM(): number {
+    // Estimated tokens per minute of each API key without its own limit; 0 for none
+    const value = parseInt(Deno.env.get("RATE_LIMIT_TPM") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 0 : value;
+  },
+  get RATE_LIMIT_USER_RPM(): number {
+    // Requests per minute of each end user (OpenAI user, Anthropic metadata.user_id) of a key; 0 for none
+    const value = parseInt(Deno.env.get("RATE_LIMIT_USER_RPM") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 0 : value;
+  },
+  get RATE_LIMIT_USER_TPM(): number {
+    // Estimated tokens per minute of each end user of a key; 0 for none
+    const value = parseInt(Deno.env.get("RATE_LIMIT_USER_TPM") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 0 : value;
+  },
+  get RATE_LIMIT_STORE(): "memory" | "kv" {
+    // Where rate limit buckets are kept: in memory, or in Deno KV to share them between instances
+    return Deno.env.get("RATE_LIMIT_STORE") === "kv" ? "kv" : "memory";
+  },
+  get RATE_LIMIT_KV_PATH(): string {
+    // Deno KV database of the kv rate limit store (Deno's default database when unset)
+    return Deno.env.get("RATE_LIMIT_KV_PATH") || "";
+  },
+  get USAGE_STORE(): "memory" | "kv" {
+    // Where usage totals are kept: in memory (lost on restart), or in Deno KV
+    return Deno.env.get("USAGE_STORE") === "kv" ? "kv" : "memory";
+  },
+  get USAGE_KV_PATH(): string {
+    // Deno KV database of the kv usage store (Deno's default database when unset)
+    return Deno.env.get("USAGE_KV_PATH") || "";
+  },
+  get MODEL_PRICES(): string {
+    // JSON object overriding model prices, by model id or name: {"GLM-4.5": {"input_per_million": 0.6, ...}}
+    return Deno.env.get("MODEL_PRICES") || "";
+  },
+  get TOKEN_COOLDOWN_MS(): number {
+    // First cooldown of a token after TOKEN_RETRY_THRESHOLD failures; it doubles with each further cooldown
+    const value = parseInt(Deno.env.get("TOKEN_COOLDOWN_MS") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 60000 : value;
+  },
+  get TOKEN_COOLDOWN_MAX_MS(): number {
+    // Longest cooldown of a token
+    const value = parseInt(Deno.env.get("TOKEN_COOLDOWN_MAX_MS") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 60 * 60 * 1000 : value;
+  },
+  get TOKEN_HEALTH_INTERVAL_MS(): number {
+    // Interval of the background health probes of pool tokens; 0 for none
+    const value = parseInt(Deno.env.get("TOKEN_HEALTH_INTERVAL_MS") ?? "", 10);
+    return Number.isNaN(value) || value < 0 ? 5 * 60 * 1000 : value;
+  },
+  get ADMIN_KEY(): string {
+    // Bearer key for the /admin API; the admin API is disabled when unset
+    return Deno.env.get("ADMIN_KEY") || "";
+  },
+  get ADMIN_STATE_FILE(): string {
+    // JSON file keeping changes made through the admin API across restarts; the admin API refuses them when unset
+    return Deno.env.get("ADMIN_STATE_FILE") || "";
+  },
+  get ADMIN_AUDIT_FILE(): string {
+    // File the admin API appends its audit log to, one JSON object per line
+    return Deno.env.get("ADMIN_AUDIT_FILE") || "";
+  },
+  get RUN_CODE_ENABLED(): boolean {
+    // Register the run_code tool (also needs --allow-run for the Deno executable)
+    return Deno.env.get("RUN_CODE_ENABLED") === "true";
+  },
+  get RUN_CODE_TIMEOUT_MS(): number {
+    // Wall-clock limit of one run_code execution
+    const value = parseInt(Deno.env.get("RUN_CODE_TIMEOUT_MS") ?? "", 10);
+    return Number.isNaN(value) || value <= 0 ? 10000 : value;
+  },
+  get RUN_CODE_CPU_MS(): number {
+    // CPU-time limit of one run_code execution
+    const value = parseInt(Deno.env.get("RUN_CODE_CPU_MS") ?? "", 10);
+    return Number.isNaN(value) || value <= 0 ? 5000 : value;
+  },
+  get RUN_CODE_MEMORY_MB(): number {
+    // V8 heap limit of the run_code subprocess
+    const value = parseInt(Deno.env.get("RUN_CODE_MEMORY_MB") ?? "", 10);
+    return Number.isNaN(value) || value < 16 ? 128 : value;
+  },
+  get RUN_CODE_MAX_OUTPUT(): number {
+    // Bytes of stdout and of stderr kept from one run_code execution
+    const value = parseInt(Deno.env.get("RUN_CODE_MAX_OUTPUT") ?? "", 10);
+    return Number.isNaN(value) || value <= 0 ? 65536 : value;
+  },
+  get RUN_CODE_MAX_CONCURRENT(): number {
+    // run_code executions allowed at the same time
+    const value = parseInt(Deno.env.get("RUN_CODE_MAX_CONCURRENT") ?? "", 10);
+    return Number.isNaN(value) || value < 1 ? 2 : value;
+  },
+  get RUN_CODE_PERMISSIONS(): string {
+    // Deno permissions granted to run_code, e.g. "net=api.example.com;read=/srv/data" (none by default)
+    return Deno.env.get("RUN_CODE_PERMISSIONS") || "";
+  },
+  get FETCH_ALLOW_HOSTS(): string[] {
+    // Comma-separated hosts, "*.example.com" patterns or CIDR blocks that URL-fetching tools may always reach
+    return (Deno.env.get("FETCH_ALLOW_HOSTS") || "").split(",").map((host) => host.trim()).filter(Boolean);
+  },
+  get FETCH_DENY_HOSTS(): string[] {
+    // Comma-separated hosts, patterns or CIDR blocks that URL-fetching tools may never reach
+    return (Deno.env.get("FETCH_DENY_HOSTS") || "").split(",").map((host) => host.trim()).filter(Boolean);
+  },
+  get FETCH_URL_MAX_BYTES(): number {
+    // Bytes of a response body read by fetch_url
+    const value = parseInt(Deno.env.get("FETCH_URL_MAX_BYTES") ?? "", 10);
+    return Number.isNaN(value) || value <= 0 ? 2_000_000 : value;
+  },
+  get DEFAULT_TIMEZONE(): string {
+    // IANA time zone of the date tools when a call names none
+    return Deno.env.get("DEFAULT_TIMEZONE") || "UTC";
+  },
+  get TOOL_COLLISION_POLICY(): "native" | "client" {
+    // Which side handles a tool that is both registered natively and defined by the client
+    return Deno.env.get("TOOL_COLLISION_POLICY") === "client" ? "client" : "native";
+  },
 } as const;
 
 export const UPSTREAM_URL = Deno.env.get("UPSTREAM_URL") || "https://chat.z.ai/api/chat/completions";
-export const DEFAULT_KEY = Deno.env.get("DEFAULT_KEY") || CONFIG.DEFAULT_API_KEY;
 export const ZAI_TOKEN = Deno.env.get("ZAI_TOKEN") || "";
 export const DEFAULT_LANGUAGE = Deno.env.get("DEFAULT_LANGUAGE") || CONFIG.DEFAULT_LANGUAGE;
 
@@ -65,8 +274,12 @@ export function validateEnvironment(): string[] {
     warnings.push("⚠️  No ZAI_TOKEN configured - will use anonymous tokens");
   }
 
-  if (DEFAULT_KEY === CONFIG.DEFAULT_API_KEY) {
-    warnings.push("⚠️  DEFAULT_KEY is still set to default value - please update for production!");
+  if (Deno.env.get("DEFAULT_KEY") === CONFIG.DEFAULT_API_KEY) {
+    warnings.push(
+      "⚠️  DEFAULT_KEY is still set to the placeholder sk-your-key and is ignored - please set a real key!",
+    );
+  } else if (!CONFIG.DEFAULT_KEY) {
+    warnings.push("⚠️  No DEFAULT_KEY configured - only keys from the key store are accepted");
   }
 
   return warnings;
@@ -23,8 +23,38 @@ export interface ModelConfig {
     temperature: number;
     max_tokens?: number;
   };
+  supportedParams: string[]; // Sampling parameters forwarded upstream
+  paramRanges: Record<string, ParamRange>; // Allowed range per numeric parameter
+  pricing?: ModelPricing; // Used for usage accounting; MODEL_PRICES overrides it
 }
 
+/**
+ * Price of a model in USD per million tokens
+ * Completion tokens include reasoning tokens.
+ */
+export interface ModelPricing {
+  input_per_million: number;
+  output_per_million: number;
+}
+
+/**
+ * Inclusive numeric range for a sampling parameter
+ */
+export interface ParamRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Ranges shared by all models (max_tokens is set per model)
+ */
+const BASE_PARAM_RANGES: Record<string, ParamRange> = {
+  temperature: { min: 0, max: 2 },
+  top_p: { min: 0, max: 1 },
+  presence_penalty: { min: -2, max: 2 },
+  frequency_penalty: { min: -2, max: 2 },
+};
+
 /**
  * Supported models configuration
  */
@@ -43,6 +73,12 @@ export const SUPPORTED_MODELS: ModelConfig[] = [
       temperature: 0.6,
       max_tokens: 80000,
     },
+    supportedParams: ["temperature", "top_p", "max_tokens", "presence_penalty", "frequency_penalty"],
+    paramRanges: {
+      ...BASE_PARAM_RANGES,
+      max_tokens: { min: 1, max: 80000 },
+    },
+    pricing: { input_per_million: 0.6, output_per_million: 2.2 },
   },
   {
     id: "GLM-4-6-API-V1",
@@ -58,6 +94,12 @@ export const SUPPORTED_MODELS: ModelConfig[] = [
       temperature: 0.6,
       max_tokens: 195000,
     },
+    supportedParams: ["temperature", "top_p", "max_tokens", "presence_penalty", "frequency_penalty"],
+    paramRanges: {
+      ...BASE_PARAM_RANGES,
+      max_tokens: { min: 1, max: 195000 },
+    },
+    pricing: { input_per_million: 0.6, output_per_million: 2.2 },
   },
   {
     id: "glm-4.5v",
@@ -72,6 +114,12 @@ export const SUPPORTED_MODELS: ModelConfig[] = [
       top_p: 0.6,
       temperature: 0.8,
     },
+    supportedParams: ["temperature", "top_p", "max_tokens"],
+    paramRanges: {
+      ...BASE_PARAM_RANGES,
+      max_tokens: { min: 1, max: 32768 },
+    },
+    pricing: { input_per_million: 0.6, output_per_million: 1.8 },
   },
 ];
 
@@ -0,0 +1,422 @@
+/**
+ * Admin API handlers
+ * Runtime management endpoints under /admin, authenticated with ADMIN_KEY
+ * Changes are persisted (ADMIN_STATE_FILE, the API key store) and recorded in the audit log.
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { getToolPackStatus, loadToolPacks } from "../services/tool-loader.ts";
+import { getMcpServerStatus } from "../services/mcp-tools.ts";
+import { loadToolPolicy } from "../services/tool-policy.ts";
+import {
+  type ApiKeyInput,
+  type ApiKeyRecord,
+  createApiKey,
+  getApiKeyStore,
+  isApiKeyStorePersistent,
+  revokeApiKey,
+  rotateApiKey,
+  updateApiKey,
+  validateApiKeyInput,
+} from "../services/api-keys.ts";
+import {
+  addPoolToken,
+  getAdminSettings,
+  getAuditLog,
+  isAdminStatePersistent,
+  recordAudit,
+  removePoolToken,
+  type SettingsChange,
+  setToolState,
+  updateSettings,
+  validateSettingsChange,
+} from "../services/admin-state.ts";
+import { tokenPool } from "../services/token-pool.ts";
+import { describePoolTokens } from "../services/token-health.ts";
+import { getUsage, sumUsage, usagePeriods, type UsageRow } from "../services/usage.ts";
+import { createErrorResponse, setCORSHeaders } from "../utils/helpers.ts";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Compare two strings in constant time
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let difference = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    difference |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return difference === 0;
+}
+
+/**
+ * Check the admin bearer key
+ * @returns Error response, or null if the request is authorized
+ */
+function authorizeAdmin(request: Request): Response | null {
+  const adminKey = CONFIG.ADMIN_KEY;
+  if (!adminKey) {
+    return createErrorResponse(403, "permission_error", "Admin API is disabled. Set ADMIN_KEY to enable it.");
+  }
+
+  const authHeader = request.headers.get("Authorization") || "";
+  const key = authHeader.startsWith("Bearer ") ? authHeader.substring(7) : "";
+  if (!timingSafeEqual(key, adminKey)) {
+    return createErrorResponse(401, "authentication_error", "Invalid admin key");
+  }
+  return null;
+}
+
+function jsonResponse(data: unknown, status = 200): Response {
+  const headers = new Headers();
+  setCORSHeaders(headers);
+  headers.set("Content-Type", "application/json");
+  return new Response(JSON.stringify(data), { status, headers });
+}
+
+function invalidRequest(error: unknown): Response {
+  return createErrorResponse(400, "invalid_request_error", error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Read a JSON object request body
+ * @throws Error if the body is not a JSON object
+ */
+async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  const body = await request.json().catch(() => null);
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new Error("Request body must be a JSON object");
+  }
+  return body;
+}
+
+/**
+ * Refuse a change of settings, pool tokens or tools that would be lost on restart
+ * @returns Error response, or null if ADMIN_STATE_FILE keeps the change
+ */
+function requirePersistentState(): Response | null {
+  if (isAdminStatePersistent()) return null;
+  return createErrorResponse(
+    409,
+    "conflict_error",
+    "Runtime changes are kept in memory only and would be lost on restart. " +
+      "Set ADMIN_STATE_FILE to change settings, pool tokens and tools at runtime.",
+  );
+}
+
+/**
+ * Key record as shown by the admin API, without its hash
+ */
+function publicKey(record: ApiKeyRecord): Omit<ApiKeyRecord, "key_hash"> {
+  const { key_hash: _, ...rest } = record;
+  return rest;
+}
+
+/**
+ * Handle /admin/tools requests
+ * - GET /admin/tools: loaded tools with source, version and state, and tool pack load errors
+ * - POST /admin/tools/reload: reload tool packs and TOOL_POLICY_FILE
+ * - POST /admin/tools/{name}/enable, POST /admin/tools/{name}/disable: toggle a tool
+ * Toggles are refused without ADMIN_STATE_FILE, as they would be lost on the next restart.
+ * @returns Response, or null if no endpoint matches
+ */
+async function handleAdminTools(request: Request, path: string[]): Promise<Response | null> {
+  if (path.length === 0 && request.method === "GET") {
+    return jsonResponse(getToolPackStatus());
+  }
+
+  if (path.length === 1 && path[0] === "reload" && request.method === "POST") {
+    logger.info("Reloading tool packs and tool policy (admin request)");
+    await loadToolPolicy();
+    return jsonResponse(await loadToolPacks());
+  }
+
+  if (path.length === 2 && (path[1] === "enable" || path[1] === "disable") && request.method === "POST") {
+    const refused = requirePersistentState();
+    if (refused) return refused;
+    const name = decodeURIComponent(path[0]);
+    const enabled = path[1] === "enable";
+    if (!await setToolState(name, enabled)) {
+      return createErrorResponse(404, "not_found_error", `Tool not found: ${name}`);
+    }
+    await recordAudit(enabled ? "tool.enable" : "tool.disable", name);
+    return jsonResponse({ name, enabled });
+  }
+
+  return null;
+}
+
+/**
+ * Handle /admin/keys requests
+ * - GET /admin/keys: all client API keys
+ * - POST /admin/keys: create a key; the response holds the key, which is not shown again
+ * - GET, PATCH, DELETE /admin/keys/{id}: show, change or revoke a key
+ * - POST /admin/keys/{id}/rotate: replace the key of a record
+ * Changes are refused while keys are kept in memory only, as they would be lost on the next restart.
+ * @returns Response, or null if no endpoint matches
+ */
+async function handleAdminKeys(request: Request, path: string[]): Promise<Response | null> {
+  if (path.length === 0 && request.method === "GET") {
+    return jsonResponse({ keys: (await getApiKeyStore().list()).map(publicKey) });
+  }
+
+  if (request.method !== "GET" && !isApiKeyStorePersistent()) {
+    return createErrorResponse(
+      409,
+      "conflict_error",
+      "API keys are kept in memory only and changes would be lost on restart. " +
+        "Set API_KEYS_FILE or API_KEYS_STORE=kv to manage keys at runtime.",
+    );
+  }
+
+  if (path.length === 0 && request.method === "POST") {
+    let input: ApiKeyInput;
+    try {
+      input = await readJsonObject(request) as unknown as ApiKeyInput;
+      if (input.name === undefined) throw new Error("name is required");
+      validateApiKeyInput(input);
+    } catch (error) {
+      return invalidRequest(error);
+    }
+    const { key, record } = await createApiKey(input);
+    await recordAudit("key.create", record.id, { name: record.name, owner: record.owner });
+    return jsonResponse({ key, ...publicKey(record) }, 201);
+  }
+
+  const id = decodeURIComponent(path[0] ?? "");
+  const notFound = () => createErrorResponse(404, "not_found_error", `API key not found: ${id}`);
+
+  if (path.length === 1 && request.method === "GET") {
+    const record = await getApiKeyStore().get(id);
+    return record ? jsonResponse(publicKey(record)) : notFound();
+  }
+
+  if (path.length === 1 && request.method === "PATCH") {
+    let changes: Partial<ApiKeyInput>;
+    try {
+      changes = await readJsonObject(request) as Partial<ApiKeyInput>;
+      validateApiKeyInput(changes);
+    } catch (error) {
+      return invalidRequest(error);
+    }
+    const record = await updateApiKey(id, changes);
+    if (!record) return notFound();
+    await recordAudit("key.update", id, { changes });
+    return jsonResponse(publicKey(record));
+  }
+
+  if (path.length === 1 && request.method === "DELETE") {
+    if (!await revokeApiKey(id)) return notFound();
+    await recordAudit("key.revoke", id);
+    return jsonResponse({ id, revoked: true });
+  }
+
+  if (path.length === 2 && path[1] === "rotate" && request.method === "POST") {
+    const rotated = await rotateApiKey(id);
+    if (!rotated) return notFound();
+    await recordAudit("key.rotate", id, { key_prefix: rotated.record.key_prefix });
+    return jsonResponse({ key: rotated.key, ...publicKey(rotated.record) });
+  }
+
+  return null;
+}
+
+/**
+ * Handle /admin/tokens requests
+ * - GET /admin/tokens: upstream tokens in the pool with their health and statistics, and the anonymous token cache
+ * - POST /admin/tokens: add `{ "token": "..." }` to the pool
+ * - DELETE /admin/tokens/{id}: remove a token from the pool
+ * - POST /admin/tokens/anonymous/clear: drop the cached anonymous token
+ * Adding and removing tokens is refused without ADMIN_STATE_FILE, as the change would be lost on the next restart.
+ * @returns Response, or null if no endpoint matches
+ */
+async function handleAdminTokens(request: Request, path: string[]): Promise<Response | null> {
+  if (path.length === 0 && request.method === "GET") {
+    const pool = tokenPool.getTokens();
+    const tokens = (await describePoolTokens()).map((report, i) => ({
+      ...report,
+      prefix: pool[i].token.substring(0, 8),
+      valid: report.state === "active",
+    }));
+    const anonymousExpiry = tokenPool.getAnonymousTokenExpiry();
+    return jsonResponse({
+      tokens,
+      anonymous: {
+        cached: anonymousExpiry !== null,
+        expires_at: anonymousExpiry ? new Date(anonymousExpiry).toISOString() : null,
+      },
+    });
+  }
+
+  if (path.length === 0 && request.method === "POST") {
+    const refused = requirePersistentState();
+    if (refused) return refused;
+    let token: unknown;
+    try {
+      token = (await readJsonObject(request)).token;
+      if (typeof token !== "string" || !token.trim()) throw new Error("token must be a non-empty string");
+    } catch (error) {
+      return invalidRequest(error);
+    }
+    const { id, added } = await addPoolToken(token.trim());
+    if (!added) {
+      return createErrorResponse(409, "conflict_error", `Token ${id} is already in the pool`);
+    }
+    await recordAudit("token.add", id);
+    return jsonResponse({ id, added }, 201);
+  }
+
+  if (path.length === 2 && path[0] === "anonymous" && path[1] === "clear" && request.method === "POST") {
+    tokenPool.clearAnonymousTokenCache();
+    await recordAudit("token.anonymous_clear");
+    return jsonResponse({ cleared: true });
+  }
+
+  if (path.length === 1 && request.method === "DELETE") {
+    const refused = requirePersistentState();
+    if (refused) return refused;
+    const id = decodeURIComponent(path[0]);
+    if (!await removePoolToken(id)) {
+      return createErrorResponse(404, "not_found_error", `Token not found: ${id}`);
+    }
+    await recordAudit("token.remove", id);
+    return jsonResponse({ id, removed: true });
+  }
+
+  return null;
+}
+
+/**
+ * Handle /admin/settings requests
+ * - GET /admin/settings: log level and feature flag defaults
+ * - PATCH /admin/settings: change `log_level` (debug, info, warn, error) or `features`
+ * Changes are refused without ADMIN_STATE_FILE, as they would be lost on the next restart.
+ * @returns Response, or null if no endpoint matches
+ */
+async function handleAdminSettings(request: Request, path: string[]): Promise<Response | null> {
+  if (path.length === 0 && request.method === "GET") {
+    return jsonResponse(getAdminSettings());
+  }
+
+  if (path.length === 0 && request.method === "PATCH") {
+    const refused = requirePersistentState();
+    if (refused) return refused;
+    let change: SettingsChange;
+    try {
+      change = await readJsonObject(request) as SettingsChange;
+      validateSettingsChange(change);
+    } catch (error) {
+      return invalidRequest(error);
+    }
+    const settings = await updateSettings(change);
+    await recordAudit("settings.update", null, { changes: change });
+    return jsonResponse(settings);
+  }
+
+  return null;
+}
+
+const USAGE_COLUMNS = [
+  "period",
+  "key_id",
+  "key_name",
+  "owner",
+  "model",
+  "requests",
+  "estimated_requests",
+  "prompt_tokens",
+  "completion_tokens",
+  "reasoning_tokens",
+  "total_tokens",
+  "cost_usd",
+] as const;
+
+function csvField(value: unknown): string {
+  const text = String(value ?? "");
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * Handle GET /admin/usage
+ * Usage per key and model of a day (`?period=YYYY-MM-DD`) or month (`?period=YYYY-MM`, the current month by
+ * default), optionally of one key (`?key_id=`), as JSON or as CSV (`?format=csv`)
+ */
+async function handleAdminUsage(request: Request): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const period = params.get("period") ?? usagePeriods().month;
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(period)) {
+    return createErrorResponse(400, "invalid_request_error", "period must be a day (YYYY-MM-DD) or month (YYYY-MM)");
+  }
+
+  const keys = new Map((await getApiKeyStore().list()).map((record) => [record.id, record]));
+  const rows: Array<UsageRow & { key_name: string; owner: string }> = (await getUsage(
+    period,
+    params.get("key_id") ?? undefined,
+  )).map((row) => ({
+    ...row,
+    key_name: keys.get(row.key_id)?.name ?? (row.key_id === "default" ? "DEFAULT_KEY" : ""),
+    owner: keys.get(row.key_id)?.owner ?? "",
+  }));
+
+  if (params.get("format") === "csv") {
+    const lines = [
+      USAGE_COLUMNS.join(","),
+      ...rows.map((row) => USAGE_COLUMNS.map((column) => csvField(row[column])).join(",")),
+    ];
+    const headers = new Headers();
+    setCORSHeaders(headers);
+    headers.set("Content-Type", "text/csv; charset=utf-8");
+    headers.set("Content-Disposition", `attachment; filename="usage-${period}.csv"`);
+    return new Response(lines.join("\r\n") + "\r\n", { status: 200, headers });
+  }
+  return jsonResponse({ period, rows, totals: sumUsage(rows) });
+}
+
+/**
+ * Handle /admin/* requests
+ */
+export async function handleAdmin(request: Request): Promise<Response> {
+  if (request.method === "OPTIONS") {
+    const headers = new Headers();
+    setCORSHeaders(headers);
+    return new Response(null, { status: 200, headers });
+  }
+
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const pathname = new URL(request.url).pathname;
+  const [section, ...path] = pathname.split("/").filter(Boolean).slice(1);
+  let response: Response | null = null;
+  try {
+    if (section === "tools") {
+      response = await handleAdminTools(request, path);
+    } else if (section === "keys") {
+      response = await handleAdminKeys(request, path);
+    } else if (section === "tokens") {
+      response = await handleAdminTokens(request, path);
+    } else if (section === "settings") {
+      response = await handleAdminSettings(request, path);
+    } else if (section === "usage" && path.length === 0 && request.method === "GET") {
+      response = await handleAdminUsage(request);
+    } else if (section === "audit" && path.length === 0 && request.method === "GET") {
+      const limit = Number(new URL(request.url).searchParams.get("limit") ?? 100);
+      response = jsonResponse({ entries: getAuditLog(Number.isInteger(limit) ? limit : 100) });
+    } else if (section === "mcp" && path.length === 0 && request.method === "GET") {
+      response = jsonResponse({ servers: getMcpServerStatus() });
+    }
+  } catch (error) {
+    logger.error("Admin request %s %s failed: %v", request.method, pathname, error);
+    return createErrorResponse(
+      500,
+      "api_error",
+      `Admin request failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return response ??
+    createErrorResponse(404, "not_found_error", `Unknown admin endpoint: ${request.method} ${pathname}`);
+}
@@ -10,15 +10,37 @@ import {
   convertOpenAIToAnthropic,
   countTokens,
   getClaudeModels,
+  mapClaudeToZaiModel,
+  processAnthropicStream,
 } from "../../anthropic.ts";
-import type { Message, UpstreamRequest } from "../types/definitions.ts";
+import { CONFIG } from "../config/constants.ts";
+import type { Message, ThinkTagsMode, Tool, ToolChoice, UpstreamRequest } from "../types/definitions.ts";
 import { getModelConfig } from "../config/models.ts";
 import { addLiveRequest, recordRequestStats } from "../utils/stats.ts";
-import { setCORSHeaders } from "../utils/helpers.ts";
+import { parseBooleanHeader, parseListHeader, setCORSHeaders } from "../utils/helpers.ts";
 import { processMessages, validateTools } from "../utils/validation.ts";
-import { getAnonymousToken } from "../services/anonymous-token.ts";
-import { callUpstreamWithHeaders } from "../services/upstream-caller.ts";
-import { collectFullResponse, processUpstreamStream } from "../utils/stream.ts";
+import { tokenPool } from "../services/token-pool.ts";
+import { authenticateApiKey, extractApiKey, isModelAllowed } from "../services/api-keys.ts";
+import { applyRateLimitHeaders, checkRateLimit } from "../services/rate-limiter.ts";
+import { applyQuotaWarnings, checkQuotas, meterResponse } from "../services/usage.ts";
+import { callUpstreamWithFailover } from "../services/upstream-caller.ts";
+import { applyParamWarnings, isStrictParamsMode, mapAnthropicParams } from "../services/param-mapper.ts";
+import { getFeatureFlags } from "../services/feature-flags.ts";
+import { applyToolPrompt } from "../services/tool-prompt.ts";
+import { extractClientToolCalls } from "../services/tool-processor.ts";
+import {
+  DEFAULT_TOOL_CALL_POLICY,
+  requiresToolCall,
+  resolveToolCallPolicy,
+  type ToolCallPolicy,
+} from "../services/tool-choice.ts";
+import {
+  collectWithNativeTools,
+  createNativeToolLoop,
+  type NativeToolCallHandler,
+  resolveMaxToolIterations,
+} from "../services/agent-loop.ts";
+import { collectFullResponse, resolveThinkTagsMode } from "../utils/stream.ts";
 
 /**
  * Debug logging function - will be injected
@@ -32,10 +54,39 @@ export function setDebugLogger(logger: (format: string, ...args: unknown[]) => v
   debugLog = logger;
 }
 
+/**
+ * Record and return a rejected API key or model, or a request over a rate limit or quota
+ */
+function anthropicAuthError(
+  request: Request,
+  startTime: number,
+  path: string,
+  userAgent: string,
+  headers: Headers,
+  error: { status: number; type: string; message: string },
+): Response {
+  const duration = Date.now() - startTime;
+  recordRequestStats(startTime, path, error.status);
+  addLiveRequest(request.method, path, error.status, duration, userAgent);
+  headers.set("Content-Type", "application/json");
+  return new Response(JSON.stringify({ type: "error", error: { type: error.type, message: error.message } }), {
+    status: error.status,
+    headers,
+  });
+}
+
+/**
+ * Mark a response as JSON, keeping the CORS, warning and rate limit headers already set
+ */
+function jsonHeaders(headers: Headers): Headers {
+  headers.set("Content-Type", "application/json");
+  return headers;
+}
+
 /**
  * Handle Anthropic models endpoint
  */
-export function handleAnthropicModels(request: Request): Response {
+export async function handleAnthropicModels(request: Request): Promise<Response> {
   const headers = new Headers();
   setCORSHeaders(headers);
 
@@ -43,7 +94,16 @@ export function handleAnthropicModels(request: Request): Response {
     return new Response(null, { status: 200, headers });
   }
 
-  const models = getClaudeModels();
+  const auth = await authenticateApiKey(extractApiKey(request), new URL(request.url).pathname);
+  if (!auth.ok) {
+    headers.set("Content-Type", "application/json");
+    return new Response(JSON.stringify({ type: "error", error: { type: auth.type, message: auth.message } }), {
+      status: auth.status,
+      headers,
+    });
+  }
+
+  const models = getClaudeModels().filter((model) => isModelAllowed(auth.key, model.id, mapClaudeToZaiModel(model.id)));
 
   headers.set("Content-Type", "application/json");
   return new Response(JSON.stringify({ data: models }), {
@@ -72,47 +132,11 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
   }
 
   // API key validation
-  const authHeader = request.headers.get("Authorization") || request.headers.get("x-api-key");
-  if (!authHeader || (!authHeader.startsWith("Bearer ") && !authHeader.startsWith("sk-"))) {
-    debugLog("Missing or invalid Authorization header for Anthropic API");
-    const duration = Date.now() - startTime;
-    recordRequestStats(startTime, path, 401);
-    addLiveRequest(request.method, path, 401, duration, userAgent);
-    return new Response(
-      JSON.stringify({
-        type: "error",
-        error: {
-          type: "authentication_error",
-          message: "Missing or invalid API key",
-        },
-      }),
-      {
-        status: 401,
-        headers: { ...headers, "Content-Type": "application/json" },
-      },
-    );
-  }
-
-  const apiKey = authHeader.startsWith("Bearer ") ? authHeader.substring(7) : authHeader;
-  const { validateApiKey } = await import("../utils/helpers.ts");
-  if (!validateApiKey(`Bearer ${apiKey}`)) {
-    debugLog("Invalid API key for Anthropic request");
-    const duration = Date.now() - startTime;
-    recordRequestStats(startTime, path, 401);
-    addLiveRequest(request.method, path, 401, duration, userAgent);
-    return new Response(
-      JSON.stringify({
-        type: "error",
-        error: {
-          type: "authentication_error",
-          message: "Invalid API key",
-        },
-      }),
-      {
-        status: 401,
-        headers: { ...headers, "Content-Type": "application/json" },
-      },
-    );
+  const apiKey = extractApiKey(request);
+  const auth = await authenticateApiKey(apiKey, path);
+  if (!auth.ok) {
+    debugLog("Anthropic API key rejected: %s", auth.message);
+    return anthropicAuthError(request, startTime, path, userAgent, headers, auth);
   }
 
   debugLog("Anthropic API key validated");
@@ -137,7 +161,7 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
       }),
       {
         status: 400,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -162,7 +186,30 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
       }),
       {
         status: 400,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
+      },
+    );
+  }
+
+  // Validate messages before the rate limit estimate reads them
+  if (
+    !Array.isArray(anthropicReq?.messages) ||
+    anthropicReq.messages.some((message) => typeof message !== "object" || !message)
+  ) {
+    const duration = Date.now() - startTime;
+    recordRequestStats(startTime, path, 400);
+    addLiveRequest(request.method, path, 400, duration, userAgent);
+    return new Response(
+      JSON.stringify({
+        type: "error",
+        error: {
+          type: "invalid_request_error",
+          message: "messages must be an array of message objects",
+        },
+      }),
+      {
+        status: 400,
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -196,7 +243,7 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
         }),
         {
           status: 400,
-          headers: { ...headers, "Content-Type": "application/json" },
+          headers: jsonHeaders(headers),
         },
       );
     }
@@ -204,20 +251,122 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
 
   // Convert to OpenAI format for processing
   const model = anthropicReq.model || "claude-3-haiku-20240307";
-  const modelConfig = getModelConfig(model);
   const openaiReq = convertAnthropicToOpenAI(anthropicReq);
+  const modelConfig = getModelConfig(openaiReq.model);
+
+  let toolPolicy: ToolCallPolicy;
+  try {
+    toolPolicy = resolveToolCallPolicy(
+      openaiReq.tool_choice,
+      openaiReq.parallel_tool_calls,
+      openaiReq.tools as Tool[] | undefined,
+    );
+  } catch (error) {
+    debugLog("Invalid tool_choice: %v", error);
+    const duration = Date.now() - startTime;
+    recordRequestStats(startTime, path, 400);
+    addLiveRequest(request.method, path, 400, duration, userAgent);
+    return new Response(
+      JSON.stringify({
+        type: "error",
+        error: {
+          type: "invalid_request_error",
+          message: error instanceof Error ? error.message : "Invalid tool_choice",
+        },
+      }),
+      {
+        status: 400,
+        headers: jsonHeaders(headers),
+      },
+    );
+  }
 
   debugLog("Converted to OpenAI format, model: %s", openaiReq.model);
 
+  if (!isModelAllowed(auth.key, model, openaiReq.model)) {
+    debugLog("API key %s may not use model %s", auth.key.id, model);
+    return anthropicAuthError(request, startTime, path, userAgent, headers, {
+      status: 403,
+      type: "permission_error",
+      message: `API key may not use model ${model}`,
+    });
+  }
+
+  // Usage quotas of the key
+  const quota = await checkQuotas(auth.key);
+  if (quota.exceeded) {
+    debugLog("Usage quota exceeded: %s", quota.exceeded);
+    return anthropicAuthError(request, startTime, path, userAgent, headers, {
+      status: 429,
+      type: "rate_limit_error",
+      message: `${quota.exceeded}. Requests with this API key are refused until the quota resets.`,
+    });
+  }
+  applyQuotaWarnings(headers, quota);
+
+  // Rate limits of the key and end user
+  const promptTokens = countTokens(anthropicReq);
+  const rateLimit = await checkRateLimit(
+    auth.key,
+    typeof anthropicReq.metadata?.user_id === "string" ? anthropicReq.metadata.user_id : undefined,
+    promptTokens + (anthropicReq.max_tokens ?? 0),
+  );
+  applyRateLimitHeaders(headers, rateLimit);
+  if (!rateLimit.allowed) {
+    debugLog("Rate limit reached: %s", rateLimit.message);
+    return anthropicAuthError(request, startTime, path, userAgent, headers, {
+      status: 429,
+      type: "rate_limit_error",
+      message: rateLimit.message,
+    });
+  }
+
+  // Resolve thinking options: header > request body > server default
+  const thinkTagsMode = resolveThinkTagsMode(
+    request.headers.get("X-Think-Tags-Mode"),
+    anthropicReq.think_tags_mode,
+    CONFIG.ANTHROPIC_THINK_TAGS_MODE,
+  );
+  const thinkingHeader = parseBooleanHeader(
+    request.headers.get("X-Feature-Thinking") || request.headers.get("X-Thinking"),
+  );
+  const thinkingEnabled = modelConfig.capabilities.thinking && thinkingHeader !== false &&
+    anthropicReq.thinking?.type !== "disabled" &&
+    (thinkingHeader === true || anthropicReq.thinking !== undefined || getFeatureFlags().thinking);
+  debugLog("Think tags mode: %s, thinking enabled: %s", thinkTagsMode, thinkingEnabled);
+
+  // Map client sampling parameters
+  const paramMapping = mapAnthropicParams(anthropicReq, modelConfig);
+  if (paramMapping.warnings.length > 0 && isStrictParamsMode(request)) {
+    debugLog("Strict parameter mode rejected request: %s", paramMapping.warnings.join("; "));
+    const duration = Date.now() - startTime;
+    recordRequestStats(startTime, path, 400);
+    addLiveRequest(request.method, path, 400, duration, userAgent);
+    return new Response(
+      JSON.stringify({
+        type: "error",
+        error: {
+          type: "invalid_request_error",
+          message: `Invalid parameters: ${paramMapping.warnings.join("; ")}`,
+        },
+      }),
+      {
+        status: 400,
+        headers: jsonHeaders(headers),
+      },
+    );
+  }
+  applyParamWarnings(headers, paramMapping);
+
   // Check if streaming
   const isStreaming = openaiReq.stream || false;
 
   // Get token for upstream request
   let authToken: string;
   try {
-    authToken = await getAnonymousToken();
+    authToken = await tokenPool.getToken();
   } catch (error) {
-    debugLog("Failed to get anonymous token: %v", error);
+    debugLog("Failed to get authentication token: %v", error);
     return new Response(
       JSON.stringify({
         type: "error",
@@ -228,7 +377,7 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
       }),
       {
         status: 500,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -236,7 +385,13 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
   // Process messages
   let processedMessages: Message[];
   try {
-    processedMessages = processMessages(openaiReq.messages as Message[], modelConfig);
+    const promptedMessages = applyToolPrompt(
+      openaiReq.messages as Message[],
+      openaiReq.tools as Tool[] | undefined,
+      openaiReq.tool_choice as ToolChoice | undefined,
+      openaiReq.parallel_tool_calls,
+    );
+    processedMessages = processMessages(promptedMessages, modelConfig);
   } catch (error) {
     debugLog("Failed to process messages: %v", error);
     const duration = Date.now() - startTime;
@@ -252,7 +407,7 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
       }),
       {
         status: 400,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -262,13 +417,9 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
     stream: isStreaming,
     model: modelConfig.upstreamId,
     messages: processedMessages,
-    params: {
-      top_p: modelConfig.defaultParams.top_p,
-      temperature: modelConfig.defaultParams.temperature,
-      ...(modelConfig.defaultParams.max_tokens && { max_tokens: modelConfig.defaultParams.max_tokens }),
-    },
+    params: paramMapping.params,
     features: {
-      thinking: modelConfig.capabilities.thinking,
+      thinking: thinkingEnabled,
       ...(modelConfig.capabilities.vision && { vision: true }),
     },
     chat_id: `chat_${Date.now()}_${Math.random().toString(36).substring(7)}`,
@@ -279,7 +430,7 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
   // Call upstream
   let response: Response;
   try {
-    response = await callUpstreamWithHeaders(upstreamReq, upstreamReq.chat_id!, authToken);
+    ({ response, authToken } = await callUpstreamWithFailover(upstreamReq, upstreamReq.chat_id!, authToken));
   } catch (error) {
     debugLog("Upstream request failed: %v", error);
     const duration = Date.now() - startTime;
@@ -295,7 +446,7 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
       }),
       {
         status: 500,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -305,12 +456,44 @@ export async function handleAnthropicMessages(request: Request): Promise<Respons
   recordRequestStats(startTime, path, response.status);
   addLiveRequest(request.method, path, response.status, duration, userAgent, model);
 
-  // Convert response back to Anthropic format
-  if (isStreaming) {
-    return handleAnthropicStreamResponse(response, headers, model, openaiReq, startTime);
-  } else {
-    return handleAnthropicNonStreamResponse(response, headers, model, openaiReq, startTime);
-  }
+  // Native tool calls are executed server-side and the conversation continues upstream
+  const onNativeToolCall = createNativeToolLoop(
+    upstreamReq,
+    authToken,
+    resolveMaxToolIterations(anthropicReq.max_tool_iterations),
+    toolPolicy,
+    {
+      apiKey: apiKey ?? undefined,
+      keyId: auth.key.id,
+      approvedTools: parseListHeader(request.headers.get("X-Approve-Tools")),
+    },
+  );
+
+  // Convert response back to Anthropic format, and record the usage once the response is complete
+  const clientResponse = isStreaming
+    ? await handleAnthropicStreamResponse(
+      response,
+      headers,
+      model,
+      anthropicReq,
+      startTime,
+      thinkTagsMode,
+      openaiReq.tools as Tool[] | undefined,
+      onNativeToolCall,
+      toolPolicy,
+    )
+    : await handleAnthropicNonStreamResponse(
+      response,
+      headers,
+      model,
+      openaiReq,
+      startTime,
+      thinkTagsMode,
+      openaiReq.tools as Tool[] | undefined,
+      onNativeToolCall,
+      toolPolicy,
+    );
+  return meterResponse(clientResponse, auth.key.id, modelConfig.id, promptTokens);
 }
 
 /**
@@ -320,26 +503,29 @@ export async function handleAnthropicStreamResponse(
   upstreamResponse: Response,
   headers: Headers,
   model: string,
-  _openaiReq: unknown,
+  anthropicReq: AnthropicMessagesRequest,
   _startTime: number,
+  thinkTagsMode: ThinkTagsMode = resolveThinkTagsMode(CONFIG.ANTHROPIC_THINK_TAGS_MODE),
+  clientTools?: Tool[],
+  onNativeToolCall?: NativeToolCallHandler,
+  toolPolicy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
 ): Promise<Response> {
-  if (!upstreamResponse.body) {
-    const response = new Response(
+  if (!upstreamResponse.ok || !upstreamResponse.body) {
+    const errorBody = upstreamResponse.body ? await upstreamResponse.text() : "";
+    debugLog("Upstream error: %s", errorBody);
+    return new Response(
       JSON.stringify({
         type: "error",
         error: {
           type: "upstream_error",
-          message: "No response body from upstream",
+          message: upstreamResponse.body ? "Upstream service returned an error" : "No response body from upstream",
         },
       }),
       {
-        status: 500,
-        headers: { ...headers, "Content-Type": "application/json" },
+        status: upstreamResponse.ok ? 500 : upstreamResponse.status,
+        headers: jsonHeaders(headers),
       },
     );
-    // Dummy await to satisfy lint
-    await Promise.resolve();
-    return response;
   }
 
   const encoder = new TextEncoder();
@@ -352,25 +538,37 @@ export async function handleAnthropicStreamResponse(
   headers.set("Cache-Control", "no-cache");
   headers.set("Connection", "keep-alive");
 
-  // Process the upstream stream
-  processUpstreamStream(
-    upstreamResponse.body,
-    writer,
-    encoder,
-    model,
-  ).catch((error) => {
-    debugLog("Error processing stream: %v", error);
+  const requestId = `${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  const events = processAnthropicStream(upstreamResponse.body, model, requestId, {
+    inputTokens: countTokens(anthropicReq),
+    thinkTagsMode,
+    clientTools,
+    onNativeToolCall,
+    toolPolicy,
   });
 
-  const response = new Response(stream.readable, {
-    status: upstreamResponse.status,
-    headers,
-  });
+  // Pump Anthropic events to the client, with ping keepalives while upstream is quiet
+  (async () => {
+    const pingTimer = setInterval(() => {
+      writer.write(encoder.encode(`event: ping\ndata: {"type":"ping"}\n\n`)).catch(() => {});
+    }, CONFIG.STREAM_PING_INTERVAL_MS);
 
-  // Dummy await to satisfy lint
-  await Promise.resolve();
+    try {
+      for await (const event of events) {
+        await writer.write(encoder.encode(event));
+      }
+    } finally {
+      clearInterval(pingTimer);
+      await writer.close();
+    }
+  })().catch((error) => {
+    debugLog("Error processing Anthropic stream: %v", error);
+  });
 
-  return response;
+  return new Response(stream.readable, {
+    status: 200,
+    headers,
+  });
 }
 
 /**
@@ -382,6 +580,10 @@ export async function handleAnthropicNonStreamResponse(
   model: string,
   _openaiReq: unknown,
   _startTime: number,
+  thinkTagsMode: ThinkTagsMode = resolveThinkTagsMode(CONFIG.ANTHROPIC_THINK_TAGS_MODE),
+  clientTools?: Tool[],
+  onNativeToolCall?: NativeToolCallHandler,
+  toolPolicy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
 ): Promise<Response> {
   if (!upstreamResponse.ok) {
     const errorBody = await upstreamResponse.text();
@@ -396,7 +598,7 @@ export async function handleAnthropicNonStreamResponse(
       }),
       {
         status: upstreamResponse.status,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -412,13 +614,33 @@ export async function handleAnthropicNonStreamResponse(
       }),
       {
         status: 500,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
 
   try {
-    const result = await collectFullResponse(upstreamResponse.body);
+    const result = onNativeToolCall
+      ? await collectWithNativeTools(upstreamResponse.body, thinkTagsMode, clientTools, onNativeToolCall, toolPolicy)
+      : { ...await collectFullResponse(upstreamResponse.body, thinkTagsMode), toolSteps: [] };
+    const clientToolCalls = extractClientToolCalls(result.content, clientTools, toolPolicy);
+
+    if (requiresToolCall(toolPolicy) && !clientToolCalls && result.toolSteps.length === 0) {
+      debugLog("Model did not call the tool required by tool_choice");
+      return new Response(
+        JSON.stringify({
+          type: "error",
+          error: {
+            type: "api_error",
+            message: "The model did not call the tool required by tool_choice",
+          },
+        }),
+        {
+          status: 502,
+          headers: jsonHeaders(headers),
+        },
+      );
+    }
     const openaiResp = {
       id: `chatcmpl-${Date.now()}`,
       object: "chat.completion",
@@ -429,10 +651,11 @@ export async function handleAnthropicNonStreamResponse(
           index: 0,
           message: {
             role: "assistant",
-            content: result.content,
+            content: clientToolCalls ? clientToolCalls.content : result.content,
             ...(result.reasoning_content && { reasoning_content: result.reasoning_content }),
+            ...(clientToolCalls && { tool_calls: clientToolCalls.toolCalls }),
           },
-          finish_reason: "stop",
+          finish_reason: clientToolCalls ? "tool_calls" : "stop",
         },
       ],
       ...(result.usage && { usage: result.usage }),
@@ -457,7 +680,7 @@ export async function handleAnthropicNonStreamResponse(
       }),
       {
         status: 500,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -481,6 +704,12 @@ export async function handleAnthropicTokenCount(request: Request): Promise<Respo
     return new Response(null, { status: 200, headers });
   }
 
+  const auth = await authenticateApiKey(extractApiKey(request), path);
+  if (!auth.ok) {
+    debugLog("Anthropic API key rejected: %s", auth.message);
+    return anthropicAuthError(request, startTime, path, userAgent, headers, auth);
+  }
+
   // Read and parse request body
   let body: string;
   try {
@@ -500,7 +729,7 @@ export async function handleAnthropicTokenCount(request: Request): Promise<Respo
       }),
       {
         status: 400,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -523,7 +752,7 @@ export async function handleAnthropicTokenCount(request: Request): Promise<Respo
       }),
       {
         status: 400,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -554,7 +783,7 @@ export async function handleAnthropicTokenCount(request: Request): Promise<Respo
       }),
       {
         status: 500,
-        headers: { ...headers, "Content-Type": "application/json" },
+        headers: jsonHeaders(headers),
       },
     );
   }
@@ -7,6 +7,7 @@ import { SUPPORTED_MODELS } from "../config/models.ts";
 import type { ModelsResponse } from "../types/definitions.ts";
 import { setCORSHeaders } from "../utils/helpers.ts";
 import { getLiveRequestsData, getStatsData } from "../utils/stats.ts";
+import { describePoolTokens } from "../services/token-health.ts";
 
 /**
  * Read index.html file
@@ -160,6 +161,22 @@ export function handleDashboardRequests(_request: Request): Response {
   });
 }
 
+/**
+ * Handle dashboard token health: state and statistics of each pool token, identified by id only
+ */
+export async function handleDashboardTokens(_request: Request): Promise<Response> {
+  const headers = new Headers();
+  setCORSHeaders(headers);
+
+  const tokens = await describePoolTokens();
+
+  headers.set("Content-Type", "application/json");
+  return new Response(JSON.stringify({ tokens }), {
+    status: 200,
+    headers,
+  });
+}
+
 /**
  * Read docs HTML
  */
@@ -0,0 +1,100 @@
+/**
+ * MCP endpoint handler
+ * Streamable HTTP transport of the gateway's MCP server at /mcp
+ */
+
+import type { JsonRpcMessage } from "../services/mcp-client.ts";
+import { handleMcpMessage } from "../services/mcp-server.ts";
+import { authenticateApiKey, extractApiKey } from "../services/api-keys.ts";
+import { parseListHeader, setCORSHeaders } from "../utils/helpers.ts";
+import { logger } from "../utils/logger.ts";
+
+const MAX_SESSIONS = 1000;
+
+/**
+ * Session ids handed out on initialize, oldest first
+ */
+const sessions = new Set<string>();
+
+function mcpHeaders(): Headers {
+  const headers = new Headers();
+  setCORSHeaders(headers);
+  headers.set("Access-Control-Expose-Headers", "Mcp-Session-Id");
+  return headers;
+}
+
+function jsonRpcErrorResponse(status: number, code: number, message: string): Response {
+  const headers = mcpHeaders();
+  headers.set("Content-Type", "application/json");
+  return new Response(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code, message } }), { status, headers });
+}
+
+function createSession(): string {
+  const sessionId = crypto.randomUUID();
+  sessions.add(sessionId);
+  if (sessions.size > MAX_SESSIONS) {
+    sessions.delete(sessions.values().next().value!);
+  }
+  return sessionId;
+}
+
+/**
+ * Handle /mcp requests
+ * - POST: one JSON-RPC message or a batch; answered with JSON, or 202 when nothing needs an answer
+ * - DELETE: end the session
+ * - GET: not offered, the server sends no messages of its own
+ */
+export async function handleMcp(request: Request): Promise<Response> {
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: mcpHeaders() });
+  }
+
+  // Tools run with the caller's key, like native tools of chat requests
+  const apiKey = extractApiKey(request);
+  const auth = await authenticateApiKey(apiKey, new URL(request.url).pathname);
+  if (!auth.ok) {
+    return jsonRpcErrorResponse(auth.status, -32001, auth.message);
+  }
+  const context = {
+    authorization: `Bearer ${apiKey}`,
+    keyId: auth.key.id,
+    approvedTools: parseListHeader(request.headers.get("X-Approve-Tools")),
+  };
+
+  const sessionId = request.headers.get("Mcp-Session-Id");
+  if (sessionId && !sessions.has(sessionId)) {
+    return jsonRpcErrorResponse(404, -32001, "Session not found");
+  }
+
+  if (request.method === "DELETE") {
+    if (sessionId) sessions.delete(sessionId);
+    return new Response(null, { status: 204, headers: mcpHeaders() });
+  }
+  if (request.method !== "POST") {
+    const headers = mcpHeaders();
+    headers.set("Allow", "POST, DELETE, OPTIONS");
+    return new Response("Method Not Allowed", { status: 405, headers });
+  }
+
+  let body: JsonRpcMessage | JsonRpcMessage[];
+  try {
+    body = await request.json();
+  } catch (error) {
+    logger.debug("Invalid MCP request body: %v", error);
+    return jsonRpcErrorResponse(400, -32700, "Parse error");
+  }
+
+  const messages = Array.isArray(body) ? body : [body];
+  const responses = (await Promise.all(messages.map((message) => handleMcpMessage(message, context))))
+    .filter((response) => response !== null);
+
+  const headers = mcpHeaders();
+  if (messages.some((message) => message?.method === "initialize")) {
+    headers.set("Mcp-Session-Id", createSession());
+  }
+  if (responses.length === 0) {
+    return new Response(null, { status: 202, headers });
+  }
+  headers.set("Content-Type", "application/json");
+  return new Response(JSON.stringify(Array.isArray(body) ? responses : responses[0]), { status: 200, headers });
+}
@@ -5,12 +5,13 @@
 
 import { SUPPORTED_MODELS } from "../config/models.ts";
 import { setCORSHeaders } from "../utils/helpers.ts";
+import { authenticateApiKey, extractApiKey, isModelAllowed } from "../services/api-keys.ts";
 import type { ModelsResponse } from "../types/common.ts";
 
 /**
  * Handle /v1/models endpoint
  */
-export function handleModels(request: Request): Response {
+export async function handleModels(request: Request): Promise<Response> {
   const headers = new Headers();
   setCORSHeaders(headers);
 
@@ -18,7 +19,12 @@ export function handleModels(request: Request): Response {
     return new Response(null, { status: 200, headers });
   }
 
-  const models = SUPPORTED_MODELS.map((model) => ({
+  const auth = await authenticateApiKey(extractApiKey(request), new URL(request.url).pathname);
+  if (!auth.ok) {
+    return new Response(auth.message, { status: auth.status, headers });
+  }
+
+  const models = SUPPORTED_MODELS.filter((model) => isModelAllowed(auth.key, model.id, model.name)).map((model) => ({
     id: model.name,
     object: "model",
     created: Math.floor(Date.now() / 1000),
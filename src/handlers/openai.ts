@@ -3,14 +3,41 @@
  * Handles OpenAI-compatible chat completions API (/v1/chat/completions)
  */
 
-import type { Message, OpenAIRequest, OpenAIResponse, UpstreamRequest } from "../types/definitions.ts";
+import type {
+  Message,
+  OpenAIRequest,
+  OpenAIResponse,
+  ThinkTagsMode,
+  Tool,
+  UpstreamRequest,
+} from "../types/definitions.ts";
+import { CONFIG } from "../config/constants.ts";
 import { getModelConfig } from "../config/models.ts";
 import { addLiveRequest, recordRequestStats } from "../utils/stats.ts";
-import { setCORSHeaders } from "../utils/helpers.ts";
+import { parseBooleanHeader, parseListHeader, setCORSHeaders } from "../utils/helpers.ts";
 import { processMessages, validateTools } from "../utils/validation.ts";
-import { getAnonymousToken } from "../services/anonymous-token.ts";
-import { callUpstreamWithHeaders } from "../services/upstream-caller.ts";
-import { collectFullResponse, processUpstreamStream } from "../utils/stream.ts";
+import { tokenPool } from "../services/token-pool.ts";
+import { authenticateApiKey, extractApiKey, isModelAllowed } from "../services/api-keys.ts";
+import { applyRateLimitHeaders, checkRateLimit, estimateMessageTokens } from "../services/rate-limiter.ts";
+import { applyQuotaWarnings, checkQuotas, meterResponse } from "../services/usage.ts";
+import { callUpstreamWithFailover } from "../services/upstream-caller.ts";
+import { applyParamWarnings, isStrictParamsMode, mapOpenAIParams } from "../services/param-mapper.ts";
+import { getFeatureFlags } from "../services/feature-flags.ts";
+import { applyToolPrompt } from "../services/tool-prompt.ts";
+import { extractClientToolCalls } from "../services/tool-processor.ts";
+import {
+  DEFAULT_TOOL_CALL_POLICY,
+  requiresToolCall,
+  resolveToolCallPolicy,
+  type ToolCallPolicy,
+} from "../services/tool-choice.ts";
+import {
+  collectWithNativeTools,
+  createNativeToolLoop,
+  type NativeToolCallHandler,
+  resolveMaxToolIterations,
+} from "../services/agent-loop.ts";
+import { collectFullResponse, processUpstreamStream, resolveThinkTagsMode } from "../utils/stream.ts";
 
 /**
  * Debug logging function - will be injected
@@ -37,8 +64,8 @@ export async function handleChatCompletions(request: Request): Promise<Response>
   debugLog("🌐 User-Agent: %s", userAgent);
 
   // Read feature control headers
-  const _thinkingHeader = request.headers.get("X-Feature-Thinking") || request.headers.get("X-Thinking");
-  const _thinkTagsModeHeader = request.headers.get("X-Think-Tags-Mode");
+  const thinkingHeader = request.headers.get("X-Feature-Thinking") || request.headers.get("X-Thinking");
+  const thinkTagsModeHeader = request.headers.get("X-Think-Tags-Mode");
 
   const headers = new Headers();
   setCORSHeaders(headers);
@@ -48,15 +75,15 @@ export async function handleChatCompletions(request: Request): Promise<Response>
   }
 
   // API key validation
-  const authHeader = request.headers.get("Authorization");
-  const { validateApiKey } = await import("../utils/helpers.ts");
-  if (authHeader && !validateApiKey(authHeader)) {
-    debugLog("Invalid Authorization header");
+  const apiKey = extractApiKey(request);
+  const auth = await authenticateApiKey(apiKey, path);
+  if (!auth.ok) {
+    debugLog("API key rejected: %s", auth.message);
     const duration = Date.now() - startTime;
-    recordRequestStats(startTime, path, 401);
-    addLiveRequest(request.method, path, 401, duration, userAgent);
-    return new Response("Invalid Authorization header", {
-      status: 401,
+    recordRequestStats(startTime, path, auth.status);
+    addLiveRequest(request.method, path, auth.status, duration, userAgent);
+    return new Response(auth.message, {
+      status: auth.status,
       headers,
     });
   }
@@ -92,9 +119,24 @@ export async function handleChatCompletions(request: Request): Promise<Response>
     });
   }
 
-  // Validate tools if present
+  // Validate messages before the rate limit estimate reads them
+  if (
+    !Array.isArray(openaiReq?.messages) || openaiReq.messages.some((message) => typeof message !== "object" || !message)
+  ) {
+    const duration = Date.now() - startTime;
+    recordRequestStats(startTime, path, 400);
+    addLiveRequest(request.method, path, 400, duration, userAgent);
+    return new Response("messages must be an array of message objects", {
+      status: 400,
+      headers,
+    });
+  }
+
+  // Validate tools and tool_choice if present
+  let toolPolicy: ToolCallPolicy;
   try {
     validateTools(openaiReq.tools);
+    toolPolicy = resolveToolCallPolicy(openaiReq.tool_choice, openaiReq.parallel_tool_calls, openaiReq.tools);
   } catch (error) {
     debugLog("Tool validation failed: %v", error);
     const duration = Date.now() - startTime;
@@ -114,15 +156,79 @@ export async function handleChatCompletions(request: Request): Promise<Response>
 
   debugLog("Model: %s, Config: %s", model, modelConfig.id);
 
+  if (!isModelAllowed(auth.key, model, modelConfig.id)) {
+    debugLog("API key %s may not use model %s", auth.key.id, model);
+    const duration = Date.now() - startTime;
+    recordRequestStats(startTime, path, 403);
+    addLiveRequest(request.method, path, 403, duration, userAgent, model);
+    return new Response(`API key may not use model ${model}`, {
+      status: 403,
+      headers,
+    });
+  }
+
+  // Usage quotas of the key
+  const quota = await checkQuotas(auth.key);
+  if (quota.exceeded) {
+    debugLog("Usage quota exceeded: %s", quota.exceeded);
+    const duration = Date.now() - startTime;
+    recordRequestStats(startTime, path, 429);
+    addLiveRequest(request.method, path, 429, duration, userAgent, model);
+    return new Response(`${quota.exceeded}. Requests with this API key are refused until the quota resets.`, {
+      status: 429,
+      headers,
+    });
+  }
+  applyQuotaWarnings(headers, quota);
+
+  // Rate limits of the key and end user
+  const promptTokens = estimateMessageTokens(openaiReq.messages);
+  const rateLimit = await checkRateLimit(
+    auth.key,
+    typeof openaiReq.user === "string" ? openaiReq.user : undefined,
+    promptTokens + (openaiReq.max_completion_tokens ?? openaiReq.max_tokens ?? 0),
+  );
+  applyRateLimitHeaders(headers, rateLimit);
+  if (!rateLimit.allowed) {
+    debugLog("Rate limit reached: %s", rateLimit.message);
+    const duration = Date.now() - startTime;
+    recordRequestStats(startTime, path, 429);
+    addLiveRequest(request.method, path, 429, duration, userAgent, model);
+    return new Response(rateLimit.message, {
+      status: 429,
+      headers,
+    });
+  }
+
+  // Resolve thinking options: header > request body > server default
+  const thinkTagsMode = resolveThinkTagsMode(thinkTagsModeHeader, openaiReq.think_tags_mode, CONFIG.THINK_TAGS_MODE);
+  const thinkingEnabled = modelConfig.capabilities.thinking &&
+    (parseBooleanHeader(thinkingHeader) ?? getFeatureFlags().thinking);
+  debugLog("Think tags mode: %s, thinking enabled: %s", thinkTagsMode, thinkingEnabled);
+
+  // Map client sampling parameters
+  const paramMapping = mapOpenAIParams(openaiReq, modelConfig);
+  if (paramMapping.warnings.length > 0 && isStrictParamsMode(request)) {
+    debugLog("Strict parameter mode rejected request: %s", paramMapping.warnings.join("; "));
+    const duration = Date.now() - startTime;
+    recordRequestStats(startTime, path, 400);
+    addLiveRequest(request.method, path, 400, duration, userAgent);
+    return new Response(`Invalid parameters: ${paramMapping.warnings.join("; ")}`, {
+      status: 400,
+      headers,
+    });
+  }
+  applyParamWarnings(headers, paramMapping);
+
   // Check if streaming
   const isStreaming = openaiReq.stream !== false;
 
   // Get authentication token
   let authToken: string;
   try {
-    authToken = await getAnonymousToken();
+    authToken = await tokenPool.getToken();
   } catch (error) {
-    debugLog("Failed to get anonymous token: %v", error);
+    debugLog("Failed to get authentication token: %v", error);
     return new Response("Failed to get authentication token", {
       status: 500,
       headers,
@@ -132,7 +238,13 @@ export async function handleChatCompletions(request: Request): Promise<Response>
   // Process messages
   let processedMessages: Message[];
   try {
-    processedMessages = processMessages(openaiReq.messages, modelConfig);
+    const promptedMessages = applyToolPrompt(
+      openaiReq.messages,
+      openaiReq.tools,
+      openaiReq.tool_choice,
+      openaiReq.parallel_tool_calls,
+    );
+    processedMessages = processMessages(promptedMessages, modelConfig);
   } catch (error) {
     debugLog("Failed to process messages: %v", error);
     const duration = Date.now() - startTime;
@@ -152,13 +264,9 @@ export async function handleChatCompletions(request: Request): Promise<Response>
     stream: isStreaming,
     model: modelConfig.upstreamId,
     messages: processedMessages,
-    params: {
-      top_p: modelConfig.defaultParams.top_p,
-      temperature: modelConfig.defaultParams.temperature,
-      ...(modelConfig.defaultParams.max_tokens && { max_tokens: modelConfig.defaultParams.max_tokens }),
-    },
+    params: paramMapping.params,
     features: {
-      thinking: modelConfig.capabilities.thinking,
+      thinking: thinkingEnabled,
       ...(modelConfig.capabilities.vision && { vision: true }),
     },
     chat_id: `chat_${Date.now()}_${Math.random().toString(36).substring(7)}`,
@@ -169,7 +277,7 @@ export async function handleChatCompletions(request: Request): Promise<Response>
   // Call upstream
   let response: Response;
   try {
-    response = await callUpstreamWithHeaders(upstreamReq, upstreamReq.chat_id!, authToken);
+    ({ response, authToken } = await callUpstreamWithFailover(upstreamReq, upstreamReq.chat_id!, authToken));
   } catch (error) {
     debugLog("Upstream request failed: %v", error);
     const duration = Date.now() - startTime;
@@ -186,12 +294,42 @@ export async function handleChatCompletions(request: Request): Promise<Response>
   recordRequestStats(startTime, path, response.status);
   addLiveRequest(request.method, path, response.status, duration, userAgent, model);
 
-  // Handle streaming or non-streaming
-  if (isStreaming) {
-    return handleStreamResponse(response, headers, model, startTime);
-  } else {
-    return handleNonStreamResponse(response, headers, model, startTime);
-  }
+  // Native tool calls are executed server-side and the conversation continues upstream
+  const onNativeToolCall = createNativeToolLoop(
+    upstreamReq,
+    authToken,
+    resolveMaxToolIterations(openaiReq.max_tool_iterations),
+    toolPolicy,
+    {
+      apiKey: apiKey ?? undefined,
+      keyId: auth.key.id,
+      approvedTools: parseListHeader(request.headers.get("X-Approve-Tools")),
+    },
+  );
+
+  // Handle streaming or non-streaming, and record the usage once the response is complete
+  const clientResponse = isStreaming
+    ? await handleStreamResponse(
+      response,
+      headers,
+      model,
+      startTime,
+      thinkTagsMode,
+      openaiReq.tools,
+      onNativeToolCall,
+      toolPolicy,
+    )
+    : await handleNonStreamResponse(
+      response,
+      headers,
+      model,
+      startTime,
+      thinkTagsMode,
+      openaiReq.tools,
+      onNativeToolCall,
+      toolPolicy,
+    );
+  return meterResponse(clientResponse, auth.key.id, modelConfig.id, promptTokens);
 }
 
 /**
@@ -202,6 +340,10 @@ export async function handleStreamResponse(
   headers: Headers,
   modelName: string,
   _startTime: number,
+  thinkTagsMode: ThinkTagsMode = resolveThinkTagsMode(CONFIG.THINK_TAGS_MODE),
+  clientTools?: Tool[],
+  onNativeToolCall?: NativeToolCallHandler,
+  toolPolicy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
 ): Promise<Response> {
   if (!upstreamResponse.body) {
     const response = new Response("No response body from upstream", {
@@ -229,6 +371,10 @@ export async function handleStreamResponse(
     writer,
     encoder,
     modelName,
+    thinkTagsMode,
+    clientTools,
+    onNativeToolCall,
+    toolPolicy,
   ).catch((error) => {
     debugLog("Error processing stream: %v", error);
   });
@@ -252,6 +398,10 @@ export async function handleNonStreamResponse(
   headers: Headers,
   modelName: string,
   _startTime: number,
+  thinkTagsMode: ThinkTagsMode = resolveThinkTagsMode(CONFIG.THINK_TAGS_MODE),
+  clientTools?: Tool[],
+  onNativeToolCall?: NativeToolCallHandler,
+  toolPolicy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
 ): Promise<Response> {
   if (!upstreamResponse.ok) {
     const errorBody = await upstreamResponse.text();
@@ -270,7 +420,19 @@ export async function handleNonStreamResponse(
   }
 
   try {
-    const result = await collectFullResponse(upstreamResponse.body);
+    const result = onNativeToolCall
+      ? await collectWithNativeTools(upstreamResponse.body, thinkTagsMode, clientTools, onNativeToolCall, toolPolicy)
+      : { ...await collectFullResponse(upstreamResponse.body, thinkTagsMode), toolSteps: [] };
+    const clientToolCalls = extractClientToolCalls(result.content, clientTools, toolPolicy);
+
+    if (requiresToolCall(toolPolicy) && !clientToolCalls && result.toolSteps.length === 0) {
+      debugLog("Model did not call the tool required by tool_choice");
+      return new Response("The model did not call the tool required by tool_choice", {
+        status: 502,
+        headers,
+      });
+    }
+
     const openaiResp: OpenAIResponse = {
       id: `chatcmpl-${Date.now()}`,
       object: "chat.completion",
@@ -281,10 +443,11 @@ export async function handleNonStreamResponse(
           index: 0,
           message: {
             role: "assistant",
-            content: result.content,
+            content: clientToolCalls ? clientToolCalls.content : result.content,
             ...(result.reasoning_content && { reasoning_content: result.reasoning_content }),
+            ...(clientToolCalls && { tool_calls: clientToolCalls.toolCalls }),
           },
-          finish_reason: "stop",
+          finish_reason: clientToolCalls ? "tool_calls" : "stop",
         },
       ],
       ...(result.usage && { usage: result.usage }),
@@ -8,11 +8,21 @@ import { UPSTREAM_URL } from "../config/constants.ts";
 import { addLiveRequest, recordRequestStats } from "../utils/stats.ts";
 import { handleAnthropicMessages, handleAnthropicModels, handleAnthropicTokenCount } from "../handlers/anthropic.ts";
 import { handleChatCompletions } from "../handlers/openai.ts";
+import { handleAdmin } from "../handlers/admin.ts";
+import { loadAdminState } from "../services/admin-state.ts";
+import { startTokenHealthChecks } from "../services/token-health.ts";
+import { handleMcp } from "../handlers/mcp.ts";
 import { initializeBuiltinTools } from "../services/init-tools.ts";
+import { loadToolPacks } from "../services/tool-loader.ts";
+import { loadToolPolicy } from "../services/tool-policy.ts";
+import { initializeApiKeyStore } from "../services/api-keys.ts";
+import { startMcpServers, stopMcpServers } from "../services/mcp-tools.ts";
+import { serveMcpStdio } from "../services/mcp-server.ts";
 import {
   handleDashboard,
   handleDashboardRequests,
   handleDashboardStats,
+  handleDashboardTokens,
   handleDocs,
   handleIndex,
   handleModels,
@@ -39,7 +49,7 @@ function debugLog(format: string, ...args: unknown[]): void {
 /**
  * Initialize server components
  */
-function initializeServer(): void {
+async function initializeServer(): Promise<void> {
   debugLog("Initializing server components...");
 
   // Initialize built-in tools
@@ -49,12 +59,36 @@ function initializeServer(): void {
   } catch (error) {
     debugLog("❌ Failed to initialize built-in tools: %v", error);
   }
+
+  // Client API keys
+  await initializeApiKeyStore();
+
+  // Limits and per-key access of tool calls from TOOL_POLICY_FILE
+  await loadToolPolicy();
+
+  // Load tool packs from TOOLS_DIR and TOOLS_MANIFEST
+  const { tools, errors } = await loadToolPacks();
+  debugLog("✅ Tool packs loaded: %d tools available, %d errors", tools.length, errors.length);
+
+  // Connect to MCP servers from MCP_SERVERS_FILE and register their tools
+  const mcpServers = await startMcpServers();
+  debugLog(
+    "✅ MCP servers: %d configured, %d ready",
+    mcpServers.length,
+    mcpServers.filter((s) => s.status === "ready").length,
+  );
+
+  // Changes made through the admin API before the last restart
+  await loadAdminState();
+
+  // Probe pool tokens in the background every TOKEN_HEALTH_INTERVAL_MS
+  startTokenHealthChecks();
 }
 
 /**
  * Start the server
  */
-export function main(): void {
+export async function main(): Promise<void> {
   console.log(`OpenAI-compatible API server starting`);
   console.log(`Supported models: ${SUPPORTED_MODELS.map((m) => `${m.id} (${m.name})`).join(", ")}`);
   console.log(`Upstream: ${UPSTREAM_URL}`);
@@ -63,7 +97,7 @@ export function main(): void {
   console.log(`Dashboard enabled: ${DASHBOARD_ENABLED}`);
 
   // Initialize server components
-  initializeServer();
+  await initializeServer();
 
   const port = parseInt(Deno.env.get("PORT") || "9090");
   console.log(`Running on port: ${port}`);
@@ -75,6 +109,20 @@ export function main(): void {
   Deno.serve({ port, handler: handleRequest });
 }
 
+/**
+ * Serve the MCP server over stdio instead of HTTP (main.ts --mcp-stdio)
+ */
+export async function mainMcpStdio(): Promise<void> {
+  // stdout carries the MCP messages, so all logging goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+
+  await initializeServer();
+  console.error("MCP server running on stdio");
+  await serveMcpStdio();
+  await stopMcpServers();
+}
+
 /**
  * Handle HTTP requests (main router)
  */
@@ -105,7 +153,7 @@ export async function handleRequest(request: Request): Promise<Response> {
       // stats recorded inside handleChatCompletions
       return response;
     } else if (url.pathname === "/anthropic/v1/models") {
-      const response = handleAnthropicModels(request);
+      const response = await handleAnthropicModels(request);
       recordRequestStats(startTime, url.pathname, response.status);
       addLiveRequest(request.method, url.pathname, response.status, Date.now() - startTime, userAgent);
       return response;
@@ -118,6 +166,16 @@ export async function handleRequest(request: Request): Promise<Response> {
       recordRequestStats(startTime, url.pathname, response.status);
       addLiveRequest(request.method, url.pathname, response.status, Date.now() - startTime, userAgent);
       return response;
+    } else if (url.pathname.startsWith("/admin/")) {
+      const response = await handleAdmin(request);
+      recordRequestStats(startTime, url.pathname, response.status);
+      addLiveRequest(request.method, url.pathname, response.status, Date.now() - startTime, userAgent);
+      return response;
+    } else if (url.pathname === "/mcp") {
+      const response = await handleMcp(request);
+      recordRequestStats(startTime, url.pathname, response.status);
+      addLiveRequest(request.method, url.pathname, response.status, Date.now() - startTime, userAgent);
+      return response;
     } else if (url.pathname === "/docs") {
       const response = await handleDocs(request);
       recordRequestStats(startTime, url.pathname, response.status);
@@ -138,6 +196,11 @@ export async function handleRequest(request: Request): Promise<Response> {
       recordRequestStats(startTime, url.pathname, response.status);
       addLiveRequest(request.method, url.pathname, response.status, Date.now() - startTime, userAgent);
       return response;
+    } else if (url.pathname === "/dashboard/tokens" && DASHBOARD_ENABLED) {
+      const response = await handleDashboardTokens(request);
+      recordRequestStats(startTime, url.pathname, response.status);
+      addLiveRequest(request.method, url.pathname, response.status, Date.now() - startTime, userAgent);
+      return response;
     } else {
       const response = await handleOptions(request);
       recordRequestStats(startTime, url.pathname, response.status);
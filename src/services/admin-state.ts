@@ -0,0 +1,305 @@
+/**
+ * Admin State
+ * Runtime changes made through the admin API (log level, feature flags, upstream tokens, tool flags),
+ * persisted to ADMIN_STATE_FILE and applied again at startup, and the audit log of admin changes
+ * (ADMIN_AUDIT_FILE). Without ADMIN_STATE_FILE the admin API refuses these changes, see isAdminStatePersistent.
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { logger, LogLevel } from "../utils/logger.ts";
+import { type FeatureFlags, getFeatureFlags, setFeatureFlags, validateFeatureFlags } from "./feature-flags.ts";
+import { tokenPool } from "./token-pool.ts";
+import { getToolPackStatus, setToolEnabled } from "./tool-loader.ts";
+
+export type LogLevelName = "debug" | "info" | "warn" | "error";
+
+/**
+ * ADMIN_STATE_FILE contents
+ */
+export interface AdminState {
+  log_level?: LogLevelName;
+  features?: Partial<FeatureFlags>;
+  tokens_added?: string[]; // Upstream tokens added to the pool
+  tokens_removed?: string[]; // Ids of ZAI_TOKENS tokens removed from the pool
+  tools?: Record<string, boolean>; // Tools enabled or disabled at runtime
+}
+
+/**
+ * Runtime settings changeable through the admin API
+ */
+export interface AdminSettings {
+  log_level: LogLevelName;
+  features: FeatureFlags;
+}
+
+/**
+ * Change made through the admin API
+ */
+export interface AuditEntry {
+  time: string;
+  action: string;
+  target: string | null;
+  details: Record<string, unknown>;
+}
+
+const LOG_LEVELS: Record<LogLevelName, LogLevel> = {
+  debug: LogLevel.DEBUG,
+  info: LogLevel.INFO,
+  warn: LogLevel.WARN,
+  error: LogLevel.ERROR,
+};
+const AUDIT_LOG_SIZE = 1000; // Entries kept in memory
+
+let state: AdminState = {};
+let changes: Promise<unknown> = Promise.resolve(); // Last change of the state, see serialize
+let writer: ((state: AdminState) => Promise<void>) | null = null; // Replaces ADMIN_STATE_FILE, see setAdminStateWriter
+const auditLog: AuditEntry[] = [];
+
+/**
+ * Name of a log level
+ */
+export function logLevelName(level: LogLevel): LogLevelName {
+  return (Object.keys(LOG_LEVELS) as LogLevelName[]).find((name) => LOG_LEVELS[name] === level) ?? "info";
+}
+
+/**
+ * Stable id of an upstream token, safe to show and to use in URLs
+ */
+export async function tokenId(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  const hex = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+  return `tok_${hex.substring(0, 12)}`;
+}
+
+/**
+ * Find a pooled token by its id
+ */
+async function findPoolToken(id: string): Promise<string | null> {
+  for (const { token } of tokenPool.getTokens()) {
+    if (await tokenId(token) === id) return token;
+  }
+  return null;
+}
+
+/**
+ * Replace where the state is saved (useful for testing); a writer given here counts as persistent
+ */
+export function setAdminStateWriter(stateWriter: ((state: AdminState) => Promise<void>) | null): void {
+  writer = stateWriter;
+}
+
+/**
+ * Whether runtime changes of settings, pool tokens and tools survive a restart
+ * Not the case without ADMIN_STATE_FILE, when they would be kept in memory only.
+ */
+export function isAdminStatePersistent(): boolean {
+  return writer !== null || CONFIG.ADMIN_STATE_FILE !== "";
+}
+
+/**
+ * Write the state to ADMIN_STATE_FILE, then make it current
+ * @throws Error if the file cannot be written; the current state is kept
+ */
+async function saveState(next: AdminState): Promise<void> {
+  if (writer) {
+    await writer(next);
+  } else if (CONFIG.ADMIN_STATE_FILE) {
+    const temporary = `${CONFIG.ADMIN_STATE_FILE}.tmp`;
+    await Deno.writeTextFile(temporary, JSON.stringify(next, null, 2) + "\n");
+    await Deno.rename(temporary, CONFIG.ADMIN_STATE_FILE);
+  }
+  state = next;
+}
+
+/**
+ * Run a change of the state once the changes before it are done
+ * A change reads the state and writes it back across awaits; run side by side, one would drop the other.
+ */
+function serialize<T>(change: () => Promise<T>): Promise<T> {
+  const result = changes.then(change);
+  changes = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Current runtime settings
+ */
+export function getAdminSettings(): AdminSettings {
+  return { log_level: logLevelName(logger.getLevel()), features: getFeatureFlags() };
+}
+
+/**
+ * Changes of runtime settings
+ */
+export interface SettingsChange {
+  log_level?: string;
+  features?: Record<string, unknown>;
+}
+
+/**
+ * Check a change of runtime settings
+ * @throws Error describing the first invalid setting
+ */
+export function validateSettingsChange(change: SettingsChange): void {
+  if (change.log_level !== undefined && !Object.hasOwn(LOG_LEVELS, change.log_level)) {
+    throw new Error(`log_level must be one of: ${Object.keys(LOG_LEVELS).join(", ")}`);
+  }
+  if (change.features !== undefined) {
+    if (typeof change.features !== "object" || change.features === null || Array.isArray(change.features)) {
+      throw new Error("features must be an object of feature flags");
+    }
+    validateFeatureFlags(change.features);
+  }
+}
+
+/**
+ * Change the log level and feature flag defaults; settings and flags left out keep their value
+ * @throws Error if a setting is invalid or the state cannot be saved
+ */
+export async function updateSettings(change: SettingsChange): Promise<AdminSettings> {
+  validateSettingsChange(change);
+  return await serialize(async () => {
+    const features = { ...state.features, ...change.features as Partial<FeatureFlags> | undefined };
+    const logLevel = (change.log_level ?? state.log_level) as LogLevelName | undefined;
+    await saveState({ ...state, log_level: logLevel, features });
+    if (logLevel) logger.setLevel(LOG_LEVELS[logLevel]);
+    setFeatureFlags(features);
+    return getAdminSettings();
+  });
+}
+
+/**
+ * Add an upstream token to the pool
+ * @returns The token's id, and false if it was already pooled
+ */
+export function addPoolToken(token: string): Promise<{ id: string; added: boolean }> {
+  return serialize(async () => {
+    const id = await tokenId(token);
+    if (tokenPool.getTokens().some((t) => t.token === token)) {
+      return { id, added: false };
+    }
+    await saveState({
+      ...state,
+      tokens_added: [...(state.tokens_added ?? []), token],
+      tokens_removed: (state.tokens_removed ?? []).filter((removed) => removed !== id),
+    });
+    tokenPool.addToken(token);
+    return { id, added: true };
+  });
+}
+
+/**
+ * Remove an upstream token from the pool
+ * @returns false if no pooled token has this id
+ */
+export function removePoolToken(id: string): Promise<boolean> {
+  return serialize(async () => {
+    const token = await findPoolToken(id);
+    if (token === null) return false;
+    const added = state.tokens_added ?? [];
+    await saveState({
+      ...state,
+      tokens_added: added.filter((t) => t !== token),
+      tokens_removed: added.includes(token) ? state.tokens_removed : [...(state.tokens_removed ?? []), id],
+    });
+    tokenPool.removeToken(token);
+    return true;
+  });
+}
+
+/**
+ * Enable or disable a loaded tool
+ * @returns false if no tool with that name is loaded
+ */
+export function setToolState(name: string, enabled: boolean): Promise<boolean> {
+  return serialize(async () => {
+    if (!getToolPackStatus().tools.some((tool) => tool.name === name)) {
+      return false;
+    }
+    await saveState({ ...state, tools: { ...state.tools, [name]: enabled } });
+    return setToolEnabled(name, enabled);
+  });
+}
+
+/**
+ * Read ADMIN_STATE_FILE, if one is configured, and apply it
+ * Call after tools are loaded. Errors are logged and leave the configured settings in place.
+ */
+export async function loadAdminState(): Promise<void> {
+  if (!CONFIG.ADMIN_STATE_FILE) {
+    return;
+  }
+  let loaded: AdminState;
+  try {
+    loaded = JSON.parse(await Deno.readTextFile(CONFIG.ADMIN_STATE_FILE)) as AdminState;
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      logger.error("Failed to load admin state from %s: %v", CONFIG.ADMIN_STATE_FILE, error);
+    }
+    return;
+  }
+
+  state = loaded;
+  if (loaded.log_level && Object.hasOwn(LOG_LEVELS, loaded.log_level)) {
+    logger.setLevel(LOG_LEVELS[loaded.log_level]);
+  }
+  try {
+    setFeatureFlags(loaded.features ?? {});
+  } catch (error) {
+    logger.error("Ignoring feature flags in %s: %v", CONFIG.ADMIN_STATE_FILE, error);
+  }
+  for (const id of loaded.tokens_removed ?? []) {
+    const token = await findPoolToken(id);
+    if (token !== null) tokenPool.removeToken(token);
+  }
+  for (const token of loaded.tokens_added ?? []) {
+    tokenPool.addToken(token);
+  }
+  for (const [name, enabled] of Object.entries(loaded.tools ?? {})) {
+    if (!setToolEnabled(name, enabled)) {
+      logger.warn("Admin state %s names tool %s, which is not loaded", CONFIG.ADMIN_STATE_FILE, name);
+    }
+  }
+  logger.info("Admin state loaded from %s", CONFIG.ADMIN_STATE_FILE);
+}
+
+/**
+ * Record an admin change in the audit log
+ * Entries are kept in memory and appended to ADMIN_AUDIT_FILE as JSON lines; a failed write is logged.
+ */
+export async function recordAudit(
+  action: string,
+  target: string | null = null,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  const entry: AuditEntry = { time: new Date().toISOString(), action, target, details };
+  auditLog.push(entry);
+  if (auditLog.length > AUDIT_LOG_SIZE) {
+    auditLog.splice(0, auditLog.length - AUDIT_LOG_SIZE);
+  }
+  logger.info("Admin: %s%s", action, target ? ` ${target}` : "");
+
+  if (CONFIG.ADMIN_AUDIT_FILE) {
+    try {
+      await Deno.writeTextFile(CONFIG.ADMIN_AUDIT_FILE, JSON.stringify(entry) + "\n", { append: true });
+    } catch (error) {
+      logger.error("Failed to write audit log %s: %v", CONFIG.ADMIN_AUDIT_FILE, error);
+    }
+  }
+}
+
+/**
+ * Most recent audit entries, oldest first
+ */
+export function getAuditLog(limit = 100): AuditEntry[] {
+  return limit > 0 ? auditLog.slice(-limit) : [];
+}
+
+/**
+ * Forget runtime changes and audit entries (useful for testing)
+ */
+export function resetAdminState(): void {
+  state = {};
+  auditLog.length = 0;
+  setFeatureFlags({});
+}
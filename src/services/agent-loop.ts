@@ -0,0 +1,207 @@
+/**
+ * Native Tool Agent Loop
+ * Executes native tool calls server-side and calls upstream again with the result,
+ * until the model writes a final answer or the iteration limit is reached
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { logger } from "../utils/logger.ts";
+import { collectFullResponse } from "../utils/stream.ts";
+import { callUpstreamWithFailover } from "./upstream-caller.ts";
+import {
+  createToolCallIdPrefix,
+  detectToolCalls,
+  executeToolCalls,
+  formatToolLimitNotice,
+  partitionToolCalls,
+  stripToolCallMarkup,
+  type ToolCallResult,
+} from "./tool-processor.ts";
+import { formatToolCallText, formatToolResultText } from "./tool-prompt.ts";
+import type { ToolCallContext } from "./tool-policy.ts";
+import {
+  buildToolChoiceReminder,
+  DEFAULT_TOOL_CALL_POLICY,
+  requiresToolCall,
+  type ToolCallPolicy,
+} from "./tool-choice.ts";
+import type { Message, ThinkTagsMode, Tool, ToolCall, UpstreamRequest, Usage } from "../types/definitions.ts";
+
+/**
+ * Result of one round of native tool calls
+ */
+export interface NativeToolStep {
+  results: ToolCallResult[];
+  body: ReadableStream<Uint8Array>; // Upstream response continuing the conversation
+}
+
+/**
+ * Executes the native tool calls of a turn and continues the conversation upstream
+ * Called with no tool calls when tool_choice requires a call that the model did not make:
+ * the model is then re-prompted and the step has no results.
+ * Returns null when the iteration or retry limit is reached and nothing is sent upstream.
+ */
+export type NativeToolCallHandler = (
+  toolCalls: ToolCall[],
+  assistantText: string,
+) => Promise<NativeToolStep | null>;
+
+/**
+ * Resolve the tool iteration limit for a request
+ * @param requested max_tool_iterations from the request body
+ * @returns Requested limit if it is a non-negative integer, otherwise the server default
+ */
+export function resolveMaxToolIterations(requested: unknown): number {
+  if (typeof requested === "number" && Number.isInteger(requested) && requested >= 0) {
+    return requested;
+  }
+  return CONFIG.MAX_TOOL_ITERATIONS;
+}
+
+/**
+ * Create the native tool handler for one client request
+ * @param upstreamReq Upstream request of the first turn
+ * @param authToken Token that served the first turn
+ * @param maxIterations Maximum number of tool rounds to execute
+ * @param toolPolicy Tool call policy of the request
+ * @param toolContext Caller of the tools, for the tool execution policy
+ * @returns Handler that executes the tool calls of a turn and returns the next upstream body
+ */
+export function createNativeToolLoop(
+  upstreamReq: UpstreamRequest,
+  authToken: string,
+  maxIterations: number,
+  toolPolicy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
+  toolContext: ToolCallContext = {},
+): NativeToolCallHandler {
+  let messages: Message[] = [...upstreamReq.messages];
+  let currentToken = authToken;
+  let iterations = 0;
+  let retries = 0;
+
+  const continueUpstream = async (): Promise<ReadableStream<Uint8Array>> => {
+    const { response, authToken: usedToken } = await callUpstreamWithFailover(
+      { ...upstreamReq, messages },
+      upstreamReq.chat_id!,
+      currentToken,
+    );
+    currentToken = usedToken;
+
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+      throw new Error(`Upstream returned status ${response.status} during tool loop`);
+    }
+    return response.body;
+  };
+
+  return async (toolCalls: ToolCall[], assistantText: string): Promise<NativeToolStep | null> => {
+    if (toolCalls.length === 0) {
+      if (!requiresToolCall(toolPolicy) || retries >= CONFIG.TOOL_CHOICE_RETRIES) {
+        return null;
+      }
+      retries++;
+
+      logger.debug("Model answered without the required tool call, re-prompting (%d)", retries);
+      messages = [
+        ...messages,
+        { role: "assistant", content: assistantText },
+        { role: "user", content: buildToolChoiceReminder(toolPolicy) },
+      ];
+      return { results: [], body: await continueUpstream() };
+    }
+
+    const names = toolCalls.map((toolCall) => toolCall.function.name).join(", ");
+    if (iterations >= maxIterations) {
+      logger.warn("Tool iteration limit (%d) reached, not executing %s", maxIterations, names);
+      return null;
+    }
+    iterations++;
+
+    const results = await executeToolCalls(toolCalls, toolContext);
+    const prose = stripToolCallMarkup(assistantText);
+    messages = [
+      ...messages,
+      { role: "assistant", content: [prose, ...toolCalls.map(formatToolCallText)].filter(Boolean).join("\n\n") },
+      {
+        role: "user",
+        content: results
+          .map(({ toolCall, result }) => formatToolResultText(toolCall.function.name, toolCall.id, result))
+          .join("\n\n"),
+      },
+    ];
+
+    logger.debug("Tool loop iteration %d: continuing after %s", iterations, names);
+    return { results, body: await continueUpstream() };
+  };
+}
+
+/**
+ * Add two usage records
+ */
+function addUsage(total: Usage | null, usage: Usage | null): Usage | null {
+  if (!total) return usage;
+  if (!usage) return total;
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens,
+  };
+}
+
+/**
+ * Collect a non-streaming response, running native tool calls until the model answers
+ * @param body First upstream response body
+ * @param thinkTagsMode Thinking tags mode
+ * @param clientTools Tools defined by the client (their calls are left for the client)
+ * @param onNativeToolCall Handler created by createNativeToolLoop
+ * @param toolPolicy Tool call policy of the request
+ * @returns Final answer with usage summed over all turns and the executed steps
+ */
+export async function collectWithNativeTools(
+  body: ReadableStream<Uint8Array>,
+  thinkTagsMode: ThinkTagsMode,
+  clientTools: Tool[] | undefined,
+  onNativeToolCall: NativeToolCallHandler,
+  toolPolicy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
+): Promise<{ content: string; reasoning_content?: string; usage: Usage | null; toolSteps: NativeToolStep[] }> {
+  const toolSteps: NativeToolStep[] = [];
+  let usage: Usage | null = null;
+  let currentBody = body;
+
+  while (true) {
+    const result = await collectFullResponse(currentBody, thinkTagsMode);
+    usage = addUsage(usage, result.usage);
+
+    const toolCalls = detectToolCalls(
+      { type: "chat:completion", data: { delta_content: result.content, phase: "answer", done: true } },
+      createToolCallIdPrefix(),
+    );
+    // Client calls end the response; native calls from the same turn wait for the client
+    const { client, native } = partitionToolCalls(toolCalls, clientTools, toolPolicy);
+    if (client.length > 0) {
+      return { ...result, usage, toolSteps };
+    }
+
+    if (native.length === 0) {
+      // Re-prompt if tool_choice requires a call and none was made yet
+      const retry = requiresToolCall(toolPolicy) && toolSteps.length === 0
+        ? await onNativeToolCall([], result.content)
+        : null;
+      if (!retry) {
+        return { ...result, usage, toolSteps };
+      }
+      currentBody = retry.body;
+      continue;
+    }
+
+    const step = await onNativeToolCall(native, result.content);
+    if (!step) {
+      // Iteration limit reached: answer with the prose of the turn and say why the calls did not run
+      const content = [stripToolCallMarkup(result.content), formatToolLimitNotice(native)].filter(Boolean).join("\n\n");
+      return { ...result, content, usage, toolSteps };
+    }
+
+    toolSteps.push(step);
+    currentBody = step.body;
+  }
+}
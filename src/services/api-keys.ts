@@ -0,0 +1,545 @@
+/**
+ * API Key Store
+ * Client API keys for /v1/* and /anthropic/v1/*, stored as SHA-256 hashes with their name, owner,
+ * lifetime and the models and routes they may use. Backed by a JSON file (API_KEYS_FILE) or Deno KV
+ * (API_KEYS_STORE=kv). DEFAULT_KEY, when set, is accepted with full access.
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { logger } from "../utils/logger.ts";
+import { normalizeModelId } from "../utils/helpers.ts";
+import { type RateLimits, validateRateLimits } from "./rate-limiter.ts";
+import { type UsageQuota, validateQuotas } from "./usage.ts";
+
+/**
+ * Stored API key
+ * Model and route lists hold names or patterns ending in "*"; ["*"] allows everything.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  owner: string;
+  key_hash: string; // SHA-256 of the key, hex
+  key_prefix: string; // First characters of the key, to recognize it in listings
+  created_at: string;
+  expires_at: string | null;
+  enabled: boolean;
+  allowed_models: string[];
+  allowed_routes: string[];
+  rate_limits?: RateLimits; // Requests and tokens per minute; RATE_LIMIT_* defaults when unset
+  quotas?: UsageQuota[]; // Daily and monthly token and cost limits
+}
+
+/**
+ * Properties of a new API key
+ */
+export interface ApiKeyInput {
+  name: string;
+  owner?: string;
+  expires_at?: string | null;
+  enabled?: boolean;
+  allowed_models?: string[];
+  allowed_routes?: string[];
+  rate_limits?: RateLimits;
+  quotas?: UsageQuota[];
+}
+
+/**
+ * Persistence of API key records
+ */
+export interface ApiKeyStore {
+  list(): Promise<ApiKeyRecord[]>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  save(record: ApiKeyRecord): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Outcome of authenticating a request
+ */
+export type ApiKeyAuthResult =
+  | { ok: true; key: ApiKeyRecord }
+  | { ok: false; status: 401 | 403; type: "authentication_error" | "permission_error"; message: string };
+
+const KEY_PREFIX_LENGTH = 7;
+
+/**
+ * Keys kept in memory only
+ */
+export class MemoryApiKeyStore implements ApiKeyStore {
+  protected records = new Map<string, ApiKeyRecord>();
+
+  list(): Promise<ApiKeyRecord[]> {
+    return Promise.resolve([...this.records.values()]);
+  }
+
+  get(id: string): Promise<ApiKeyRecord | null> {
+    return Promise.resolve(this.records.get(id) ?? null);
+  }
+
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    return Promise.resolve([...this.records.values()].find((record) => record.key_hash === keyHash) ?? null);
+  }
+
+  save(record: ApiKeyRecord): Promise<void> {
+    this.records.set(record.id, record);
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.records.delete(id));
+  }
+}
+
+/**
+ * Keys in a JSON file, read once and rewritten on every change
+ * The file holds `{ "keys": [...] }`. Entries may give a plain `key` instead of `key_hash`; it is hashed
+ * when the file is read, and the file is rewritten without it on the next change.
+ */
+export class FileApiKeyStore extends MemoryApiKeyStore {
+  private loaded: Promise<void> | null = null;
+  private changes: Promise<unknown> = Promise.resolve(); // Last change of the file, see serialize
+
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      let text: string;
+      try {
+        text = await Deno.readTextFile(this.path);
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) return;
+        throw error;
+      }
+      const parsed = JSON.parse(text);
+      const entries = (Array.isArray(parsed) ? parsed : parsed?.keys ?? []) as Array<
+        Partial<ApiKeyRecord> & { key?: string }
+      >;
+      for (const entry of entries) {
+        const record = await normalizeRecord(entry);
+        this.records.set(record.id, record);
+      }
+      if (entries.some((entry) => entry.key !== undefined)) {
+        logger.warn("API key file %s contains plain keys; they are stored hashed on the next change", this.path);
+      }
+    })();
+    return this.loaded;
+  }
+
+  /**
+   * Run a change once the changes before it are written, so that the file always matches the records
+   */
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.changes.then(change);
+    this.changes = result.catch(() => {});
+    return result;
+  }
+
+  private async write(): Promise<void> {
+    const temporary = `${this.path}.${crypto.randomUUID()}.tmp`;
+    try {
+      await Deno.writeTextFile(temporary, JSON.stringify({ keys: [...this.records.values()] }, null, 2) + "\n");
+      await Deno.rename(temporary, this.path);
+    } catch (error) {
+      await Deno.remove(temporary).catch(() => {});
+      throw error;
+    }
+  }
+
+  override async list(): Promise<ApiKeyRecord[]> {
+    await this.load();
+    return super.list();
+  }
+
+  override async get(id: string): Promise<ApiKeyRecord | null> {
+    await this.load();
+    return super.get(id);
+  }
+
+  override async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    await this.load();
+    return super.findByHash(keyHash);
+  }
+
+  override save(record: ApiKeyRecord): Promise<void> {
+    return this.serialize(async () => {
+      await this.load();
+      const previous = this.records.get(record.id);
+      await super.save(record);
+      try {
+        await this.write();
+      } catch (error) {
+        if (previous) this.records.set(record.id, previous);
+        else this.records.delete(record.id);
+        throw error;
+      }
+    });
+  }
+
+  override delete(id: string): Promise<boolean> {
+    return this.serialize(async () => {
+      await this.load();
+      const previous = this.records.get(id);
+      if (!previous) return false;
+      await super.delete(id);
+      try {
+        await this.write();
+      } catch (error) {
+        this.records.set(id, previous);
+        throw error;
+      }
+      return true;
+    });
+  }
+}
+
+/**
+ * Keys in Deno KV, with an index from key hash to id
+ */
+export class KvApiKeyStore implements ApiKeyStore {
+  private kv: Promise<Deno.Kv> | null = null;
+
+  constructor(private readonly path?: string) {}
+
+  private open(): Promise<Deno.Kv> {
+    this.kv ??= Deno.openKv(this.path);
+    return this.kv;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const kv = await this.open();
+    const records: ApiKeyRecord[] = [];
+    for await (const entry of kv.list<ApiKeyRecord>({ prefix: ["api_keys"] })) {
+      records.push(entry.value);
+    }
+    return records;
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return (await (await this.open()).get<ApiKeyRecord>(["api_keys", id])).value;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const id = (await (await this.open()).get<string>(["api_key_hashes", keyHash])).value;
+    return id ? await this.get(id) : null;
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    const kv = await this.open();
+    const existing = await kv.get<ApiKeyRecord>(["api_keys", record.id]);
+    const operation = kv.atomic().check(existing).set(["api_keys", record.id], record);
+    if (existing.value && existing.value.key_hash !== record.key_hash) {
+      operation.delete(["api_key_hashes", existing.value.key_hash]);
+    }
+    const result = await operation.set(["api_key_hashes", record.key_hash], record.id).commit();
+    if (!result.ok) {
+      throw new Error(`API key ${record.id} was changed concurrently, try again`);
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const kv = await this.open();
+    const existing = await kv.get<ApiKeyRecord>(["api_keys", id]);
+    if (!existing.value) return false;
+    const result = await kv.atomic().check(existing).delete(["api_keys", id])
+      .delete(["api_key_hashes", existing.value.key_hash]).commit();
+    if (!result.ok) {
+      throw new Error(`API key ${id} was changed concurrently, try again`);
+    }
+    return true;
+  }
+
+  /**
+   * Close the database (useful for testing)
+   */
+  async close(): Promise<void> {
+    if (this.kv) (await this.kv).close();
+    this.kv = null;
+  }
+}
+
+let store: ApiKeyStore | null = null;
+let persistent = false; // Whether the store outlives the process, see isApiKeyStorePersistent
+
+/**
+ * The configured key store
+ */
+export function getApiKeyStore(): ApiKeyStore {
+  if (!store) {
+    persistent = CONFIG.API_KEYS_STORE === "kv" || CONFIG.API_KEYS_FILE !== "";
+    store = CONFIG.API_KEYS_STORE === "kv"
+      ? new KvApiKeyStore(CONFIG.API_KEYS_KV_PATH || undefined)
+      : CONFIG.API_KEYS_FILE
+      ? new FileApiKeyStore(CONFIG.API_KEYS_FILE)
+      : new MemoryApiKeyStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the key store (useful for testing); a store given here counts as persistent
+ */
+export function setApiKeyStore(keyStore: ApiKeyStore | null): void {
+  store = keyStore;
+  persistent = keyStore !== null;
+}
+
+/**
+ * Whether keys created or changed at runtime survive a restart
+ * Not the case without API_KEYS_FILE or API_KEYS_STORE=kv, when keys are kept in memory only.
+ */
+export function isApiKeyStorePersistent(): boolean {
+  getApiKeyStore();
+  return persistent;
+}
+
+/**
+ * Read the key store at startup, so configuration errors show up early
+ */
+export async function initializeApiKeyStore(): Promise<void> {
+  try {
+    const keys = await getApiKeyStore().list();
+    const backend = CONFIG.API_KEYS_STORE === "kv" ? "Deno KV" : CONFIG.API_KEYS_FILE ? "file" : "memory only";
+    logger.info("API key store: %d keys (%s)", keys.length, backend);
+  } catch (error) {
+    logger.error("Failed to read the API key store: %v", error);
+  }
+}
+
+/**
+ * SHA-256 of an API key, hex
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Create a random API key
+ */
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `sk-${btoa(String.fromCharCode(...bytes)).replaceAll("+", "-").replaceAll("/", "_")}`;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Check and complete a key record read from storage
+ */
+async function normalizeRecord(entry: Partial<ApiKeyRecord> & { key?: string }): Promise<ApiKeyRecord> {
+  const keyHash = entry.key !== undefined ? await hashApiKey(entry.key) : entry.key_hash;
+  if (typeof keyHash !== "string" || !/^[0-9a-f]{64}$/.test(keyHash)) {
+    throw new Error(`API key ${entry.id ?? entry.name ?? "(unnamed)"} needs a key or a SHA-256 key_hash`);
+  }
+  return {
+    id: entry.id ?? `key_${keyHash.substring(0, 12)}`,
+    name: entry.name ?? "",
+    owner: entry.owner ?? "",
+    key_hash: keyHash,
+    key_prefix: entry.key_prefix ?? entry.key?.substring(0, KEY_PREFIX_LENGTH) ?? "",
+    created_at: entry.created_at ?? new Date().toISOString(),
+    expires_at: entry.expires_at ?? null,
+    enabled: entry.enabled ?? true,
+    allowed_models: entry.allowed_models ?? ["*"],
+    allowed_routes: entry.allowed_routes ?? ["*"],
+    ...(entry.rate_limits && { rate_limits: entry.rate_limits }),
+    ...(entry.quotas && { quotas: entry.quotas }),
+  };
+}
+
+/**
+ * Check the properties of a new or changed key
+ * @throws Error describing the first invalid property
+ */
+export function validateApiKeyInput(input: Partial<ApiKeyInput>): void {
+  if (input.name !== undefined && (typeof input.name !== "string" || !input.name.trim())) {
+    throw new Error("name must be a non-empty string");
+  }
+  if (input.owner !== undefined && typeof input.owner !== "string") {
+    throw new Error("owner must be a string");
+  }
+  if (
+    input.expires_at !== undefined && input.expires_at !== null &&
+    (typeof input.expires_at !== "string" || Number.isNaN(Date.parse(input.expires_at)))
+  ) {
+    throw new Error("expires_at must be an ISO 8601 date or null");
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    throw new Error("enabled must be a boolean");
+  }
+  for (const list of ["allowed_models", "allowed_routes"] as const) {
+    if (input[list] !== undefined && !isStringList(input[list])) {
+      throw new Error(`${list} must be an array of strings`);
+    }
+  }
+  if (input.rate_limits !== undefined) {
+    validateRateLimits(input.rate_limits);
+  }
+  if (input.quotas !== undefined) {
+    validateQuotas(input.quotas);
+  }
+}
+
+/**
+ * Create and store a new API key
+ * @returns The key, which is only available now, and its record
+ * @throws Error if the input is invalid
+ */
+export async function createApiKey(input: ApiKeyInput): Promise<{ key: string; record: ApiKeyRecord }> {
+  if (input.name === undefined) {
+    throw new Error("name is required");
+  }
+  validateApiKeyInput(input);
+  const key = generateApiKey();
+  const record: ApiKeyRecord = {
+    id: `key_${crypto.randomUUID().replaceAll("-", "").substring(0, 12)}`,
+    name: input.name.trim(),
+    owner: input.owner ?? "",
+    key_hash: await hashApiKey(key),
+    key_prefix: key.substring(0, KEY_PREFIX_LENGTH),
+    created_at: new Date().toISOString(),
+    expires_at: input.expires_at ? new Date(input.expires_at).toISOString() : null,
+    enabled: input.enabled ?? true,
+    allowed_models: input.allowed_models ?? ["*"],
+    allowed_routes: input.allowed_routes ?? ["*"],
+    ...(input.rate_limits && { rate_limits: input.rate_limits }),
+    ...(input.quotas && { quotas: input.quotas }),
+  };
+  await getApiKeyStore().save(record);
+  logger.info("Created API key %s (%s)", record.id, record.name);
+  return { key, record };
+}
+
+/**
+ * Change the properties of a stored key
+ * @returns The changed record, or null if there is no key with this id
+ * @throws Error if the changes are invalid
+ */
+export async function updateApiKey(id: string, changes: Partial<ApiKeyInput>): Promise<ApiKeyRecord | null> {
+  validateApiKeyInput(changes);
+  const existing = await getApiKeyStore().get(id);
+  if (!existing) return null;
+  const record: ApiKeyRecord = {
+    ...existing,
+    name: changes.name?.trim() ?? existing.name,
+    owner: changes.owner ?? existing.owner,
+    expires_at: changes.expires_at === undefined
+      ? existing.expires_at
+      : changes.expires_at && new Date(changes.expires_at).toISOString(),
+    enabled: changes.enabled ?? existing.enabled,
+    allowed_models: changes.allowed_models ?? existing.allowed_models,
+    allowed_routes: changes.allowed_routes ?? existing.allowed_routes,
+    ...(changes.rate_limits && { rate_limits: { ...existing.rate_limits, ...changes.rate_limits } }),
+    ...(changes.quotas && { quotas: changes.quotas }),
+  };
+  await getApiKeyStore().save(record);
+  logger.info("Updated API key %s (%s)", record.id, record.name);
+  return record;
+}
+
+/**
+ * Replace the key of a stored record; the old key stops working at once
+ * @returns The new key and the record, or null if there is no key with this id
+ */
+export async function rotateApiKey(id: string): Promise<{ key: string; record: ApiKeyRecord } | null> {
+  const existing = await getApiKeyStore().get(id);
+  if (!existing) return null;
+  const key = generateApiKey();
+  const record: ApiKeyRecord = {
+    ...existing,
+    key_hash: await hashApiKey(key),
+    key_prefix: key.substring(0, KEY_PREFIX_LENGTH),
+  };
+  await getApiKeyStore().save(record);
+  logger.info("Rotated API key %s (%s)", record.id, record.name);
+  return { key, record };
+}
+
+/**
+ * Delete a stored key
+ * @returns false if there is no key with this id
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const deleted = await getApiKeyStore().delete(id);
+  if (deleted) {
+    logger.info("Revoked API key %s", id);
+  }
+  return deleted;
+}
+
+/**
+ * Read the client API key from `Authorization: Bearer <key>` or `x-api-key`
+ */
+export function extractApiKey(request: Request): string | null {
+  const authorization = request.headers.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.substring(7).trim() || null;
+  }
+  return request.headers.get("x-api-key")?.trim() || null;
+}
+
+function matches(patterns: string[], value: string): boolean {
+  return patterns.some((pattern) => pattern.endsWith("*") ? value.startsWith(pattern.slice(0, -1)) : pattern === value);
+}
+
+/**
+ * Check whether a key may use a model
+ * @param names Names of the requested model, e.g. the client's name and the upstream model it maps to
+ */
+export function isModelAllowed(key: ApiKeyRecord, ...names: string[]): boolean {
+  const patterns = key.allowed_models.map(normalizeModelId);
+  return names.some((name) => matches(patterns, normalizeModelId(name)));
+}
+
+function defaultKeyRecord(key: string, keyHash: string): ApiKeyRecord {
+  return {
+    id: "default",
+    name: "DEFAULT_KEY",
+    owner: "",
+    key_hash: keyHash,
+    key_prefix: key.substring(0, KEY_PREFIX_LENGTH),
+    created_at: new Date(0).toISOString(),
+    expires_at: null,
+    enabled: true,
+    allowed_models: ["*"],
+    allowed_routes: ["*"],
+  };
+}
+
+/**
+ * Authenticate a client API key for a route
+ * @param key Key from the request, see extractApiKey
+ * @param route Request path, e.g. /v1/chat/completions
+ */
+export async function authenticateApiKey(key: string | null, route: string): Promise<ApiKeyAuthResult> {
+  if (!key) {
+    return { ok: false, status: 401, type: "authentication_error", message: "Missing API key" };
+  }
+
+  const keyHash = await hashApiKey(key);
+  const defaultKey = CONFIG.DEFAULT_KEY;
+  if (defaultKey && keyHash === await hashApiKey(defaultKey)) {
+    return { ok: true, key: defaultKeyRecord(defaultKey, keyHash) };
+  }
+
+  const record = await getApiKeyStore().findByHash(keyHash);
+  if (!record) {
+    return { ok: false, status: 401, type: "authentication_error", message: "Invalid API key" };
+  }
+  if (!record.enabled) {
+    return { ok: false, status: 401, type: "authentication_error", message: "API key is disabled" };
+  }
+  if (record.expires_at && Date.parse(record.expires_at) <= Date.now()) {
+    return { ok: false, status: 401, type: "authentication_error", message: "API key has expired" };
+  }
+  if (!matches(record.allowed_routes, route)) {
+    return { ok: false, status: 403, type: "permission_error", message: `API key may not use ${route}` };
+  }
+  return { ok: true, key: record };
+}
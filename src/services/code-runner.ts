@@ -0,0 +1,289 @@
+/**
+ * Code runner
+ * Runs model-supplied JavaScript/TypeScript for the run_code tool in a separate Deno process.
+ * The process gets no permissions (unless configured with RUN_CODE_PERMISSIONS), an empty
+ * environment, no remote or local module loading, and wall-clock, CPU, heap and output limits.
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { logger } from "../utils/logger.ts";
+
+export interface RunCodeArgs {
+  code: string;
+  language?: "typescript" | "javascript";
+  input?: unknown; // JSON value available to the code as `input`
+}
+
+export interface RunCodeLimits {
+  timeoutMs: number;
+  cpuMs: number;
+  memoryMb: number;
+  maxOutput: number; // Bytes per stream
+  permissions: string; // RUN_CODE_PERMISSIONS syntax
+}
+
+/**
+ * Structured result of a run
+ * `result` is the JSON value returned by the code; `limit` names the limit that stopped it.
+ */
+export interface RunCodeResult {
+  ok: boolean;
+  result?: unknown;
+  stdout: string;
+  stderr: string;
+  error?: string;
+  limit?: "timeout" | "cpu" | "memory" | "output";
+  exit_code: number | null;
+  duration_ms: number;
+}
+
+const MAX_CODE_LENGTH = 100_000;
+const CPU_POLL_INTERVAL_MS = 50;
+const GRANTABLE_PERMISSIONS = ["net", "read", "write", "env", "sys"];
+
+let running = 0;
+
+/**
+ * Current limits from the configuration
+ */
+export function getRunCodeLimits(): RunCodeLimits {
+  return {
+    timeoutMs: CONFIG.RUN_CODE_TIMEOUT_MS,
+    cpuMs: CONFIG.RUN_CODE_CPU_MS,
+    memoryMb: CONFIG.RUN_CODE_MEMORY_MB,
+    maxOutput: CONFIG.RUN_CODE_MAX_OUTPUT,
+    permissions: CONFIG.RUN_CODE_PERMISSIONS,
+  };
+}
+
+/**
+ * Turn a permission spec such as "net=api.example.com;read=/srv/data" into Deno flags
+ * `env=NAME,...` also passes those variables through; run, ffi and all can never be granted.
+ * @returns Flags and the environment variables to pass through
+ * @throws Error if the spec names a permission that cannot be granted
+ */
+export function parseRunCodePermissions(spec: string): { flags: string[]; env: string[] } {
+  const flags: string[] = [];
+  const env: string[] = [];
+  for (const entry of spec.split(";").map((part) => part.trim()).filter(Boolean)) {
+    const [name, values] = entry.split("=", 2).map((part) => part.trim());
+    if (!GRANTABLE_PERMISSIONS.includes(name)) {
+      throw new Error(`Permission '${name}' cannot be granted to run_code`);
+    }
+    flags.push(values ? `--allow-${name}=${values}` : `--allow-${name}`);
+    if (name === "env" && values) {
+      env.push(...values.split(",").map((value) => value.trim()).filter(Boolean));
+    }
+  }
+  return { flags, env };
+}
+
+/**
+ * Build the program for the subprocess
+ * The code runs in a worker as the body of an async function; the main thread meters CPU time
+ * (the worker's busy loops cannot block it) and reports the outcome after a marker line.
+ * The worker prelude stays on the first line so line numbers in errors match the code.
+ */
+function buildSource(code: string, language: RunCodeArgs["language"], input: unknown, cpuMs: number): {
+  source: string;
+  marker: string;
+} {
+  const marker = `__RUN_CODE_RESULT_${crypto.randomUUID()}__`;
+  const worker = `const input = JSON.parse(${JSON.stringify(JSON.stringify(input ?? null))}); ` +
+    `try { const value = await (async () => { ${code}\n})(); let text; ` +
+    `try { text = JSON.stringify({ value }, (_k, v) => typeof v === "bigint" ? v.toString() : v); } ` +
+    `catch { text = JSON.stringify({ value: String(value) }); } self.postMessage(text); } ` +
+    `catch (error) { self.postMessage(JSON.stringify({ error: error instanceof Error ? (error.stack ?? error.message) : String(error) })); }\n`;
+  const mediaType = language === "javascript" ? "text/javascript" : "application/typescript";
+  const workerUrl = `data:${mediaType};base64,${btoa(String.fromCharCode(...new TextEncoder().encode(worker)))}`;
+
+  const source = `import process from "node:process";
+const report = (text) => {
+  Deno.stdout.writeSync(new TextEncoder().encode("\\n" + ${JSON.stringify(marker)} + text + "\\n"));
+  Deno.exit(0);
+};
+const worker = new Worker(${JSON.stringify(workerUrl)}, { type: "module" });
+worker.onmessage = (event) => report(event.data);
+worker.onerror = (event) => {
+  event.preventDefault();
+  report(JSON.stringify({ error: event.message }));
+};
+setInterval(() => {
+  const usage = process.cpuUsage();
+  if ((usage.user + usage.system) / 1000 > ${cpuMs}) report(JSON.stringify({ limit: "cpu" }));
+}, ${CPU_POLL_INTERVAL_MS});
+`;
+  return { source, marker };
+}
+
+/**
+ * Replace the worker's data URL in stack traces and error messages
+ */
+function cleanLocations(text: string): string {
+  return text.replace(/data:[a-z/]+;base64,[A-Za-z0-9+/=.]+/g, "code");
+}
+
+/**
+ * Read a stream up to a byte limit
+ * @returns The bytes read, and whether the limit was hit
+ */
+async function readLimited(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number,
+  onOverflow: () => void,
+): Promise<{ text: string; overflow: boolean }> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let overflow = false;
+  for await (const chunk of stream) {
+    if (overflow) continue;
+    if (size + chunk.length > maxBytes) {
+      chunks.push(chunk.subarray(0, maxBytes - size));
+      overflow = true;
+      onOverflow();
+      continue;
+    }
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { text: new TextDecoder().decode(bytes), overflow };
+}
+
+/**
+ * Run code in a sandboxed Deno subprocess
+ * @param args Code, language and input
+ * @param limits Limits, from the configuration by default
+ * @returns Structured result; failures of the code itself are reported in it, not thrown
+ * @throws Error if the code is rejected before running or too many runs are in progress
+ */
+export async function runCode(args: RunCodeArgs, limits: RunCodeLimits = getRunCodeLimits()): Promise<RunCodeResult> {
+  const { code, language = "typescript", input } = args;
+  if (typeof code !== "string" || !code.trim()) {
+    throw new Error("Code is required");
+  }
+  if (code.length > MAX_CODE_LENGTH) {
+    throw new Error(`Code is longer than ${MAX_CODE_LENGTH} characters`);
+  }
+  // Module loading is not subject to permissions, so imports could read local files
+  if (/\bimport\b/.test(code)) {
+    throw new Error("Code must not use import; modules cannot be loaded in run_code");
+  }
+  if (running >= CONFIG.RUN_CODE_MAX_CONCURRENT) {
+    throw new Error("Too many run_code executions in progress, try again later");
+  }
+
+  const permissions = parseRunCodePermissions(limits.permissions);
+  const env: Record<string, string> = { NO_COLOR: "1" };
+  for (const name of permissions.env) {
+    const value = Deno.env.get(name);
+    if (value !== undefined) env[name] = value;
+  }
+
+  const { source, marker } = buildSource(code, language, input, limits.cpuMs);
+  const startTime = Date.now();
+  running++;
+  try {
+    const child = new Deno.Command(Deno.execPath(), {
+      args: [
+        "run",
+        "--quiet",
+        "--no-prompt",
+        "--no-remote",
+        "--no-npm",
+        "--no-config",
+        "--no-lock",
+        `--v8-flags=--max-old-space-size=${limits.memoryMb}`,
+        "--ext=js",
+        ...permissions.flags,
+        "-",
+      ],
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped",
+      clearEnv: true,
+      env,
+    }).spawn();
+
+    let limit: RunCodeResult["limit"];
+    const stop = (reason: NonNullable<RunCodeResult["limit"]>) => {
+      limit ??= reason;
+      try {
+        child.kill("SIGKILL");
+      } catch {
+        // Already exited
+      }
+    };
+
+    const timeout = setTimeout(() => stop("timeout"), limits.timeoutMs);
+
+    const writer = child.stdin.getWriter();
+    writer.write(new TextEncoder().encode(source))
+      .then(() => writer.close())
+      .catch(() => {}); // The process may be gone before reading its input
+
+    const [stdout, stderr, status] = await Promise.all([
+      readLimited(child.stdout, limits.maxOutput, () => stop("output")),
+      readLimited(child.stderr, limits.maxOutput, () => stop("output")),
+      child.status,
+    ]);
+    clearTimeout(timeout);
+
+    let stdoutText = stdout.text;
+    let payload: { value?: unknown; error?: string; limit?: "cpu" } | undefined;
+    const markerIndex = stdoutText.lastIndexOf(`\n${marker}`);
+    if (markerIndex !== -1) {
+      try {
+        payload = JSON.parse(stdoutText.substring(markerIndex + marker.length + 1));
+      } catch {
+        // Cut off by the output limit
+      }
+      stdoutText = stdoutText.substring(0, markerIndex);
+    }
+
+    if (payload?.limit) {
+      limit ??= payload.limit;
+      payload = undefined;
+    }
+
+    let stderrText = stderr.text;
+    if (!limit && /out of memory/i.test(stderrText)) {
+      limit = "memory";
+      stderrText = stderrText.split("\n<--- Last few GCs --->")[0];
+    }
+
+    const result: RunCodeResult = {
+      ok: !limit && payload !== undefined && payload.error === undefined,
+      stdout: stdoutText,
+      stderr: cleanLocations(stderrText),
+      exit_code: status.code,
+      duration_ms: Date.now() - startTime,
+    };
+    if (payload && "value" in payload) {
+      result.result = payload.value;
+    }
+    if (limit) {
+      result.limit = limit;
+      result.error = {
+        timeout: `Execution took longer than ${limits.timeoutMs}ms`,
+        cpu: `Execution used more than ${limits.cpuMs}ms of CPU time`,
+        memory: `Execution ran out of memory (limit ${limits.memoryMb}MB)`,
+        output: `Output exceeded ${limits.maxOutput} bytes`,
+      }[limit];
+    } else if (payload?.error !== undefined) {
+      result.error = cleanLocations(payload.error);
+    } else if (!payload) {
+      result.error = cleanLocations(stderrText.trim()) || `Process exited with code ${status.code}`;
+    }
+
+    logger.debug("run_code finished in %dms: ok=%s limit=%s", result.duration_ms, result.ok, result.limit ?? "none");
+    return result;
+  } finally {
+    running--;
+  }
+}
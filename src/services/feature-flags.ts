@@ -0,0 +1,48 @@
+/**
+ * Feature Flags
+ * Server-wide defaults of per-request features, changeable at runtime through the admin API.
+ * Request headers still win over these defaults.
+ */
+
+import { CONFIG } from "../config/constants.ts";
+
+export interface FeatureFlags {
+  thinking: boolean; // Thinking when X-Feature-Thinking is not sent (models that support it)
+  strict_params: boolean; // Reject unsupported parameters when X-Strict-Params is not sent
+}
+
+let overrides: Partial<FeatureFlags> = {};
+
+/**
+ * Current feature defaults
+ */
+export function getFeatureFlags(): FeatureFlags {
+  return {
+    thinking: overrides.thinking ?? true,
+    strict_params: overrides.strict_params ?? CONFIG.STRICT_PARAMS,
+  };
+}
+
+/**
+ * Check a change of feature flags
+ * @throws Error naming the first unknown or invalid flag
+ */
+export function validateFeatureFlags(flags: Record<string, unknown>): asserts flags is Partial<FeatureFlags> {
+  const known = Object.keys(getFeatureFlags());
+  for (const [name, value] of Object.entries(flags)) {
+    if (!known.includes(name)) {
+      throw new Error(`Unknown feature flag: ${name}. Known flags: ${known.join(", ")}`);
+    }
+    if (typeof value !== "boolean") {
+      throw new Error(`Feature flag ${name} must be a boolean`);
+    }
+  }
+}
+
+/**
+ * Replace the runtime overrides; flags left out use their configured defaults
+ */
+export function setFeatureFlags(flags: Partial<FeatureFlags>): void {
+  validateFeatureFlags(flags);
+  overrides = { ...flags };
+}
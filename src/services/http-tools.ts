@@ -0,0 +1,272 @@
+/**
+ * Declarative HTTP Tools
+ * Turns HTTP tool definitions from configuration into executable native tools.
+ * A definition describes one REST call: URL template, method, headers, body template,
+ * response extractor and timeout. Tool arguments fill {name} placeholders; {secret:NAME}
+ * placeholders in headers are filled from the environment variables the definition lists in
+ * `secrets`, and never shown to the model.
+ */
+
+import { logger } from "../utils/logger.ts";
+import { decodeBody, readBody, safeFetch } from "./safe-fetch.ts";
+import type { ToolDefinition } from "./tool-loader.ts";
+
+/**
+ * HTTP tool definition as written in configuration
+ */
+export interface HttpToolConfig {
+  name: string;
+  description: string;
+  url: string; // e.g. "https://api.example.com/orders/{order_id}?expand={expand}"
+  method?: string; // Default GET
+  headers?: Record<string, string>; // Values may contain {arg} and {secret:NAME}
+  secrets?: string[]; // Environment variables the headers may use as {secret:NAME}
+  body?: unknown; // JSON template, or a string template sent as is
+  parameters?: Record<string, unknown>; // JSON schema; derived from the placeholders when omitted
+  response?: string; // JSON path applied to a JSON response, e.g. "$.data.items[*].name"
+  timeout_ms?: number; // Default 30000
+  allow_hosts?: string[]; // Hosts exempt from the SSRF checks, "*.example.com" matches subdomains
+  version?: string;
+}
+
+const PLACEHOLDER = /\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
+const SECRET_PLACEHOLDER = /\{secret:([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
+const HEADER_PLACEHOLDER = /\{(?:secret:([a-zA-Z_][a-zA-Z0-9_]*)|([a-zA-Z_][a-zA-Z0-9_]*))\}/g;
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD"];
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 5;
+const MAX_RESPONSE_BYTES = 1_000_000;
+
+/**
+ * Fill {name} placeholders in a template
+ * @param template Template string
+ * @param args Tool arguments
+ * @param encode Encoding applied to each value (URL components in URLs)
+ */
+function fillTemplate(template: string, args: Record<string, unknown>, encode = (value: string) => value): string {
+  return template.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = args[name];
+    if (value === undefined || value === null) return "";
+    return encode(typeof value === "object" ? JSON.stringify(value) : String(value));
+  });
+}
+
+/**
+ * Fill a JSON body template
+ * A string that is exactly one placeholder takes the argument's value with its type;
+ * other strings are filled as text.
+ */
+function fillBody(template: unknown, args: Record<string, unknown>): unknown {
+  if (typeof template === "string") {
+    const single = template.match(/^\{([a-zA-Z_][a-zA-Z0-9_]*)\}$/);
+    return single ? args[single[1]] ?? null : fillTemplate(template, args);
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => fillBody(item, args));
+  }
+  if (template && typeof template === "object") {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, fillBody(value, args)]));
+  }
+  return template;
+}
+
+/**
+ * Fill a header template: {secret:NAME} from environment variables and {name} from tool arguments
+ * Both are filled in one pass, so argument values are never scanned for placeholders and cannot
+ * pull in a secret.
+ * @throws Error if a referenced secret is not set
+ */
+function fillHeader(template: string, args: Record<string, unknown>, toolName: string): string {
+  return template.replace(HEADER_PLACEHOLDER, (_match, secretName: string | undefined, argName: string) => {
+    if (secretName === undefined) {
+      const value = args[argName];
+      if (value === undefined || value === null) return "";
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    }
+    const secret = Deno.env.get(secretName);
+    if (secret === undefined) {
+      throw new Error(`Secret ${secretName} used by tool ${toolName} is not set`);
+    }
+    return secret;
+  });
+}
+
+/**
+ * Names of the {name} placeholders used in a template (secrets excluded)
+ */
+function collectPlaceholders(template: unknown, names: Set<string> = new Set()): Set<string> {
+  if (typeof template === "string") {
+    for (const match of template.matchAll(PLACEHOLDER)) names.add(match[1]);
+  } else if (template && typeof template === "object") {
+    for (const value of Object.values(template)) collectPlaceholders(value, names);
+  }
+  return names;
+}
+
+/**
+ * Extract values from JSON with a JSON path
+ * Supports $, .name, ['name'], [index], [*] and .*; a path with a wildcard returns an array.
+ * @param data Parsed JSON
+ * @param path JSON path
+ * @returns Extracted value, or undefined if the path does not match
+ * @throws Error if the path cannot be parsed
+ */
+export function extractJsonPath(data: unknown, path: string): unknown {
+  if (!path.startsWith("$")) {
+    throw new Error(`JSON path must start with $: ${path}`);
+  }
+
+  const segments: Array<string | number | "*"> = [];
+  const segmentPattern = /\.([a-zA-Z_$][\w$-]*)|\.\*|\[(\d+)\]|\[\*\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+  let position = 1;
+  while (position < path.length) {
+    segmentPattern.lastIndex = position;
+    const match = segmentPattern.exec(path);
+    if (!match) {
+      throw new Error(`Invalid JSON path at position ${position}: ${path}`);
+    }
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else if (match[3] !== undefined || match[4] !== undefined) segments.push((match[3] ?? match[4])!);
+    else segments.push("*");
+    position = segmentPattern.lastIndex;
+  }
+
+  let values: unknown[] = [data];
+  for (const segment of segments) {
+    values = values.flatMap((value) => {
+      if (value === null || typeof value !== "object") return [];
+      if (segment === "*") return Object.values(value);
+      const child = (value as Record<string | number, unknown>)[segment];
+      return child === undefined ? [] : [child];
+    });
+  }
+
+  return segments.includes("*") ? values : values[0];
+}
+
+/**
+ * Check a tool definition from configuration
+ * @throws Error describing the first problem
+ */
+export function validateHttpToolConfig(config: HttpToolConfig): void {
+  if (!config || typeof config !== "object") {
+    throw new Error("HTTP tool definition must be an object");
+  }
+  if (typeof config.url !== "string" || !/^https?:\/\//i.test(config.url)) {
+    throw new Error(`HTTP tool ${config.name} needs an http(s) url`);
+  }
+  if (config.method !== undefined && !METHODS.includes(config.method.toUpperCase())) {
+    throw new Error(`HTTP tool ${config.name} has an unsupported method: ${config.method}`);
+  }
+  if (config.timeout_ms !== undefined && !(config.timeout_ms > 0)) {
+    throw new Error(`HTTP tool ${config.name} needs a positive timeout_ms`);
+  }
+  if (config.response !== undefined) {
+    extractJsonPath(null, config.response);
+  }
+  if (config.allow_hosts !== undefined && !Array.isArray(config.allow_hosts)) {
+    throw new Error(`HTTP tool ${config.name} needs allow_hosts to be an array of host names`);
+  }
+  if (
+    config.secrets !== undefined &&
+    !(Array.isArray(config.secrets) && config.secrets.every((name) => typeof name === "string"))
+  ) {
+    throw new Error(`HTTP tool ${config.name} needs secrets to be an array of environment variable names`);
+  }
+  for (const value of Object.values(config.headers ?? {})) {
+    for (const match of String(value).matchAll(SECRET_PLACEHOLDER)) {
+      if (!config.secrets?.includes(match[1])) {
+        throw new Error(`HTTP tool ${config.name} uses secret ${match[1]}, which is not listed in its secrets`);
+      }
+    }
+  }
+}
+
+/**
+ * Create a tool from an HTTP tool definition
+ * @param config Definition from configuration
+ * @returns Tool definition that can be registered like a tool pack tool
+ * @throws Error if the definition is invalid
+ */
+export function createHttpTool(config: HttpToolConfig): ToolDefinition {
+  validateHttpToolConfig(config);
+
+  const method = (config.method ?? "GET").toUpperCase();
+  const timeoutMs = config.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+  const allowHosts = config.allow_hosts ?? [];
+  const secretHeaders = Object.entries(config.headers ?? {})
+    .filter(([, value]) => value.search(SECRET_PLACEHOLDER) !== -1)
+    .map(([name]) => name);
+  const placeholders = collectPlaceholders([config.url, config.headers ?? {}, config.body ?? null]);
+  const parameters = config.parameters ?? {
+    type: "object",
+    properties: Object.fromEntries([...placeholders].map((name) => [name, { type: "string" }])),
+    required: [...placeholders],
+  };
+
+  const handler = async (rawArgs: unknown): Promise<unknown> => {
+    const args = (rawArgs && typeof rawArgs === "object" ? rawArgs : {}) as Record<string, unknown>;
+
+    const headers = new Headers({ "User-Agent": "ZtoApi-Native-Tool/1.0" });
+    for (const [name, value] of Object.entries(config.headers ?? {})) {
+      headers.set(name, fillHeader(value, args, config.name));
+    }
+
+    let body: string | undefined;
+    if (config.body !== undefined && method !== "GET" && method !== "HEAD") {
+      const filled = fillBody(config.body, args);
+      body = typeof filled === "string" ? filled : JSON.stringify(filled);
+      if (typeof filled !== "string" && !headers.has("Content-Type")) {
+        headers.set("Content-Type", "application/json");
+      }
+    }
+
+    // safeFetch follows redirects manually so every hop passes the SSRF checks, and keeps secrets to their origin
+    let response: Response;
+    try {
+      ({ response } = await safeFetch(
+        fillTemplate(config.url, args, encodeURIComponent),
+        { method, headers, body, signal: AbortSignal.timeout(timeoutMs) },
+        { allowHosts, maxRedirects: MAX_REDIRECTS, sensitiveHeaders: secretHeaders },
+      ));
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new Error(`Request timeout: ${config.name} took longer than ${timeoutMs}ms`);
+      }
+      throw error;
+    }
+
+    const { bytes, truncated } = await readBody(response, MAX_RESPONSE_BYTES);
+    const text = decodeBody(bytes, response.headers.get("content-type") || "");
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${text.substring(0, 500) || response.statusText}`);
+    }
+    if (truncated) {
+      throw new Error(`Response of ${config.name} is larger than ${MAX_RESPONSE_BYTES} bytes`);
+    }
+
+    const isJson = (response.headers.get("content-type") || "").includes("json");
+    if (!config.response) {
+      return isJson && text ? JSON.parse(text) : text;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error(`Response of ${config.name} is not JSON, cannot apply ${config.response}`);
+    }
+    const extracted = extractJsonPath(data, config.response);
+    logger.debug("HTTP tool %s extracted %s", config.name, config.response);
+    return extracted ?? null;
+  };
+
+  return {
+    name: config.name,
+    description: config.description,
+    parameters,
+    handler,
+    version: config.version,
+  };
+}
@@ -4,102 +4,170 @@
  */
 
 import { registerTool, TOOL_REGISTRY } from "./tool-registry.ts";
+import { parseRunCodePermissions, runCode, type RunCodeArgs } from "./code-runner.ts";
+import { decodeBody, readBody, safeFetch, validateUrl } from "./safe-fetch.ts";
+import { CONFIG } from "../config/constants.ts";
+import {
+  addBusinessDays,
+  addDuration,
+  type DateDescription,
+  type DateDifference,
+  describeDate,
+  diffDates,
+  formatDate,
+  parseDate,
+  parseDuration,
+  resolveTimeZone,
+} from "../utils/date-time.ts";
+import { htmlToMarkdown } from "../utils/html-markdown.ts";
+import { evaluateExpression, type ExpressionPrecision } from "../utils/math-expression.ts";
 import { logger } from "../utils/logger.ts";
 
 /**
  * Get current time tool
+ * UTC in ISO 8601 by default, or a description of the local time in the given time zone.
  */
-function getCurrentTime(_args: unknown): string {
-  return new Date().toISOString();
+function getCurrentTime(args: { timezone?: string } | undefined): string | DateDescription {
+  if (!args?.timezone) {
+    return new Date().toISOString();
+  }
+  return describeDate(Date.now(), resolveTimeZone(args.timezone));
 }
 
 /**
- * Validate URL for security (prevent SSRF attacks)
+ * Time zone of a date tool call
  */
-function validateUrl(url: string): void {
-  try {
-    const parsedUrl = new URL(url);
-
-    // Block non-HTTP/HTTPS protocols
-    if (!["http:", "https:"].includes(parsedUrl.protocol)) {
-      throw new Error(`Unsupported protocol: ${parsedUrl.protocol}. Only HTTP and HTTPS are allowed.`);
-    }
+function toolTimeZone(timezone?: string): string {
+  return resolveTimeZone(timezone || CONFIG.DEFAULT_TIMEZONE);
+}
 
-    // Block localhost and private IP ranges
-    const hostname = parsedUrl.hostname.toLowerCase();
+/**
+ * Convert timezone tool
+ */
+function convertTimezone(args: { datetime: string; to_timezone: string; from_timezone?: string }): {
+  from: DateDescription;
+  to: DateDescription;
+} {
+  if (!args || typeof args.to_timezone !== "string") {
+    throw new Error("to_timezone parameter is required and must be a string");
+  }
+  const fromZone = toolTimeZone(args.from_timezone);
+  const instant = parseDate(args.datetime ?? "now", { timeZone: fromZone });
+  return { from: describeDate(instant, fromZone), to: describeDate(instant, resolveTimeZone(args.to_timezone)) };
+}
 
-    // Block localhost variants
-    const localhostPatterns = ["localhost", "127.0.0.1", "0.0.0.0", "::1"];
-    if (localhostPatterns.includes(hostname) || hostname.startsWith("127.") || hostname.startsWith("0.")) {
-      throw new Error("Access to localhost is not allowed for security reasons.");
-    }
+/**
+ * Date add tool
+ */
+function dateAdd(args: {
+  date?: string;
+  duration?: string;
+  business_days?: number;
+  holidays?: string[];
+  timezone?: string;
+}): DateDescription {
+  if (!args || (args.duration === undefined && args.business_days === undefined)) {
+    throw new Error("Either duration or business_days is required");
+  }
+  const timeZone = toolTimeZone(args.timezone);
+  let instant = parseDate(args.date ?? "now", { timeZone });
+  if (args.duration !== undefined) {
+    instant = addDuration(instant, parseDuration(args.duration), timeZone);
+  }
+  if (args.business_days !== undefined) {
+    instant = addBusinessDays(instant, args.business_days, timeZone, args.holidays);
+  }
+  return describeDate(instant, timeZone);
+}
 
-    // Block private IP ranges
-    const privateRanges = [
-      /^10\./,
-      /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
-      /^192\.168\./,
-      /^169\.254\./, // Link-local
-      /^fc00:/, // IPv6 private
-      /^fe80:/, // IPv6 link-local
-    ];
-
-    for (const range of privateRanges) {
-      if (range.test(hostname)) {
-        throw new Error(`Access to private IP range ${hostname} is not allowed for security reasons.`);
-      }
-    }
+/**
+ * Date difference tool
+ */
+function dateDiff(args: { start: string; end?: string; holidays?: string[]; timezone?: string }): DateDifference {
+  if (!args || args.start === undefined) {
+    throw new Error("start parameter is required");
+  }
+  const timeZone = toolTimeZone(args.timezone);
+  const reference = Date.now();
+  const start = parseDate(args.start, { timeZone, reference });
+  const end = parseDate(args.end ?? "now", { timeZone, reference });
+  return diffDates(start, end, timeZone, args.holidays);
+}
 
-    // Block internal hostnames
-    const internalPatterns = ["internal", "intranet", "local", "dev", "test"];
-    if (internalPatterns.some((pattern) => hostname.includes(pattern))) {
-      throw new Error(`Access to internal hostname ${hostname} is not allowed for security reasons.`);
-    }
-  } catch (error) {
-    if (error instanceof Error && error.message.includes("Unsupported protocol")) {
-      throw error;
-    }
-    if (error instanceof Error && (error.message.includes("not allowed") || error.message.includes("security"))) {
-      throw error;
-    }
-    throw new Error(`Invalid URL format: ${error instanceof Error ? error.message : String(error)}`);
+/**
+ * Parse date tool
+ */
+function parseDateText(args: { text: string; timezone?: string; reference?: string }): DateDescription {
+  if (!args || (typeof args.text !== "string" && typeof args.text !== "number")) {
+    throw new Error("Text parameter is required and must be a string");
   }
+  const timeZone = toolTimeZone(args.timezone);
+  const reference = args.reference === undefined ? undefined : parseDate(args.reference, { timeZone });
+  return describeDate(parseDate(args.text, { timeZone, reference }), timeZone);
+}
+
+/**
+ * Format date tool
+ */
+function formatDateTool(args: { date?: string; format?: string; locale?: string; timezone?: string } = {}): string {
+  const timeZone = toolTimeZone(args.timezone);
+  const instant = parseDate(args.date ?? "now", { timeZone });
+  return formatDate(instant, args.format || "full", { timeZone, locale: args.locale });
+}
+
+const FETCH_URL_TIMEOUT_MS = 60000;
+const FETCH_URL_DEFAULT_MAX_CHARS = 10000;
+const FETCH_URL_MAX_HTML_CHARS = 500000; // HTML converted to Markdown; the conversion runs on the event loop
+
+/**
+ * Whether fetch_url can return a response of this content type as text
+ */
+function isTextContent(contentType: string): boolean {
+  return !contentType || /^text\/|json|xml|javascript|yaml|csv|x-www-form-urlencoded/i.test(contentType);
 }
 
 /**
  * Fetch URL tool with security validation
+ * HTML pages are returned as Markdown of their main content, or of the elements matching `selector`.
  */
-async function fetchUrl(args: { url: string }): Promise<string> {
+async function fetchUrl(args: { url: string; selector?: string; max_chars?: number }): Promise<string> {
   if (!args || typeof args.url !== "string") {
     throw new Error("URL parameter is required and must be a string");
   }
+  const maxChars = args.max_chars ?? FETCH_URL_DEFAULT_MAX_CHARS;
+  if (!Number.isInteger(maxChars) || maxChars <= 0) {
+    throw new Error("max_chars must be a positive integer");
+  }
 
-  // Validate URL for security
+  // Validate URL for security before resolving it; safeFetch checks every hop again
   validateUrl(args.url);
 
+  let finalUrl: string;
+  let contentType: string;
+  let body: { bytes: Uint8Array; truncated: boolean };
   try {
-    const response = await fetch(args.url, {
+    const fetched = await safeFetch(args.url, {
       method: "GET",
       headers: {
         "User-Agent": "ZtoApi-Native-Tool/1.0",
+        "Accept": "text/html,application/xhtml+xml,application/json;q=0.9,text/plain;q=0.8,*/*;q=0.5",
       },
       // Add timeout to prevent hanging
-      signal: AbortSignal.timeout(60000), // 1 minute timeout
+      signal: AbortSignal.timeout(FETCH_URL_TIMEOUT_MS),
     });
+    const response = fetched.response;
+    finalUrl = fetched.url;
+    contentType = response.headers.get("content-type") || "";
 
     if (!response.ok) {
+      await response.body?.cancel();
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
-
-    const contentType = response.headers.get("content-type") || "";
-    if (contentType.includes("application/json")) {
-      const data = await response.json();
-      return JSON.stringify(data, null, 2);
-    } else {
-      const text = await response.text();
-      // Limit response size to prevent issues
-      return text.length > 10000 ? text.substring(0, 10000) + "..." : text;
+    if (!isTextContent(contentType)) {
+      await response.body?.cancel();
+      throw new Error(`Unsupported content type: ${contentType}`);
     }
+    body = await readBody(response, CONFIG.FETCH_URL_MAX_BYTES);
   } catch (error) {
     if (error instanceof Error && error.name === "TimeoutError") {
       throw new Error(`Request timeout: URL took too long to respond`);
@@ -107,6 +175,36 @@ async function fetchUrl(args: { url: string }): Promise<string> {
     logger.error("Failed to fetch URL %s: %v", args.url, error);
     throw new Error(`Failed to fetch URL: ${error instanceof Error ? error.message : String(error)}`);
   }
+
+  const text = decodeBody(body.bytes, contentType);
+  let result: string;
+  let htmlTruncated = false;
+  if (/html/i.test(contentType)) {
+    htmlTruncated = text.length > FETCH_URL_MAX_HTML_CHARS;
+    const html = htmlTruncated ? text.substring(0, FETCH_URL_MAX_HTML_CHARS) : text;
+    const page = htmlToMarkdown(html, { baseUrl: finalUrl, selector: args.selector });
+    result = `${page.title ? `Title: ${page.title}\n` : ""}URL: ${finalUrl}\n\n${page.markdown}`;
+  } else if (args.selector) {
+    throw new Error(`selector can only be used with HTML pages, got ${contentType || "no content type"}`);
+  } else if (contentType.includes("json") && !body.truncated) {
+    try {
+      result = JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      result = text;
+    }
+  } else {
+    result = text;
+  }
+
+  // Limit response size to prevent issues
+  if (result.length > maxChars) {
+    result = `${result.substring(0, maxChars)}\n\n[Truncated: showing ${maxChars} of ${result.length} characters]`;
+  } else if (htmlTruncated) {
+    result += `\n\n[Truncated: only the first ${FETCH_URL_MAX_HTML_CHARS} characters of the page were converted]`;
+  } else if (body.truncated) {
+    result += `\n\n[Truncated: only the first ${CONFIG.FETCH_URL_MAX_BYTES} bytes were read]`;
+  }
+  return result;
 }
 
 /**
@@ -149,31 +247,48 @@ async function hashString(args: { text: string; algorithm?: "sha256" | "sha1" |
 /**
  * Calculate expression tool
  */
-function calculateExpression(args: { expression: string }): number {
+function calculateExpression(args: {
+  expression: string;
+  variables?: Record<string, number | string>;
+  precision?: ExpressionPrecision;
+  decimals?: number;
+}): number | string {
   if (!args || typeof args.expression !== "string") {
     throw new Error("Expression parameter is required and must be a string");
   }
 
-  // Simple and safe math expression evaluation
-  // Only allow numbers, basic operators, and parentheses
-  const sanitized = args.expression.replace(/[^0-9+\-*/().\s]/g, "");
-  if (sanitized !== args.expression) {
-    throw new Error("Expression contains invalid characters");
-  }
-
   try {
-    // Use Function constructor for safe evaluation (no access to global scope)
-    const result = new Function(`"use strict"; return (${sanitized})`)();
-    if (typeof result !== "number" || !isFinite(result)) {
-      throw new Error("Invalid calculation result");
-    }
-    return result;
+    return evaluateExpression(args.expression, {
+      variables: args.variables,
+      precision: args.precision,
+      decimals: args.decimals,
+    });
   } catch (error) {
     logger.error("Failed to calculate expression %s: %v", args.expression, error);
     throw new Error(`Failed to calculate expression: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Check whether run_code can be offered: enabled, allowed to start Deno, and validly configured
+ */
+function canRunCode(): boolean {
+  if (!CONFIG.RUN_CODE_ENABLED) {
+    return false;
+  }
+  if (Deno.permissions.querySync({ name: "run", command: Deno.execPath() }).state !== "granted") {
+    logger.warn("RUN_CODE_ENABLED is set but the server may not start %s (--allow-run)", Deno.execPath());
+    return false;
+  }
+  try {
+    parseRunCodePermissions(CONFIG.RUN_CODE_PERMISSIONS);
+  } catch (error) {
+    logger.error("Invalid RUN_CODE_PERMISSIONS, run_code is not available: %v", error);
+    return false;
+  }
+  return true;
+}
+
 /**
  * Register all built-in tools
  */
@@ -183,11 +298,127 @@ export function initializeBuiltinTools(): void {
   // Register get_current_time tool
   registerTool(
     "get_current_time",
-    getCurrentTime,
-    "Get the current UTC time in ISO 8601 format",
+    (...args: unknown[]) => getCurrentTime(args[0] as { timezone?: string } | undefined),
+    "Get the current time: UTC in ISO 8601 format, or the local time in an IANA time zone",
+    {
+      type: "object",
+      properties: {
+        timezone: {
+          type: "string",
+          description: "IANA time zone, e.g. Asia/Tokyo; returns date, time, UTC offset, abbreviation and DST",
+        },
+      },
+      required: [],
+    },
+  );
+
+  // Register date and time tools
+  const timezoneParameter = {
+    type: "string",
+    description: "IANA time zone, e.g. Europe/Berlin, of dates without an offset and of the result (default " +
+      "DEFAULT_TIMEZONE)",
+  };
+  const holidaysParameter = {
+    type: "array",
+    items: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+    description: "Dates (YYYY-MM-DD) that are not business days",
+  };
+
+  registerTool(
+    "convert_timezone",
+    (...args: unknown[]) => convertTimezone(args[0] as Parameters<typeof convertTimezone>[0]),
+    "Convert a date and time from one time zone to another",
+    {
+      type: "object",
+      properties: {
+        datetime: {
+          type: "string",
+          description: "Date and time to convert, e.g. '2025-03-05 14:00' or 'tomorrow 9am'",
+        },
+        from_timezone: { type: "string", description: "IANA time zone of datetime (default DEFAULT_TIMEZONE)" },
+        to_timezone: { type: "string", description: "IANA time zone to convert to, e.g. America/New_York" },
+      },
+      required: ["datetime", "to_timezone"],
+    },
+  );
+
+  registerTool(
+    "date_add",
+    (...args: unknown[]) => dateAdd(args[0] as Parameters<typeof dateAdd>[0]),
+    "Add or subtract a duration or a number of business days (Monday to Friday) to a date",
     {
       type: "object",
-      properties: {},
+      properties: {
+        date: {
+          type: "string",
+          description:
+            "Date: ISO 8601, a Unix timestamp, or English text such as 'tomorrow 3pm', 'next friday' or 'March 5, 2025' (default now)",
+        },
+        duration: {
+          type: "string",
+          description: "Duration to add, ISO 8601 (P1M2D, PT90M) or text ('2 weeks 3 days'); negative to subtract " +
+            "(-P1D, '-3 hours')",
+        },
+        business_days: { type: "integer", description: "Business days to add, negative to subtract" },
+        holidays: holidaysParameter,
+        timezone: timezoneParameter,
+      },
+      required: [],
+    },
+  );
+
+  registerTool(
+    "date_diff",
+    (...args: unknown[]) => dateDiff(args[0] as Parameters<typeof dateDiff>[0]),
+    "Calculate the difference between two dates in years, months, days and time, in totals and in business days",
+    {
+      type: "object",
+      properties: {
+        start: { type: "string", description: "Start date" },
+        end: { type: "string", description: "End date (default now)" },
+        holidays: holidaysParameter,
+        timezone: timezoneParameter,
+      },
+      required: ["start"],
+    },
+  );
+
+  registerTool(
+    "parse_date",
+    (...args: unknown[]) => parseDateText(args[0] as Parameters<typeof parseDateText>[0]),
+    "Parse a natural-language date such as 'next friday at 9:30', 'in 3 days', 'end of month' or '5 March 2025'",
+    {
+      type: "object",
+      properties: {
+        text: { type: "string", description: "Text to parse" },
+        timezone: timezoneParameter,
+        reference: { type: "string", description: "Date that relative text is relative to (default now)" },
+      },
+      required: ["text"],
+    },
+  );
+
+  registerTool(
+    "format_date",
+    (...args: unknown[]) => formatDateTool(args[0] as Parameters<typeof formatDateTool>[0]),
+    "Format a date for display in a locale and time zone",
+    {
+      type: "object",
+      properties: {
+        date: {
+          type: "string",
+          description:
+            "Date: ISO 8601, a Unix timestamp, or English text such as 'tomorrow 3pm', 'next friday' or 'March 5, 2025' (default now)",
+        },
+        format: {
+          type: "string",
+          description: "full (default), long, medium, short, iso, unix, relative ('in 3 days'), date, time, or a " +
+            "pattern such as 'EEEE, d MMMM yyyy HH:mm z' (yyyy MM MMM MMMM dd d EEE EEEE HH hh mm ss SSS a XXX z " +
+            "zzzz; text in single quotes is literal)",
+        },
+        locale: { type: "string", description: "BCP 47 locale, e.g. en-US or de-DE (default en-US)" },
+        timezone: timezoneParameter,
+      },
       required: [],
     },
   );
@@ -195,8 +426,8 @@ export function initializeBuiltinTools(): void {
   // Register fetch_url tool
   registerTool(
     "fetch_url",
-    (...args: unknown[]) => fetchUrl(args[0] as { url: string }),
-    "Fetch content from a URL (supports text and JSON responses)",
+    (...args: unknown[]) => fetchUrl(args[0] as { url: string; selector?: string; max_chars?: number }),
+    "Fetch content from a URL. HTML pages are returned as Markdown of their main content; JSON is formatted.",
     {
       type: "object",
       properties: {
@@ -204,6 +435,16 @@ export function initializeBuiltinTools(): void {
           type: "string",
           description: "The URL to fetch content from",
         },
+        selector: {
+          type: "string",
+          description:
+            "CSS selector of the part of an HTML page to return instead of its main content, e.g. 'table.prices'",
+        },
+        max_chars: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum number of characters to return (default 10000)",
+        },
       },
       required: ["url"],
     },
@@ -234,19 +475,67 @@ export function initializeBuiltinTools(): void {
   // Register calculate_expression tool
   registerTool(
     "calculate_expression",
-    (...args: unknown[]) => calculateExpression(args[0] as { expression: string }),
-    "Safely evaluate mathematical expressions",
+    (...args: unknown[]) => calculateExpression(args[0] as Parameters<typeof calculateExpression>[0]),
+    "Evaluate a math expression: + - * / ^ mod, percentages (15%, 100 + 10%), factorial (5!), " +
+      "functions (sqrt, sin, cos, tan, log, ln, exp, abs, round, min, max, ...), constants (pi, e, tau, phi), " +
+      "variables and unit conversion (5 km to mi)",
     {
       type: "object",
       properties: {
         expression: {
           type: "string",
-          description: "Mathematical expression to evaluate",
+          description: "Mathematical expression to evaluate, e.g. `sqrt(2) * r^2` or `2^10`",
+        },
+        variables: {
+          type: "object",
+          description: 'Values of the variables used in the expression, e.g. {"r": 3}',
+          additionalProperties: { type: ["number", "string"] },
+        },
+        precision: {
+          type: "string",
+          enum: ["double", "decimal", "bigint"],
+          description: "double (default), decimal for exact decimal digits, bigint for exact large integers. " +
+            "decimal and bigint results are returned as strings",
+        },
+        decimals: {
+          type: "integer",
+          minimum: 0,
+          maximum: 100,
+          description: "Digits after the decimal point with decimal precision (default 20)",
         },
       },
       required: ["expression"],
     },
   );
 
+  // Register run_code tool (opt-in with RUN_CODE_ENABLED)
+  if (canRunCode()) {
+    registerTool(
+      "run_code",
+      (...args: unknown[]) => runCode(args[0] as RunCodeArgs),
+      "Run JavaScript or TypeScript in a sandbox without file, network or environment access. " +
+        "The code is the body of an async function: use `return` for the result and console.log for output. " +
+        "The optional input is available as `input`. Imports are not available.",
+      {
+        type: "object",
+        properties: {
+          code: {
+            type: "string",
+            description: "Code to run, e.g. `return input.values.reduce((a, b) => a + b, 0);`",
+          },
+          language: {
+            type: "string",
+            enum: ["typescript", "javascript"],
+            description: "Language of the code (default typescript)",
+          },
+          input: {
+            description: "JSON data passed to the code as `input`",
+          },
+        },
+        required: ["code"],
+      },
+    );
+  }
+
   logger.info("Initialized %d built-in tools", Object.keys(TOOL_REGISTRY).length);
 }
@@ -0,0 +1,445 @@
+/**
+ * MCP Client
+ * Minimal Model Context Protocol client over stdio and streamable HTTP.
+ * Speaks JSON-RPC 2.0: initialize handshake, tools/list, tools/call and server notifications.
+ */
+
+import { logger } from "../utils/logger.ts";
+
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+
+/**
+ * Configuration of one MCP server
+ * A server is started as a subprocess when `command` is set, otherwise `url` is used.
+ */
+export interface McpServerConfig {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  timeout_ms?: number; // Timeout of each request, default MCP_TIMEOUT_MS
+  namespace?: string; // Prefix of the registered tool names, default the server name
+  enabled?: boolean;
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+export interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  resource?: { uri?: string; text?: string };
+}
+
+export interface McpCallResult {
+  content?: McpContent[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Message channel to one MCP server
+ */
+interface McpTransport {
+  start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Parse server-sent events into their data payloads
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let data: string[] = [];
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length > 0) yield data.join("\n");
+          data = [];
+        } else if (line.startsWith("data:")) {
+          data.push(line.substring(5).replace(/^ /, ""));
+        }
+      }
+    }
+    if (data.length > 0) yield data.join("\n");
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * MCP server running as a subprocess, one JSON-RPC message per line on stdin/stdout
+ */
+class StdioTransport implements McpTransport {
+  private process: Deno.ChildProcess | null = null;
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+  private closing = false;
+
+  constructor(private readonly name: string, private readonly config: McpServerConfig) {}
+
+  start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void> {
+    this.process = new Deno.Command(this.config.command!, {
+      args: this.config.args ?? [],
+      env: this.config.env,
+      cwd: this.config.cwd,
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+    this.writer = this.process.stdin.getWriter();
+
+    const readLines = async (stream: ReadableStream<Uint8Array>, handle: (line: string) => void) => {
+      let buffer = "";
+      for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+        buffer += chunk;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          if (line.trim()) handle(line);
+        }
+      }
+    };
+
+    readLines(this.process.stdout, (line) => {
+      try {
+        onMessage(JSON.parse(line));
+      } catch {
+        logger.debug("MCP %s wrote a non-JSON line: %s", this.name, line.substring(0, 200));
+      }
+    }).catch(() => {});
+    readLines(this.process.stderr, (line) => logger.debug("MCP %s stderr: %s", this.name, line)).catch(() => {});
+
+    this.process.status.then((status) => {
+      if (!this.closing) {
+        // Release stdin of the exited process
+        this.writer?.close().catch(() => {});
+        this.writer = null;
+        onClose(new Error(`MCP server ${this.name} exited with code ${status.code}`));
+      }
+    });
+    return Promise.resolve();
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.writer) throw new Error(`MCP server ${this.name} is not running`);
+    await this.writer.write(new TextEncoder().encode(JSON.stringify(message) + "\n"));
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    try {
+      await this.writer?.close();
+    } catch {
+      // The process may already be gone
+    }
+    try {
+      this.process?.kill("SIGTERM");
+    } catch {
+      // Already exited
+    }
+    await this.process?.status;
+    this.process = null;
+    this.writer = null;
+  }
+}
+
+/**
+ * MCP server reached over streamable HTTP
+ * Each message is POSTed; responses arrive as JSON or as an SSE stream. A GET stream, when the
+ * server offers one, delivers server-initiated notifications such as tools/list_changed.
+ */
+class HttpTransport implements McpTransport {
+  private sessionId: string | null = null;
+  private onMessage: (message: JsonRpcMessage) => void = () => {};
+  private onClose: (error?: Error) => void = () => {};
+  private listener: AbortController | null = null;
+  private closed = false;
+
+  constructor(private readonly name: string, private readonly config: McpServerConfig) {}
+
+  start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void> {
+    this.onMessage = onMessage;
+    this.onClose = onClose;
+    return Promise.resolve();
+  }
+
+  private headers(accept: string): Headers {
+    const headers = new Headers(this.config.headers);
+    headers.set("Accept", accept);
+    headers.set("MCP-Protocol-Version", MCP_PROTOCOL_VERSION);
+    if (this.sessionId) headers.set("Mcp-Session-Id", this.sessionId);
+    return headers;
+  }
+
+  private async deliver(response: Response): Promise<void> {
+    const contentType = response.headers.get("content-type") || "";
+    if (contentType.includes("text/event-stream") && response.body) {
+      for await (const data of readServerSentEvents(response.body)) {
+        try {
+          this.onMessage(JSON.parse(data));
+        } catch {
+          logger.debug("MCP %s sent a non-JSON event: %s", this.name, data.substring(0, 200));
+        }
+      }
+    } else if (contentType.includes("json")) {
+      const body = await response.json();
+      for (const message of Array.isArray(body) ? body : [body]) this.onMessage(message);
+    } else {
+      await response.body?.cancel();
+    }
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const headers = this.headers("application/json, text/event-stream");
+    headers.set("Content-Type", "application/json");
+    const response = await fetch(this.config.url!, { method: "POST", headers, body: JSON.stringify(message) });
+
+    if (response.status === 404 && this.sessionId) {
+      await response.body?.cancel();
+      this.onClose(new Error(`MCP server ${this.name} ended the session`));
+      throw new Error(`MCP server ${this.name} ended the session`);
+    }
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`MCP server ${this.name} returned HTTP ${response.status}: ${text.substring(0, 200)}`);
+    }
+
+    const sessionId = response.headers.get("Mcp-Session-Id");
+    if (sessionId && !this.sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    // Responses on an SSE stream are delivered in the background so notifications can interleave
+    this.deliver(response).catch((error) => logger.debug("MCP %s response stream failed: %v", this.name, error));
+
+    if (message.method === "notifications/initialized") {
+      this.listen();
+    }
+  }
+
+  /**
+   * Open the GET stream for server-initiated messages, reconnecting while the transport is open
+   */
+  private listen(): void {
+    this.listener = new AbortController();
+    const signal = this.listener.signal;
+    (async () => {
+      while (!this.closed && !signal.aborted) {
+        const response = await fetch(this.config.url!, { headers: this.headers("text/event-stream"), signal });
+        if (!response.ok || !(response.headers.get("content-type") || "").includes("text/event-stream")) {
+          await response.body?.cancel();
+          logger.debug("MCP %s does not offer a notification stream (HTTP %d)", this.name, response.status);
+          return;
+        }
+        await this.deliver(response);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    })().catch((error) => {
+      if (!signal.aborted) logger.debug("MCP %s notification stream failed: %v", this.name, error);
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.listener?.abort();
+    if (this.sessionId) {
+      try {
+        const response = await fetch(this.config.url!, { method: "DELETE", headers: this.headers("application/json") });
+        await response.body?.cancel();
+      } catch {
+        // The server may already be gone
+      }
+    }
+    this.sessionId = null;
+  }
+}
+
+/**
+ * Connection to one MCP server
+ */
+export class McpClient {
+  private transport: McpTransport;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  private info: { name?: string; version?: string } = {};
+
+  /**
+   * Called with server notifications, e.g. "notifications/tools/list_changed"
+   */
+  onNotification: (method: string, params?: Record<string, unknown>) => void = () => {};
+
+  /**
+   * Called once when the connection is lost unexpectedly
+   */
+  onClose: (error?: Error) => void = () => {};
+
+  /**
+   * @param name Server name from the configuration
+   * @param config Server configuration
+   * @param timeoutMs Timeout of each request
+   */
+  constructor(private readonly name: string, config: McpServerConfig, private readonly timeoutMs: number) {
+    if (config.command) {
+      this.transport = new StdioTransport(name, config);
+    } else if (config.url) {
+      this.transport = new HttpTransport(name, config);
+    } else {
+      throw new Error(`MCP server ${name} needs a command or a url`);
+    }
+  }
+
+  /**
+   * Name and version the server reported during initialization
+   */
+  get serverInfo(): { name?: string; version?: string } {
+    return { ...this.info };
+  }
+
+  /**
+   * Start the transport and run the initialize handshake
+   */
+  async connect(): Promise<void> {
+    let closed = false;
+    await this.transport.start(
+      (message) => this.handleMessage(message),
+      (error) => {
+        if (closed) return;
+        closed = true;
+        this.failPending(error ?? new Error(`MCP server ${this.name} disconnected`));
+        this.onClose(error);
+      },
+    );
+
+    const result = await this.request("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "ZtoApi", version: "2.1.0" },
+    }) as { serverInfo?: { name?: string; version?: string } };
+    this.info = result?.serverInfo ?? {};
+    await this.transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+  }
+
+  /**
+   * List all tools of the server, following pagination
+   */
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request("tools/list", cursor ? { cursor } : {}) as {
+        tools?: McpTool[];
+        nextCursor?: string;
+      };
+      tools.push(...(page?.tools ?? []));
+      cursor = page?.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Call a tool
+   * @param name Tool name on the server
+   * @param args Tool arguments
+   */
+  async callTool(name: string, args: unknown): Promise<McpCallResult> {
+    return await this.request("tools/call", { name, arguments: args ?? {} }) as McpCallResult;
+  }
+
+  /**
+   * Close the connection; pending requests fail
+   */
+  async close(): Promise<void> {
+    this.onClose = () => {};
+    this.failPending(new Error(`MCP server ${this.name} connection closed`));
+    await this.transport.close();
+  }
+
+  private request(method: string, params: Record<string, unknown>): Promise<unknown> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.transport.send({
+          jsonrpc: "2.0",
+          method: "notifications/cancelled",
+          params: { requestId: id, reason: "Request timed out" },
+        }).catch(() => {});
+        reject(new Error(`MCP server ${this.name} did not answer ${method} within ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      this.transport.send({ jsonrpc: "2.0", id, method, params }).catch((error) => {
+        this.pending.get(id)?.reject(error instanceof Error ? error : new Error(String(error)));
+        this.pending.delete(id);
+      });
+    });
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (message.id !== undefined && message.id !== null && !message.method) {
+      const pending = this.pending.get(Number(message.id));
+      if (!pending) return;
+      this.pending.delete(Number(message.id));
+      if (message.error) {
+        pending.reject(new Error(`MCP error ${message.error.code}: ${message.error.message}`));
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    // Request from the server: answer ping, decline everything else
+    if (message.method && message.id !== undefined && message.id !== null) {
+      const reply: JsonRpcMessage = message.method === "ping"
+        ? { jsonrpc: "2.0", id: message.id, result: {} }
+        : { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+      this.transport.send(reply).catch(() => {});
+      return;
+    }
+
+    if (message.method) {
+      this.onNotification(message.method, message.params);
+    }
+  }
+
+  private failPending(error: Error): void {
+    for (const pending of this.pending.values()) {
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * MCP Server
+ * Exposes the gateway to MCP clients: the tools in TOOL_REGISTRY, a `chat` tool that sends a
+ * chat completion through handleChatCompletions, and the supported models as resources.
+ * Transport independent; see handlers/mcp.ts for streamable HTTP and serveMcpStdio() for stdio.
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { SUPPORTED_MODELS } from "../config/models.ts";
+import { handleChatCompletions } from "../handlers/openai.ts";
+import { logger } from "../utils/logger.ts";
+import { recordToolCall } from "../utils/stats.ts";
+import type { ToolCall } from "../types/definitions.ts";
+import { authenticateApiKey } from "./api-keys.ts";
+import { type JsonRpcMessage, MCP_PROTOCOL_VERSION } from "./mcp-client.ts";
+import { getAllTools } from "./tool-registry.ts";
+import { formatToolArgumentsError, formatToolPolicyError, prepareToolArguments } from "./tool-processor.ts";
+import { executeToolWithPolicy, isToolAllowed, type ToolCallContext, ToolPolicyError } from "./tool-policy.ts";
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2024-11-05", MCP_PROTOCOL_VERSION, "2025-06-18"];
+const SERVER_INFO = { name: "ZtoApi", version: "2.1.0" };
+const CHAT_TOOL_NAME = "chat";
+const MODEL_URI_PREFIX = "ztoapi://models/";
+
+/**
+ * Request context of an MCP message
+ */
+export interface McpRequestContext {
+  authorization?: string | null; // Forwarded to the chat completions handler
+  keyId?: string; // Id of the authenticated key in the API key store
+  approvedTools?: string[]; // Tools approved by the caller (X-Approve-Tools); "*" for all
+}
+
+interface McpToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}
+
+/**
+ * JSON-RPC error with its error code
+ */
+class JsonRpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+function textResult(text: string, isError = false): McpToolResult {
+  return isError ? { content: [{ type: "text", text }], isError } : { content: [{ type: "text", text }] };
+}
+
+function chatToolDefinition() {
+  return {
+    name: CHAT_TOOL_NAME,
+    description: "Send a chat completion request to a GLM model and return the assistant's reply. " +
+      "Pass either a single prompt or a list of messages.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        model: { type: "string", enum: SUPPORTED_MODELS.map((model) => model.id), description: "Model id" },
+        prompt: { type: "string", description: "User message" },
+        system: { type: "string", description: "System prompt" },
+        messages: {
+          type: "array",
+          description: "OpenAI-style chat messages, used instead of prompt",
+          items: {
+            type: "object",
+            properties: { role: { type: "string" }, content: { type: "string" } },
+            required: ["role", "content"],
+          },
+        },
+        temperature: { type: "number" },
+        max_tokens: { type: "integer" },
+      },
+    },
+  };
+}
+
+/**
+ * Caller of registry tools for the tool policy
+ * Tools that require approval need the key's policy or the caller to approve them.
+ */
+function toolContextOf(context: McpRequestContext): ToolCallContext {
+  const authorization = context.authorization ?? "";
+  return {
+    apiKey: authorization.startsWith("Bearer ") ? authorization.substring(7) : undefined,
+    keyId: context.keyId,
+    approvedTools: context.approvedTools,
+  };
+}
+
+function listTools(context: McpRequestContext) {
+  const toolContext = toolContextOf(context);
+  const tools = getAllTools()
+    .filter(({ name }) => name !== CHAT_TOOL_NAME && isToolAllowed(name, toolContext))
+    .map(({ name, metadata }) => ({
+      name,
+      description: metadata.description,
+      inputSchema: metadata.parameters,
+    }));
+  return { tools: [chatToolDefinition(), ...tools] };
+}
+
+/**
+ * Run the chat tool through the OpenAI-compatible handler
+ */
+async function callChat(args: Record<string, unknown>, context: McpRequestContext): Promise<McpToolResult> {
+  const messages = Array.isArray(args.messages) ? [...args.messages] : [];
+  if (messages.length === 0) {
+    if (typeof args.prompt !== "string" || !args.prompt) {
+      return textResult("Either prompt or messages is required", true);
+    }
+    messages.push({ role: "user", content: args.prompt });
+  }
+  if (typeof args.system === "string" && args.system) {
+    messages.unshift({ role: "system", content: args.system });
+  }
+
+  const body: Record<string, unknown> = {
+    model: typeof args.model === "string" ? args.model : SUPPORTED_MODELS[0].id,
+    messages,
+    stream: false,
+  };
+  if (typeof args.temperature === "number") body.temperature = args.temperature;
+  if (typeof args.max_tokens === "number") body.max_tokens = args.max_tokens;
+
+  const headers = new Headers({ "Content-Type": "application/json", "User-Agent": "ZtoApi MCP" });
+  if (context.authorization) headers.set("Authorization", context.authorization);
+  const response = await handleChatCompletions(
+    new Request("http://localhost/v1/chat/completions", { method: "POST", headers, body: JSON.stringify(body) }),
+  );
+
+  const text = await response.text();
+  if (!response.ok) {
+    return textResult(`Chat completion failed (${response.status}): ${text}`, true);
+  }
+  const completion = JSON.parse(text);
+  return textResult(completion.choices?.[0]?.message?.content ?? "");
+}
+
+/**
+ * Execute a registry tool with the same argument validation as native tool calls
+ */
+async function callRegistryTool(name: string, args: unknown, context: McpRequestContext): Promise<McpToolResult> {
+  const toolCall: ToolCall = {
+    id: `mcp_${crypto.randomUUID()}`,
+    type: "function",
+    function: { name, arguments: JSON.stringify(args ?? {}) },
+  };
+  const prepared = prepareToolArguments(toolCall);
+  if (!prepared.valid) {
+    recordToolCall(name, false, "invalid_arguments");
+    return textResult(formatToolArgumentsError(toolCall, prepared.errors), true);
+  }
+
+  try {
+    const result = await executeToolWithPolicy(name, prepared.args, toolContextOf(context));
+    recordToolCall(name, true);
+    return textResult(typeof result === "string" ? result : JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof ToolPolicyError) {
+      recordToolCall(name, false, error.type);
+      return textResult(formatToolPolicyError(toolCall, error), true);
+    }
+    recordToolCall(name, false, "error");
+    return textResult(error instanceof Error ? error.message : String(error), true);
+  }
+}
+
+async function callTool(params: Record<string, unknown>, context: McpRequestContext): Promise<McpToolResult> {
+  const name = params.name;
+  if (typeof name !== "string") {
+    throw new JsonRpcError(-32602, "Tool name is required");
+  }
+  const args = (params.arguments ?? {}) as Record<string, unknown>;
+
+  if (name === CHAT_TOOL_NAME) {
+    return await callChat(args, context);
+  }
+  if (!getAllTools().some((tool) => tool.name === name)) {
+    throw new JsonRpcError(-32602, `Unknown tool: ${name}`);
+  }
+  return await callRegistryTool(name, args, context);
+}
+
+function listResources() {
+  return {
+    resources: SUPPORTED_MODELS.map((model) => ({
+      uri: `${MODEL_URI_PREFIX}${model.id}`,
+      name: model.name,
+      description: `Capabilities and parameters of ${model.name}`,
+      mimeType: "application/json",
+    })),
+  };
+}
+
+function readResource(params: Record<string, unknown>) {
+  const uri = String(params.uri ?? "");
+  const model = SUPPORTED_MODELS.find((m) => `${MODEL_URI_PREFIX}${m.id}` === uri);
+  if (!model) {
+    throw new JsonRpcError(-32002, `Resource not found: ${uri}`);
+  }
+  const { upstreamId: _upstreamId, ...description } = model;
+  return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(description, null, 2) }] };
+}
+
+async function dispatch(method: string, params: Record<string, unknown>, context: McpRequestContext) {
+  switch (method) {
+    case "initialize": {
+      const requested = params.protocolVersion as string;
+      return {
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+        capabilities: { tools: { listChanged: false }, resources: { listChanged: false } },
+        serverInfo: SERVER_INFO,
+      };
+    }
+    case "ping":
+      return {};
+    case "tools/list":
+      return listTools(context);
+    case "tools/call":
+      return await callTool(params, context);
+    case "resources/list":
+      return listResources();
+    case "resources/templates/list":
+      return { resourceTemplates: [] };
+    case "resources/read":
+      return readResource(params);
+    default:
+      throw new JsonRpcError(-32601, `Method not found: ${method}`);
+  }
+}
+
+/**
+ * Handle one JSON-RPC message from an MCP client
+ * @param message Parsed message
+ * @param context Request context
+ * @returns Response to send, or null for notifications and responses
+ */
+export async function handleMcpMessage(
+  message: JsonRpcMessage,
+  context: McpRequestContext = {},
+): Promise<JsonRpcMessage | null> {
+  if (typeof message !== "object" || message === null || message.jsonrpc !== "2.0") {
+    return { jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid request" } };
+  }
+  if (typeof message.method !== "string") {
+    return null; // Response to a request we never send
+  }
+  if (message.id === undefined || message.id === null) {
+    logger.debug("MCP notification: %s", message.method);
+    return null;
+  }
+
+  try {
+    const result = await dispatch(message.method, message.params ?? {}, context);
+    return { jsonrpc: "2.0", id: message.id, result };
+  } catch (error) {
+    if (error instanceof JsonRpcError) {
+      return { jsonrpc: "2.0", id: message.id, error: { code: error.code, message: error.message } };
+    }
+    logger.error("MCP request %s failed: %v", message.method, error);
+    return {
+      jsonrpc: "2.0",
+      id: message.id,
+      error: { code: -32603, message: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
+/**
+ * Request context of the stdio MCP server
+ * Runs with MCP_STDIO_KEY, or DEFAULT_KEY when unset. The stdio host is the local user's own
+ * client, which asks them before calling a tool, so every tool counts as approved.
+ */
+export async function stdioContext(): Promise<McpRequestContext> {
+  const context: McpRequestContext = { approvedTools: ["*"] };
+  const apiKey = CONFIG.MCP_STDIO_KEY || CONFIG.DEFAULT_KEY;
+  const auth = await authenticateApiKey(apiKey, "/mcp");
+  if (!auth.ok) {
+    logger.warn("Stdio MCP server has no usable API key (%s), the chat tool will fail", auth.message);
+    return context;
+  }
+  return { ...context, authorization: `Bearer ${apiKey}`, keyId: auth.key.id };
+}
+
+/**
+ * Serve MCP over stdin/stdout, one JSON message per line
+ * Resolves when stdin is closed. Nothing else may write to stdout meanwhile.
+ */
+export async function serveMcpStdio(): Promise<void> {
+  const encoder = new TextEncoder();
+  const write = (message: JsonRpcMessage) => Deno.stdout.writeSync(encoder.encode(JSON.stringify(message) + "\n"));
+
+  const context = await stdioContext();
+  let buffer = "";
+  const pending: Promise<void>[] = [];
+  for await (const chunk of Deno.stdin.readable.pipeThrough(new TextDecoderStream())) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        write({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+        continue;
+      }
+      // Requests run concurrently so a slow chat call does not block pings
+      pending.push(
+        handleMcpMessage(message, context).then((response) => {
+          if (response) write(response);
+        }),
+      );
+    }
+  }
+  await Promise.all(pending);
+}
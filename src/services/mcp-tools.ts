@@ -0,0 +1,246 @@
+/**
+ * MCP Tools
+ * Connects to the MCP servers configured in MCP_SERVERS_FILE and registers their tools in
+ * TOOL_REGISTRY as "<namespace>__<tool>". Calls are routed to tools/call on the owning server.
+ * Servers that exit or disconnect are restarted with exponential backoff, and their tools are
+ * listed again when they send notifications/tools/list_changed.
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { logger } from "../utils/logger.ts";
+import { type McpCallResult, McpClient, type McpServerConfig } from "./mcp-client.ts";
+import { registerTool, TOOL_REGISTRY } from "./tool-registry.ts";
+import { applyToolFlags, removeTool } from "./tool-loader.ts";
+
+export interface McpServerStatus {
+  name: string;
+  transport: "stdio" | "http";
+  status: "connecting" | "ready" | "restarting" | "stopped";
+  version: string | null;
+  tools: string[];
+  restarts: number;
+  lastError: string | null;
+}
+
+interface McpServerState {
+  name: string;
+  config: McpServerConfig;
+  client: McpClient | null;
+  status: McpServerStatus["status"];
+  tools: Map<string, string>; // Registered name -> tool name on the server
+  restarts: number;
+  attempt: number; // Failed connection attempts since the last successful connect
+  lastError: string | null;
+  restartTimer: number | null;
+}
+
+const TOOL_NAME_SEPARATOR = "__";
+const MAX_RESTART_DELAY_MS = 30000;
+
+const servers = new Map<string, McpServerState>();
+
+/**
+ * Name under which a server's tool is registered
+ */
+export function namespacedToolName(namespace: string, toolName: string): string {
+  return `${namespace}${TOOL_NAME_SEPARATOR}${toolName}`.replace(/[^a-zA-Z0-9_-]/g, "_").substring(0, 64);
+}
+
+/**
+ * Read the server configuration
+ * Accepts {"mcpServers": {name: config}} as used by other MCP clients, or {name: config}.
+ */
+async function readMcpConfig(): Promise<Record<string, McpServerConfig>> {
+  if (!CONFIG.MCP_SERVERS_FILE) {
+    return {};
+  }
+  const parsed = JSON.parse(await Deno.readTextFile(CONFIG.MCP_SERVERS_FILE));
+  return (parsed?.mcpServers ?? parsed ?? {}) as Record<string, McpServerConfig>;
+}
+
+/**
+ * Turn a tools/call result into a tool result
+ * Structured content is returned as is; other content is joined into text.
+ * @throws Error if the server reports the call as failed
+ */
+function toToolResult(result: McpCallResult): unknown {
+  const text = (result?.content ?? []).map((part) => {
+    if (part.type === "text") return part.text ?? "";
+    if (part.type === "resource") return part.resource?.text ?? `[resource: ${part.resource?.uri ?? "unknown"}]`;
+    return `[${part.type}${part.mimeType ? `: ${part.mimeType}` : ""}]`;
+  }).join("\n");
+
+  if (result?.isError) {
+    throw new Error(text || "MCP tool call failed");
+  }
+  return result?.structuredContent ?? text;
+}
+
+async function callMcpTool(state: McpServerState, toolName: string, args: unknown): Promise<unknown> {
+  if (!state.client || state.status !== "ready") {
+    throw new Error(`MCP server ${state.name} is not connected (${state.status})`);
+  }
+  return toToolResult(await state.client.callTool(toolName, args));
+}
+
+/**
+ * List the server's tools and update the registry to match
+ */
+async function refreshTools(state: McpServerState): Promise<void> {
+  if (!state.client) return;
+  const namespace = state.config.namespace ?? state.name;
+  const version = state.client.serverInfo.version;
+  const tools = await state.client.listTools();
+
+  const next = new Map<string, string>();
+  for (const tool of tools) {
+    const name = namespacedToolName(namespace, tool.name);
+    if (!state.tools.has(name) && name in TOOL_REGISTRY) {
+      logger.warn("MCP tool %s of server %s conflicts with a registered tool, skipping it", name, state.name);
+      continue;
+    }
+
+    removeTool(name);
+    try {
+      registerTool(
+        name,
+        (...args: unknown[]) => callMcpTool(state, tool.name, args[0]),
+        tool.description || `${tool.name} (MCP server ${state.name})`,
+        tool.inputSchema ?? { type: "object" },
+        { source: `mcp:${state.name}`, version },
+      );
+    } catch (error) {
+      logger.warn("Skipping MCP tool %s of server %s: %v", name, state.name, error);
+      continue;
+    }
+    next.set(name, tool.name);
+  }
+
+  for (const name of state.tools.keys()) {
+    if (!next.has(name)) removeTool(name);
+  }
+  state.tools = next;
+  applyToolFlags();
+  logger.info("MCP server %s provides %d tools", state.name, next.size);
+}
+
+function scheduleRestart(state: McpServerState): void {
+  if (state.status === "stopped") return;
+  const delay = Math.min(1000 * 2 ** state.attempt, MAX_RESTART_DELAY_MS);
+  state.attempt++;
+  state.status = "restarting";
+  logger.info("Reconnecting to MCP server %s in %dms", state.name, delay);
+  state.restartTimer = setTimeout(() => {
+    state.restartTimer = null;
+    connectServer(state);
+  }, delay);
+}
+
+async function connectServer(state: McpServerState): Promise<void> {
+  state.status = "connecting";
+  const client = new McpClient(state.name, state.config, state.config.timeout_ms ?? CONFIG.MCP_TIMEOUT_MS);
+
+  client.onNotification = (method) => {
+    if (method === "notifications/tools/list_changed") {
+      logger.info("MCP server %s changed its tools", state.name);
+      refreshTools(state).catch((error) =>
+        logger.error("Failed to refresh tools of MCP server %s: %v", state.name, error)
+      );
+    }
+  };
+  client.onClose = (error) => {
+    if (state.client !== client || state.status === "stopped") return;
+    logger.warn("MCP server %s disconnected: %s", state.name, error?.message ?? "connection closed");
+    state.client = null;
+    state.lastError = error?.message ?? "connection closed";
+    state.restarts++;
+    scheduleRestart(state);
+  };
+
+  try {
+    state.client = client;
+    await client.connect();
+    await refreshTools(state);
+    state.status = "ready";
+    state.attempt = 0;
+    state.lastError = null;
+  } catch (error) {
+    state.client = null;
+    state.lastError = error instanceof Error ? error.message : String(error);
+    logger.error("Failed to connect to MCP server %s: %s", state.name, state.lastError);
+    await client.close().catch(() => {});
+    if (state.restartTimer === null) scheduleRestart(state);
+  }
+}
+
+/**
+ * Connect to all configured MCP servers and register their tools
+ * Servers that cannot be reached are retried in the background.
+ * @param serverConfigs - Server configuration, read from MCP_SERVERS_FILE when omitted
+ * @returns Status of every server after the first connection attempt
+ */
+export async function startMcpServers(serverConfigs?: Record<string, McpServerConfig>): Promise<McpServerStatus[]> {
+  let config: Record<string, McpServerConfig>;
+  try {
+    config = serverConfigs ?? await readMcpConfig();
+  } catch (error) {
+    logger.error("Failed to read MCP servers from %s: %v", CONFIG.MCP_SERVERS_FILE, error);
+    return [];
+  }
+
+  const started: Promise<void>[] = [];
+  for (const [name, serverConfig] of Object.entries(config)) {
+    if (serverConfig.enabled === false || servers.has(name)) continue;
+    if (!serverConfig.command && !serverConfig.url) {
+      logger.error("MCP server %s needs a command or a url, skipping it", name);
+      continue;
+    }
+    const state: McpServerState = {
+      name,
+      config: serverConfig,
+      client: null,
+      status: "connecting",
+      tools: new Map(),
+      restarts: 0,
+      attempt: 0,
+      lastError: null,
+      restartTimer: null,
+    };
+    servers.set(name, state);
+    started.push(connectServer(state));
+  }
+
+  await Promise.all(started);
+  return getMcpServerStatus();
+}
+
+/**
+ * Disconnect from all MCP servers and remove their tools
+ */
+export async function stopMcpServers(): Promise<void> {
+  for (const state of servers.values()) {
+    state.status = "stopped";
+    if (state.restartTimer !== null) clearTimeout(state.restartTimer);
+    for (const name of state.tools.keys()) removeTool(name);
+    state.tools.clear();
+    const client = state.client;
+    state.client = null;
+    await client?.close().catch(() => {});
+  }
+  servers.clear();
+}
+
+/**
+ * Report the state of every configured MCP server
+ */
+export function getMcpServerStatus(): McpServerStatus[] {
+  return [...servers.values()].map((state) => ({
+    name: state.name,
+    transport: state.config.command ? "stdio" : "http",
+    status: state.status,
+    version: state.client?.serverInfo.version ?? null,
+    tools: [...state.tools.keys()],
+    restarts: state.restarts,
+    lastError: state.lastError,
+  }));
+}
@@ -0,0 +1,160 @@
+/**
+ * Sampling Parameter Mapper
+ * Merges client sampling parameters over model defaults for upstream requests
+ */
+
+import type { ModelConfig } from "../config/models.ts";
+import { getFeatureFlags } from "./feature-flags.ts";
+import { logger } from "../utils/logger.ts";
+import { parseBooleanHeader } from "../utils/helpers.ts";
+import type { OpenAIRequest } from "../types/definitions.ts";
+
+/**
+ * Client sampling parameters in upstream naming
+ */
+export interface SamplingParams {
+  temperature?: unknown;
+  top_p?: unknown;
+  top_k?: unknown;
+  max_tokens?: unknown;
+  presence_penalty?: unknown;
+  frequency_penalty?: unknown;
+}
+
+/**
+ * Result of mapping client parameters
+ */
+export interface ParamMappingResult {
+  params: Record<string, unknown>;
+  warnings: string[]; // Values that were clamped or rejected
+  unsupported: string[]; // Parameters the model cannot honor
+}
+
+/**
+ * Header used to report dropped or adjusted parameters
+ */
+export const PARAM_WARNING_HEADER = "X-Param-Warnings";
+
+/**
+ * OpenAI parameters that are accepted by the API but cannot be forwarded upstream
+ */
+const UNFORWARDED_OPENAI_PARAMS = ["n", "seed", "stop", "logit_bias", "logprobs", "top_logprobs"] as const;
+
+/**
+ * Integer-valued parameters
+ */
+const INTEGER_PARAMS = new Set(["max_tokens", "top_k"]);
+
+/**
+ * Merge client sampling parameters over model defaults
+ * @param client Client parameters (already renamed to upstream names)
+ * @param modelConfig Target model configuration
+ * @param ignored Parameters the client sent that are never forwarded
+ */
+export function mergeSamplingParams(
+  client: SamplingParams,
+  modelConfig: ModelConfig,
+  ignored: string[] = [],
+): ParamMappingResult {
+  const params: Record<string, unknown> = {
+    top_p: modelConfig.defaultParams.top_p,
+    temperature: modelConfig.defaultParams.temperature,
+    ...(modelConfig.defaultParams.max_tokens && { max_tokens: modelConfig.defaultParams.max_tokens }),
+  };
+  const warnings: string[] = [];
+  const unsupported: string[] = [...ignored];
+
+  for (const [name, value] of Object.entries(client)) {
+    if (value === undefined || value === null) continue;
+
+    if (!modelConfig.supportedParams.includes(name)) {
+      unsupported.push(name);
+      continue;
+    }
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      warnings.push(`${name} must be a number and was ignored`);
+      continue;
+    }
+
+    let mapped = INTEGER_PARAMS.has(name) ? Math.floor(value) : value;
+    const range = modelConfig.paramRanges[name];
+    if (range) {
+      const clamped = Math.min(range.max, Math.max(range.min, mapped));
+      if (clamped !== mapped) {
+        warnings.push(`${name} clamped from ${mapped} to ${clamped} (allowed ${range.min}-${range.max})`);
+        mapped = clamped;
+      }
+    }
+
+    params[name] = mapped;
+  }
+
+  for (const name of unsupported) {
+    warnings.push(`${name} is not supported by ${modelConfig.name} and was ignored`);
+  }
+
+  if (warnings.length > 0) {
+    logger.debug("Parameter mapping warnings for %s: %s", modelConfig.id, warnings.join("; "));
+  }
+
+  return { params, warnings, unsupported };
+}
+
+/**
+ * Map OpenAI request parameters to upstream params
+ */
+export function mapOpenAIParams(request: OpenAIRequest, modelConfig: ModelConfig): ParamMappingResult {
+  const ignored = UNFORWARDED_OPENAI_PARAMS.filter((name) => request[name] !== undefined && request[name] !== null);
+
+  return mergeSamplingParams(
+    {
+      temperature: request.temperature,
+      top_p: request.top_p,
+      max_tokens: request.max_completion_tokens ?? request.max_tokens,
+      presence_penalty: request.presence_penalty,
+      frequency_penalty: request.frequency_penalty,
+    },
+    modelConfig,
+    ignored,
+  );
+}
+
+/**
+ * Map Anthropic request parameters to upstream params
+ */
+export function mapAnthropicParams(
+  request: { temperature?: number; top_p?: number; top_k?: number; max_tokens?: number; stop_sequences?: string[] },
+  modelConfig: ModelConfig,
+): ParamMappingResult {
+  const ignored = request.stop_sequences && request.stop_sequences.length > 0 ? ["stop_sequences"] : [];
+
+  return mergeSamplingParams(
+    {
+      temperature: request.temperature,
+      top_p: request.top_p,
+      top_k: request.top_k,
+      max_tokens: request.max_tokens,
+    },
+    modelConfig,
+    ignored,
+  );
+}
+
+/**
+ * Check whether strict parameter mode is enabled for a request
+ * The X-Strict-Params header overrides the strict_params feature flag (STRICT_PARAMS by default)
+ */
+export function isStrictParamsMode(request: Request): boolean {
+  const headerValue = parseBooleanHeader(request.headers.get("X-Strict-Params"));
+  return headerValue ?? getFeatureFlags().strict_params;
+}
+
+/**
+ * Report mapping warnings on the response headers
+ */
+export function applyParamWarnings(headers: Headers, result: ParamMappingResult): void {
+  if (result.warnings.length > 0) {
+    headers.set(PARAM_WARNING_HEADER, result.warnings.join("; "));
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Rate Limiter
+ * Token buckets for requests and tokens per minute, per API key and optionally per end user of a key
+ * (OpenAI `user`, Anthropic `metadata.user_id`). Buckets live in memory or, for deployments with several
+ * instances, in Deno KV (RATE_LIMIT_STORE=kv).
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { logger } from "../utils/logger.ts";
+import { countTextTokens } from "../utils/tokens.ts";
+import type { ApiKeyRecord } from "./api-keys.ts";
+
+/**
+ * Per-minute limits of an API key
+ * Unset limits fall back to the RATE_LIMIT_* defaults; 0 means unlimited.
+ */
+export interface RateLimits {
+  requests_per_minute?: number;
+  tokens_per_minute?: number;
+  user_requests_per_minute?: number; // Per end user of the key
+  user_tokens_per_minute?: number;
+}
+
+/**
+ * Token bucket withdrawal
+ */
+export interface BucketRequest {
+  key: string;
+  capacity: number; // Bucket size, refilled evenly over a minute
+  cost: number;
+}
+
+/**
+ * Bucket level after a withdrawal (or after a refused one)
+ */
+export interface BucketResult {
+  capacity: number;
+  remaining: number;
+  reset_ms: number; // Time until the bucket is full again
+  retry_after_ms: number; // Time until the cost would fit; 0 if it was taken
+}
+
+/**
+ * Persistence of token buckets
+ * `take` withdraws from all buckets, or from none if one of them lacks its cost.
+ */
+export interface RateLimitStore {
+  take(buckets: BucketRequest[], now: number): Promise<{ allowed: boolean; results: BucketResult[] }>;
+}
+
+/**
+ * Stored bucket: its level at a point in time
+ */
+interface BucketState {
+  tokens: number;
+  updated: number;
+}
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Refill a bucket and try to withdraw from it
+ * A cost above the capacity is capped at the capacity, so an oversized request empties a full bucket.
+ */
+function withdraw(state: BucketState | null, bucket: BucketRequest, now: number): [BucketState, BucketResult] {
+  const rate = bucket.capacity / WINDOW_MS; // Tokens per millisecond
+  const level = state
+    ? Math.min(bucket.capacity, state.tokens + Math.max(0, now - state.updated) * rate)
+    : bucket.capacity;
+  const cost = Math.min(bucket.cost, bucket.capacity);
+  const allowed = level >= cost;
+  const tokens = allowed ? level - cost : level;
+  return [{ tokens, updated: now }, {
+    capacity: bucket.capacity,
+    remaining: Math.floor(tokens),
+    reset_ms: Math.ceil((bucket.capacity - tokens) / rate),
+    retry_after_ms: allowed ? 0 : Math.ceil((cost - level) / rate),
+  }];
+}
+
+/**
+ * Withdraw from several buckets, all or nothing
+ */
+function withdrawAll(
+  states: (BucketState | null)[],
+  buckets: BucketRequest[],
+  now: number,
+): { allowed: boolean; states: BucketState[]; results: BucketResult[] } {
+  const outcomes = buckets.map((bucket, i) => withdraw(states[i], bucket, now));
+  return {
+    allowed: outcomes.every(([, result]) => result.retry_after_ms === 0),
+    states: outcomes.map(([state]) => state), // To be stored only if allowed
+    results: outcomes.map(([, result]) => result),
+  };
+}
+
+const MAX_MEMORY_BUCKETS = 100_000;
+
+/**
+ * Buckets of this instance
+ * Buckets untouched for a window are full again and are dropped, the same as a new bucket. Past
+ * `maxBuckets` (e.g. many distinct users), the least recently used buckets are dropped as well.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>(); // Least recently used first
+
+  constructor(private readonly maxBuckets = MAX_MEMORY_BUCKETS) {}
+
+  /**
+   * Number of buckets held
+   */
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  take(buckets: BucketRequest[], now: number): Promise<{ allowed: boolean; results: BucketResult[] }> {
+    for (const [key, state] of this.buckets) {
+      if (now - state.updated < WINDOW_MS) break;
+      this.buckets.delete(key);
+    }
+    const outcome = withdrawAll(buckets.map((bucket) => this.buckets.get(bucket.key) ?? null), buckets, now);
+    if (outcome.allowed) {
+      buckets.forEach((bucket, i) => {
+        this.buckets.delete(bucket.key);
+        this.buckets.set(bucket.key, outcome.states[i]);
+      });
+      for (const key of this.buckets.keys()) {
+        if (this.buckets.size <= this.maxBuckets) break;
+        this.buckets.delete(key);
+      }
+    }
+    return Promise.resolve({ allowed: outcome.allowed, results: outcome.results });
+  }
+}
+
+/**
+ * Buckets in Deno KV, shared by every instance using the same database
+ */
+export class KvRateLimitStore implements RateLimitStore {
+  private kv: Promise<Deno.Kv> | null = null;
+
+  constructor(private readonly path?: string) {}
+
+  private open(): Promise<Deno.Kv> {
+    this.kv ??= Deno.openKv(this.path);
+    return this.kv;
+  }
+
+  async take(buckets: BucketRequest[], now: number): Promise<{ allowed: boolean; results: BucketResult[] }> {
+    const kv = await this.open();
+    const keys = buckets.map((bucket) => ["rate_limits", bucket.key]);
+    // Retry when another instance changed a bucket between reading and writing it
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const entries = keys.length > 0 ? await kv.getMany<BucketState[]>(keys) : [];
+      const outcome = withdrawAll(entries.map((entry) => entry.value), buckets, now);
+      if (!outcome.allowed) {
+        return { allowed: false, results: outcome.results };
+      }
+      const operation = kv.atomic();
+      entries.forEach((entry, i) => operation.check(entry).set(keys[i], outcome.states[i], { expireIn: WINDOW_MS }));
+      if ((await operation.commit()).ok) {
+        return { allowed: true, results: outcome.results };
+      }
+    }
+    throw new Error("Rate limit buckets are too busy, try again");
+  }
+
+  /**
+   * Close the database (useful for testing)
+   */
+  async close(): Promise<void> {
+    if (this.kv) (await this.kv).close();
+    this.kv = null;
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The configured bucket store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  store ??= CONFIG.RATE_LIMIT_STORE === "kv"
+    ? new KvRateLimitStore(CONFIG.RATE_LIMIT_KV_PATH || undefined)
+    : new MemoryRateLimitStore();
+  return store;
+}
+
+/**
+ * Replace the bucket store (useful for testing); null returns to the configured store
+ */
+export function setRateLimitStore(rateLimitStore: RateLimitStore | null): void {
+  store = rateLimitStore;
+}
+
+/**
+ * Check the limits of a new key or a change of them
+ * @throws Error naming the first invalid limit
+ */
+export function validateRateLimits(limits: unknown): asserts limits is RateLimits {
+  if (typeof limits !== "object" || limits === null || Array.isArray(limits)) {
+    throw new Error("rate_limits must be an object");
+  }
+  const known = ["requests_per_minute", "tokens_per_minute", "user_requests_per_minute", "user_tokens_per_minute"];
+  for (const [name, value] of Object.entries(limits)) {
+    if (!known.includes(name)) {
+      throw new Error(`Unknown rate limit: ${name}. Known limits: ${known.join(", ")}`);
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      throw new Error(`rate_limits.${name} must be an integer of at least 0`);
+    }
+  }
+}
+
+/**
+ * Effective limits of a key; 0 means unlimited
+ */
+export function resolveRateLimits(key: ApiKeyRecord): Required<RateLimits> {
+  const limits = key.rate_limits ?? {};
+  return {
+    requests_per_minute: limits.requests_per_minute ?? CONFIG.RATE_LIMIT_RPM,
+    tokens_per_minute: limits.tokens_per_minute ?? CONFIG.RATE_LIMIT_TPM,
+    user_requests_per_minute: limits.user_requests_per_minute ?? CONFIG.RATE_LIMIT_USER_RPM,
+    user_tokens_per_minute: limits.user_tokens_per_minute ?? CONFIG.RATE_LIMIT_USER_TPM,
+  };
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  headers: Record<string, string>; // x-ratelimit-* headers, and Retry-After when refused
+  retry_after_seconds: number;
+  message: string; // Why the request was refused
+}
+
+/**
+ * Format a duration like OpenAI's x-ratelimit-reset-* headers, e.g. "250ms", "1.5s", "6m0s"
+ */
+export function formatResetDuration(ms: number): string {
+  if (ms < 1000) return `${Math.max(0, Math.ceil(ms))}ms`;
+  if (ms < 60_000) return `${Number((ms / 1000).toFixed(1))}s`;
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}m${seconds % 60}s`;
+}
+
+/**
+ * Count a request against the limits of its key and end user
+ * Tokens are counted when the request is admitted, from the estimate; the store failing lets requests through.
+ * @param key Authenticated key
+ * @param user End user named in the request, if any
+ * @param tokens Estimated tokens of the request (prompt and requested completion)
+ */
+export async function checkRateLimit(
+  key: ApiKeyRecord,
+  user: string | undefined,
+  tokens: number,
+): Promise<RateLimitResult> {
+  const limits = resolveRateLimits(key);
+  const buckets: (BucketRequest & { kind: "requests" | "tokens" })[] = [];
+  const add = (kind: "requests" | "tokens", name: string, capacity: number, cost: number) => {
+    if (capacity > 0) buckets.push({ kind, key: name, capacity, cost });
+  };
+  add("requests", `key:${key.id}:requests`, limits.requests_per_minute, 1);
+  add("tokens", `key:${key.id}:tokens`, limits.tokens_per_minute, tokens);
+  if (user) {
+    add("requests", `user:${key.id}:${user}:requests`, limits.user_requests_per_minute, 1);
+    add("tokens", `user:${key.id}:${user}:tokens`, limits.user_tokens_per_minute, tokens);
+  }
+  if (buckets.length === 0) {
+    return { allowed: true, headers: {}, retry_after_seconds: 0, message: "" };
+  }
+
+  let outcome: { allowed: boolean; results: BucketResult[] };
+  try {
+    outcome = await getRateLimitStore().take(buckets, Date.now());
+  } catch (error) {
+    // An unavailable store does not take the gateway down with it
+    logger.error("Rate limit check failed, allowing the request: %v", error);
+    return { allowed: true, headers: {}, retry_after_seconds: 0, message: "" };
+  }
+  const { allowed, results } = outcome;
+
+  // Report the tightest bucket of each kind
+  const headers: Record<string, string> = {};
+  for (const kind of ["requests", "tokens"] as const) {
+    const tightest = results.filter((_, i) => buckets[i].kind === kind)
+      .sort((a, b) => a.remaining - b.remaining || b.retry_after_ms - a.retry_after_ms)[0];
+    if (tightest) {
+      headers[`x-ratelimit-limit-${kind}`] = String(tightest.capacity);
+      headers[`x-ratelimit-remaining-${kind}`] = String(tightest.remaining);
+      headers[`x-ratelimit-reset-${kind}`] = formatResetDuration(tightest.reset_ms);
+    }
+  }
+  if (allowed) {
+    return { allowed, headers, retry_after_seconds: 0, message: "" };
+  }
+
+  const refused = buckets.map((bucket, i) => ({ bucket, result: results[i] }))
+    .filter(({ result }) => result.retry_after_ms > 0)
+    .sort((a, b) => b.result.retry_after_ms - a.result.retry_after_ms)[0];
+  const retryAfter = Math.ceil(refused.result.retry_after_ms / 1000);
+  headers["retry-after"] = String(retryAfter);
+  const scope = refused.bucket.key.startsWith("user:") ? `user ${user} of this API key` : "this API key";
+  return {
+    allowed,
+    headers,
+    retry_after_seconds: retryAfter,
+    message: `Rate limit of ${refused.bucket.capacity} ${refused.bucket.kind} per minute reached for ${scope}. ` +
+      `Try again in ${retryAfter} seconds.`,
+  };
+}
+
+/**
+ * Token count of the text of chat messages
+ */
+export function estimateMessageTokens(messages: Array<{ content?: unknown }>): number {
+  let tokens = 0;
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      tokens += countTextTokens(message.content);
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        if (typeof part?.text === "string") tokens += countTextTokens(part.text);
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Set rate limit headers on a response
+ */
+export function applyRateLimitHeaders(headers: Headers, result: RateLimitResult): void {
+  for (const [name, value] of Object.entries(result.headers)) {
+    headers.set(name, value);
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * Safe fetch
+ * SSRF protection for tools that fetch URLs chosen by the model: URL and address checks, DNS
+ * resolution of every redirect hop, the FETCH_ALLOW_HOSTS/FETCH_DENY_HOSTS lists, and body reads
+ * with a byte limit.
+ */
+
+import { CONFIG } from "../config/constants.ts";
+
+export interface SafeFetchOptions {
+  allowHosts?: string[]; // Trusted hosts in addition to FETCH_ALLOW_HOSTS, same syntax
+  maxRedirects?: number; // Default 5
+  sensitiveHeaders?: string[]; // Headers dropped, like Authorization, when a redirect leaves the origin
+}
+
+/**
+ * Address in network byte order, 4 bytes for IPv4 and 16 for IPv6
+ */
+type IpBytes = number[];
+
+interface Cidr {
+  bytes: IpBytes;
+  prefix: number;
+}
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const CREDENTIAL_HEADERS = ["Authorization", "Cookie", "Proxy-Authorization"];
+const INTERNAL_SUFFIXES = [".local", ".localdomain", ".internal", ".intranet", ".lan", ".home.arpa", ".corp"];
+
+/**
+ * Reserved ranges that are never fetched, unless allow-listed
+ */
+const BLOCKED_RANGES: Array<[Cidr, "localhost" | "private"]> = ([
+  ["0.0.0.0/8", "localhost"],
+  ["127.0.0.0/8", "localhost"],
+  ["::/128", "localhost"],
+  ["::1/128", "localhost"],
+  ["10.0.0.0/8", "private"],
+  ["100.64.0.0/10", "private"], // Carrier-grade NAT
+  ["169.254.0.0/16", "private"], // Link-local, including cloud metadata services
+  ["172.16.0.0/12", "private"],
+  ["192.0.0.0/24", "private"],
+  ["192.0.2.0/24", "private"],
+  ["192.168.0.0/16", "private"],
+  ["198.18.0.0/15", "private"],
+  ["198.51.100.0/24", "private"],
+  ["203.0.113.0/24", "private"],
+  ["224.0.0.0/4", "private"], // Multicast
+  ["240.0.0.0/4", "private"], // Reserved and broadcast
+  ["100::/64", "private"],
+  ["2001:db8::/32", "private"],
+  ["fc00::/7", "private"], // Unique local
+  ["fe80::/10", "private"], // Link-local
+  ["fec0::/10", "private"], // Site-local
+  ["ff00::/8", "private"], // Multicast
+] as const).map(([cidr, kind]) => [parseCidr(cidr)!, kind]);
+
+function parseIPv4(text: string): IpBytes | null {
+  const match = text.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return null;
+  const bytes = match.slice(1).map(Number);
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+}
+
+function parseIPv6(text: string): IpBytes | null {
+  let address = text.replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+  if (!address.includes(":")) return null;
+
+  // A trailing dotted quad stands for the last two groups
+  const tail: number[] = [];
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = parseIPv4(dotted[2]);
+    if (!ipv4) return null;
+    tail.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+    address = dotted[1].endsWith("::") ? dotted[1] : dotted[1].slice(0, -1);
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+  const parseGroups = (part: string) =>
+    (part ? part.split(":") : []).map((group) => {
+      return /^[0-9a-f]{1,4}$/i.test(group) ? parseInt(group, 16) : NaN;
+    });
+  const head = parseGroups(halves[0]);
+  const rest = halves.length === 2 ? parseGroups(halves[1]) : [];
+  const missing = 8 - head.length - rest.length - tail.length;
+  if ((halves.length === 2 ? missing < 1 : missing !== 0) || [...head, ...rest].some(Number.isNaN)) {
+    return null;
+  }
+
+  const groups = [...head, ...new Array(missing).fill(0), ...rest, ...tail];
+  return groups.flatMap((group) => [group >> 8, group & 0xff]);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address (IPv6 optionally in brackets)
+ * @returns Address bytes, or null if the text is not an IP address
+ */
+export function parseIpAddress(text: string): IpBytes | null {
+  return parseIPv4(text) ?? parseIPv6(text);
+}
+
+function parseCidr(text: string): Cidr | null {
+  const [address, prefixText] = text.split("/", 2);
+  const bytes = parseIpAddress(address);
+  if (!bytes) return null;
+  const prefix = prefixText === undefined ? bytes.length * 8 : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bytes.length * 8) return null;
+  return { bytes, prefix };
+}
+
+function inCidr(bytes: IpBytes, cidr: Cidr): boolean {
+  if (bytes.length !== cidr.bytes.length) return false;
+  for (let bit = 0; bit < cidr.prefix; bit += 8) {
+    const bits = Math.min(8, cidr.prefix - bit);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    if ((bytes[bit / 8] & mask) !== (cidr.bytes[bit / 8] & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * IPv4 address embedded in an IPv6 address: IPv4-mapped, IPv4-compatible, NAT64 and 6to4
+ */
+function embeddedIPv4(bytes: IpBytes): IpBytes | null {
+  if (bytes.length !== 16) return null;
+  const zeros = (from: number, to: number) => bytes.slice(from, to).every((byte) => byte === 0);
+  if (zeros(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return bytes.slice(12);
+  if (zeros(0, 12) && !zeros(12, 16) && !(zeros(12, 15) && bytes[15] === 1)) return bytes.slice(12);
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && zeros(4, 12)) {
+    return bytes.slice(12);
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return bytes.slice(2, 6);
+  return null;
+}
+
+function classifyAddress(bytes: IpBytes): "localhost" | "private" | null {
+  const ipv4 = embeddedIPv4(bytes);
+  if (ipv4) return classifyAddress(ipv4);
+  return BLOCKED_RANGES.find(([cidr]) => inCidr(bytes, cidr))?.[1] ?? null;
+}
+
+/**
+ * Whether a host, or its address, is on a host list
+ * Entries are host names, "*.example.com" (subdomains), "*" (everything), IP addresses or CIDR blocks.
+ */
+export function matchesHostList(hostname: string, address: IpBytes | null, list: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  return list.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    if (!pattern) return false;
+    const cidr = parseCidr(pattern);
+    if (cidr) return address !== null && inCidr(address, cidr);
+    if (pattern === "*") return true;
+    return pattern.startsWith("*.") ? host.endsWith(pattern.substring(1)) : host === pattern;
+  });
+}
+
+/**
+ * Check an address a URL points to
+ * @param address Address as written or resolved
+ * @param hostname Host name it was resolved from, if any
+ * @throws Error if the address is local, private or reserved
+ */
+function checkAddress(address: string, bytes: IpBytes, hostname?: string): void {
+  const kind = classifyAddress(bytes);
+  const resolved = hostname ? ` (resolved from ${hostname})` : "";
+  if (kind === "localhost") {
+    throw new Error(`Access to localhost${resolved} is not allowed for security reasons.`);
+  }
+  if (kind === "private") {
+    throw new Error(`Access to private IP range ${address}${resolved} is not allowed for security reasons.`);
+  }
+}
+
+/**
+ * Validate URL for security (prevent SSRF attacks)
+ * Checks the URL as written; safeFetch() also checks the addresses its host resolves to.
+ * @param url URL to check
+ * @param allowHosts Trusted hosts in addition to FETCH_ALLOW_HOSTS
+ * @returns Whether the host is trusted, so its addresses need no checks
+ * @throws Error if the URL is malformed, not HTTP(S), denied, or points to a local, private or internal host
+ */
+export function validateUrl(url: string, allowHosts: string[] = []): boolean {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch (error) {
+    throw new Error(`Invalid URL format: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Block non-HTTP/HTTPS protocols
+  if (!["http:", "https:"].includes(parsedUrl.protocol)) {
+    throw new Error(`Unsupported protocol: ${parsedUrl.protocol}. Only HTTP and HTTPS are allowed.`);
+  }
+
+  // The URL parser has already turned decimal, octal and hex IPv4 forms into dotted quads
+  const hostname = parsedUrl.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  const address = parseIpAddress(hostname);
+
+  if (matchesHostList(hostname, address, [...CONFIG.FETCH_ALLOW_HOSTS, ...allowHosts])) {
+    return true;
+  }
+  if (matchesHostList(hostname, address, CONFIG.FETCH_DENY_HOSTS)) {
+    throw new Error(`Access to ${hostname} is denied by configuration.`);
+  }
+
+  if (address) {
+    checkAddress(hostname, address);
+    return false;
+  }
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    throw new Error("Access to localhost is not allowed for security reasons.");
+  }
+  // Single-label names are resolved through search domains, usually to internal hosts
+  if (!hostname.includes(".") || INTERNAL_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    throw new Error(`Access to internal hostname ${hostname} is not allowed for security reasons.`);
+  }
+  return false;
+}
+
+/**
+ * Resolve a host name to all of its IPv4 and IPv6 addresses
+ * @throws Error if it has none
+ */
+async function resolveHost(hostname: string, signal?: AbortSignal): Promise<string[]> {
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A", { signal }),
+    Deno.resolveDns(hostname, "AAAA", { signal }),
+  ]);
+  signal?.throwIfAborted();
+  const addresses = results.flatMap((result) => result.status === "fulfilled" ? result.value : []);
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve host ${hostname}`);
+  }
+  return addresses;
+}
+
+/**
+ * Validate a URL and every address its host resolves to
+ * The connection made afterwards resolves the name again, so a DNS server that answers differently
+ * within the TTL can still get through; the deny list and a filtering egress proxy close that gap.
+ * @throws Error like validateUrl(), or if an address is denied, local or private
+ */
+export async function validateUrlResolved(url: string, allowHosts: string[] = [], signal?: AbortSignal): Promise<void> {
+  if (validateUrl(url, allowHosts)) return;
+
+  const hostname = new URL(url).hostname.replace(/\.$/, "");
+  if (parseIpAddress(hostname)) return;
+
+  const allow = [...CONFIG.FETCH_ALLOW_HOSTS, ...allowHosts];
+  for (const address of await resolveHost(hostname, signal)) {
+    const bytes = parseIpAddress(address);
+    if (!bytes || matchesHostList(hostname, bytes, allow)) continue;
+    if (matchesHostList(hostname, bytes, CONFIG.FETCH_DENY_HOSTS)) {
+      throw new Error(`Access to ${address} (resolved from ${hostname}) is denied by configuration.`);
+    }
+    checkAddress(address, bytes, hostname);
+  }
+}
+
+/**
+ * Fetch a URL, following redirects manually so every hop passes validateUrlResolved()
+ * @param url URL to fetch
+ * @param init Request options; `redirect` is ignored
+ * @param options Trusted hosts, redirect limit and headers not to send to other origins
+ * @returns Final response and its URL
+ * @throws Error if a hop fails the checks or there are too many redirects
+ */
+export async function safeFetch(
+  url: string,
+  init: RequestInit = {},
+  options: SafeFetchOptions = {},
+): Promise<{ response: Response; url: string }> {
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let request: RequestInit = { ...init, redirect: "manual" };
+  for (let redirects = 0;; redirects++) {
+    await validateUrlResolved(url, options.allowHosts, init.signal ?? undefined);
+    const response = await fetch(url, request);
+
+    const location = response.headers.get("Location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url };
+    }
+    await response.body?.cancel();
+    if (redirects >= maxRedirects) {
+      throw new Error(`Too many redirects (more than ${maxRedirects})`);
+    }
+    // Like browsers, continue with GET after a 303, or after a 301/302 of a POST
+    const method = (request.method ?? "GET").toUpperCase();
+    if ((response.status === 303 && method !== "HEAD") || (response.status <= 302 && method === "POST")) {
+      request = { ...request, method: "GET", body: undefined };
+    }
+    const next = new URL(location, url);
+    if (next.origin !== new URL(url).origin) {
+      // Credentials are meant for the origin they were configured for
+      const headers = new Headers(request.headers);
+      for (const name of [...CREDENTIAL_HEADERS, ...(options.sensitiveHeaders ?? [])]) headers.delete(name);
+      request = { ...request, headers };
+    }
+    url = next.href;
+  }
+}
+
+/**
+ * Read a response body up to a byte limit
+ * Stops reading at the limit instead of buffering the rest.
+ * @returns The bytes read, and whether the body was longer
+ */
+export async function readBody(
+  response: Response,
+  maxBytes: number,
+): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  if (response.body) {
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (size + value.length > maxBytes) {
+        chunks.push(value.subarray(0, maxBytes - size));
+        size = maxBytes;
+        truncated = true;
+        await reader.cancel();
+        break;
+      }
+      chunks.push(value);
+      size += value.length;
+    }
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { bytes, truncated };
+}
+
+/**
+ * Find the character encoding of a body
+ * Order: byte order mark, charset of the Content-Type, <meta> charset in the first 1024 bytes of HTML, UTF-8.
+ */
+function detectCharset(bytes: Uint8Array, contentType: string): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  const declared = contentType.match(/charset\s*=\s*["']?([\w.:-]+)/i);
+  if (declared) return declared[1];
+
+  if (/html/i.test(contentType)) {
+    const head = new TextDecoder("windows-1252").decode(bytes.subarray(0, 1024));
+    const meta = head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i);
+    if (meta) return meta[1];
+  }
+  return "utf-8";
+}
+
+/**
+ * Decode a body in its declared or detected character encoding
+ * @param bytes Body
+ * @param contentType Content-Type header of the response
+ */
+export function decodeBody(bytes: Uint8Array, contentType: string): string {
+  const charset = detectCharset(bytes, contentType);
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes); // Unknown encoding label
+  }
+}
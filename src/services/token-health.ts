@@ -0,0 +1,146 @@
+/**
+ * Token Health Checks
+ * Probes the configured tokens in the background with a cheap upstream call (the session endpoint), so that
+ * rejected tokens leave the rotation and cooling-down tokens come back as soon as they work again.
+ */
+
+import { CONFIG, DEFAULT_LANGUAGE } from "../config/constants.ts";
+import { logger } from "../utils/logger.ts";
+import { tokenId } from "./admin-state.ts";
+import { type TokenPool, tokenPool, tokenState } from "./token-pool.ts";
+
+const PROBE_TIMEOUT_MS = 10000;
+
+/**
+ * Outcome of probing a token
+ * `healthy` is null when the probe says nothing about the token, e.g. the upstream is unreachable.
+ */
+export interface ProbeResult {
+  healthy: boolean | null;
+  error: string | null;
+}
+
+/**
+ * Ask the upstream who the token belongs to
+ * @param url Session endpoint (the upstream's by default)
+ */
+export async function probeToken(
+  token: string,
+  url: string = `${CONFIG.ORIGIN_BASE}/api/v1/auths/`,
+): Promise<ProbeResult> {
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "User-Agent": CONFIG.BROWSER_UA,
+        "Accept": "*/*",
+        "Accept-Language": `${DEFAULT_LANGUAGE},en;q=0.9`,
+        "Origin": CONFIG.ORIGIN_BASE,
+        "Referer": `${CONFIG.ORIGIN_BASE}/`,
+        "Authorization": `Bearer ${token}`,
+      },
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    if (response.ok) return { healthy: true, error: null };
+    const error = `Health probe: HTTP ${response.status} ${response.statusText}`.trim();
+    return { healthy: CONFIG.TOKEN_FAILOVER_STATUSES.includes(response.status) ? false : null, error };
+  } catch (error) {
+    return { healthy: null, error: `Health probe: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/**
+ * Probe every configured token that has not expired, one after the other
+ */
+export async function checkTokenHealth(pool: TokenPool = tokenPool, url?: string): Promise<void> {
+  const now = Date.now();
+  for (const info of pool.getTokens()) {
+    const prefix = info.token.substring(0, 20);
+    if (tokenState(info, now) === "expired") {
+      logger.warn("Token %s... expires at %s and is no longer used", prefix, new Date(info.expiresAt!).toISOString());
+      continue;
+    }
+    const { healthy, error } = await probeToken(info.token, url);
+    if (healthy === null) {
+      logger.warn("Could not check token %s...: %s", prefix, error);
+      continue;
+    }
+    logger.debug("Token %s... is %s", prefix, healthy ? "healthy" : "rejected");
+    pool.recordHealthCheck(info.token, healthy, error);
+  }
+}
+
+let timer: number | null = null;
+
+/**
+ * Probe the pool every TOKEN_HEALTH_INTERVAL_MS (if not 0), without keeping the process alive
+ */
+export function startTokenHealthChecks(): void {
+  const interval = CONFIG.TOKEN_HEALTH_INTERVAL_MS;
+  if (interval === 0 || timer !== null) return;
+  let running = false;
+  timer = setInterval(async () => {
+    if (running) return; // A slow round is not overlapped by the next one
+    running = true;
+    try {
+      await checkTokenHealth();
+    } catch (error) {
+      logger.error("Token health check failed: %v", error);
+    } finally {
+      running = false;
+    }
+  }, interval);
+  Deno.unrefTimer(timer);
+}
+
+/**
+ * Stop the background health probes
+ */
+export function stopTokenHealthChecks(): void {
+  if (timer !== null) clearInterval(timer);
+  timer = null;
+}
+
+/**
+ * Health and statistics of a configured token, without the token itself
+ */
+export interface TokenReport {
+  id: string;
+  state: "active" | "cooldown" | "expired";
+  failure_count: number;
+  cooldown_until: string | null;
+  expires_at: string | null;
+  last_used: string | null;
+  last_checked: string | null;
+  requests: number;
+  errors: number;
+  last_error: string | null;
+  average_latency_ms: number;
+}
+
+/**
+ * Report on the configured tokens, for the admin API and the dashboard
+ */
+export function describePoolTokens(pool: TokenPool = tokenPool): Promise<TokenReport[]> {
+  const now = Date.now();
+  const time = (ms: number | null) => ms ? new Date(ms).toISOString() : null;
+  return Promise.all(
+    pool.getTokens().map(async (info) => {
+      const state = tokenState(info, now);
+      return {
+        id: await tokenId(info.token),
+        state,
+        failure_count: info.failureCount,
+        cooldown_until: state === "cooldown" ? time(info.cooldownUntil) : null,
+        expires_at: time(info.expiresAt),
+        last_used: time(info.lastUsed),
+        last_checked: time(info.lastChecked),
+        requests: info.requests,
+        errors: info.errors,
+        last_error: info.lastError,
+        average_latency_ms: Math.round(info.averageLatency),
+      };
+    }),
+  );
+}
@@ -1,6 +1,8 @@
 /**
  * Token Pool Management System
- * Supports multiple token rotation, automatically switches failed tokens
+ * Supports multiple token rotation, automatically switches failed tokens.
+ * Failing tokens cool down for an exponentially growing time instead of being dropped, and tokens whose JWT
+ * is about to expire are no longer used.
  */
 
 import { CONFIG, ZAI_TOKEN } from "../config/constants.ts";
@@ -8,6 +10,52 @@ import { logger } from "../utils/logger.ts";
 import type { TokenInfo } from "../types/common.ts";
 import { getAnonymousToken } from "./anonymous-token.ts";
 
+// Markers recorded in the attempted set so each anonymous fallback step happens only once per request
+const ANONYMOUS_FALLBACK_MARKER = "__anonymous_fallback__";
+const ANONYMOUS_REFRESH_MARKER = "__anonymous_refresh__";
+
+/**
+ * Expiry of a JWT from its `exp` claim, in milliseconds
+ * @returns null if the token is not a JWT or has no expiry
+ */
+export function readTokenExpiry(token: string): number | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+    const payload = JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "=")));
+    return typeof payload?.exp === "number" && Number.isFinite(payload.exp) ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Health of a configured token: in rotation, cooling down after failures, or (about to be) expired
+ */
+export function tokenState(info: TokenInfo, now: number = Date.now()): "active" | "cooldown" | "expired" {
+  if (info.expiresAt !== null && info.expiresAt - CONFIG.TOKEN_EXPIRY_MARGIN_MS <= now) return "expired";
+  return info.isValid || info.cooldownUntil <= now ? "active" : "cooldown";
+}
+
+function createTokenInfo(token: string): TokenInfo {
+  return {
+    token,
+    isValid: true,
+    lastUsed: 0,
+    failureCount: 0,
+    isAnonymous: false,
+    cooldownUntil: 0,
+    cooldowns: 0,
+    expiresAt: readTokenExpiry(token),
+    lastChecked: 0,
+    requests: 0,
+    errors: 0,
+    lastError: null,
+    averageLatency: 0,
+  };
+}
+
 export class TokenPool {
   private tokens: TokenInfo[] = [];
   private currentIndex: number = 0;
@@ -26,23 +74,11 @@ export class TokenPool {
     const tokenEnv = Deno.env.get("ZAI_TOKENS");
     if (tokenEnv) {
       const tokenList = tokenEnv.split(",").map((t) => t.trim()).filter((t) => t.length > 0);
-      this.tokens = tokenList.map((token) => ({
-        token,
-        isValid: true,
-        lastUsed: 0,
-        failureCount: 0,
-        isAnonymous: false,
-      }));
+      this.tokens = tokenList.map(createTokenInfo);
       logger.debug("Token pool initialized, contains %d tokens", this.tokens.length);
     } else if (ZAI_TOKEN) {
       // Compatible with single token configuration
-      this.tokens = [{
-        token: ZAI_TOKEN,
-        isValid: true,
-        lastUsed: 0,
-        failureCount: 0,
-        isAnonymous: false,
-      }];
+      this.tokens = [createTokenInfo(ZAI_TOKEN)];
       logger.debug("Using single token configuration");
     } else {
       logger.warn("No token configured, will use anonymous token");
@@ -66,6 +102,14 @@ export class TokenPool {
     return await this.getAnonymousToken();
   }
 
+  /**
+   * Whether a configured token may be handed out: not expired, and not cooling down
+   * A token whose cooldown is over is tried again; it recovers on success and cools down longer on failure.
+   */
+  private isUsable(tokenInfo: TokenInfo, now: number = Date.now()): boolean {
+    return !tokenInfo.isAnonymous && tokenState(tokenInfo, now) === "active";
+  }
+
   /**
    * Get next valid configured token
    */
@@ -74,7 +118,7 @@ export class TokenPool {
 
     do {
       const tokenInfo = this.tokens[this.currentIndex];
-      if (tokenInfo.isValid && tokenInfo.failureCount < CONFIG.TOKEN_RETRY_THRESHOLD && !tokenInfo.isAnonymous) {
+      if (this.isUsable(tokenInfo)) {
         return tokenInfo;
       }
       this.currentIndex = (this.currentIndex + 1) % this.tokens.length;
@@ -90,18 +134,13 @@ export class TokenPool {
     if (this.tokens.length === 0) return null;
 
     // Mark current token as failed
-    const currentToken = this.tokens[this.currentIndex];
-    currentToken.failureCount++;
-    if (currentToken.failureCount >= CONFIG.TOKEN_RETRY_THRESHOLD) {
-      currentToken.isValid = false;
-      logger.debug("Token marked as invalid: %s", currentToken.token.substring(0, 20));
-    }
+    this.recordFailure(this.tokens[this.currentIndex]);
 
     // Switch to next
     this.currentIndex = (this.currentIndex + 1) % this.tokens.length;
     const nextToken = this.tokens[this.currentIndex];
 
-    if (nextToken && nextToken.isValid && !nextToken.isAnonymous) {
+    if (nextToken && this.isUsable(nextToken)) {
       logger.debug("Switch to next token: %s", nextToken.token.substring(0, 20));
       nextToken.lastUsed = Date.now();
       return nextToken.token;
@@ -110,18 +149,134 @@ export class TokenPool {
     return null; // All configured tokens are unavailable
   }
 
+  /**
+   * Count a failure of a token, and start its cooldown once it reaches TOKEN_RETRY_THRESHOLD failures
+   * The failure count is only reset by a success, so a token failing again after its cooldown goes straight
+   * into the next, twice as long cooldown.
+   */
+  private recordFailure(tokenInfo: TokenInfo, now: number = Date.now()): void {
+    tokenInfo.failureCount++;
+    const coolingDown = !tokenInfo.isValid && tokenInfo.cooldownUntil > now;
+    if (tokenInfo.failureCount >= CONFIG.TOKEN_RETRY_THRESHOLD && !coolingDown) {
+      const delay = Math.min(CONFIG.TOKEN_COOLDOWN_MS * 2 ** tokenInfo.cooldowns, CONFIG.TOKEN_COOLDOWN_MAX_MS);
+      tokenInfo.isValid = false;
+      tokenInfo.cooldownUntil = now + delay;
+      tokenInfo.cooldowns++;
+      logger.warn(
+        "Token %s... cooling down for %d s after %d failures",
+        tokenInfo.token.substring(0, 20),
+        Math.round(delay / 1000),
+        tokenInfo.failureCount,
+      );
+    }
+  }
+
+  /**
+   * Put a token back into rotation
+   */
+  private recover(tokenInfo: TokenInfo): void {
+    if (!tokenInfo.isValid) {
+      logger.info("Token %s... recovered", tokenInfo.token.substring(0, 20));
+    }
+    tokenInfo.failureCount = 0;
+    tokenInfo.isValid = true;
+    tokenInfo.cooldownUntil = 0;
+    tokenInfo.cooldowns = 0;
+  }
+
+  /**
+   * Mark a specific token as failed (called when upstream rejects it)
+   */
+  markFailure(token: string): void {
+    const index = this.tokens.findIndex((t) => t.token === token);
+    if (index === -1) return;
+
+    this.recordFailure(this.tokens[index]);
+
+    // Move on from the failed token so the next request does not pick it again
+    if (index === this.currentIndex) {
+      this.currentIndex = (this.currentIndex + 1) % this.tokens.length;
+    }
+  }
+
+  /**
+   * Get a replacement for a token the upstream just rejected.
+   * Tries the remaining configured tokens first, then falls back to an anonymous token.
+   * @param failedToken Token that was rejected
+   * @param attempted Tokens already tried for the current request
+   * @returns Next token to try, or null if every option is exhausted
+   */
+  async getFailoverToken(failedToken: string, attempted: Set<string>): Promise<string | null> {
+    if (this.isAnonymousToken(failedToken)) {
+      // A rejected guest token is most likely expired - fetch a fresh one once
+      this.clearAnonymousTokenCache();
+      if (attempted.has(ANONYMOUS_REFRESH_MARKER)) {
+        return null;
+      }
+      attempted.add(ANONYMOUS_REFRESH_MARKER);
+      return await this.getAnonymousToken();
+    }
+
+    this.markFailure(failedToken);
+
+    const now = Date.now();
+    const next = this.tokens.find((t) => this.isUsable(t, now) && !attempted.has(t.token));
+    if (next) {
+      logger.debug("Failing over to next token: %s", next.token.substring(0, 20));
+      next.lastUsed = Date.now();
+      return next.token;
+    }
+
+    if (attempted.has(ANONYMOUS_FALLBACK_MARKER)) {
+      return null;
+    }
+    attempted.add(ANONYMOUS_FALLBACK_MARKER);
+    logger.debug("All configured tokens failed, falling back to anonymous token");
+    return await this.getAnonymousToken();
+  }
+
   /**
    * Reset token status (after successful call)
    */
   markSuccess(token: string): void {
     const tokenInfo = this.tokens.find((t) => t.token === token);
     if (tokenInfo) {
-      tokenInfo.failureCount = 0;
-      tokenInfo.isValid = true;
+      this.recover(tokenInfo);
       tokenInfo.lastUsed = Date.now();
     }
   }
 
+  /**
+   * Count an upstream request made with a token, for its statistics
+   * @param latencyMs Time until the upstream answered
+   * @param error Why the request failed, or null
+   */
+  recordRequest(token: string, latencyMs: number, error: string | null): void {
+    const tokenInfo = this.tokens.find((t) => t.token === token);
+    if (!tokenInfo) return;
+    tokenInfo.requests++;
+    tokenInfo.averageLatency += (latencyMs - tokenInfo.averageLatency) / tokenInfo.requests;
+    if (error !== null) {
+      tokenInfo.errors++;
+      tokenInfo.lastError = error;
+    }
+  }
+
+  /**
+   * Apply the outcome of a health probe: a healthy token recovers at once, a rejected one counts a failure
+   */
+  recordHealthCheck(token: string, healthy: boolean, error: string | null = null): void {
+    const tokenInfo = this.tokens.find((t) => t.token === token);
+    if (!tokenInfo) return;
+    tokenInfo.lastChecked = Date.now();
+    if (healthy) {
+      this.recover(tokenInfo);
+    } else {
+      this.recordFailure(tokenInfo);
+      tokenInfo.lastError = error;
+    }
+  }
+
   /**
    * Get anonymous token
    */
@@ -153,6 +308,49 @@ export class TokenPool {
     logger.debug("Anonymous token cache cleared");
   }
 
+  /**
+   * Add a configured token at the end of the rotation
+   * @returns false if the token is already in the pool
+   */
+  addToken(token: string): boolean {
+    if (this.tokens.some((t) => t.token === token)) return false;
+    this.tokens.push(createTokenInfo(token));
+    logger.debug("Token added to pool: %s", token.substring(0, 20));
+    return true;
+  }
+
+  /**
+   * Remove a configured token from the rotation
+   * @returns false if the token is not in the pool
+   */
+  removeToken(token: string): boolean {
+    const index = this.tokens.findIndex((t) => t.token === token);
+    if (index === -1) return false;
+    this.tokens.splice(index, 1);
+    // Keep pointing at the same token, or at the one after the removed token
+    if (index < this.currentIndex) {
+      this.currentIndex--;
+    } else if (this.currentIndex >= this.tokens.length) {
+      this.currentIndex = 0;
+    }
+    logger.debug("Token removed from pool: %s", token.substring(0, 20));
+    return true;
+  }
+
+  /**
+   * Snapshot of the configured tokens and their health
+   */
+  getTokens(): TokenInfo[] {
+    return this.tokens.map((t) => ({ ...t }));
+  }
+
+  /**
+   * Expiry of the cached anonymous token, or null if none is cached
+   */
+  getAnonymousTokenExpiry(): number | null {
+    return this.anonymousToken && this.anonymousTokenExpiry > Date.now() ? this.anonymousTokenExpiry : null;
+  }
+
   /**
    * Get token pool size
    */
@@ -167,3 +365,8 @@ export class TokenPool {
     return this.anonymousToken === token;
   }
 }
+
+/**
+ * Shared token pool used by all chat handlers
+ */
+export const tokenPool = new TokenPool();
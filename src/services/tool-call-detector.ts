@@ -0,0 +1,348 @@
+/**
+ * Streaming Tool Call Detector
+ * Incremental state machine that separates tool call markup from prose in streamed answer text.
+ * Text that might start a tool call is held back until it is known to be a call or prose,
+ * so call markup never reaches the client as content.
+ */
+
+import { logger } from "../utils/logger.ts";
+import { createToolCallIdPrefix, detectToolCalls } from "./tool-processor.ts";
+import type { ToolCall } from "../types/definitions.ts";
+
+/**
+ * Event produced while feeding answer text to the detector
+ * - "text": prose that can be sent to the client
+ * - "tool_call_start": a call was recognized; index counts the calls of the turn
+ * - "tool_call_delta": the next fragment of the call's JSON arguments
+ * - "tool_call_end": the call is complete
+ */
+export type ToolCallStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call_start"; index: number; id: string; name: string }
+  | { type: "tool_call_delta"; index: number; arguments: string }
+  | { type: "tool_call_end"; index: number; toolCall: ToolCall };
+
+type BlockKind = "json" | "xml" | "simple";
+
+// Markup that opens a tool call block, in the formats understood by detectToolCalls
+const BLOCK_OPENERS: Array<{ opener: string; kind: BlockKind }> = [
+  { opener: "```json", kind: "json" },
+  { opener: "<function_calls>", kind: "xml" },
+  { opener: "function_call:", kind: "simple" },
+];
+
+const BLOCK_CLOSERS: Record<BlockKind, string> = {
+  json: "```",
+  xml: "</function_calls>",
+  simple: ")",
+};
+
+// Start of a JSON call whose name comes first and whose arguments are an object or array
+const JSON_CALL_HEADER = /^\s*\{\s*"name"\s*:\s*"((?:[^"\\]|\\.)*)"\s*,\s*"arguments"\s*:\s*(?=[{[])/;
+
+// Text after "function_call:" that can still become name(args)
+const SIMPLE_CALL_PREFIX = /^\s*(\w+\s*(\([^)]*\)?)?)?$/;
+
+interface OpenBlock {
+  kind: BlockKind;
+  text: string; // Markup received so far, including the opener
+  scanned: number; // Position up to which the closer has been searched
+  streaming: StreamingCall | null; // JSON call whose arguments are being streamed
+}
+
+interface StreamingCall {
+  index: number;
+  id: string;
+  name: string;
+  arguments: string;
+  position: number; // Next unread position in the block text
+  depth: number;
+  inString: boolean;
+  escaped: boolean;
+  complete: boolean;
+}
+
+/**
+ * Incremental tool call detector for one assistant turn
+ * Feed answer text with push() and call end() when the turn is over.
+ */
+export class StreamingToolCallDetector {
+  private buffer = "";
+  private block: OpenBlock | null = null;
+  private calls: ToolCall[] = [];
+  private events: ToolCallStreamEvent[] = [];
+
+  /**
+   * @param accept Decides whether a call to the named tool is handled, checked when the call is recognized;
+   *   rejected calls stay prose
+   * @param idPrefix Id prefix for the calls of this turn
+   */
+  constructor(
+    private readonly accept: (name: string) => boolean = () => true,
+    private readonly idPrefix: string = createToolCallIdPrefix(),
+  ) {}
+
+  /**
+   * Completed tool calls of the turn, in order
+   */
+  get toolCalls(): ToolCall[] {
+    return [...this.calls];
+  }
+
+  /**
+   * Feed the next piece of answer text
+   * @param text Answer text delta
+   * @returns Events that can be sent now
+   */
+  push(text: string): ToolCallStreamEvent[] {
+    if (this.block) {
+      this.block.text += text;
+    } else {
+      this.buffer += text;
+    }
+    this.process();
+    return this.takeEvents();
+  }
+
+  /**
+   * Finish the turn, releasing held-back text and completing a call that is still streaming
+   * @returns Remaining events
+   */
+  end(): ToolCallStreamEvent[] {
+    const block = this.block;
+    if (block) {
+      this.block = null;
+      if (block.streaming) {
+        this.finishStreamingCall(block.streaming);
+      } else {
+        this.emitText(block.text);
+      }
+    }
+    this.emitText(this.buffer);
+    this.buffer = "";
+    return this.takeEvents();
+  }
+
+  private takeEvents(): ToolCallStreamEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  private emitText(text: string): void {
+    if (!text) return;
+    const last = this.events[this.events.length - 1];
+    if (last?.type === "text") {
+      last.text += text;
+    } else {
+      this.events.push({ type: "text", text });
+    }
+  }
+
+  private process(): void {
+    while (true) {
+      if (this.block) {
+        if (!this.processBlock(this.block)) return;
+        continue;
+      }
+
+      // Release prose up to the first opener and hold back a possible partial opener
+      let openerIndex = -1;
+      let openerKind: BlockKind | null = null;
+      for (const { opener, kind } of BLOCK_OPENERS) {
+        const index = this.buffer.indexOf(opener);
+        if (index !== -1 && (openerIndex === -1 || index < openerIndex)) {
+          openerIndex = index;
+          openerKind = kind;
+        }
+      }
+
+      if (openerKind === null) {
+        const held = this.partialOpenerLength(this.buffer);
+        this.emitText(this.buffer.substring(0, this.buffer.length - held));
+        this.buffer = this.buffer.substring(this.buffer.length - held);
+        return;
+      }
+
+      this.emitText(this.buffer.substring(0, openerIndex));
+      this.block = { kind: openerKind, text: this.buffer.substring(openerIndex), scanned: 0, streaming: null };
+      this.buffer = "";
+    }
+  }
+
+  /**
+   * Length of the longest suffix of text that is the beginning of an opener
+   */
+  private partialOpenerLength(text: string): number {
+    let longest = 0;
+    for (const { opener } of BLOCK_OPENERS) {
+      for (let length = Math.min(opener.length - 1, text.length); length > longest; length--) {
+        if (text.endsWith(opener.substring(0, length))) {
+          longest = length;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+
+  /**
+   * Advance the open block
+   * @returns True if the block was closed or abandoned and the remaining text should be scanned again
+   */
+  private processBlock(block: OpenBlock): boolean {
+    const openerLength = BLOCK_OPENERS.find((entry) => entry.kind === block.kind)!.opener.length;
+    const body = block.text.substring(openerLength);
+
+    if (block.kind === "json") {
+      if (block.streaming) {
+        return this.streamArguments(block, block.streaming);
+      }
+
+      const trimmed = body.trimStart();
+      if (trimmed && trimmed[0] !== "{" && trimmed[0] !== "[") {
+        return this.abandonBlock(block, openerLength);
+      }
+
+      const header = body.match(JSON_CALL_HEADER);
+      if (header) {
+        const name = JSON.parse(`"${header[1]}"`) as string;
+        if (!this.accept(name)) {
+          return this.abandonBlock(block, openerLength);
+        }
+
+        const index = this.calls.length;
+        block.streaming = {
+          index,
+          id: `${this.idPrefix}_${index}`,
+          name,
+          arguments: "",
+          position: openerLength + header[0].length,
+          depth: 0,
+          inString: false,
+          escaped: false,
+          complete: false,
+        };
+        this.events.push({ type: "tool_call_start", index, id: block.streaming.id, name });
+        return this.streamArguments(block, block.streaming);
+      }
+    } else if (block.kind === "simple") {
+      const closeIndex = body.indexOf(")");
+      const call = closeIndex === -1 ? body : body.substring(0, closeIndex + 1);
+      if (!SIMPLE_CALL_PREFIX.test(call)) {
+        return this.abandonBlock(block, openerLength);
+      }
+    }
+
+    // Wait for the closer, then parse the complete block
+    const closer = BLOCK_CLOSERS[block.kind];
+    const searchFrom = Math.max(openerLength, block.scanned - closer.length);
+    const closeIndex = block.text.indexOf(closer, searchFrom);
+    if (closeIndex === -1) {
+      block.scanned = block.text.length;
+      return false;
+    }
+
+    const end = closeIndex + closer.length;
+    this.closeBlock(block.text.substring(0, end), block.text.substring(end));
+    return true;
+  }
+
+  /**
+   * Treat the opener as prose and scan the rest of the block again
+   */
+  private abandonBlock(block: OpenBlock, openerLength: number): boolean {
+    this.emitText(block.text.substring(0, openerLength));
+    this.buffer = block.text.substring(openerLength);
+    this.block = null;
+    return true;
+  }
+
+  /**
+   * Parse a complete block and emit its accepted calls, or release it as prose
+   */
+  private closeBlock(markup: string, rest: string): void {
+    const toolCalls = detectToolCalls(
+      { type: "chat:completion", data: { delta_content: markup, phase: "answer", done: false } },
+      this.idPrefix,
+    );
+
+    // Calls are accepted one at a time, so accept can depend on the calls already emitted
+    const firstIndex = this.calls.length;
+    for (const toolCall of toolCalls) {
+      if (!this.accept(toolCall.function.name)) continue;
+      const index = this.calls.length;
+      const id = `${this.idPrefix}_${index}`;
+      this.events.push({ type: "tool_call_start", index, id, name: toolCall.function.name });
+      this.events.push({ type: "tool_call_delta", index, arguments: toolCall.function.arguments });
+      this.finishCall(index, { ...toolCall, id });
+    }
+
+    if (this.calls.length === firstIndex) {
+      logger.debug("Tool call markup without accepted calls, releasing it as text");
+      this.emitText(markup);
+    }
+
+    this.block = null;
+    this.buffer = rest;
+  }
+
+  /**
+   * Emit the arguments of a JSON call as they arrive, tracking nesting to find their end
+   */
+  private streamArguments(block: OpenBlock, call: StreamingCall): boolean {
+    const start = call.position;
+    while (!call.complete && call.position < block.text.length) {
+      const char = block.text[call.position++];
+      if (call.inString) {
+        if (call.escaped) {
+          call.escaped = false;
+        } else if (char === "\\") {
+          call.escaped = true;
+        } else if (char === '"') {
+          call.inString = false;
+        }
+      } else if (char === '"') {
+        call.inString = true;
+      } else if (char === "{" || char === "[") {
+        call.depth++;
+      } else if (char === "}" || char === "]") {
+        call.depth--;
+        call.complete = call.depth === 0;
+      }
+    }
+
+    const fragment = block.text.substring(start, call.position);
+    if (fragment) {
+      call.arguments += fragment;
+      this.events.push({ type: "tool_call_delta", index: call.index, arguments: fragment });
+    }
+    if (!call.complete) {
+      return false;
+    }
+
+    // Skip the rest of the call object up to the closing fence
+    const closeIndex = block.text.indexOf(BLOCK_CLOSERS.json, call.position);
+    if (closeIndex === -1) {
+      return false;
+    }
+
+    this.finishStreamingCall(call);
+    this.buffer = block.text.substring(closeIndex + BLOCK_CLOSERS.json.length);
+    this.block = null;
+    return true;
+  }
+
+  private finishStreamingCall(call: StreamingCall): void {
+    this.finishCall(call.index, {
+      id: call.id,
+      type: "function",
+      function: { name: call.name, arguments: call.arguments },
+    });
+  }
+
+  private finishCall(index: number, toolCall: ToolCall): void {
+    this.calls.push(toolCall);
+    this.events.push({ type: "tool_call_end", index, toolCall });
+  }
+}
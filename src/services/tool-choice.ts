@@ -0,0 +1,93 @@
+/**
+ * Tool Choice Policy
+ * Turns the client's tool_choice and parallel_tool_calls into the rules applied to detected tool calls
+ */
+
+import type { Tool } from "../types/definitions.ts";
+
+/**
+ * Rules for the tool calls of one request
+ * - "none": no tool calls are detected or executed
+ * - "auto": the model decides
+ * - "required": the response must contain at least one tool call
+ * - "function": the response must call the named tool, calls to other tools are rejected
+ */
+export interface ToolCallPolicy {
+  mode: "none" | "auto" | "required" | "function";
+  name?: string; // Forced tool name in "function" mode
+  parallel: boolean; // false: at most one tool call per turn
+}
+
+/**
+ * Policy used when the client sets neither tool_choice nor parallel_tool_calls
+ */
+export const DEFAULT_TOOL_CALL_POLICY: ToolCallPolicy = { mode: "auto", parallel: true };
+
+/**
+ * Resolve the tool call policy of a request
+ * @param toolChoice tool_choice from the request body
+ * @param parallelToolCalls parallel_tool_calls from the request body
+ * @param tools Tools defined in the request
+ * @returns Tool call policy
+ * @throws Error if tool_choice is invalid or names a tool that is not defined
+ */
+export function resolveToolCallPolicy(toolChoice: unknown, parallelToolCalls: unknown, tools?: Tool[]): ToolCallPolicy {
+  const parallel = parallelToolCalls !== false;
+
+  if (toolChoice === undefined || toolChoice === null || toolChoice === "auto") {
+    return { mode: "auto", parallel };
+  }
+
+  if (toolChoice === "none") {
+    return { mode: "none", parallel };
+  }
+
+  if (toolChoice === "required") {
+    if (!tools || tools.length === 0) {
+      throw new Error("tool_choice 'required' needs at least one tool in 'tools'");
+    }
+    return { mode: "required", parallel };
+  }
+
+  const choice = toolChoice as { type?: unknown; function?: { name?: unknown } };
+  if (typeof choice === "object" && choice.type === "function" && typeof choice.function?.name === "string") {
+    const name = choice.function.name;
+    if (!tools?.some((tool) => tool.function?.name === name)) {
+      throw new Error(`tool_choice names a tool that is not in 'tools': ${name}`);
+    }
+    return { mode: "function", name, parallel };
+  }
+
+  throw new Error(
+    'Invalid tool_choice. Use \'none\', \'auto\', \'required\' or {"type": "function", "function": {"name": ...}}',
+  );
+}
+
+/**
+ * Check whether the policy allows a call to a tool
+ * @param policy Tool call policy
+ * @param name Called tool name
+ * @returns True if the call may be returned or executed
+ */
+export function isToolCallAllowed(policy: ToolCallPolicy, name: string): boolean {
+  if (policy.mode === "none") return false;
+  if (policy.mode === "function") return name === policy.name;
+  return true;
+}
+
+/**
+ * Check whether the policy requires the model to call a tool
+ */
+export function requiresToolCall(policy: ToolCallPolicy): boolean {
+  return policy.mode === "required" || policy.mode === "function";
+}
+
+/**
+ * Instruction sent to the model when it answered without the tool call required by the policy
+ * @param policy Tool call policy
+ * @returns Re-prompt message
+ */
+export function buildToolChoiceReminder(policy: ToolCallPolicy): string {
+  const target = policy.mode === "function" ? `the tool "${policy.name}"` : "one of the tools";
+  return `You did not call a tool. You MUST call ${target} now. Reply only with the tool call.`;
+}
@@ -0,0 +1,385 @@
+/**
+ * Tool Pack Loader
+ * Loads native tools from TypeScript/JavaScript modules in TOOLS_DIR or listed in TOOLS_MANIFEST,
+ * and declarative HTTP tools from TOOLS_MANIFEST or HTTP_TOOLS_FILE. Registers them in TOOL_REGISTRY
+ * and manages per-tool enable/disable flags.
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { logger } from "../utils/logger.ts";
+import { registerTool, TOOL_REGISTRY, type ToolMetadata, unregisterTool } from "./tool-registry.ts";
+import { createHttpTool, type HttpToolConfig } from "./http-tools.ts";
+
+/**
+ * Tool exported by a tool pack module
+ * A module exports one definition or an array of them as its default export (or as `tools`).
+ * An exported `version` string applies to definitions without their own version.
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  handler: (args: unknown) => Promise<unknown> | unknown;
+  version?: string;
+}
+
+/**
+ * Tool pack manifest (TOOLS_MANIFEST)
+ * Module paths are resolved relative to the manifest file; URLs are imported as they are.
+ * HTTP tools are declarative tools defined in the manifest itself (see http-tools.ts).
+ */
+export interface ToolManifest {
+  modules?: string[];
+  http?: HttpToolConfig[];
+  disabled?: string[];
+}
+
+export interface ToolStatus {
+  name: string;
+  description: string;
+  source: string;
+  version: string | null;
+  enabled: boolean;
+}
+
+export interface ToolPackStatus {
+  tools: ToolStatus[];
+  errors: Array<{ source: string; error: string }>;
+  loadedAt: string | null;
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const MODULE_EXTENSIONS = [".ts", ".js", ".mjs"];
+
+const packTools = new Set<string>(); // Tools registered from tool packs
+const disabledTools = new Map<string, ToolMetadata>(); // Disabled tools, removed from the registry
+const enabledOverrides = new Map<string, boolean>(); // Flags set at runtime, win over configuration
+let configDisabled = new Set<string>(); // TOOLS_DISABLED and the manifest's disabled list
+let loadErrors: Array<{ source: string; error: string }> = [];
+let loadedAt: string | null = null;
+let generation = 0;
+let currentLoad: Promise<ToolPackStatus> | null = null;
+
+function workingDirectoryUrl(): URL {
+  return new URL(`file://${Deno.cwd()}/`);
+}
+
+function isToolDisabled(name: string): boolean {
+  return enabledOverrides.has(name) ? !enabledOverrides.get(name) : configDisabled.has(name);
+}
+
+/**
+ * Move tools between the registry and the disabled set according to their flags
+ * Call after registering tools outside of loadToolPacks, so configured flags apply to them too.
+ */
+export function applyToolFlags(): void {
+  for (const name of Object.keys(TOOL_REGISTRY)) {
+    if (isToolDisabled(name)) {
+      disabledTools.set(name, unregisterTool(name)!);
+      logger.info("Tool disabled: %s", name);
+    }
+  }
+  for (const [name, tool] of disabledTools) {
+    if (!isToolDisabled(name)) {
+      disabledTools.delete(name);
+      registerTool(name, tool.fn, tool.description, tool.parameters, { source: tool.source, version: tool.version });
+      logger.info("Tool enabled: %s", name);
+    }
+  }
+}
+
+/**
+ * Read the manifest, if one is configured
+ */
+async function readManifest(): Promise<{ modules: URL[]; http: HttpToolConfig[]; disabled: string[] }> {
+  const manifestPath = CONFIG.TOOLS_MANIFEST;
+  if (!manifestPath) {
+    return { modules: [], http: [], disabled: [] };
+  }
+
+  const manifestUrl = new URL(manifestPath, workingDirectoryUrl());
+  const manifest = JSON.parse(await Deno.readTextFile(manifestUrl)) as ToolManifest;
+  return {
+    modules: (manifest.modules ?? []).map((path) => new URL(path, manifestUrl)),
+    http: manifest.http ?? [],
+    disabled: manifest.disabled ?? [],
+  };
+}
+
+/**
+ * Read HTTP_TOOLS_FILE, a JSON array of HTTP tool definitions (or an object with a `tools` array)
+ */
+async function readHttpToolsFile(): Promise<HttpToolConfig[]> {
+  if (!CONFIG.HTTP_TOOLS_FILE) {
+    return [];
+  }
+  const parsed = JSON.parse(await Deno.readTextFile(new URL(CONFIG.HTTP_TOOLS_FILE, workingDirectoryUrl())));
+  const tools = Array.isArray(parsed) ? parsed : parsed?.tools;
+  if (!Array.isArray(tools)) {
+    throw new Error("Expected an array of HTTP tool definitions");
+  }
+  return tools as HttpToolConfig[];
+}
+
+/**
+ * List tool pack modules in the tools directory
+ * Files starting with "_" and test files are skipped.
+ */
+async function listDirectoryModules(): Promise<URL[]> {
+  const directory = new URL(`${CONFIG.TOOLS_DIR.replace(/\/$/, "")}/`, workingDirectoryUrl());
+  const modules: URL[] = [];
+  try {
+    for await (const entry of Deno.readDir(directory)) {
+      if (
+        entry.isFile && MODULE_EXTENSIONS.some((ext) => entry.name.endsWith(ext)) && !entry.name.startsWith("_") &&
+        !/[._]test\.[mt]?[jt]s$/.test(entry.name)
+      ) {
+        modules.push(new URL(entry.name, directory));
+      }
+    }
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      logger.debug("Tools directory %s does not exist, no tool packs loaded from it", CONFIG.TOOLS_DIR);
+      return [];
+    }
+    throw error;
+  }
+  return modules.sort((a, b) => a.href.localeCompare(b.href));
+}
+
+/**
+ * Display name of a module: its path relative to the working directory, or its URL
+ */
+function moduleSource(url: URL): string {
+  const cwd = workingDirectoryUrl().href;
+  return url.href.startsWith(cwd) ? url.href.substring(cwd.length) : url.href;
+}
+
+/**
+ * Import a module and return its tool definitions
+ * Local modules are imported with a fresh query string so a reload picks up changed files.
+ */
+async function importToolDefinitions(url: URL): Promise<ToolDefinition[]> {
+  const specifier = url.protocol === "file:" ? `${url.href}?v=${generation}` : url.href;
+  const module = await import(specifier);
+  const exported = module.default ?? module.tools;
+  if (exported === undefined) {
+    throw new Error("Module has no default export or `tools` export");
+  }
+
+  const definitions = (Array.isArray(exported) ? exported : [exported]) as ToolDefinition[];
+  const moduleVersion = typeof module.version === "string" ? module.version : undefined;
+  return definitions.map((definition) => ({ ...definition, version: definition.version ?? moduleVersion }));
+}
+
+/**
+ * Check the shape of an exported tool definition
+ * @throws Error describing the first problem
+ */
+function validateToolDefinition(definition: ToolDefinition): void {
+  if (!definition || typeof definition !== "object") {
+    throw new Error("Tool definition must be an object");
+  }
+  if (typeof definition.name !== "string" || !TOOL_NAME_PATTERN.test(definition.name)) {
+    throw new Error(`Invalid tool name: ${definition.name}. Use 1-64 letters, digits, '_' or '-'`);
+  }
+  if (typeof definition.description !== "string" || !definition.description) {
+    throw new Error(`Tool ${definition.name} needs a description`);
+  }
+  if (!definition.parameters || typeof definition.parameters !== "object" || Array.isArray(definition.parameters)) {
+    throw new Error(`Tool ${definition.name} needs a JSON schema object as parameters`);
+  }
+  if (typeof definition.handler !== "function") {
+    throw new Error(`Tool ${definition.name} needs a handler function`);
+  }
+  if (definition.version !== undefined && typeof definition.version !== "string") {
+    throw new Error(`Tool ${definition.name} has a version that is not a string`);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function loadAll(): Promise<ToolPackStatus> {
+  generation++;
+  const errors: Array<{ source: string; error: string }> = [];
+
+  let manifest: { modules: URL[]; http: HttpToolConfig[]; disabled: string[] } = {
+    modules: [],
+    http: [],
+    disabled: [],
+  };
+  try {
+    manifest = await readManifest();
+  } catch (error) {
+    errors.push({ source: CONFIG.TOOLS_MANIFEST, error: errorMessage(error) });
+  }
+
+  let modules: URL[] = [];
+  try {
+    modules = await listDirectoryModules();
+  } catch (error) {
+    errors.push({ source: CONFIG.TOOLS_DIR, error: errorMessage(error) });
+  }
+  for (const url of manifest.modules) {
+    if (!modules.some((module) => module.href === url.href)) modules.push(url);
+  }
+
+  // Import everything before touching the registry, so requests never see a half-loaded set
+  const loaded: Array<{ source: string; definition: ToolDefinition }> = [];
+  for (const url of modules) {
+    const source = moduleSource(url);
+    try {
+      for (const definition of await importToolDefinitions(url)) {
+        try {
+          validateToolDefinition(definition);
+          loaded.push({ source, definition });
+        } catch (error) {
+          errors.push({ source, error: errorMessage(error) });
+        }
+      }
+    } catch (error) {
+      errors.push({ source, error: errorMessage(error) });
+    }
+  }
+
+  // Declarative HTTP tools
+  const httpSources: Array<{ source: string; read: () => Promise<HttpToolConfig[]> }> = [
+    { source: CONFIG.TOOLS_MANIFEST, read: () => Promise.resolve(manifest.http) },
+    { source: CONFIG.HTTP_TOOLS_FILE, read: readHttpToolsFile },
+  ];
+  for (const { source, read } of httpSources) {
+    try {
+      for (const config of await read()) {
+        try {
+          const definition = createHttpTool(config);
+          validateToolDefinition(definition);
+          loaded.push({ source, definition });
+        } catch (error) {
+          errors.push({ source, error: errorMessage(error) });
+        }
+      }
+    } catch (error) {
+      errors.push({ source, error: errorMessage(error) });
+    }
+  }
+
+  // Replace the tools of the previous load, keeping built-in tools
+  for (const name of packTools) {
+    unregisterTool(name);
+    disabledTools.delete(name);
+  }
+  packTools.clear();
+
+  for (const { source, definition } of loaded) {
+    const existing = TOOL_REGISTRY[definition.name] ?? disabledTools.get(definition.name);
+    if (existing) {
+      errors.push({ source, error: `Tool ${definition.name} is already registered by ${existing.source}` });
+      continue;
+    }
+
+    const handler = definition.handler;
+    try {
+      registerTool(
+        definition.name,
+        (...args: unknown[]) => handler(args[0]),
+        definition.description,
+        definition.parameters,
+        { source, version: definition.version },
+      );
+    } catch (error) {
+      errors.push({ source, error: errorMessage(error) });
+      continue;
+    }
+    packTools.add(definition.name);
+  }
+
+  configDisabled = new Set([...CONFIG.TOOLS_DISABLED, ...manifest.disabled]);
+  applyToolFlags();
+
+  for (const { source, error } of errors) {
+    logger.error("Failed to load tool pack %s: %s", source, error);
+  }
+  logger.info("Loaded %d tools from %d tool pack modules", packTools.size, modules.length);
+
+  loadErrors = errors;
+  loadedAt = new Date().toISOString();
+  return getToolPackStatus();
+}
+
+/**
+ * Load (or reload) all tool packs
+ * Tools from the previous load are replaced; built-in tools are kept. Concurrent calls share one load.
+ * @returns Status after loading
+ */
+export function loadToolPacks(): Promise<ToolPackStatus> {
+  if (!currentLoad) {
+    currentLoad = loadAll().finally(() => {
+      currentLoad = null;
+    });
+  }
+  return currentLoad;
+}
+
+/**
+ * Enable or disable a registered tool at runtime
+ * The flag wins over TOOLS_DISABLED and the manifest and is kept across reloads.
+ * @param name Tool name
+ * @param enabled New state
+ * @returns False if no tool with that name is loaded
+ */
+export function setToolEnabled(name: string, enabled: boolean): boolean {
+  if (!(name in TOOL_REGISTRY) && !disabledTools.has(name)) {
+    return false;
+  }
+  enabledOverrides.set(name, enabled);
+  applyToolFlags();
+  return true;
+}
+
+/**
+ * Remove a tool whether it is enabled or disabled
+ * @param name Tool name
+ */
+export function removeTool(name: string): void {
+  unregisterTool(name);
+  disabledTools.delete(name);
+}
+
+/**
+ * Report all loaded tools with their source, version and state, and the errors of the last load
+ */
+export function getToolPackStatus(): ToolPackStatus {
+  const tools: ToolStatus[] = [
+    ...Object.entries(TOOL_REGISTRY).map(([name, tool]) => ({ name, tool, enabled: true })),
+    ...[...disabledTools].map(([name, tool]) => ({ name, tool, enabled: false })),
+  ].map(({ name, tool, enabled }) => ({
+    name,
+    description: tool.description,
+    source: tool.source,
+    version: tool.version ?? null,
+    enabled,
+  }));
+
+  return {
+    tools: tools.sort((a, b) => a.name.localeCompare(b.name)),
+    errors: [...loadErrors],
+    loadedAt,
+  };
+}
+
+/**
+ * Forget runtime flags and disabled tools (useful for testing)
+ */
+export function resetToolPacks(): void {
+  for (const name of packTools) {
+    unregisterTool(name);
+  }
+  packTools.clear();
+  disabledTools.clear();
+  enabledOverrides.clear();
+  configDisabled = new Set();
+  loadErrors = [];
+  loadedAt = null;
+}
@@ -0,0 +1,289 @@
+/**
+ * Tool Execution Policy
+ * Limits around the tool registry (timeout, concurrency, rate per minute, result size) and per-API-key
+ * access to tools, configured with TOOL_POLICY_FILE and the TOOL_* defaults
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { logger } from "../utils/logger.ts";
+import { executeTool, getTool } from "./tool-registry.ts";
+
+/**
+ * Execution limits of a tool
+ * Unset limits fall back to the policy file's defaults, then to TOOL_TIMEOUT_MS and TOOL_MAX_RESULT_CHARS.
+ */
+export interface ToolLimits {
+  timeout_ms?: number; // 0 for no timeout
+  max_concurrent?: number;
+  rate_per_minute?: number;
+  max_result_chars?: number; // 0 for no cap
+  requires_approval?: boolean; // Executed only when the caller approves the tool
+}
+
+/**
+ * Tools an API key may use
+ * Names may be "*". A tool on the deny list is refused even if it is also allowed.
+ */
+export interface ToolAccess {
+  allow?: string[]; // Only these tools (all tools when unset)
+  deny?: string[];
+  approve?: string[]; // Tools requiring approval that the key may run without approving each request
+}
+
+/**
+ * TOOL_POLICY_FILE contents
+ * `keys` maps API keys or key store ids to their access; the "*" entry applies to keys without their own
+ * entry and to requests without a key.
+ */
+export interface ToolPolicyConfig {
+  defaults?: ToolLimits;
+  tools?: Record<string, ToolLimits>;
+  keys?: Record<string, ToolAccess>;
+}
+
+/**
+ * Caller of a tool
+ */
+export interface ToolCallContext {
+  apiKey?: string;
+  keyId?: string; // Id of the key in the API key store
+  approvedTools?: string[]; // Tools approved for this request (X-Approve-Tools)
+}
+
+export type ToolPolicyErrorType =
+  | "tool_not_allowed"
+  | "approval_required"
+  | "rate_limited"
+  | "concurrency_limit"
+  | "timeout"
+  | "result_too_large";
+
+/**
+ * Tool call refused or stopped by the policy
+ */
+export class ToolPolicyError extends Error {
+  constructor(
+    readonly type: ToolPolicyErrorType,
+    message: string,
+    readonly details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "ToolPolicyError";
+  }
+}
+
+let policy: ToolPolicyConfig = {};
+const activeCalls = new Map<string, number>(); // Running executions per tool
+const recentCalls = new Map<string, number[]>(); // Start times within the last minute per tool
+
+function validLimit(value: unknown, name: string, source: string, minimum = 0): void {
+  if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value) || value < minimum)) {
+    throw new Error(`${source}: ${name} must be an integer of at least ${minimum}`);
+  }
+}
+
+function validateLimits(limits: ToolLimits, source: string): void {
+  validLimit(limits.timeout_ms, "timeout_ms", source);
+  validLimit(limits.max_concurrent, "max_concurrent", source, 1);
+  validLimit(limits.rate_per_minute, "rate_per_minute", source, 1);
+  validLimit(limits.max_result_chars, "max_result_chars", source);
+  if (limits.requires_approval !== undefined && typeof limits.requires_approval !== "boolean") {
+    throw new Error(`${source}: requires_approval must be a boolean`);
+  }
+}
+
+/**
+ * Replace the tool policy
+ * @throws Error if a limit or access list is invalid; the current policy is kept
+ */
+export function setToolPolicy(config: ToolPolicyConfig): void {
+  validateLimits(config.defaults ?? {}, "defaults");
+  for (const [name, limits] of Object.entries(config.tools ?? {})) {
+    validateLimits(limits, `tools.${name}`);
+  }
+  for (const [key, access] of Object.entries(config.keys ?? {})) {
+    for (const list of ["allow", "deny", "approve"] as const) {
+      const names = access[list];
+      if (names !== undefined && (!Array.isArray(names) || names.some((name) => typeof name !== "string"))) {
+        throw new Error(`keys entry ${key === "*" ? "*" : "for a key"}: ${list} must be an array of tool names`);
+      }
+    }
+  }
+  policy = config;
+}
+
+/**
+ * Current tool policy
+ */
+export function getToolPolicy(): ToolPolicyConfig {
+  return policy;
+}
+
+/**
+ * Read TOOL_POLICY_FILE, if one is configured
+ * Errors are logged and leave the policy unchanged.
+ */
+export async function loadToolPolicy(): Promise<void> {
+  if (!CONFIG.TOOL_POLICY_FILE) {
+    return;
+  }
+  try {
+    setToolPolicy(JSON.parse(await Deno.readTextFile(CONFIG.TOOL_POLICY_FILE)) as ToolPolicyConfig);
+    logger.info(
+      "Tool policy loaded: %d tools, %d keys",
+      Object.keys(policy.tools ?? {}).length,
+      Object.keys(policy.keys ?? {}).length,
+    );
+  } catch (error) {
+    logger.error("Failed to load tool policy from %s: %v", CONFIG.TOOL_POLICY_FILE, error);
+  }
+}
+
+/**
+ * Effective limits of a tool
+ */
+export function resolveToolLimits(name: string): Required<ToolLimits> {
+  const limits = { ...policy.defaults, ...policy.tools?.[name] };
+  return {
+    timeout_ms: limits.timeout_ms ?? CONFIG.TOOL_TIMEOUT_MS,
+    max_concurrent: limits.max_concurrent ?? Infinity,
+    rate_per_minute: limits.rate_per_minute ?? Infinity,
+    max_result_chars: limits.max_result_chars ?? CONFIG.TOOL_MAX_RESULT_CHARS,
+    requires_approval: limits.requires_approval ?? false,
+  };
+}
+
+function accessOf(context: ToolCallContext): ToolAccess {
+  const keys = policy.keys ?? {};
+  return (context.keyId !== undefined && Object.hasOwn(keys, context.keyId) && keys[context.keyId]) ||
+    (context.apiKey !== undefined && Object.hasOwn(keys, context.apiKey) && keys[context.apiKey]) || keys["*"] || {};
+}
+
+function listed(names: string[] | undefined, name: string): boolean {
+  return names?.some((entry) => entry === "*" || entry === name) ?? false;
+}
+
+/**
+ * Check whether a caller may use a tool at all (approval aside)
+ */
+export function isToolAllowed(name: string, context: ToolCallContext = {}): boolean {
+  const access = accessOf(context);
+  return (access.allow === undefined || listed(access.allow, name)) && !listed(access.deny, name);
+}
+
+/**
+ * Check access and approval of a tool call
+ * @throws ToolPolicyError if the caller may not run the tool now
+ */
+export function checkToolAccess(name: string, context: ToolCallContext = {}): void {
+  if (!isToolAllowed(name, context)) {
+    throw new ToolPolicyError("tool_not_allowed", `Tool '${name}' is not allowed for this API key`);
+  }
+  if (
+    resolveToolLimits(name).requires_approval &&
+    !listed(accessOf(context).approve, name) && !listed(context.approvedTools, name)
+  ) {
+    throw new ToolPolicyError(
+      "approval_required",
+      `Tool '${name}' requires approval. Approve it with the X-Approve-Tools header and call it again.`,
+    );
+  }
+}
+
+/**
+ * Count a call against the tool's rate, or refuse it
+ */
+function takeRateSlot(name: string, ratePerMinute: number): void {
+  if (ratePerMinute === Infinity) {
+    return;
+  }
+  const now = Date.now();
+  const recent = (recentCalls.get(name) ?? []).filter((time) => now - time < 60_000);
+  if (recent.length >= ratePerMinute) {
+    recentCalls.set(name, recent);
+    const retryAfter = Math.ceil((recent[0] + 60_000 - now) / 1000);
+    throw new ToolPolicyError(
+      "rate_limited",
+      `Tool '${name}' is limited to ${ratePerMinute} calls per minute. Try again in ${retryAfter} seconds.`,
+      { limit: ratePerMinute, retry_after_seconds: retryAfter },
+    );
+  }
+  recent.push(now);
+  recentCalls.set(name, recent);
+}
+
+function resultLength(result: unknown): number {
+  return typeof result === "string" ? result.length : (JSON.stringify(result, null, 2) ?? "").length;
+}
+
+/**
+ * Execute a tool within its policy
+ * A timed-out execution cannot be cancelled: it keeps its concurrency slot until it settles.
+ * @param name Tool name
+ * @param args Validated tool arguments
+ * @param context Caller of the tool
+ * @returns Tool execution result
+ * @throws ToolPolicyError if the call is refused, times out or returns too much
+ */
+export async function executeToolWithPolicy(
+  name: string,
+  args: unknown,
+  context: ToolCallContext = {},
+): Promise<unknown> {
+  if (!getTool(name)) {
+    throw new Error(`Tool not found: ${name}`);
+  }
+  checkToolAccess(name, context);
+
+  const limits = resolveToolLimits(name);
+  const active = activeCalls.get(name) ?? 0;
+  if (active >= limits.max_concurrent) {
+    throw new ToolPolicyError(
+      "concurrency_limit",
+      `Tool '${name}' is already running ${active} times, the maximum. Try again later.`,
+      { limit: limits.max_concurrent },
+    );
+  }
+  takeRateSlot(name, limits.rate_per_minute);
+
+  activeCalls.set(name, active + 1);
+  const execution = Promise.resolve().then(() => executeTool(name, args)).finally(() => {
+    const remaining = (activeCalls.get(name) ?? 1) - 1;
+    if (remaining > 0) activeCalls.set(name, remaining);
+    else activeCalls.delete(name);
+  });
+
+  let timer: number | undefined;
+  const result = await (limits.timeout_ms > 0
+    ? Promise.race([
+      execution,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          reject(
+            new ToolPolicyError("timeout", `Tool '${name}' did not finish within ${limits.timeout_ms}ms`, {
+              timeout_ms: limits.timeout_ms,
+            }),
+          );
+        }, limits.timeout_ms);
+      }),
+    ])
+    : execution).finally(() => clearTimeout(timer));
+
+  const length = resultLength(result);
+  if (limits.max_result_chars > 0 && length > limits.max_result_chars) {
+    throw new ToolPolicyError(
+      "result_too_large",
+      `Tool '${name}' returned ${length} characters, more than the limit of ${limits.max_result_chars}`,
+      { limit: limits.max_result_chars, size: length },
+    );
+  }
+  return result;
+}
+
+/**
+ * Forget running executions and rate windows (useful for testing)
+ */
+export function resetToolPolicyState(): void {
+  activeCalls.clear();
+  recentCalls.clear();
+}
@@ -3,122 +3,360 @@
  * Handles detection and execution of tool calls in upstream responses
  */
 
+import { CONFIG } from "../config/constants.ts";
 import { logger } from "../utils/logger.ts";
 import { recordToolCall } from "../utils/stats.ts";
-import { executeTool } from "./tool-registry.ts";
-import type { ToolCall, UpstreamData } from "../types/definitions.ts";
+import { getTool, hasTool } from "./tool-registry.ts";
+import { executeToolWithPolicy, type ToolCallContext, ToolPolicyError } from "./tool-policy.ts";
+import { DEFAULT_TOOL_CALL_POLICY, isToolCallAllowed, type ToolCallPolicy } from "./tool-choice.ts";
+import { type SchemaViolation, validateSchema } from "../utils/json-schema.ts";
+import type { Tool, ToolCall, UpstreamData } from "../types/definitions.ts";
 
 /**
- * Check if upstream response contains a tool call
- * @param data Upstream response data
- * @returns Tool call object if found, null otherwise
+ * Where a detected tool call is handled:
+ * - "native": executed server-side from TOOL_REGISTRY
+ * - "client": returned to the client as tool_calls / tool_use
+ * - "unknown": neither registered nor defined by the client, or excluded by tool_choice; left as text
  */
-export function detectToolCall(data: UpstreamData): ToolCall | null {
-  try {
-    // Look for function call patterns in the delta_content
-    const content = data.data?.delta_content || "";
+export type ToolCallRoute = "native" | "client" | "unknown";
 
-    // Pattern 1: Look for JSON function call format
-    const functionCallMatch = content.match(/```json\s*\n\s*(\{[^`]*\})\s*\n```/);
-    if (functionCallMatch) {
-      try {
-        const functionCall = JSON.parse(functionCallMatch[1]);
-        if (functionCall.name && functionCall.arguments) {
-          return {
-            id: `call_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-            type: "function",
-            function: {
-              name: functionCall.name,
-              arguments: typeof functionCall.arguments === "string"
-                ? functionCall.arguments
-                : JSON.stringify(functionCall.arguments),
-            },
-          };
-        }
-      } catch (e) {
-        logger.debug("Failed to parse function call JSON: %v", e);
+/**
+ * Result of an executed tool call
+ */
+export interface ToolCallResult {
+  toolCall: ToolCall;
+  result: string;
+}
+
+/**
+ * Create the id prefix shared by the tool calls of one assistant turn
+ * Calls get `${prefix}_${index}`, so detecting the same turn again yields the same ids.
+ * @returns Tool call id prefix
+ */
+export function createToolCallIdPrefix(): string {
+  return `call_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Convert a parsed JSON tool call into name and argument string
+ */
+function parseJsonToolCall(value: unknown): { name: string; arguments: string } | null {
+  if (!value || typeof value !== "object") return null;
+  const functionCall = value as { name?: unknown; arguments?: unknown };
+  if (typeof functionCall.name !== "string" || !functionCall.name || !functionCall.arguments) return null;
+  return {
+    name: functionCall.name,
+    arguments: typeof functionCall.arguments === "string"
+      ? functionCall.arguments
+      : JSON.stringify(functionCall.arguments),
+  };
+}
+
+/**
+ * Tool call markup found in content
+ */
+interface ToolCallMarkup {
+  start: number; // Offset of the markup in the content
+  end: number; // Offset just past the markup
+  calls: Array<{ position: number; name: string; arguments: string }>;
+}
+
+/**
+ * Find the tool call markup in content, in the formats described at detectToolCalls
+ * Only markup that yields at least one tool call is returned.
+ */
+function findToolCallMarkup(content: string): ToolCallMarkup[] {
+  const markup: ToolCallMarkup[] = [];
+  const add = (match: RegExpMatchArray, calls: ToolCallMarkup["calls"]) => {
+    if (calls.length > 0) markup.push({ start: match.index!, end: match.index! + match[0].length, calls });
+  };
+
+  // Pattern 1: fenced JSON blocks
+  for (const match of content.matchAll(/```json\s*\n\s*([[{][^`]*[\]}])\s*\n```/g)) {
+    const calls: ToolCallMarkup["calls"] = [];
+    try {
+      const parsed = JSON.parse(match[1]);
+      for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+        const call = parseJsonToolCall(item);
+        if (call) calls.push({ position: match.index!, ...call });
+      }
+    } catch (e) {
+      logger.debug("Failed to parse function call JSON: %v", e);
+    }
+    add(match, calls);
+  }
+
+  // Pattern 2: <function_calls> blocks with one or more <invoke> elements
+  for (const block of content.matchAll(/<function_calls>\s*(.*?)\s*<\/function_calls>/gs)) {
+    const blockStart = block.index! + block[0].indexOf(block[1]);
+    const calls: ToolCallMarkup["calls"] = [];
+    for (const invoke of block[1].matchAll(/<invoke name="([^"]+)">(.*?)<\/invoke>/gs)) {
+      const parameters: Record<string, unknown> = {};
+      for (const param of invoke[2].matchAll(/<parameter name="([^"]+)">([^<]*)<\/parameter>/g)) {
+        parameters[param[1]] = param[2].trim();
       }
+      calls.push({ position: blockStart + invoke.index!, name: invoke[1], arguments: JSON.stringify(parameters) });
     }
+    add(block, calls);
+  }
 
-    // Pattern 2: Look for <function_calls> tags (similar to the Python implementation)
-    const functionCallsMatch = content.match(/<function_calls>\s*(.*?)\s*<\/function_calls>/s);
-    if (functionCallsMatch) {
+  // Pattern 3: simple function_call: name(args) format
+  for (const match of content.matchAll(/function_call:\s*(\w+)\s*\(([^)]*)\)/g)) {
+    const argsStr = match[2].trim();
+
+    // Try to parse arguments
+    let args: Record<string, unknown> = {};
+    if (argsStr) {
       try {
-        const callsXml = functionCallsMatch[1];
-        const invokeMatch = callsXml.match(
-          /<invoke name="([^"]+)">\s*(<parameter[^>]*>.*?<\/parameter>\s*)*<\/invoke>/s,
-        );
-
-        if (invokeMatch) {
-          const toolName = invokeMatch[1];
-          const parameters: Record<string, unknown> = {};
-
-          // Extract parameters
-          const paramMatches = callsXml.matchAll(/<parameter name="([^"]+)">([^<]*)<\/parameter>/g);
-          for (const match of paramMatches) {
-            parameters[match[1]] = match[2].trim();
-          }
-
-          return {
-            id: `call_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-            type: "function",
-            function: {
-              name: toolName,
-              arguments: JSON.stringify(parameters),
-            },
-          };
-        }
-      } catch (e) {
-        logger.debug("Failed to parse function calls XML: %v", e);
+        // Try JSON parse first
+        args = JSON.parse(argsStr);
+      } catch {
+        // Fall back to simple string argument
+        args = { input: argsStr };
       }
     }
 
-    // Pattern 3: Look for simple function call format
-    const simpleMatch = content.match(/function_call:\s*(\w+)\s*\(([^)]*)\)/);
-    if (simpleMatch) {
-      const toolName = simpleMatch[1];
-      const argsStr = simpleMatch[2].trim();
-
-      // Try to parse arguments
-      let args: Record<string, unknown> = {};
-      if (argsStr) {
-        try {
-          // Try JSON parse first
-          args = JSON.parse(argsStr);
-        } catch {
-          // Fall back to simple string argument
-          args = { input: argsStr };
-        }
-      }
+    add(match, [{ position: match.index!, name: match[1], arguments: JSON.stringify(args) }]);
+  }
+
+  return markup.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find every tool call in upstream response content
+ * Supports fenced JSON blocks (a single call or an array of calls), <function_calls> blocks
+ * with one or more <invoke> elements, and function_call: name(args) forms, in any mix.
+ * @param data Upstream response data
+ * @param idPrefix Id prefix for this turn (see createToolCallIdPrefix)
+ * @returns Tool calls in the order they appear in the content
+ */
+export function detectToolCalls(data: UpstreamData, idPrefix: string = createToolCallIdPrefix()): ToolCall[] {
+  let found: ToolCallMarkup["calls"] = [];
+
+  try {
+    found = findToolCallMarkup(data.data?.delta_content || "").flatMap((markup) => markup.calls);
+  } catch (error) {
+    logger.error("Error detecting tool calls: %v", error);
+  }
+
+  return found
+    .sort((a, b) => a.position - b.position)
+    .map((call, index) => ({
+      id: `${idPrefix}_${index}`,
+      type: "function",
+      function: { name: call.name, arguments: call.arguments },
+    }));
+}
+
+/**
+ * Check if upstream response contains a tool call
+ * @param data Upstream response data
+ * @returns First tool call if found, null otherwise
+ */
+export function detectToolCall(data: UpstreamData): ToolCall | null {
+  return detectToolCalls(data)[0] ?? null;
+}
+
+/**
+ * Decide whether a tool call is executed natively or passed through to the client
+ * @param name Called tool name
+ * @param clientTools Tools defined in the client request
+ * @param policy Tool call policy of the request
+ * @returns Route for the tool call
+ */
+export function routeToolCall(
+  name: string,
+  clientTools?: Tool[],
+  policy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
+): ToolCallRoute {
+  if (!isToolCallAllowed(policy, name)) return "unknown";
+
+  const isClientTool = clientTools?.some((tool) => tool.function?.name === name) ?? false;
+  const isNativeTool = hasTool(name);
+
+  if (isClientTool && isNativeTool) {
+    return CONFIG.TOOL_COLLISION_POLICY;
+  }
+  if (isClientTool) return "client";
+  if (isNativeTool) return "native";
+  return "unknown";
+}
+
+/**
+ * Remove tool call markup (JSON blocks, <function_calls> and function_call: forms) from content
+ * Removes exactly the markup detectToolCalls reads tool calls from.
+ * @param content Assistant content
+ * @returns Remaining prose
+ */
+export function stripToolCallMarkup(content: string): string {
+  let prose = "";
+  let offset = 0;
+  for (const { start, end } of findToolCallMarkup(content)) {
+    if (start > offset) prose += content.slice(offset, start);
+    offset = Math.max(offset, end);
+  }
+  return (prose + content.slice(offset)).trim();
+}
+
+/**
+ * Split tool calls by route, dropping calls that are not routed
+ * Without parallel tool calls only the first routed call is kept.
+ * @param toolCalls Detected tool calls
+ * @param clientTools Tools defined in the client request
+ * @param policy Tool call policy of the request
+ * @returns Client and native tool calls, each in their original order
+ */
+export function partitionToolCalls(
+  toolCalls: ToolCall[],
+  clientTools?: Tool[],
+  policy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
+): { client: ToolCall[]; native: ToolCall[] } {
+  const client: ToolCall[] = [];
+  const native: ToolCall[] = [];
+
+  for (const toolCall of toolCalls) {
+    if (!policy.parallel && client.length + native.length > 0) {
+      logger.debug("Ignoring additional tool call without parallel tool calls: %s", toolCall.function.name);
+      continue;
+    }
 
-      return {
-        id: `call_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-        type: "function",
-        function: {
-          name: toolName,
-          arguments: JSON.stringify(args),
-        },
-      };
+    const route = routeToolCall(toolCall.function.name, clientTools, policy);
+    if (route === "client") {
+      client.push(toolCall);
+    } else if (route === "native") {
+      native.push(toolCall);
+    } else {
+      logger.debug("Ignoring call to undefined tool: %s", toolCall.function.name);
     }
+  }
+
+  return { client, native };
+}
+
+/**
+ * Find the client-side tool calls in a complete assistant response
+ * @param content Full assistant content
+ * @param clientTools Tools defined in the client request
+ * @param policy Tool call policy of the request
+ * @returns The tool calls and the remaining content, or null if there is no client tool call
+ */
+export function extractClientToolCalls(
+  content: string,
+  clientTools?: Tool[],
+  policy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
+): { toolCalls: ToolCall[]; content: string } | null {
+  if (!clientTools || clientTools.length === 0) return null;
 
+  const toolCalls = detectToolCalls({
+    type: "chat:completion",
+    data: { delta_content: content, phase: "answer", done: true },
+  });
+  const { client } = partitionToolCalls(toolCalls, clientTools, policy);
+  if (client.length === 0) {
     return null;
+  }
+
+  return { toolCalls: client, content: stripToolCallMarkup(content) };
+}
+
+/**
+ * Parse tool call arguments and validate them against the tool's parameter schema
+ * Values the model wrote with the wrong type (such as "42" for an integer) are coerced.
+ * @param toolCall Tool call to check
+ * @returns The arguments to execute the tool with, or the violations to report back to the model
+ */
+export function prepareToolArguments(
+  toolCall: ToolCall,
+): { valid: true; args: unknown } | { valid: false; errors: SchemaViolation[] } {
+  let args: unknown;
+  try {
+    args = JSON.parse(toolCall.function.arguments || "{}");
   } catch (error) {
-    logger.error("Error detecting tool call: %v", error);
-    return null;
+    const reason = error instanceof Error ? error.message : String(error);
+    return { valid: false, errors: [{ path: "", keyword: "json", message: `must be valid JSON: ${reason}` }] };
+  }
+
+  const tool = getTool(toolCall.function.name);
+  if (!tool) {
+    return { valid: true, args };
   }
+
+  const validation = validateSchema(args, tool.parameters, { coerce: true });
+  if (!validation.valid) {
+    return { valid: false, errors: validation.errors };
+  }
+  return { valid: true, args: validation.value };
+}
+
+/**
+ * Create the tool result sent back to the model when a call has invalid arguments
+ * It is a JSON object so the model can see which arguments to fix before calling the tool again.
+ * @param toolCall Rejected tool call
+ * @param errors Schema violations
+ * @returns Tool result text
+ */
+export function formatToolArgumentsError(toolCall: ToolCall, errors: SchemaViolation[]): string {
+  return JSON.stringify(
+    {
+      error: {
+        type: "invalid_arguments",
+        message: `The arguments for tool '${toolCall.function.name}' do not match its parameters. ` +
+          "Fix them and call the tool again.",
+        errors: errors.map(({ path, message }) => ({ path: path || "(arguments)", message })),
+      },
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Tell the client that tool calls were not executed because the iteration limit was reached
+ * Stands in for the markup of the calls, which is not sent to the client.
+ * @param toolCalls Tool calls that were not executed
+ * @returns Notice text
+ */
+export function formatToolLimitNotice(toolCalls: ToolCall[]): string {
+  const names = toolCalls.map((toolCall) => toolCall.function.name).join(", ");
+  return `[Tool iteration limit reached, not executed: ${names}]`;
+}
+
+/**
+ * Create the tool result sent back to the model when the tool policy refuses or stops a call
+ * @param toolCall Refused tool call
+ * @param error Policy violation
+ * @returns Tool result text
+ */
+export function formatToolPolicyError(toolCall: ToolCall, error: ToolPolicyError): string {
+  return JSON.stringify(
+    { error: { type: error.type, tool: toolCall.function.name, message: error.message, ...error.details } },
+    null,
+    2,
+  );
 }
 
 /**
  * Execute a tool call and return the result
  * @param toolCall Tool call to execute
+ * @param context Caller of the tool, for the tool policy
  * @returns Tool execution result
  */
-export async function processToolCall(toolCall: ToolCall): Promise<string> {
+export async function processToolCall(toolCall: ToolCall, context: ToolCallContext = {}): Promise<string> {
   try {
     logger.info("Executing tool call: %s", toolCall.function.name);
 
-    const args = JSON.parse(toolCall.function.arguments);
-    const result = await executeTool(toolCall.function.name, args);
+    const prepared = prepareToolArguments(toolCall);
+    if (!prepared.valid) {
+      logger.warn(
+        "Tool call %s has invalid arguments: %s",
+        toolCall.function.name,
+        prepared.errors.map((error) => `${error.path || "(arguments)"} ${error.message}`).join("; "),
+      );
+      recordToolCall(toolCall.function.name, false, "invalid_arguments");
+      return formatToolArgumentsError(toolCall, prepared.errors);
+    }
+
+    const result = await executeToolWithPolicy(toolCall.function.name, prepared.args, context);
 
     // Convert result to string
     const resultStr = typeof result === "string" ? result : JSON.stringify(result, null, 2);
@@ -127,13 +365,45 @@ export async function processToolCall(toolCall: ToolCall): Promise<string> {
     recordToolCall(toolCall.function.name, true);
     return resultStr;
   } catch (error) {
+    if (error instanceof ToolPolicyError) {
+      logger.warn("Tool call %s refused by policy (%s): %s", toolCall.function.name, error.type, error.message);
+      recordToolCall(toolCall.function.name, false, error.type);
+      return formatToolPolicyError(toolCall, error);
+    }
     const errorMsg = `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`;
     logger.error("Tool call %s failed: %v", toolCall.function.name, error);
-    recordToolCall(toolCall.function.name, false);
+    recordToolCall(toolCall.function.name, false, "error");
     return errorMsg;
   }
 }
 
+/**
+ * Execute independent tool calls concurrently
+ * @param toolCalls Tool calls to execute
+ * @param context Caller of the tools, for the tool policy
+ * @param parallelism Maximum number of tools running at the same time
+ * @returns Results in the order of the tool calls
+ */
+export async function executeToolCalls(
+  toolCalls: ToolCall[],
+  context: ToolCallContext = {},
+  parallelism: number = CONFIG.TOOL_PARALLELISM,
+): Promise<ToolCallResult[]> {
+  const results: ToolCallResult[] = new Array(toolCalls.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < toolCalls.length) {
+      const index = next++;
+      results[index] = { toolCall: toolCalls[index], result: await processToolCall(toolCalls[index], context) };
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, parallelism), toolCalls.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
 /**
  * Create a tool result message for the response
  * @param toolCall Original tool call
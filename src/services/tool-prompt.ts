@@ -0,0 +1,193 @@
+/**
+ * Tool Prompt Builder
+ * Renders client tools into the system prompt and converts tool-calling history
+ * into the textual protocol understood by detectToolCall
+ */
+
+import { logger } from "../utils/logger.ts";
+import type { Message, Tool, ToolCall, ToolChoice } from "../types/definitions.ts";
+
+/**
+ * Heading that marks the injected tool section in the system prompt
+ */
+export const TOOL_PROMPT_HEADING = "# Tools";
+
+/**
+ * Get the plain text of a message content
+ */
+function getMessageText(content: Message["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((block) => block.type === "text" && block.text)
+    .map((block) => block.text)
+    .join("\n");
+}
+
+/**
+ * Parse tool call arguments, keeping the raw string if it is not valid JSON
+ */
+function parseArguments(args: string): unknown {
+  if (!args || !args.trim()) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
+
+/**
+ * Render a tool call in the fenced JSON format recognized by detectToolCall
+ * @param toolCall Tool call to render
+ * @returns Tool call as text
+ */
+export function formatToolCallText(toolCall: ToolCall): string {
+  const payload = { name: toolCall.function.name, arguments: parseArguments(toolCall.function.arguments) };
+  return "```json\n" + JSON.stringify(payload) + "\n```";
+}
+
+/**
+ * Render a tool result for the model
+ * @param name Name of the tool that produced the result
+ * @param toolCallId ID of the originating tool call
+ * @param content Tool output
+ * @returns Tool result as text
+ */
+export function formatToolResultText(
+  name: string | undefined,
+  toolCallId: string | undefined,
+  content: string,
+): string {
+  const attributes = [
+    name ? `name="${name}"` : "",
+    toolCallId ? `tool_call_id="${toolCallId}"` : "",
+  ].filter(Boolean).join(" ");
+  return `<tool_result${attributes ? " " + attributes : ""}>\n${content}\n</tool_result>`;
+}
+
+/**
+ * Render the tool instructions for the system prompt
+ * @param tools Tools offered by the client
+ * @param toolChoice Client tool_choice (default "auto")
+ * @param parallelToolCalls Whether several tools may be called in one response
+ * @returns System prompt section, or an empty string if no tools may be called
+ */
+export function buildToolPrompt(
+  tools: Tool[] | undefined,
+  toolChoice: ToolChoice = "auto",
+  parallelToolCalls = true,
+): string {
+  if (!tools || tools.length === 0 || toolChoice === "none") {
+    return "";
+  }
+
+  const definitions = tools.map((tool) =>
+    JSON.stringify({
+      name: tool.function.name,
+      ...(tool.function.description && { description: tool.function.description }),
+      parameters: tool.function.parameters ?? { type: "object", properties: {} },
+    })
+  );
+
+  let choiceInstruction: string;
+  if (typeof toolChoice === "object") {
+    choiceInstruction = `You MUST call the tool "${toolChoice.function.name}" in your next response.`;
+  } else if (toolChoice === "required") {
+    choiceInstruction = "You MUST call at least one of the tools in your next response.";
+  } else {
+    choiceInstruction = "Call a tool only when it is needed to answer; otherwise reply normally.";
+  }
+
+  return [
+    TOOL_PROMPT_HEADING,
+    "",
+    "You can call the following tools. Each tool is described by a JSON object with its name, description and a JSON Schema for its arguments:",
+    "",
+    ...definitions,
+    "",
+    "To call a tool, reply with a fenced JSON block containing the tool name and its arguments, exactly like this:",
+    "",
+    '```json\n{"name": "tool_name", "arguments": {"param": "value"}}\n```',
+    "",
+    parallelToolCalls
+      ? "To call several independent tools at once, write one block per call."
+      : "Call at most one tool per response.",
+    "The arguments must match the tool's schema. After a tool call, stop and wait: the result will be sent back to you inside <tool_result> tags.",
+    choiceInstruction,
+  ].join("\n");
+}
+
+/**
+ * Convert tool-calling history into plain messages and inject the tool prompt
+ * Assistant tool_calls become fenced JSON blocks and role "tool" messages become user messages
+ * with <tool_result> sections, since the upstream only accepts system, user and assistant roles.
+ * @param messages Client messages
+ * @param tools Tools offered by the client
+ * @param toolChoice Client tool_choice
+ * @param parallelToolCalls Client parallel_tool_calls
+ * @returns Messages ready for the upstream request
+ */
+export function applyToolPrompt(
+  messages: Message[],
+  tools?: Tool[],
+  toolChoice?: ToolChoice,
+  parallelToolCalls?: boolean,
+): Message[] {
+  const toolNames = new Map<string, string>();
+  const result: Message[] = [];
+  let toolResultMessage: Message | null = null;
+
+  for (const message of messages) {
+    if (message.role === "assistant" && message.tool_calls && message.tool_calls.length > 0) {
+      const text = getMessageText(message.content);
+      const calls = message.tool_calls.map((toolCall) => {
+        toolNames.set(toolCall.id, toolCall.function.name);
+        return formatToolCallText(toolCall);
+      });
+      result.push({
+        role: "assistant",
+        content: [text, ...calls].filter(Boolean).join("\n\n"),
+      });
+      continue;
+    }
+
+    if (message.role === "tool") {
+      const toolResult = formatToolResultText(
+        message.tool_call_id ? toolNames.get(message.tool_call_id) : undefined,
+        message.tool_call_id,
+        getMessageText(message.content),
+      );
+
+      // Merge consecutive tool results into a single user turn
+      if (toolResultMessage && result[result.length - 1] === toolResultMessage) {
+        toolResultMessage.content += "\n\n" + toolResult;
+      } else {
+        toolResultMessage = { role: "user", content: toolResult };
+        result.push(toolResultMessage);
+      }
+      continue;
+    }
+
+    result.push(message);
+  }
+
+  const toolPrompt = buildToolPrompt(tools, toolChoice, parallelToolCalls !== false);
+  if (!toolPrompt) {
+    return result;
+  }
+
+  logger.debug("Injecting tool prompt for %d tools", tools?.length ?? 0);
+
+  const systemIndex = result.findIndex((message) => message.role === "system");
+  if (systemIndex === -1) {
+    return [{ role: "system", content: toolPrompt }, ...result];
+  }
+
+  const system = result[systemIndex];
+  const systemText = getMessageText(system.content);
+  result[systemIndex] = {
+    ...system,
+    content: systemText ? `${systemText}\n\n${toolPrompt}` : toolPrompt,
+  };
+  return result;
+}
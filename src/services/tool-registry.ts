@@ -4,6 +4,7 @@
  */
 
 import { logger } from "../utils/logger.ts";
+import { compileSchemaPatterns } from "../utils/json-schema.ts";
 import type { ToolFunction as _ToolFunction } from "../types/definitions.ts";
 
 /**
@@ -13,6 +14,16 @@ export interface ToolMetadata {
   fn: (...args: unknown[]) => Promise<unknown> | unknown;
   description: string;
   parameters: Record<string, unknown>;
+  source: string; // "builtin" or the tool pack module the tool was loaded from
+  version?: string;
+}
+
+/**
+ * Where a registered tool comes from
+ */
+export interface ToolRegistrationOptions {
+  source?: string;
+  version?: string;
 }
 
 /**
@@ -26,13 +37,21 @@ export const TOOL_REGISTRY: Record<string, ToolMetadata> = {};
  * @param fn Tool function implementation
  * @param description Tool description
  * @param parameters JSON schema for parameters
+ * @param options Source and version of the tool
+ * @throws Error if the parameters schema has an invalid pattern
  */
 export function registerTool(
   name: string,
   fn: (...args: unknown[]) => Promise<unknown> | unknown,
   description: string,
   parameters: Record<string, unknown>,
+  options: ToolRegistrationOptions = {},
 ): void {
+  try {
+    compileSchemaPatterns(parameters);
+  } catch (error) {
+    throw new Error(`Tool ${name} has invalid parameters: ${error instanceof Error ? error.message : String(error)}`);
+  }
   if (TOOL_REGISTRY[name]) {
     logger.warn("Tool %s is already registered, overwriting", name);
   }
@@ -41,11 +60,27 @@ export function registerTool(
     fn,
     description,
     parameters,
+    source: options.source ?? "builtin",
+    version: options.version,
   };
 
   logger.debug("Registered tool: %s", name);
 }
 
+/**
+ * Remove a tool from the registry
+ * @param name Tool name
+ * @returns The removed tool, or undefined if it was not registered
+ */
+export function unregisterTool(name: string): ToolMetadata | undefined {
+  const tool = TOOL_REGISTRY[name];
+  if (tool) {
+    delete TOOL_REGISTRY[name];
+    logger.debug("Unregistered tool: %s", name);
+  }
+  return tool;
+}
+
 /**
  * Get a tool by name
  * @param name Tool name
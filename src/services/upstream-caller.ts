@@ -10,8 +10,8 @@ import { logger } from "../utils/logger.ts";
 import { generateSignature } from "./signature.ts";
 import { SmartHeaderGenerator } from "./header-generator.ts";
 import { ImageProcessor } from "./image-processor.ts";
-import { detectToolCall, processToolCall } from "./tool-processor.ts";
-import type { UpstreamData, UpstreamRequest } from "../types/definitions.ts";
+import { tokenPool } from "./token-pool.ts";
+import type { UpstreamRequest } from "../types/definitions.ts";
 
 /**
  * Call upstream API with proper headers and signature
@@ -127,12 +127,6 @@ export async function callUpstreamWithHeaders(
 
     logger.debug("Upstream response status: %d %s", response.status, response.statusText);
 
-    // Check if response contains tool calls that need processing
-    if (response.ok && !upstreamReq.stream) {
-      const processedResponse = await processToolCallsInResponse(response);
-      return processedResponse;
-    }
-
     return response;
   } catch (error) {
     logger.error("Failed to call upstream: %v", error);
@@ -141,46 +135,58 @@ export async function callUpstreamWithHeaders(
 }
 
 /**
- * Process tool calls in non-streaming response
- * @param response Upstream response
- * @returns Modified response with tool call results
+ * Call upstream API, failing over to other pool tokens when the token is rejected.
+ * Retries happen before any response bytes are handed to the client.
+ * @param upstreamReq Upstream request body
+ * @param refererChatID Chat ID used for the referer headers
+ * @param authToken Initial token obtained from the pool
+ * @returns Upstream response and the token that produced it
  */
-async function processToolCallsInResponse(response: Response): Promise<Response> {
-  try {
-    const responseText = await response.text();
-    const responseData: UpstreamData = JSON.parse(responseText);
-
-    const toolCall = detectToolCall(responseData);
-    if (!toolCall) {
-      // No tool call detected, return original response
-      return new Response(responseText, {
-        status: response.status,
-        headers: response.headers,
-      });
+export async function callUpstreamWithFailover(
+  upstreamReq: UpstreamRequest,
+  refererChatID: string,
+  authToken: string,
+): Promise<{ response: Response; authToken: string }> {
+  const attempted = new Set<string>();
+  let currentToken = authToken;
+
+  while (true) {
+    attempted.add(currentToken);
+    const started = Date.now();
+    let response: Response;
+    try {
+      response = await callUpstreamWithHeaders(upstreamReq, refererChatID, currentToken);
+    } catch (error) {
+      tokenPool.recordRequest(
+        currentToken,
+        Date.now() - started,
+        error instanceof Error ? error.message : String(error),
+      );
+      throw error;
     }
+    tokenPool.recordRequest(
+      currentToken,
+      Date.now() - started,
+      response.ok ? null : `HTTP ${response.status} ${response.statusText}`.trim(),
+    );
 
-    logger.info("Tool call detected in response: %s", toolCall.function.name);
+    if (!CONFIG.TOKEN_FAILOVER_STATUSES.includes(response.status)) {
+      if (response.ok) {
+        tokenPool.markSuccess(currentToken);
+      }
+      return { response, authToken: currentToken };
+    }
 
-    // Execute the tool
-    const toolResult = await processToolCall(toolCall);
+    logger.warn("Upstream rejected token %s... with status %d", currentToken.substring(0, 20), response.status);
 
-    // Create a modified response that includes the tool result
-    const modifiedResponse = {
-      ...responseData,
-      data: {
-        ...responseData.data,
-        delta_content: toolResult,
-        tool_calls: [toolCall],
-      },
-    };
+    const nextToken = await tokenPool.getFailoverToken(currentToken, attempted);
+    if (!nextToken) {
+      logger.warn("No more tokens available for failover");
+      return { response, authToken: currentToken };
+    }
 
-    return new Response(JSON.stringify(modifiedResponse), {
-      status: response.status,
-      headers: response.headers,
-    });
-  } catch (error) {
-    logger.error("Failed to process tool calls in response: %v", error);
-    // Return original response if tool processing fails
-    return response;
+    // Discard the rejected response before retrying
+    await response.body?.cancel();
+    currentToken = nextToken;
   }
 }
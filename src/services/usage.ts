@@ -0,0 +1,480 @@
+/**
+ * Usage Accounting
+ * Prompt, completion and reasoning tokens of every chat request, with their cost from the model price table,
+ * summed per day and month for each API key and model. Upstream usage is used when the response reports it;
+ * missing figures are estimated locally. Keys can have hard quotas (requests are refused) and soft quotas
+ * (responses carry a warning header).
+ */
+
+import { CONFIG } from "../config/constants.ts";
+import { type ModelPricing, SUPPORTED_MODELS } from "../config/models.ts";
+import { logger } from "../utils/logger.ts";
+import { countTextTokens } from "../utils/tokens.ts";
+import type { ApiKeyRecord } from "./api-keys.ts";
+
+/**
+ * Usage summed over requests
+ */
+export interface UsageTotals {
+  requests: number;
+  estimated_requests: number; // Requests with at least one locally estimated figure
+  prompt_tokens: number;
+  completion_tokens: number; // Including reasoning tokens
+  reasoning_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+/**
+ * Usage of one key and model in one period
+ */
+export interface UsageRow extends UsageTotals {
+  period: string; // Day (YYYY-MM-DD) or month (YYYY-MM), UTC
+  key_id: string;
+  model: string;
+}
+
+/**
+ * Spending limit of an API key
+ * Hard quotas refuse requests once reached; soft quotas only add an X-Quota-Warning header.
+ */
+export interface UsageQuota {
+  period: "day" | "month";
+  metric: "tokens" | "cost"; // Total tokens, or cost in USD
+  limit: number;
+  hard?: boolean; // Default true
+}
+
+/**
+ * Persistence of usage totals
+ */
+export interface UsageStore {
+  add(rows: Array<Omit<UsageRow, keyof UsageTotals>>, usage: UsageTotals): Promise<void>;
+  list(period: string): Promise<UsageRow[]>;
+}
+
+/**
+ * Usage of a single request
+ */
+export interface RequestUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  reasoning_tokens: number;
+  estimated: boolean;
+}
+
+export const QUOTA_WARNING_HEADER = "X-Quota-Warning";
+
+const EMPTY_TOTALS: UsageTotals = {
+  requests: 0,
+  estimated_requests: 0,
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  reasoning_tokens: 0,
+  total_tokens: 0,
+  cost_usd: 0,
+};
+
+function addTotals(total: UsageTotals, usage: UsageTotals): UsageTotals {
+  const sum = { ...total };
+  for (const field of Object.keys(EMPTY_TOTALS) as (keyof UsageTotals)[]) {
+    sum[field] = (total[field] ?? 0) + usage[field];
+  }
+  return sum;
+}
+
+/**
+ * Totals of this instance
+ */
+export class MemoryUsageStore implements UsageStore {
+  private rows = new Map<string, UsageRow>();
+
+  add(rows: Array<Omit<UsageRow, keyof UsageTotals>>, usage: UsageTotals): Promise<void> {
+    for (const row of rows) {
+      const id = JSON.stringify([row.period, row.key_id, row.model]);
+      this.rows.set(id, { ...row, ...addTotals(this.rows.get(id) ?? EMPTY_TOTALS, usage) });
+    }
+    return Promise.resolve();
+  }
+
+  list(period: string): Promise<UsageRow[]> {
+    return Promise.resolve([...this.rows.values()].filter((row) => row.period === period));
+  }
+}
+
+/**
+ * Totals in Deno KV, shared by every instance using the same database
+ */
+export class KvUsageStore implements UsageStore {
+  private kv: Promise<Deno.Kv> | null = null;
+
+  constructor(private readonly path?: string) {}
+
+  private open(): Promise<Deno.Kv> {
+    this.kv ??= Deno.openKv(this.path);
+    return this.kv;
+  }
+
+  async add(rows: Array<Omit<UsageRow, keyof UsageTotals>>, usage: UsageTotals): Promise<void> {
+    const kv = await this.open();
+    const keys = rows.map((row) => ["usage", row.period, row.key_id, row.model]);
+    // Retry when another instance changed a total between reading and writing it
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const entries = await kv.getMany<UsageRow[]>(keys);
+      const operation = kv.atomic();
+      entries.forEach((entry, i) => {
+        operation.check(entry).set(keys[i], { ...rows[i], ...addTotals(entry.value ?? EMPTY_TOTALS, usage) });
+      });
+      if ((await operation.commit()).ok) return;
+    }
+    throw new Error("Usage totals are too busy, try again");
+  }
+
+  async list(period: string): Promise<UsageRow[]> {
+    const kv = await this.open();
+    const rows: UsageRow[] = [];
+    for await (const entry of kv.list<UsageRow>({ prefix: ["usage", period] })) {
+      rows.push(entry.value);
+    }
+    return rows;
+  }
+
+  /**
+   * Close the database (useful for testing)
+   */
+  async close(): Promise<void> {
+    if (this.kv) (await this.kv).close();
+    this.kv = null;
+  }
+}
+
+let store: UsageStore | null = null;
+
+/**
+ * The configured usage store
+ */
+export function getUsageStore(): UsageStore {
+  store ??= CONFIG.USAGE_STORE === "kv" ? new KvUsageStore(CONFIG.USAGE_KV_PATH || undefined) : new MemoryUsageStore();
+  return store;
+}
+
+/**
+ * Replace the usage store (useful for testing); null returns to the configured store
+ */
+export function setUsageStore(usageStore: UsageStore | null): void {
+  store = usageStore;
+}
+
+/**
+ * Day and month of a point in time, UTC
+ */
+export function usagePeriods(date = new Date()): { day: string; month: string } {
+  const day = date.toISOString().substring(0, 10);
+  return { day, month: day.substring(0, 7) };
+}
+
+/**
+ * Price of a model: MODEL_PRICES overrides the price table of SUPPORTED_MODELS
+ * @param model Model id from SUPPORTED_MODELS, matched exactly
+ */
+export function resolveModelPricing(model: string): ModelPricing | null {
+  const config = SUPPORTED_MODELS.find((m) => m.id === model);
+  if (CONFIG.MODEL_PRICES) {
+    try {
+      const prices = JSON.parse(CONFIG.MODEL_PRICES) as Record<string, ModelPricing>;
+      const override = prices[model] ?? (config && prices[config.name]);
+      if (override) return override;
+    } catch (error) {
+      logger.error("Ignoring invalid MODEL_PRICES: %v", error);
+    }
+  }
+  return config?.pricing ?? null;
+}
+
+/**
+ * Cost of a request in USD; 0 for models without a price
+ */
+export function usageCost(model: string, usage: RequestUsage): number {
+  const pricing = resolveModelPricing(model);
+  if (!pricing) return 0;
+  return (usage.prompt_tokens * pricing.input_per_million + usage.completion_tokens * pricing.output_per_million) /
+    1_000_000;
+}
+
+/**
+ * Add the usage of a request to the day and month totals of its key and model
+ * @param model Model id from SUPPORTED_MODELS
+ */
+export async function recordUsage(keyId: string, model: string, usage: RequestUsage, date = new Date()): Promise<void> {
+  const { day, month } = usagePeriods(date);
+  await getUsageStore().add(
+    [{ period: day, key_id: keyId, model }, { period: month, key_id: keyId, model }],
+    {
+      requests: 1,
+      estimated_requests: usage.estimated ? 1 : 0,
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      reasoning_tokens: usage.reasoning_tokens,
+      total_tokens: usage.prompt_tokens + usage.completion_tokens,
+      cost_usd: usageCost(model, usage),
+    },
+  );
+}
+
+/**
+ * Usage of a period, optionally of one key
+ * @param period Day (YYYY-MM-DD) or month (YYYY-MM)
+ */
+export async function getUsage(period: string, keyId?: string): Promise<UsageRow[]> {
+  const rows = await getUsageStore().list(period);
+  return rows.filter((row) => keyId === undefined || row.key_id === keyId)
+    .sort((a, b) => a.key_id.localeCompare(b.key_id) || a.model.localeCompare(b.model));
+}
+
+/**
+ * Sum usage rows
+ */
+export function sumUsage(rows: UsageTotals[]): UsageTotals {
+  return rows.reduce(addTotals, EMPTY_TOTALS);
+}
+
+/**
+ * Check the quotas of a new key or a change of them
+ * @throws Error describing the first invalid quota
+ */
+export function validateQuotas(quotas: unknown): asserts quotas is UsageQuota[] {
+  if (!Array.isArray(quotas)) {
+    throw new Error("quotas must be an array");
+  }
+  for (const [i, quota] of quotas.entries()) {
+    if (quota?.period !== "day" && quota?.period !== "month") {
+      throw new Error(`quotas[${i}].period must be "day" or "month"`);
+    }
+    if (quota.metric !== "tokens" && quota.metric !== "cost") {
+      throw new Error(`quotas[${i}].metric must be "tokens" or "cost"`);
+    }
+    if (typeof quota.limit !== "number" || !(quota.limit >= 0)) {
+      throw new Error(`quotas[${i}].limit must be a number of at least 0`);
+    }
+    if (quota.hard !== undefined && typeof quota.hard !== "boolean") {
+      throw new Error(`quotas[${i}].hard must be a boolean`);
+    }
+  }
+}
+
+/**
+ * Outcome of checking the quotas of a key
+ */
+export interface QuotaCheck {
+  exceeded: string | null; // Why the request is refused, if a hard quota is used up
+  warnings: string[]; // Soft quotas that are used up
+}
+
+function describeQuota(quota: UsageQuota, used: number): string {
+  const period = quota.period === "day" ? "Daily" : "Monthly";
+  return quota.metric === "cost"
+    ? `${period} cost quota of $${quota.limit.toFixed(2)} reached ($${used.toFixed(2)} used)`
+    : `${period} token quota of ${quota.limit} reached (${used} used)`;
+}
+
+/**
+ * Compare the usage of a key with its quotas
+ */
+export async function checkQuotas(key: ApiKeyRecord, date = new Date()): Promise<QuotaCheck> {
+  const result: QuotaCheck = { exceeded: null, warnings: [] };
+  if (!key.quotas?.length) return result;
+
+  const periods = usagePeriods(date);
+  const totals: Partial<Record<"day" | "month", UsageTotals>> = {};
+  for (const quota of key.quotas) {
+    totals[quota.period] ??= sumUsage(await getUsage(periods[quota.period], key.id));
+    const total = totals[quota.period]!;
+    const used = quota.metric === "cost" ? total.cost_usd : total.total_tokens;
+    if (used < quota.limit) continue;
+    if (quota.hard === false) {
+      result.warnings.push(describeQuota(quota, used));
+    } else {
+      result.exceeded ??= describeQuota(quota, used);
+    }
+  }
+  return result;
+}
+
+/**
+ * Report used-up soft quotas on the response headers
+ */
+export function applyQuotaWarnings(headers: Headers, check: QuotaCheck): void {
+  if (check.warnings.length > 0) {
+    headers.set(QUOTA_WARNING_HEADER, check.warnings.join("; "));
+  }
+}
+
+/**
+ * Token counts of an OpenAI or Anthropic usage object
+ */
+interface UsageCounts {
+  prompt_tokens?: unknown;
+  completion_tokens?: unknown;
+  input_tokens?: unknown;
+  output_tokens?: unknown;
+}
+
+/**
+ * OpenAI message or streamed delta
+ */
+interface UsageMessage {
+  content?: unknown;
+  reasoning_content?: unknown;
+  tool_calls?: Array<{ function?: { arguments?: unknown } | null } | null>;
+}
+
+/**
+ * Fields of OpenAI and Anthropic responses and stream events that UsageMeter reads
+ * Parsed from JSON, so any field may be missing or of another type; values are checked before use.
+ */
+interface UsageEvent {
+  type?: unknown;
+  choices?: Array<{ message?: UsageMessage | null; delta?: UsageMessage | null } | null>;
+  content?: Array<{ type?: unknown; text?: unknown; thinking?: unknown; input?: unknown } | null>;
+  usage?: UsageCounts | null;
+  message?: { usage?: UsageCounts | null } | null;
+  delta?: { text?: unknown; partial_json?: unknown; thinking?: unknown } | null;
+}
+
+/**
+ * Usage seen in OpenAI or Anthropic responses, streamed or not
+ * Reported token counts win; text is counted to estimate what is not reported.
+ */
+export class UsageMeter {
+  private promptTokens = 0;
+  private completionTokens = 0;
+  private text = "";
+  private reasoning = "";
+
+  /**
+   * Take in a response body or a streamed event
+   */
+  observe(data: unknown): void {
+    if (typeof data !== "object" || data === null) return;
+    const event = data as UsageEvent;
+
+    // OpenAI chat.completion and chat.completion.chunk
+    for (const choice of Array.isArray(event.choices) ? event.choices : []) {
+      const message = choice?.message ?? choice?.delta ?? {};
+      this.countText(message.content, message.reasoning_content);
+      for (const call of Array.isArray(message.tool_calls) ? message.tool_calls : []) {
+        this.countText(call?.function?.arguments);
+      }
+    }
+    this.countUsage(event.usage?.prompt_tokens, event.usage?.completion_tokens);
+
+    // Anthropic message and stream events
+    if (event.type === "message") {
+      for (const block of Array.isArray(event.content) ? event.content : []) {
+        this.countText(block?.text, block?.thinking);
+        if (block?.type === "tool_use") this.countText(JSON.stringify(block.input ?? {}));
+      }
+    } else if (event.type === "message_start") {
+      this.countUsage(event.message?.usage?.input_tokens, event.message?.usage?.output_tokens);
+    } else if (event.type === "content_block_delta") {
+      this.countText(event.delta?.text ?? event.delta?.partial_json, event.delta?.thinking);
+    }
+    this.countUsage(event.usage?.input_tokens, event.usage?.output_tokens);
+  }
+
+  private countText(text: unknown, reasoning?: unknown): void {
+    if (typeof text === "string") this.text += text;
+    if (typeof reasoning === "string") this.reasoning += reasoning;
+  }
+
+  private countUsage(prompt: unknown, completion: unknown): void {
+    if (typeof prompt === "number" && prompt > 0) this.promptTokens = prompt;
+    if (typeof completion === "number" && completion > 0) this.completionTokens = completion;
+  }
+
+  /**
+   * Usage of the request
+   * @param promptEstimate Local estimate of the prompt, used when the response reports none
+   */
+  result(promptEstimate: number): RequestUsage {
+    const reasoningEstimate = countTextTokens(this.reasoning);
+    const completionEstimate = countTextTokens(this.text) + reasoningEstimate;
+    const completion = this.completionTokens || completionEstimate;
+    return {
+      prompt_tokens: this.promptTokens || promptEstimate,
+      completion_tokens: completion,
+      reasoning_tokens: Math.min(reasoningEstimate, completion),
+      estimated: this.promptTokens === 0 || this.completionTokens === 0 || reasoningEstimate > 0,
+    };
+  }
+}
+
+/**
+ * Record the usage of a successful chat response once its body is complete
+ * Streamed bodies are observed as they pass to the client; JSON bodies are read and passed on.
+ * @param response Response for the client
+ * @param keyId Id of the authenticated key
+ * @param model Model id from SUPPORTED_MODELS
+ * @param promptEstimate Local estimate of the prompt tokens
+ */
+export async function meterResponse(
+  response: Response,
+  keyId: string,
+  model: string,
+  promptEstimate: number,
+): Promise<Response> {
+  if (!response.ok || !response.body) return response;
+
+  const meter = new UsageMeter();
+  let recorded = false;
+  const record = () => {
+    if (recorded) return;
+    recorded = true;
+    recordUsage(keyId, model, meter.result(promptEstimate)).catch((error) => {
+      logger.error("Failed to record usage of key %s: %v", keyId, error);
+    });
+  };
+
+  if (!response.headers.get("Content-Type")?.includes("text/event-stream")) {
+    const text = await response.text();
+    try {
+      meter.observe(JSON.parse(text));
+    } catch {
+      // Not JSON: the prompt estimate is all there is
+    }
+    record();
+    return new Response(text, { status: response.status, headers: response.headers });
+  }
+
+  const decoder = new TextDecoder();
+  let buffered = "";
+  const observeLines = (text: string) => {
+    const lines = (buffered + text).split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.startsWith("data: ") || line === "data: [DONE]") continue;
+      try {
+        meter.observe(JSON.parse(line.substring(6)));
+      } catch {
+        // Partial or non-JSON events carry no usage
+      }
+    }
+  };
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        observeLines(decoder.decode(chunk, { stream: true }));
+        controller.enqueue(chunk);
+      },
+      flush() {
+        observeLines(decoder.decode() + "\n");
+        record();
+      },
+      cancel() {
+        // The client went away: count what was sent
+        record();
+      },
+    }),
+  );
+  return new Response(body, { status: response.status, headers: response.headers });
+}
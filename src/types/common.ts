@@ -106,8 +106,16 @@ export interface ModelsResponse {
  */
 export interface TokenInfo {
   token: string;
-  isValid: boolean;
+  isValid: boolean; // false while the token is cooling down after repeated failures
   lastUsed: number;
   failureCount: number;
   isAnonymous: boolean;
+  cooldownUntil: number; // When a cooling-down token may be tried again
+  cooldowns: number; // Cooldowns in a row, doubling the next one
+  expiresAt: number | null; // JWT exp claim, in milliseconds
+  lastChecked: number; // Last health probe
+  requests: number;
+  errors: number;
+  lastError: string | null;
+  averageLatency: number; // Milliseconds until the upstream answered
 }
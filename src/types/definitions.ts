@@ -118,6 +118,11 @@ export interface Tool {
   function: ToolFunction;
 }
 
+/**
+ * Tool choice: "none", "auto", "required" or a specific function
+ */
+export type ToolChoice = "none" | "auto" | "required" | { type: "function"; function: { name: string } };
+
 /**
  * Tool call in response
  */
@@ -147,10 +152,24 @@ export interface OpenAIRequest {
   messages: Message[];
   stream?: boolean;
   temperature?: number;
+  top_p?: number;
   max_tokens?: number;
+  max_completion_tokens?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  n?: number;
+  seed?: number;
+  stop?: string | string[];
+  logit_bias?: Record<string, number>;
+  logprobs?: boolean;
+  top_logprobs?: number;
   reasoning?: boolean;
+  think_tags_mode?: string; // Per-request override of the thinking tags mode
   tools?: Tool[];
-  tool_choice?: "none" | "auto" | "required";
+  tool_choice?: ToolChoice;
+  parallel_tool_calls?: boolean;
+  max_tool_iterations?: number; // Limit for the server-side native tool loop
+  user?: string; // End user, for per-user rate limits
 }
 
 /**
@@ -307,4 +326,5 @@ export interface ModelConfig {
 // - "think": convert <details> to <think> tags
 // - "raw": keep as-is
 // - "separate": separate reasoning into reasoning_content field
-export const THINK_TAGS_MODE = "think"; // options: "strip", "thinking", "think", "raw", "separate"
+export const THINK_TAGS_MODES = ["strip", "thinking", "think", "raw", "separate"] as const;
+export type ThinkTagsMode = typeof THINK_TAGS_MODES[number];
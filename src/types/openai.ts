@@ -2,7 +2,7 @@
  * OpenAI API type definitions
  */
 
-import type { Message, ToolCall, Usage } from "./definitions.ts";
+import type { Message, Usage } from "./definitions.ts";
 
 /**
  * OpenAI chat completion request
@@ -39,5 +39,18 @@ export interface Delta {
   role?: string;
   content?: string;
   reasoning_content?: string;
-  tool_calls?: ToolCall[];
+  tool_calls?: ToolCallDelta[];
+}
+
+/**
+ * Streamed tool call fragment
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
 }
@@ -0,0 +1,860 @@
+/**
+ * Date and time utilities
+ * Time zone conversion, calendar arithmetic, business days, natural-language date parsing and
+ * formatting for the date tools. Built on Intl and the time zone data bundled with the runtime's
+ * ICU, so nothing is fetched.
+ */
+
+/**
+ * Local date and time in some time zone; month is 1-12
+ */
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+export interface Duration {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+}
+
+/**
+ * An instant as seen in a time zone
+ */
+export interface DateDescription {
+  iso: string; // e.g. 2025-03-05T14:00:00+01:00
+  timezone: string;
+  utc_offset: string;
+  abbreviation: string;
+  date: string;
+  time: string;
+  weekday: string;
+  unix: number; // Seconds
+  dst: boolean;
+}
+
+/**
+ * Difference between two instants
+ * Calendar components are negative when the end is before the start.
+ */
+export interface DateDifference {
+  years: number;
+  months: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  total_days: number;
+  total_hours: number;
+  total_seconds: number;
+  business_days: number | null; // null for dates further apart than 200 years
+  human: string;
+}
+
+export interface ParseDateOptions {
+  timeZone: string; // Zone of dates and times without an offset
+  reference?: number; // "now" in epoch milliseconds
+}
+
+export interface FormatDateOptions {
+  timeZone: string;
+  locale?: string;
+  now?: number; // Reference for the relative format
+}
+
+const DAY_MS = 86_400_000;
+const MAX_BUSINESS_DAY_SPAN = 200 * 366;
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+const UNITS: Record<string, keyof Duration> = {
+  s: "seconds",
+  sec: "seconds",
+  secs: "seconds",
+  second: "seconds",
+  seconds: "seconds",
+  m: "minutes",
+  min: "minutes",
+  mins: "minutes",
+  minute: "minutes",
+  minutes: "minutes",
+  h: "hours",
+  hr: "hours",
+  hrs: "hours",
+  hour: "hours",
+  hours: "hours",
+  d: "days",
+  day: "days",
+  days: "days",
+  w: "weeks",
+  wk: "weeks",
+  wks: "weeks",
+  week: "weeks",
+  weeks: "weeks",
+  mo: "months",
+  mos: "months",
+  month: "months",
+  months: "months",
+  y: "years",
+  yr: "years",
+  yrs: "years",
+  year: "years",
+  years: "years",
+};
+const QUANTITY_PATTERN = `([+-]?\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join("|")}) ?(${
+  Object.keys(UNITS).sort((a, b) => b.length - a.length).join("|")
+})`;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let cached = formatters.get(key);
+  if (!cached) {
+    cached = new Intl.DateTimeFormat(locale, options);
+    formatters.set(key, cached);
+  }
+  return cached;
+}
+
+/**
+ * Canonical name of a time zone
+ * @param timeZone IANA name such as "Europe/Berlin" (any case), "UTC" or an offset such as "+05:30"
+ * @throws Error if the runtime does not know the zone
+ */
+export function resolveTimeZone(timeZone: string): string {
+  try {
+    return formatter("en-US", { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    throw new Error(`Unknown time zone '${timeZone}', use an IANA name such as Europe/Berlin`);
+  }
+}
+
+function utcFromWall(wall: WallTime): number {
+  // setUTCFullYear, unlike Date.UTC, does not map years 0-99 to 1900-1999
+  const date = new Date(0);
+  date.setUTCFullYear(wall.year, wall.month - 1, wall.day);
+  date.setUTCHours(wall.hour, wall.minute, wall.second, wall.millisecond);
+  return date.getTime();
+}
+
+function wallFromUtc(time: number): WallTime {
+  const date = new Date(time);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Local date and time of an instant in a time zone
+ */
+export function toWallTime(instant: number, timeZone: string): WallTime {
+  const parts: Record<string, string> = {};
+  const fields = { year: "numeric", month: "numeric", day: "numeric", hour: "numeric", minute: "numeric" } as const;
+  for (
+    const part of formatter("en-US", { timeZone, hourCycle: "h23", ...fields, second: "numeric", era: "short" })
+      .formatToParts(new Date(instant))
+  ) {
+    parts[part.type] = part.value;
+  }
+  const year = Number(parts.year);
+  return {
+    year: parts.era === "BC" ? 1 - year : year,
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    millisecond: ((instant % 1000) + 1000) % 1000,
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+export function offsetAt(instant: number, timeZone: string): number {
+  return utcFromWall(toWallTime(instant, timeZone)) - instant;
+}
+
+/**
+ * Instant of a local date and time in a time zone
+ * Times skipped by a DST change move forward by the length of the gap; repeated times resolve to the
+ * earlier instant when the runtime reports it first.
+ */
+export function fromWallTime(wall: WallTime, timeZone: string): number {
+  const local = utcFromWall(wall);
+  const offset = offsetAt(local, timeZone);
+  let instant = local - offset;
+  const actualOffset = offsetAt(instant, timeZone);
+  if (actualOffset !== offset) {
+    const other = local - actualOffset;
+    instant = offsetAt(other, timeZone) === actualOffset ? other : Math.max(instant, other);
+  }
+  return instant;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return wallFromUtc(utcFromWall({ year, month: month + 1, day: 0, hour: 0, minute: 0, second: 0, millisecond: 0 }))
+    .day;
+}
+
+function dayOfWeek(wall: WallTime): number {
+  return new Date(utcFromWall(wall)).getUTCDay();
+}
+
+function dateKey(wall: WallTime): string {
+  const year = wall.year < 0 || wall.year > 9999
+    ? (wall.year < 0 ? "-" : "+") + String(Math.abs(wall.year)).padStart(6, "0")
+    : String(wall.year).padStart(4, "0");
+  return `${year}-${String(wall.month).padStart(2, "0")}-${String(wall.day).padStart(2, "0")}`;
+}
+
+/**
+ * Add calendar years, months and days to a local date; the day is clamped to the end of the month
+ */
+function addToWall(wall: WallTime, years: number, months: number, days: number): WallTime {
+  const totalMonths = wall.year * 12 + (wall.month - 1) + years * 12 + months;
+  const year = Math.floor(totalMonths / 12);
+  const month = totalMonths - year * 12 + 1;
+  const day = Math.min(wall.day, daysInMonth(year, month));
+  return wallFromUtc(utcFromWall({ ...wall, year, month, day }) + days * DAY_MS);
+}
+
+function checkInteger(value: number, name: string): void {
+  if (!Number.isInteger(value)) {
+    throw new Error(`${name} must be a whole number, got ${value}`);
+  }
+}
+
+/**
+ * Add a duration to an instant
+ * Years, months, weeks and days are calendar units in the time zone (a day may be 23 or 25 hours long);
+ * hours, minutes and seconds are exact.
+ */
+export function addDuration(instant: number, duration: Duration, timeZone: string): number {
+  const { years = 0, months = 0, weeks = 0, days = 0, hours = 0, minutes = 0, seconds = 0 } = duration;
+  for (const [name, value] of Object.entries({ years, months, weeks, days })) {
+    checkInteger(value, name);
+  }
+  let result = instant;
+  if (years || months || weeks || days) {
+    result = fromWallTime(addToWall(toWallTime(instant, timeZone), years, months, weeks * 7 + days), timeZone);
+  }
+  return result + Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000);
+}
+
+/**
+ * Parse a duration: ISO 8601 ("P1Y2M3DT4H", "-PT90M") or text ("2 weeks 3 days", "1h 30m")
+ * @throws Error if the text is neither
+ */
+export function parseDuration(text: string): Duration {
+  const source = text.trim();
+  const iso = source.match(
+    /^([+-])?P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/i,
+  );
+  if (iso && source.length > 1 && !/[PT]$/i.test(source)) {
+    const sign = iso[1] === "-" ? -1 : 1;
+    const value = (part?: string) => (part ? sign * Number(part.replace(",", ".")) : 0);
+    return {
+      years: value(iso[2]),
+      months: value(iso[3]),
+      weeks: value(iso[4]),
+      days: value(iso[5]),
+      hours: value(iso[6]),
+      minutes: value(iso[7]),
+      seconds: value(iso[8]),
+    };
+  }
+
+  const duration: Required<Duration> = { years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0 };
+  let rest = source.toLowerCase();
+  const sign = rest.startsWith("-") ? -1 : 1;
+  rest = rest.replace(/^[+-]\s*/, "");
+  const quantity = new RegExp(`^${QUANTITY_PATTERN}(?![a-z])(?:\\s*,?\\s*(?:and\\s+)?)`);
+  if (!rest) throw new Error("Duration is empty");
+  while (rest) {
+    const match = rest.match(quantity);
+    if (!match) {
+      throw new Error(`Invalid duration '${text}', use ISO 8601 (P1DT2H) or text such as '1 day 2 hours'`);
+    }
+    duration[UNITS[match[2]]] += sign * (NUMBER_WORDS[match[1]] ?? Number(match[1]));
+    rest = rest.slice(match[0].length).trim();
+  }
+  return duration;
+}
+
+function isBusinessDay(wall: WallTime, holidays: Set<string>): boolean {
+  const day = dayOfWeek(wall);
+  return day !== 0 && day !== 6 && !holidays.has(dateKey(wall));
+}
+
+/**
+ * Move an instant by business days (Monday to Friday, except holidays), keeping the local time
+ * @param holidays Dates (YYYY-MM-DD) that are not business days
+ */
+export function addBusinessDays(instant: number, count: number, timeZone: string, holidays: string[] = []): number {
+  checkInteger(count, "business_days");
+  if (Math.abs(count) > MAX_BUSINESS_DAY_SPAN) {
+    throw new Error(`business_days must be at most ${MAX_BUSINESS_DAY_SPAN}`);
+  }
+  const holidaySet = new Set(holidays);
+  let wall = toWallTime(instant, timeZone);
+  for (let remaining = Math.abs(count); remaining > 0;) {
+    wall = addToWall(wall, 0, 0, Math.sign(count));
+    if (isBusinessDay(wall, holidaySet)) remaining--;
+  }
+  return fromWallTime(wall, timeZone);
+}
+
+/**
+ * Business days from one instant to another: business days after the start date up to and including
+ * the end date, negative if the end is earlier
+ */
+export function countBusinessDays(start: number, end: number, timeZone: string, holidays: string[] = []): number {
+  const sign = end < start ? -1 : 1;
+  const from = toWallTime(Math.min(start, end), timeZone);
+  const to = dateKey(toWallTime(Math.max(start, end), timeZone));
+  const holidaySet = new Set(holidays);
+  let count = 0;
+  let wall = from;
+  for (let steps = 0; dateKey(wall) < to; steps++) {
+    if (steps > MAX_BUSINESS_DAY_SPAN) {
+      throw new Error("Dates are too far apart to count business days");
+    }
+    wall = addToWall(wall, 0, 0, 1);
+    if (isBusinessDay(wall, holidaySet)) count++;
+  }
+  return sign * count;
+}
+
+function plural(value: number, unit: string): string {
+  return `${value} ${unit}${Math.abs(value) === 1 ? "" : "s"}`;
+}
+
+/**
+ * Difference between two instants in calendar units of a time zone, and in totals
+ * Business days are only counted for dates up to 200 years apart.
+ */
+export function diffDates(start: number, end: number, timeZone: string, holidays: string[] = []): DateDifference {
+  const sign = end < start ? -1 : 1;
+  const [from, to] = sign > 0 ? [start, end] : [end, start];
+  const wall = toWallTime(from, timeZone);
+  const target = toWallTime(to, timeZone);
+  const at = (months: number, days: number) => fromWallTime(addToWall(wall, 0, months, days), timeZone);
+
+  let months = (target.year - wall.year) * 12 + target.month - wall.month;
+  while (months > 0 && at(months, 0) > to) months--;
+  let days = Math.max(0, Math.floor((to - at(months, 0)) / DAY_MS) - 1);
+  while (at(months, days + 1) <= to) days++;
+
+  let rest = Math.round((to - at(months, days)) / 1000);
+  const seconds = rest % 60;
+  rest = (rest - seconds) / 60;
+  const minutes = rest % 60;
+  const hours = (rest - minutes) / 60;
+  const years = Math.floor(months / 12);
+  months %= 12;
+
+  const parts = [
+    plural(years, "year"),
+    plural(months, "month"),
+    plural(days, "day"),
+    plural(hours, "hour"),
+    plural(minutes, "minute"),
+    plural(seconds, "second"),
+  ].filter((part) => !part.startsWith("0 "));
+  const human = parts.length === 0
+    ? "0 seconds"
+    : parts.length === 1
+    ? parts[0]
+    : `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
+
+  const round = (value: number) => Math.round(value * 10000) / 10000 || 0;
+  const signed = (value: number) => sign * value || 0;
+  return {
+    years: signed(years),
+    months: signed(months),
+    days: signed(days),
+    hours: signed(hours),
+    minutes: signed(minutes),
+    seconds: signed(seconds),
+    total_days: round((end - start) / DAY_MS),
+    total_hours: round((end - start) / 3_600_000),
+    total_seconds: round((end - start) / 1000),
+    business_days: Math.abs(end - start) < MAX_BUSINESS_DAY_SPAN * DAY_MS
+      ? countBusinessDays(start, end, timeZone, holidays)
+      : null,
+    human: sign < 0 ? `-${human}` : human,
+  };
+}
+
+function formatOffset(offsetMs: number, separator = ":"): string {
+  const minutes = Math.round(Math.abs(offsetMs) / 60_000);
+  const hours = String(Math.floor(minutes / 60)).padStart(2, "0");
+  return `${offsetMs < 0 ? "-" : "+"}${hours}${separator}${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function timeZoneName(instant: number, timeZone: string, style: "short" | "long", locale = "en-US"): string {
+  return formatter(locale, { timeZone, timeZoneName: style }).formatToParts(new Date(instant))
+    .find((part) => part.type === "timeZoneName")?.value ?? timeZone;
+}
+
+/**
+ * ISO 8601 date and time with the UTC offset of the time zone
+ */
+export function toIsoString(instant: number, timeZone: string): string {
+  const wall = toWallTime(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const millis = wall.millisecond ? `.${String(wall.millisecond).padStart(3, "0")}` : "";
+  return `${dateKey(wall)}T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}${millis}` +
+    formatOffset(offsetAt(instant, timeZone));
+}
+
+/**
+ * Describe an instant in a time zone
+ */
+export function describeDate(instant: number, timeZone: string): DateDescription {
+  const iso = toIsoString(instant, timeZone);
+  const offset = offsetAt(instant, timeZone);
+  const year = toWallTime(instant, timeZone).year;
+  const january = offsetAt(fromWallTime({ ...wallFromUtc(0), year }, "UTC"), timeZone);
+  const july = offsetAt(fromWallTime({ ...wallFromUtc(0), year, month: 7 }, "UTC"), timeZone);
+  return {
+    iso,
+    timezone: timeZone,
+    utc_offset: formatOffset(offset),
+    abbreviation: timeZoneName(instant, timeZone, "short"),
+    date: iso.slice(0, iso.indexOf("T")),
+    time: iso.slice(iso.indexOf("T") + 1, iso.indexOf("T") + 9),
+    weekday: formatter("en-US", { timeZone, weekday: "long" }).format(new Date(instant)),
+    unix: Math.floor(instant / 1000),
+    dst: offset > Math.min(january, july),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface ParseState {
+  timeZone?: string;
+  date?: { year?: number; month: number; day: number };
+  dayShift: number;
+  weekday?: { day: number; mode: string };
+  time?: { hour: number; minute: number; second: number; millisecond: number };
+  offset: Required<Duration>;
+  pending: Array<[keyof Duration, number]>; // Quantities waiting for "ago" or "from now"
+  edge?: { edge: "start" | "end"; unit: "day" | "week" | "month" | "year" };
+  dateWord: boolean; // The text names a day, so the time defaults to midnight
+}
+
+function monthNumber(word: string): number {
+  const name = word.replace(/\.$/, "");
+  if (name.length < 3) return 0;
+  return MONTHS.findIndex((month) => month === name || (month.startsWith(name) && name.length <= 4)) + 1;
+}
+
+function weekdayNumber(word: string): number {
+  if (word.length < 3) return -1;
+  return WEEKDAYS.findIndex((day) => day === word || (day.startsWith(word) && word.length <= 5));
+}
+
+function expandYear(year: string): number {
+  const value = Number(year);
+  return year.length === 2 ? 2000 + value - (value > 69 ? 100 : 0) : value;
+}
+
+function setTime(state: ParseState, hour: number, minute = 0, second = 0, millisecond = 0, meridiem?: string): boolean {
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return false;
+    hour = (hour % 12) + (meridiem.startsWith("p") ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59 || second > 59) return false;
+  state.time = { hour, minute, second, millisecond };
+  return true;
+}
+
+function setDate(state: ParseState, year: number | undefined, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year ?? 2000, month)) return false;
+  state.date = { year, month, day };
+  return true;
+}
+
+function addPending(state: ParseState, sign: number): void {
+  for (const [unit, amount] of state.pending) state.offset[unit] += sign * amount;
+  state.pending = [];
+}
+
+/**
+ * Phrases of the date language, each tried at the start of the remaining text
+ * A handler returns false when the match turns out not to be a valid phrase.
+ */
+const PHRASES: Array<[RegExp, (state: ParseState, match: RegExpMatchArray) => boolean | void]> = [
+  [/^(?:at|on|the|and|of)\b/, () => {}],
+  [/^now\b/, () => {}],
+  [/^today\b/, (state) => {
+    state.dateWord = true;
+  }],
+  [/^(?:the )?day after tomorrow\b/, (state) => {
+    state.dayShift += 2;
+    state.dateWord = true;
+  }],
+  [/^(?:the )?day before yesterday\b/, (state) => {
+    state.dayShift -= 2;
+    state.dateWord = true;
+  }],
+  [/^tomorrow\b/, (state) => {
+    state.dayShift += 1;
+    state.dateWord = true;
+  }],
+  [/^yesterday\b/, (state) => {
+    state.dayShift -= 1;
+    state.dateWord = true;
+  }],
+  [/^(start|beginning|end) of (?:the )?(?:(this|next|last|previous) )?(day|week|month|year)\b/, (state, match) => {
+    const unit = match[3] as "day" | "week" | "month" | "year";
+    state.edge = { edge: match[1] === "end" ? "end" : "start", unit };
+    if (match[2] === "next" || match[2] === "last" || match[2] === "previous") {
+      state.offset[`${unit}s` as keyof Duration] += match[2] === "next" ? 1 : -1;
+    }
+    state.dateWord = true;
+  }],
+  [/^(next|last|previous|this) (week|month|year)\b/, (state, match) => {
+    if (match[1] !== "this") state.offset[`${match[2]}s` as keyof Duration] += match[1] === "next" ? 1 : -1;
+    state.dateWord = true;
+  }],
+  [/^(?:(next|last|previous|this|coming) )?([a-z]+)\b/, (state, match) => {
+    const day = weekdayNumber(match[2]);
+    if (day === -1) return false;
+    state.weekday = { day, mode: match[1] ?? "this" };
+    state.dateWord = true;
+  }],
+  [/^noon\b/, (state) => setTime(state, 12)],
+  [/^midnight\b/, (state) => setTime(state, 0)],
+  [/^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))? ?([ap])\.?m\b\.?/, (state, match) => {
+    return setTime(state, Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0), 0, match[4]);
+  }],
+  [/^(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,3})\d*)?)?\b/, (state, match) => {
+    const millisecond = Number((match[4] ?? "0").padEnd(3, "0"));
+    return setTime(state, Number(match[1]), Number(match[2]), Number(match[3] ?? 0), millisecond);
+  }],
+  [/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:t(?=\d))?/, (state, match) => {
+    return setDate(state, Number(match[1]), Number(match[2]), Number(match[3]));
+  }],
+  [/^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/, (state, match) => {
+    // Month first, unless the first number cannot be a month
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    const [month, day] = first > 12 ? [second, first] : [first, second];
+    return setDate(state, expandYear(match[3]), month, day);
+  }],
+  [/^(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})\b/, (state, match) => {
+    return setDate(state, expandYear(match[3]), Number(match[2]), Number(match[1]));
+  }],
+  [/^([a-z]{3,9}\.?) (\d{1,2})(?:st|nd|rd|th)?\b(?: (\d{4}))?/, (state, match) => {
+    const month = monthNumber(match[1]);
+    return month > 0 && setDate(state, match[3] ? Number(match[3]) : undefined, month, Number(match[2]));
+  }],
+  [/^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]{3,9}\.?)(?: (\d{4}))?(?![a-z])/, (state, match) => {
+    const month = monthNumber(match[2]);
+    return month > 0 && setDate(state, match[3] ? Number(match[3]) : undefined, month, Number(match[1]));
+  }],
+  [/^([a-z]{3,9}\.?) (\d{4})\b/, (state, match) => {
+    const month = monthNumber(match[1]);
+    return month > 0 && setDate(state, Number(match[2]), month, 1);
+  }],
+  [new RegExp(`^${QUANTITY_PATTERN}\\b`), (state, match) => {
+    state.pending.push([UNITS[match[2]], NUMBER_WORDS[match[1]] ?? Number(match[1])]);
+  }],
+  [/^in\b/, () => {}],
+  [/^ago\b/, (state) => addPending(state, -1)],
+  [/^(?:from now|later|hence)\b/, (state) => addPending(state, 1)],
+  [/^(?:utc|gmt|z)\b/, (state) => {
+    state.timeZone = "UTC";
+  }],
+  [/^([a-z]+(?:\/[a-z0-9_+-]+)+)\b/, (state, match) => {
+    try {
+      state.timeZone = resolveTimeZone(match[1]);
+    } catch {
+      return false;
+    }
+  }],
+];
+
+function resolveWeekday(wall: WallTime, weekday: { day: number; mode: string }): WallTime {
+  let days = (weekday.day - dayOfWeek(wall) + 7) % 7;
+  if (weekday.mode === "next" && days === 0) days = 7;
+  if (weekday.mode === "last" || weekday.mode === "previous") days = days === 0 ? -7 : days - 7;
+  return addToWall(wall, 0, 0, days);
+}
+
+function resolveEdge(wall: WallTime, edge: NonNullable<ParseState["edge"]>): WallTime {
+  const start = edge.edge === "start";
+  switch (edge.unit) {
+    case "week": {
+      const monday = addToWall(wall, 0, 0, -((dayOfWeek(wall) + 6) % 7));
+      return start ? monday : addToWall(monday, 0, 0, 6);
+    }
+    case "month":
+      return { ...wall, day: start ? 1 : daysInMonth(wall.year, wall.month) };
+    case "year":
+      return { ...wall, month: start ? 1 : 12, day: start ? 1 : 31 };
+    default:
+      return wall;
+  }
+}
+
+/**
+ * Parse a date: ISO 8601, a Unix timestamp, or English text
+ * Understands phrases such as "tomorrow 3pm", "next friday at 9:30", "in 2 hours", "3 days ago",
+ * "March 5, 2025", "5 Mar", "03/05/2025" (month first), "end of next month" and a trailing time zone
+ * ("9am America/New_York"). Dates without a time are at midnight; times without a date are today.
+ * @param text Text, or a Unix timestamp in seconds or milliseconds
+ * @returns Epoch milliseconds
+ * @throws Error if the text is not understood
+ */
+export function parseDate(text: string | number, options: ParseDateOptions): number {
+  const reference = options.reference ?? Date.now();
+  if (typeof text === "number" || /^@?-?\d{9,}(?:\.\d+)?$/.test(String(text).trim())) {
+    const value = Number(String(text).trim().replace(/^@/, ""));
+    if (!Number.isFinite(value)) throw new Error(`Invalid timestamp '${text}'`);
+    // Timestamps of 12 or more digits are milliseconds
+    return Math.abs(value) >= 1e11 ? Math.round(value) : Math.round(value * 1000);
+  }
+
+  const source = text.trim();
+  if (!source) {
+    throw new Error("Date text is required");
+  }
+
+  const iso = source.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i,
+  );
+  if (iso) {
+    const wall: WallTime = {
+      year: Number(iso[1]),
+      month: Number(iso[2]),
+      day: Number(iso[3]),
+      hour: Number(iso[4] ?? 0),
+      minute: Number(iso[5] ?? 0),
+      second: Number(iso[6] ?? 0),
+      millisecond: Number((iso[7] ?? "0").padEnd(3, "0")),
+    };
+    if (
+      wall.month < 1 || wall.month > 12 || wall.day < 1 || wall.day > daysInMonth(wall.year, wall.month) ||
+      wall.hour > 23 || wall.minute > 59 || wall.second > 59
+    ) {
+      throw new Error(`Invalid date '${text}'`);
+    }
+    if (!iso[8]) return fromWallTime(wall, options.timeZone);
+    if (iso[8].toUpperCase() === "Z") return utcFromWall(wall);
+    const digits = iso[8].slice(1).replace(":", "");
+    const offsetMinutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0);
+    return utcFromWall(wall) - (iso[8].startsWith("-") ? -1 : 1) * offsetMinutes * 60_000;
+  }
+
+  const state: ParseState = {
+    dayShift: 0,
+    offset: { years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0 },
+    pending: [],
+    dateWord: false,
+  };
+  let rest = source.toLowerCase().replace(/,/g, " ").replace(/\s+/g, " ").trim();
+  while (rest) {
+    let matched = false;
+    for (const [pattern, handle] of PHRASES) {
+      const match = rest.match(pattern);
+      if (match && handle(state, match) !== false) {
+        rest = rest.slice(match[0].length).trim();
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      throw new Error(`Could not understand the date '${text}' at '${rest}'`);
+    }
+  }
+  addPending(state, 1);
+
+  const timeZone = state.timeZone ?? options.timeZone;
+  let wall = toWallTime(reference, timeZone);
+  if (state.date) {
+    wall = { ...wall, year: state.date.year ?? wall.year, month: state.date.month, day: state.date.day };
+  } else if (state.weekday) {
+    wall = resolveWeekday(wall, state.weekday);
+  }
+  const { years, months, weeks, days, hours, minutes, seconds } = state.offset;
+  wall = addToWall(wall, years, months, state.dayShift + weeks * 7 + days);
+  if (state.edge) wall = resolveEdge(wall, state.edge);
+
+  if (state.time) {
+    wall = { ...wall, ...state.time };
+  } else if (state.edge?.edge === "end") {
+    wall = { ...wall, hour: 23, minute: 59, second: 59, millisecond: 0 };
+  } else if (state.dateWord || state.date) {
+    wall = { ...wall, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  }
+  return fromWallTime(wall, timeZone) + Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000);
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+const PATTERN_TOKENS = /'([^']*)'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|m|ss|s|SSS|a|XXX|XX|zzzz|z/g;
+
+function formatPattern(instant: number, pattern: string, timeZone: string, locale: string): string {
+  const wall = toWallTime(instant, timeZone);
+  const date = new Date(instant);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const name = (options: Intl.DateTimeFormatOptions, type: string) =>
+    formatter(locale, { timeZone, ...options }).formatToParts(date).find((part) => part.type === type)?.value ?? "";
+
+  return pattern.replace(PATTERN_TOKENS, (token, quoted?: string) => {
+    if (quoted !== undefined) return quoted || "'";
+    switch (token) {
+      case "yyyy":
+        return dateKey(wall).slice(0, -6);
+      case "yy":
+        return pad(Math.abs(wall.year) % 100);
+      case "MMMM":
+        return name({ month: "long", day: "numeric" }, "month");
+      case "MMM":
+        return name({ month: "short", day: "numeric" }, "month");
+      case "MM":
+        return pad(wall.month);
+      case "M":
+        return String(wall.month);
+      case "dd":
+        return pad(wall.day);
+      case "d":
+        return String(wall.day);
+      case "EEEE":
+        return name({ weekday: "long" }, "weekday");
+      case "EEE":
+        return name({ weekday: "short" }, "weekday");
+      case "HH":
+        return pad(wall.hour);
+      case "H":
+        return String(wall.hour);
+      case "hh":
+        return pad(wall.hour % 12 || 12);
+      case "h":
+        return String(wall.hour % 12 || 12);
+      case "mm":
+        return pad(wall.minute);
+      case "m":
+        return String(wall.minute);
+      case "ss":
+        return pad(wall.second);
+      case "s":
+        return String(wall.second);
+      case "SSS":
+        return pad(wall.millisecond, 3);
+      case "a":
+        return name({ hour: "numeric", hour12: true }, "dayPeriod");
+      case "XXX":
+        return formatOffset(offsetAt(instant, timeZone));
+      case "XX":
+        return formatOffset(offsetAt(instant, timeZone), "");
+      case "zzzz":
+        return timeZoneName(instant, timeZone, "long", locale);
+      default:
+        return timeZoneName(instant, timeZone, "short", locale);
+    }
+  });
+}
+
+function formatRelative(instant: number, now: number, locale: string): string {
+  const seconds = (instant - now) / 1000;
+  const units: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+    ["year", 365 * 86400],
+    ["month", 30 * 86400],
+    ["week", 7 * 86400],
+    ["day", 86400],
+    ["hour", 3600],
+    ["minute", 60],
+  ];
+  const format = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) return format.format(Math.round(seconds / size), unit);
+  }
+  return format.format(Math.round(seconds), "second");
+}
+
+/**
+ * Format an instant
+ * @param format "iso", "unix", "relative" ("in 3 days"), "date", "time", an Intl style ("full", "long",
+ *   "medium", "short"), or a pattern such as "EEEE, d MMMM yyyy HH:mm z" (text in single quotes is literal)
+ */
+export function formatDate(instant: number, format: string, options: FormatDateOptions): string {
+  const locale = options.locale ?? "en-US";
+  try {
+    new Intl.DateTimeFormat(locale);
+  } catch {
+    throw new Error(`Unknown locale '${locale}'`);
+  }
+  switch (format) {
+    case "iso":
+      return toIsoString(instant, options.timeZone);
+    case "unix":
+      return String(Math.floor(instant / 1000));
+    case "relative":
+      return formatRelative(instant, options.now ?? Date.now(), locale);
+    case "date":
+      return formatPattern(instant, "yyyy-MM-dd", options.timeZone, locale);
+    case "time":
+      return formatPattern(instant, "HH:mm:ss", options.timeZone, locale);
+    case "full":
+    case "long":
+    case "medium":
+    case "short":
+      return formatter(locale, { timeZone: options.timeZone, dateStyle: format, timeStyle: format })
+        .format(new Date(instant));
+    default:
+      return formatPattern(instant, format, options.timeZone, locale);
+  }
+}
@@ -22,6 +22,13 @@ export function parseBooleanHeader(value: string | null): boolean | null {
   return null;
 }
 
+/**
+ * Parse a comma-separated header value
+ */
+export function parseListHeader(value: string | null): string[] {
+  return (value || "").split(",").map((item) => item.trim()).filter(Boolean);
+}
+
 /**
  * Set CORS headers on a Headers object
  */
@@ -30,9 +37,13 @@ export function setCORSHeaders(headers: Headers): void {
   headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
   headers.set(
     "Access-Control-Allow-Headers",
-    "Content-Type, Authorization, x-api-key, anthropic-version, x-feature-thinking, x-feature-web-search, x-feature-auto-web-search, x-feature-image-generation, x-feature-title-generation, x-feature-tags-generation, x-feature-mcp, x-think-tags-mode, x-thinking",
+    "Content-Type, Authorization, x-api-key, anthropic-version, x-feature-thinking, x-feature-web-search, x-feature-auto-web-search, x-feature-image-generation, x-feature-title-generation, x-feature-tags-generation, x-feature-mcp, x-think-tags-mode, x-thinking, x-strict-params, x-approve-tools",
   );
   headers.set("Access-Control-Allow-Credentials", "true");
+  headers.set(
+    "Access-Control-Expose-Headers",
+    "X-Param-Warnings, X-Quota-Warning, Retry-After, X-RateLimit-Limit-Requests, X-RateLimit-Remaining-Requests, X-RateLimit-Reset-Requests, X-RateLimit-Limit-Tokens, X-RateLimit-Remaining-Tokens, X-RateLimit-Reset-Tokens",
+  );
 }
 
 /**
@@ -67,19 +78,6 @@ export function createErrorResponse(
   );
 }
 
-/**
- * Validate API key format
- */
-export function validateApiKey(authHeader: string): boolean {
-  if (!authHeader) return false;
-
-  // Must start with "Bearer " and have a key
-  if (!authHeader.startsWith("Bearer ")) return false;
-
-  const key = authHeader.substring(7);
-  return key.length > 0;
-}
-
 /**
  * Normalize model ID to handle case differences
  */
@@ -0,0 +1,953 @@
+/**
+ * HTML to Markdown
+ * A small, tolerant HTML parser and Markdown renderer for the fetch_url tool. Renders the main
+ * content of a page, found with readability-style scoring, or the elements matching a CSS selector.
+ */
+
+export interface HtmlToMarkdownOptions {
+  baseUrl?: string; // Resolves relative links and images
+  selector?: string; // CSS selector of the content to render instead of the main content
+}
+
+export interface MarkdownDocument {
+  title: string;
+  markdown: string;
+}
+
+interface ElementNode {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: ElementNode | null;
+}
+
+interface TextNode {
+  type: "text";
+  text: string;
+}
+
+type HtmlNode = ElementNode | TextNode;
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attrs: Array<{ name: string; op?: string; value?: string }>;
+}
+
+/**
+ * Compound selectors with the combinator before each one but the first
+ */
+interface ComplexSelector {
+  parts: CompoundSelector[];
+  combinators: Array<" " | ">">;
+}
+
+const MAX_DEPTH = 256;
+const LINE_BREAK = "\u0001"; // Stands for <br> in inline text until whitespace is collapsed
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "title", "textarea", "noscript", "iframe", "xmp"]);
+const SKIPPED_ELEMENTS = new Set([
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "math",
+  "canvas",
+  "iframe",
+  "object",
+  "embed",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "dialog",
+]);
+const BLOCK_ELEMENTS = new Set([
+  "#document",
+  "html",
+  "body",
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "caption",
+  "center",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "ul",
+]);
+const PARAGRAPH_CLOSERS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "details",
+  "div",
+  "dl",
+  "fieldset",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+/**
+ * Start tags that end open elements: the tags they close, and the tags that stop the search
+ */
+const IMPLIED_END_TAGS: Record<string, [string[], string[]]> = {
+  li: [["li"], ["ul", "ol", "menu"]],
+  dt: [["dt", "dd"], ["dl"]],
+  dd: [["dt", "dd"], ["dl"]],
+  tr: [["tr", "td", "th"], ["table", "thead", "tbody", "tfoot"]],
+  td: [["td", "th"], ["tr", "table"]],
+  th: [["td", "th"], ["tr", "table"]],
+  thead: [["thead", "tbody", "tfoot", "tr", "td", "th"], ["table"]],
+  tbody: [["thead", "tbody", "tfoot", "tr", "td", "th"], ["table"]],
+  tfoot: [["thead", "tbody", "tfoot", "tr", "td", "th"], ["table"]],
+  option: [["option"], ["select", "datalist"]],
+};
+const PARAGRAPH_SCOPE = [
+  "div",
+  "section",
+  "article",
+  "main",
+  "blockquote",
+  "li",
+  "td",
+  "th",
+  "body",
+  "table",
+  "button",
+];
+
+const BOILERPLATE_ELEMENTS = new Set(["nav", "aside", "footer", "form", "menu"]);
+const BOILERPLATE_PATTERN =
+  /(^|[\s_-])(comments?|sidebar|footer|nav|navbar|menu|breadcrumbs?|banner|advert|ads?|social|share|sharing|cookies?|consent|popup|modal|newsletter|related|promo|sponsored)([\s_-]|$)/i;
+const CONTENT_ROOTS = new Set(["html", "body", "main", "article"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  shy: "",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  sbquo: "‚",
+  ldquo: "“",
+  rdquo: "”",
+  bdquo: "„",
+  laquo: "«",
+  raquo: "»",
+  bull: "•",
+  middot: "·",
+  times: "×",
+  divide: "÷",
+  minus: "−",
+  plusmn: "±",
+  deg: "°",
+  micro: "µ",
+  para: "¶",
+  sect: "§",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+  le: "≤",
+  ge: "≥",
+  ne: "≠",
+  larr: "←",
+  rarr: "→",
+  uarr: "↑",
+  darr: "↓",
+  thinsp: " ",
+  ensp: " ",
+  emsp: " ",
+  zwj: "‍",
+  zwnj: "‌",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);?/g, (match, entity: string) => {
+    if (entity.startsWith("#")) {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "�";
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    }
+  }
+  return attrs;
+}
+
+/**
+ * Index of the ">" that ends a tag, skipping quoted attribute values
+ */
+function findTagEnd(html: string, from: number): number {
+  let quote = "";
+  for (let i = from; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = "";
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse HTML into a tree, recovering from unclosed and misnested tags
+ */
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { type: "element", tag: "#document", attrs: {}, children: [], parent: null };
+  const stack: ElementNode[] = [root];
+  const openAt = new Map<string, number[]>(); // Stack indexes of the open elements of each tag, ascending
+  const current = () => stack[stack.length - 1];
+  const appendText = (text: string) => {
+    if (text) current().children.push({ type: "text", text: decodeEntities(text).replaceAll(LINE_BREAK, "") });
+  };
+  const push = (element: ElementNode) => {
+    const indexes = openAt.get(element.tag);
+    if (indexes) indexes.push(stack.length);
+    else openAt.set(element.tag, [stack.length]);
+    stack.push(element);
+  };
+  const closeFrom = (index: number) => {
+    while (stack.length > index) openAt.get(stack.pop()!.tag)!.pop();
+  };
+  // Close the outermost open element of `closes` above the innermost open element of `scope`
+  const closeImplied = (closes: string[], scope: string[]) => {
+    let floor = 0;
+    for (const tag of scope) floor = Math.max(floor, openAt.get(tag)?.at(-1) ?? 0);
+    let index = -1;
+    for (const tag of closes) {
+      const indexes = openAt.get(tag) ?? [];
+      let low = 0;
+      let high = indexes.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (indexes[middle] > floor) high = middle;
+        else low = middle + 1;
+      }
+      if (low < indexes.length && (index === -1 || indexes[low] < index)) index = indexes[low];
+    }
+    if (index > 0) closeFrom(index);
+  };
+
+  let position = 0;
+  while (position < html.length) {
+    const open = html.indexOf("<", position);
+    if (open === -1) {
+      appendText(html.slice(position));
+      break;
+    }
+    appendText(html.slice(position, open));
+    position = open;
+
+    if (html.startsWith("<!--", position)) {
+      const end = html.indexOf("-->", position + 4);
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[position + 1] === "!" || html[position + 1] === "?") {
+      const end = html.indexOf(">", position);
+      position = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const tagMatch = html.slice(position, position + 64).match(/^<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)/);
+    if (!tagMatch) {
+      appendText("<");
+      position++;
+      continue;
+    }
+    const end = findTagEnd(html, position + tagMatch[0].length);
+    if (end === -1) {
+      appendText(html.slice(position));
+      break;
+    }
+    const tag = tagMatch[2].toLowerCase();
+    const attrSource = html.slice(position + tagMatch[0].length, end);
+    position = end + 1;
+
+    if (tagMatch[1]) {
+      // End tag: close the nearest open element with that name, ignore stray ones
+      const index = openAt.get(tag)?.at(-1);
+      if (index !== undefined) closeFrom(index);
+      continue;
+    }
+
+    const implied = IMPLIED_END_TAGS[tag];
+    if (implied) closeImplied(...implied);
+    if (PARAGRAPH_CLOSERS.has(tag)) closeImplied(["p"], PARAGRAPH_SCOPE);
+
+    const element: ElementNode = {
+      type: "element",
+      tag,
+      attrs: parseAttributes(attrSource),
+      children: [],
+      parent: current(),
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const closePattern = new RegExp(`</${tag}`, "gi");
+      closePattern.lastIndex = position;
+      const close = closePattern.exec(html)?.index ?? -1;
+      const text = html.slice(position, close === -1 ? html.length : close);
+      if (tag === "title" || tag === "textarea") element.children.push({ type: "text", text: decodeEntities(text) });
+      position = close === -1 ? html.length : (html.indexOf(">", close) + 1 || html.length);
+      continue;
+    }
+    if (!VOID_ELEMENTS.has(tag) && !attrSource.trimEnd().endsWith("/") && stack.length < MAX_DEPTH) {
+      push(element);
+    }
+  }
+  return root;
+}
+
+/**
+ * Elements below an element in document order
+ * Walks the tree with an explicit stack; nested generators would cost a step per level for every element.
+ */
+function* descendants(element: ElementNode): Generator<ElementNode> {
+  const pending: HtmlNode[] = element.children.toReversed();
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    if (node.type !== "element") continue;
+    yield node;
+    for (let i = node.children.length - 1; i >= 0; i--) pending.push(node.children[i]);
+  }
+}
+
+function findFirst(root: ElementNode, predicate: (element: ElementNode) => boolean): ElementNode | undefined {
+  for (const element of descendants(root)) {
+    if (predicate(element)) return element;
+  }
+  return undefined;
+}
+
+function textContent(node: HtmlNode, skip?: (element: ElementNode) => boolean): string {
+  if (node.type === "text") return node.text;
+  if (node.tag === "br") return "\n";
+  if (SKIPPED_ELEMENTS.has(node.tag) || skip?.(node)) return "";
+  return node.children.map((child) => textContent(child, skip)).join("");
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function isHidden(element: ElementNode): boolean {
+  return "hidden" in element.attrs || element.attrs["aria-hidden"] === "true" ||
+    /display\s*:\s*none|visibility\s*:\s*hidden/i.test(element.attrs.style ?? "");
+}
+
+// ---------------------------------------------------------------------------
+// Selectors
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a CSS selector list
+ * Supports type, universal, #id, .class and [attr], [attr=v], [attr~=v], [attr^=v], [attr$=v], [attr*=v]
+ * selectors with descendant and child combinators.
+ * @throws Error for anything else
+ */
+function parseSelector(selector: string): ComplexSelector[] {
+  const groups: ComplexSelector[] = [];
+  let complex: ComplexSelector = { parts: [], combinators: [] };
+  let compound: CompoundSelector | null = null;
+  let combinator: " " | ">" | null = null;
+  let i = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid selector '${selector}': ${message}`);
+  };
+  const readName = () => {
+    const match = selector.slice(i).match(/^(?:\\.|[a-zA-Z0-9_-]|\P{ASCII})+/u);
+    if (!match) fail(`expected a name at position ${i}`);
+    i += match![0].length;
+    return match![0].replace(/\\(.)/g, "$1");
+  };
+  const startCompound = () => {
+    if (compound) return compound;
+    if (complex.parts.length > 0) complex.combinators.push(combinator ?? " ");
+    combinator = null;
+    compound = { classes: [], attrs: [] };
+    complex.parts.push(compound);
+    return compound;
+  };
+  const endGroup = () => {
+    if (complex.parts.length === 0 || combinator === ">") fail("incomplete selector");
+    groups.push(complex);
+    complex = { parts: [], combinators: [] };
+    compound = null;
+    combinator = null;
+  };
+
+  while (i < selector.length) {
+    const char = selector[i];
+    if (/\s/.test(char)) {
+      compound = null;
+      i++;
+    } else if (char === ">") {
+      if (complex.parts.length === 0 || combinator === ">") fail(`unexpected '>' at position ${i}`);
+      compound = null;
+      combinator = ">";
+      i++;
+    } else if (char === ",") {
+      endGroup();
+      i++;
+    } else if (char === "*") {
+      if (compound) fail(`unexpected '*' at position ${i}`);
+      startCompound();
+      i++;
+    } else if (char === "#") {
+      i++;
+      startCompound().id = readName();
+    } else if (char === ".") {
+      i++;
+      startCompound().classes.push(readName());
+    } else if (char === "[") {
+      const match = selector.slice(i).match(
+        /^\[\s*([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*(?:([~^$*|]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\s\]]+))\s*)?\]/,
+      );
+      if (!match) fail(`invalid attribute selector at position ${i}`);
+      startCompound().attrs.push({
+        name: match![1].toLowerCase(),
+        op: match![2],
+        value: match![3] ?? match![4] ?? match![5],
+      });
+      i += match![0].length;
+    } else if (/[a-zA-Z]/.test(char)) {
+      if (compound) fail(`unexpected name at position ${i}`);
+      startCompound().tag = readName().toLowerCase();
+    } else {
+      fail(`unsupported '${char}' at position ${i}`);
+    }
+  }
+  endGroup();
+  return groups;
+}
+
+function matchesCompound(element: ElementNode, selector: CompoundSelector): boolean {
+  if (selector.tag && element.tag !== selector.tag) return false;
+  if (selector.id !== undefined && element.attrs.id !== selector.id) return false;
+  const classes = (element.attrs.class ?? "").split(/\s+/);
+  if (!selector.classes.every((name) => classes.includes(name))) return false;
+  return selector.attrs.every(({ name, op, value = "" }) => {
+    const actual = element.attrs[name];
+    if (actual === undefined) return false;
+    switch (op) {
+      case undefined:
+        return true;
+      case "=":
+        return actual === value;
+      case "~=":
+        return actual.split(/\s+/).includes(value);
+      case "|=":
+        return actual === value || actual.startsWith(value + "-");
+      case "^=":
+        return value !== "" && actual.startsWith(value);
+      case "$=":
+        return value !== "" && actual.endsWith(value);
+      default:
+        return value !== "" && actual.includes(value);
+    }
+  });
+}
+
+function matchesComplex(element: ElementNode, selector: ComplexSelector, index = selector.parts.length - 1): boolean {
+  if (!matchesCompound(element, selector.parts[index])) return false;
+  if (index === 0) return true;
+  const combinator = selector.combinators[index - 1];
+  for (let ancestor = element.parent; ancestor && ancestor.tag !== "#document"; ancestor = ancestor.parent) {
+    if (matchesComplex(ancestor, selector, index - 1)) return true;
+    if (combinator === ">") return false;
+  }
+  return false;
+}
+
+/**
+ * Elements matching a selector in document order, without those inside another match
+ */
+function selectAll(root: ElementNode, selector: string): ElementNode[] {
+  const groups = parseSelector(selector);
+  const matches = new Set<ElementNode>();
+  for (const element of descendants(root)) {
+    let ancestor = element.parent;
+    while (ancestor && !matches.has(ancestor)) ancestor = ancestor.parent;
+    if (!ancestor && groups.some((group) => matchesComplex(element, group))) {
+      matches.add(element);
+    }
+  }
+  return [...matches];
+}
+
+// ---------------------------------------------------------------------------
+// Main content
+// ---------------------------------------------------------------------------
+
+function isBoilerplate(element: ElementNode): boolean {
+  if (CONTENT_ROOTS.has(element.tag)) return false;
+  if (BOILERPLATE_ELEMENTS.has(element.tag)) return true;
+  const role = element.attrs.role ?? "";
+  if (["navigation", "banner", "contentinfo", "complementary", "search"].includes(role)) return true;
+  if (element.tag === "header") {
+    // A page header, not the header of an article or section
+    for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+      if (["article", "main", "section"].includes(ancestor.tag)) return false;
+    }
+    return true;
+  }
+  return BOILERPLATE_PATTERN.test(`${element.attrs.id ?? ""} ${element.attrs.class ?? ""}`);
+}
+
+/**
+ * Text measures of an element, for scoring
+ */
+interface TextStats {
+  length: number; // Characters, a run of whitespace counting as one
+  commas: number;
+  linkLength: number; // Characters inside links
+}
+
+/**
+ * Measure the text of every element in one pass, leaving out skipped elements as textContent does
+ */
+function measureText(root: ElementNode, skip: (element: ElementNode) => boolean): Map<ElementNode, TextStats> {
+  const stats = new Map<ElementNode, TextStats>();
+  const measure = (element: ElementNode): TextStats => {
+    const total: TextStats = { length: element.tag === "br" ? 1 : 0, commas: 0, linkLength: 0 };
+    for (const child of element.children) {
+      if (child.type === "text") {
+        total.length += child.text.replace(/\s+/g, " ").length;
+        total.commas += child.text.match(/[,，、]/g)?.length ?? 0;
+        continue;
+      }
+      const measured = measure(child);
+      if (SKIPPED_ELEMENTS.has(child.tag) || skip(child)) continue;
+      total.length += measured.length;
+      total.commas += measured.commas;
+      total.linkLength += measured.linkLength;
+    }
+    if (element.tag === "a") total.linkLength = total.length;
+    stats.set(element, total);
+    return total;
+  };
+  measure(root);
+  return stats;
+}
+
+/**
+ * Find the element holding the main content of a page
+ * Prefers <main> and the longest <article>; otherwise scores the parents of paragraphs by their text,
+ * as readability tools do, and discounts link-heavy candidates. Text is measured once, so that the
+ * search stays linear in the size of the page.
+ */
+function findMainContent(root: ElementNode, skip: (element: ElementNode) => boolean): ElementNode {
+  const body = findFirst(root, (element) => element.tag === "body") ?? root;
+  const stats = measureText(root, skip);
+  const textLength = (element: ElementNode) => stats.get(element)!.length;
+
+  const main = findFirst(body, (element) => element.tag === "main" || element.attrs.role === "main");
+  if (main && !skip(main) && textLength(main) >= 200) return main;
+
+  let bestArticle: ElementNode | undefined;
+  let bestArticleLength = 200;
+  for (const element of descendants(body)) {
+    if (element.tag !== "article" || skip(element)) continue;
+    const length = textLength(element);
+    if (length >= bestArticleLength) {
+      bestArticle = element;
+      bestArticleLength = length;
+    }
+  }
+  if (bestArticle) return bestArticle;
+
+  const scores = new Map<ElementNode, number>();
+  const visit = (element: ElementNode) => {
+    for (const child of element.children) {
+      if (child.type !== "element" || SKIPPED_ELEMENTS.has(child.tag) || skip(child)) continue;
+      if (["p", "pre", "td", "blockquote"].includes(child.tag)) {
+        const { length, commas } = stats.get(child)!;
+        if (length >= 25) {
+          const score = commas + 1 + Math.min(Math.floor(length / 100), 3);
+          const parent = child.parent!;
+          scores.set(parent, (scores.get(parent) ?? 0) + score);
+          if (parent.parent && parent !== body) scores.set(parent.parent, (scores.get(parent.parent) ?? 0) + score / 2);
+        }
+      }
+      visit(child);
+    }
+  };
+  visit(body);
+
+  let best: ElementNode = body;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const { length, linkLength } = stats.get(element)!;
+    const adjusted = score * (1 - (length === 0 ? 1 : Math.min(1, linkLength / length)));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/**
+ * Collapse whitespace of inline content, turning line break markers into new lines
+ */
+function normalizeInline(text: string): string {
+  return text.replace(/\s+/g, " ").split(LINE_BREAK).map((line) => line.trim()).join("\n").replace(/^\n+|\n+$/g, "");
+}
+
+/**
+ * Wrap inline content in a marker, keeping the surrounding whitespace outside of it
+ */
+function wrapInline(text: string, marker: string): string {
+  const start = text.length - text.trimStart().length;
+  const end = text.trimEnd().length;
+  return start < end ? `${text.slice(0, start)}${marker}${text.slice(start, end)}${marker}${text.slice(end)}` : text;
+}
+
+function indentLines(text: string, indent: string, firstLine = indent): string {
+  return text.split("\n").map((line, i) => (i === 0 ? firstLine + line : line ? indent + line : "")).join("\n");
+}
+
+class MarkdownRenderer {
+  constructor(private readonly skip: (element: ElementNode) => boolean, private readonly baseUrl?: string) {}
+
+  private resolve(url: string): string {
+    try {
+      return this.baseUrl ? new URL(url, this.baseUrl).href : url;
+    } catch {
+      return url;
+    }
+  }
+
+  private isSkipped(element: ElementNode): boolean {
+    return SKIPPED_ELEMENTS.has(element.tag) || isHidden(element) || this.skip(element);
+  }
+
+  /**
+   * Render nodes as Markdown blocks; runs of inline content become paragraphs
+   */
+  blocks(nodes: HtmlNode[]): string[] {
+    const blocks: string[] = [];
+    let inline = "";
+    const flush = () => {
+      const text = normalizeInline(inline);
+      if (text) blocks.push(text);
+      inline = "";
+    };
+    for (const node of nodes) {
+      if (node.type === "text") {
+        inline += node.text;
+      } else if (this.isSkipped(node)) {
+        continue;
+      } else if (BLOCK_ELEMENTS.has(node.tag)) {
+        flush();
+        blocks.push(...this.block(node));
+      } else {
+        inline += this.inline(node);
+      }
+    }
+    flush();
+    return blocks;
+  }
+
+  private inlineChildren(element: ElementNode): string {
+    return element.children.map((child) => this.inline(child)).join("");
+  }
+
+  private inline(node: HtmlNode): string {
+    if (node.type === "text") return node.text;
+    if (this.isSkipped(node)) return "";
+    switch (node.tag) {
+      case "br":
+        return LINE_BREAK;
+      case "strong":
+      case "b":
+        return wrapInline(this.inlineChildren(node), "**");
+      case "em":
+      case "i":
+        return wrapInline(this.inlineChildren(node), "*");
+      case "del":
+      case "s":
+      case "strike":
+        return wrapInline(this.inlineChildren(node), "~~");
+      case "code":
+      case "kbd":
+      case "samp": {
+        const code = textContent(node).replace(/\s+/g, " ");
+        return code.trim() ? (code.includes("`") ? `\`\` ${code} \`\`` : `\`${code}\``) : code;
+      }
+      case "a": {
+        const text = normalizeInline(this.inlineChildren(node)).replace(/\n/g, " ");
+        const href = node.attrs.href?.trim() ?? "";
+        if (!text || !href || href.startsWith("#") || /^(javascript|data):/i.test(href)) return text;
+        return `[${text}](${this.resolve(href).replace(/[()\s]/g, encodeURIComponent)})`;
+      }
+      case "img": {
+        const alt = collapseWhitespace(node.attrs.alt ?? "");
+        const src = node.attrs.src?.trim() ?? "";
+        if (!alt || !src || src.startsWith("data:")) return alt;
+        return `![${alt}](${this.resolve(src).replace(/[()\s]/g, encodeURIComponent)})`;
+      }
+      default: {
+        const text = this.inlineChildren(node);
+        return BLOCK_ELEMENTS.has(node.tag) ? ` ${text} ` : text;
+      }
+    }
+  }
+
+  private block(element: ElementNode): string[] {
+    switch (element.tag) {
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6": {
+        const text = normalizeInline(this.inlineChildren(element)).replace(/\n/g, " ");
+        return text ? [`${"#".repeat(Number(element.tag[1]))} ${text}`] : [];
+      }
+      case "hr":
+        return ["---"];
+      case "pre":
+        return [this.preformatted(element)];
+      case "ul":
+      case "ol":
+      case "menu": {
+        const list = this.list(element);
+        return list ? [list] : [];
+      }
+      case "blockquote": {
+        const quote = this.blocks(element.children).join("\n\n");
+        return quote ? [quote.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n")] : [];
+      }
+      case "table":
+        return this.table(element);
+      case "dt": {
+        const term = normalizeInline(this.inlineChildren(element)).replace(/\n/g, " ");
+        return term ? [`**${term}**`] : [];
+      }
+      case "dd":
+        return this.blocks(element.children).map((block) => indentLines(block, "  ", ": "));
+      default:
+        return this.blocks(element.children);
+    }
+  }
+
+  private preformatted(element: ElementNode): string {
+    const code = textContent(element).replace(/^\n/, "").replace(/\s+$/, "");
+    const codeElement = element.children.find((child): child is ElementNode => {
+      return child.type === "element" && child.tag === "code";
+    });
+    const className = `${element.attrs.class ?? ""} ${codeElement?.attrs.class ?? ""}`;
+    const language = className.match(/(?:^|\s)(?:language|lang)-([\w+#.-]+)/)?.[1] ?? "";
+    const fence = code.includes("```") ? "~~~" : "```";
+    return `${fence}${language}\n${code}\n${fence}`;
+  }
+
+  private list(element: ElementNode): string {
+    const ordered = element.tag === "ol";
+    let number = ordered ? parseInt(element.attrs.start ?? "1", 10) || 1 : 0;
+    const items: string[] = [];
+    for (const child of element.children) {
+      if (child.type !== "element" || this.isSkipped(child)) continue;
+      // Lists nested directly in a list belong to the previous item
+      if (["ul", "ol"].includes(child.tag) && items.length > 0) {
+        const nested = this.list(child);
+        if (nested) items[items.length - 1] += "\n" + indentLines(nested, " ".repeat(ordered ? 3 : 2));
+        continue;
+      }
+      const content = this.blocks(child.tag === "li" ? child.children : [child]).join("\n");
+      if (!content) continue;
+      const marker = ordered ? `${number++}. ` : "- ";
+      items.push(indentLines(content, " ".repeat(marker.length), marker));
+    }
+    return items.join("\n");
+  }
+
+  private table(element: ElementNode): string[] {
+    const rows: ElementNode[][] = [];
+    const collect = (parent: ElementNode) => {
+      for (const child of parent.children) {
+        if (child.type !== "element" || this.isSkipped(child)) continue;
+        if (child.tag === "tr") {
+          rows.push(child.children.filter((cell): cell is ElementNode => {
+            return cell.type === "element" && (cell.tag === "td" || cell.tag === "th");
+          }));
+        } else if (["thead", "tbody", "tfoot"].includes(child.tag)) {
+          collect(child);
+        }
+      }
+    };
+    collect(element);
+
+    const width = Math.max(0, ...rows.map((row) => row.length));
+    const nested = findFirst(element, (child) => child.tag === "table") !== undefined;
+    if (rows.length < 2 || width < 2 || nested) {
+      // Layout table
+      return rows.flatMap((row) => row.flatMap((cell) => this.blocks(cell.children)));
+    }
+
+    const cells = rows
+      .map((row) => row.map((cell) => this.blocks(cell.children).join(" ").replace(/\n/g, " ").replace(/\|/g, "\\|")))
+      .filter((row) => row.some(Boolean))
+      .map((row) => [...row, ...new Array(width - row.length).fill("")]);
+    if (cells.length === 0) return [];
+
+    const lines = [
+      `| ${cells[0].join(" | ")} |`,
+      `| ${cells[0].map(() => "---").join(" | ")} |`,
+      ...cells.slice(1).map((row) => `| ${row.join(" | ")} |`),
+    ];
+    const caption = element.children.find((child): child is ElementNode => {
+      return child.type === "element" && child.tag === "caption";
+    });
+    const captionText = caption ? normalizeInline(this.inlineChildren(caption)) : "";
+    return captionText ? [captionText, lines.join("\n")] : [lines.join("\n")];
+  }
+}
+
+/**
+ * Convert an HTML page to Markdown
+ * @param html Page source
+ * @param options Base URL and selector
+ * @returns Page title and the Markdown of its main content, or of the elements matching the selector
+ * @throws Error if the selector is invalid or matches nothing
+ */
+export function htmlToMarkdown(html: string, options: HtmlToMarkdownOptions = {}): MarkdownDocument {
+  const root = parseHtml(html);
+
+  const titleElement = findFirst(root, (element) => element.tag === "title");
+  const heading = findFirst(root, (element) => element.tag === "h1");
+  const title = collapseWhitespace(
+    (titleElement ? textContent(titleElement) : "") || (heading ? textContent(heading) : ""),
+  );
+
+  let markdown: string;
+  if (options.selector) {
+    const matches = selectAll(root, options.selector);
+    if (matches.length === 0) {
+      throw new Error(`No elements match selector '${options.selector}'`);
+    }
+    const renderer = new MarkdownRenderer(() => false, options.baseUrl);
+    markdown = matches.flatMap((element) => renderer.blocks([element])).join("\n\n");
+  } else {
+    const boilerplate = new Set<ElementNode>();
+    for (const element of descendants(root)) {
+      if (isBoilerplate(element)) boilerplate.add(element);
+    }
+    const content = findMainContent(root, (element) => boilerplate.has(element));
+    boilerplate.delete(content);
+    markdown = new MarkdownRenderer((element) => boilerplate.has(element), options.baseUrl)
+      .blocks([content]).join("\n\n");
+    if (!markdown) {
+      // Everything looked like boilerplate
+      markdown = new MarkdownRenderer(() => false, options.baseUrl).blocks(root.children).join("\n\n");
+    }
+  }
+
+  return { title, markdown };
+}
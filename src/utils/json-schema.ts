@@ -0,0 +1,525 @@
+/**
+ * JSON Schema validation
+ * Validates values against a subset of JSON Schema draft 2020-12 and optionally coerces
+ * loosely typed values (such as "42" for an integer) to the types the schema expects.
+ *
+ * Supported keywords:
+ * - Any type: type, enum, const, $ref (local "#/..." pointers), allOf, anyOf, oneOf, not, if/then/else
+ * - Strings: minLength, maxLength, pattern, format (date-time, date, time, email, uri, uuid, ipv4, ipv6)
+ * - Numbers: minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf
+ * - Objects: properties, required, additionalProperties, patternProperties, propertyNames,
+ *   minProperties, maxProperties, dependentRequired
+ * - Arrays: items, prefixItems, contains, minItems, maxItems, uniqueItems
+ * Other keywords are ignored. Invalid patterns and circular references are reported as violations;
+ * compileSchemaPatterns finds invalid patterns ahead of validation.
+ */
+
+export type JsonSchema = Record<string, unknown> | boolean;
+
+/**
+ * A single validation failure
+ * path is "" for the root value, otherwise property names and indexes such as "units.temp" or "items[0]"
+ */
+export interface SchemaViolation {
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  value: unknown; // The validated value, with coercions applied
+  errors: SchemaViolation[];
+}
+
+export interface SchemaValidationOptions {
+  coerce?: boolean; // Convert mismatched primitives and JSON strings to the expected type
+}
+
+interface ValidationContext {
+  root: JsonSchema;
+  coerce: boolean;
+  errors: SchemaViolation[];
+  refs: Set<string>; // $ref and path of the references being followed, to stop at cycles
+}
+
+const FORMATS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z\d+.-]*:[^\s]*$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+  ipv4: /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+  ipv6: /^[0-9a-fA-F:]*:[0-9a-fA-F:.]*$/,
+};
+
+// Keywords whose values are data rather than subschemas
+const DATA_KEYWORDS = new Set(["enum", "const", "default", "examples"]);
+
+// Compiled pattern and patternProperties expressions; null for invalid ones
+const patterns = new Map<string, RegExp | null>();
+
+/**
+ * Compile a pattern once
+ * @returns Regular expression, or null if the pattern is invalid
+ */
+function compilePattern(pattern: string): RegExp | null {
+  if (!patterns.has(pattern)) {
+    try {
+      patterns.set(pattern, new RegExp(pattern, "u"));
+    } catch {
+      patterns.set(pattern, null);
+    }
+  }
+  return patterns.get(pattern)!;
+}
+
+/**
+ * Compile the pattern and patternProperties expressions of a schema ahead of validation
+ * @param schema JSON Schema
+ * @throws Error naming the first invalid pattern
+ */
+export function compileSchemaPatterns(schema: JsonSchema): void {
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!isPlainObject(node)) return;
+
+    const expressions = [
+      ...(typeof node.pattern === "string" ? [node.pattern] : []),
+      ...(isPlainObject(node.patternProperties) ? Object.keys(node.patternProperties) : []),
+    ];
+    for (const pattern of expressions) {
+      if (compilePattern(pattern) === null) {
+        throw new Error(`Invalid pattern: ${pattern}`);
+      }
+    }
+    for (const [keyword, value] of Object.entries(node)) {
+      if (!DATA_KEYWORDS.has(keyword)) visit(value);
+    }
+  };
+  visit(schema);
+}
+
+/**
+ * Validate a value against a JSON Schema
+ * @param value Value to validate
+ * @param schema JSON Schema
+ * @param options Validation options
+ * @returns Validation result with the (coerced) value and all violations
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  options: SchemaValidationOptions = {},
+): SchemaValidationResult {
+  const context: ValidationContext = {
+    root: schema,
+    coerce: options.coerce ?? false,
+    errors: [],
+    refs: new Set(),
+  };
+  const validated = validateValue(value, schema, "", context);
+  return { valid: context.errors.length === 0, value: validated, errors: context.errors };
+}
+
+/**
+ * Describe the JSON type of a value for error messages
+ */
+export function describeJsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "boolean":
+      return typeof value === "boolean";
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Convert a value to a type, as a model would mean it
+ * @returns The converted value, or undefined if it cannot be converted
+ */
+function coerceToType(value: unknown, type: string): unknown {
+  if (typeof value === "string") {
+    const text = value.trim();
+    switch (type) {
+      case "number":
+      case "integer": {
+        if (text === "") return undefined;
+        const number = Number(text);
+        return matchesType(number, type) ? number : undefined;
+      }
+      case "boolean":
+        if (text.toLowerCase() === "true") return true;
+        if (text.toLowerCase() === "false") return false;
+        return undefined;
+      case "null":
+        return text === "" || text === "null" ? null : undefined;
+      case "object":
+      case "array":
+        try {
+          const parsed = JSON.parse(text);
+          if (matchesType(parsed, type)) return parsed;
+        } catch {
+          // Not JSON; a plain string can still become a one-item array
+        }
+        break;
+    }
+  }
+
+  if (type === "string" && (typeof value === "number" || typeof value === "boolean")) {
+    return String(value);
+  }
+  if (type === "array" && value !== undefined && !Array.isArray(value)) {
+    return [value];
+  }
+  return undefined;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Resolve a local $ref ("#", "#/$defs/name", "#/definitions/name", ...)
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+  let target: unknown = root;
+  for (const part of ref.substring(1).split("/").slice(1)) {
+    const key = decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~");
+    if (!isPlainObject(target)) return undefined;
+    target = target[key];
+  }
+  return isPlainObject(target) || typeof target === "boolean" ? target : undefined;
+}
+
+/**
+ * Validate against a subschema without reporting, for anyOf / oneOf / not / if
+ */
+function tryValidate(value: unknown, schema: JsonSchema, path: string, context: ValidationContext) {
+  const trial: ValidationContext = { ...context, errors: [] };
+  const validated = validateValue(value, schema, path, trial);
+  return { valid: trial.errors.length === 0, value: validated, errors: trial.errors };
+}
+
+function validateValue(value: unknown, schema: JsonSchema, path: string, context: ValidationContext): unknown {
+  if (schema === true) return value;
+  if (schema === false) {
+    context.errors.push({ path, keyword: "false", message: "is not allowed" });
+    return value;
+  }
+
+  const fail = (keyword: string, message: string) => context.errors.push({ path, keyword, message });
+
+  if (typeof schema.$ref === "string") {
+    // Following the same reference again at the same path would never end
+    const target = resolveRef(schema.$ref, context.root);
+    const reference = `${schema.$ref} ${path}`;
+    if (target === undefined) {
+      fail("$ref", `uses an unsupported schema reference: ${schema.$ref}`);
+    } else if (context.refs.has(reference)) {
+      fail("$ref", `uses a circular schema reference: ${schema.$ref}`);
+    } else {
+      context.refs.add(reference);
+      value = validateValue(value, target, path, context);
+      context.refs.delete(reference);
+    }
+  }
+
+  // Type, with coercion to the first type the value can be converted to
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[];
+    if (!types.some((type) => matchesType(value, type))) {
+      const coerced = context.coerce
+        ? types.map((type) => coerceToType(value, type)).find((converted) => converted !== undefined)
+        : undefined;
+      if (coerced === undefined) {
+        fail("type", `must be of type ${types.join(" or ")}, but received ${describeJsonType(value)}`);
+        return value;
+      }
+      value = coerced;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    const coerced = context.coerce
+      ? schema.enum.find((option) => typeof value === "string" && String(option) === value.trim())
+      : undefined;
+    if (coerced === undefined) {
+      fail("enum", `must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+    } else {
+      value = coerced;
+    }
+  }
+
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    fail("const", `must be equal to ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    const length = [...value].length;
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      fail("minLength", `must be at least ${schema.minLength} characters long`);
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      fail("maxLength", `must be at most ${schema.maxLength} characters long`);
+    }
+    if (typeof schema.pattern === "string") {
+      const pattern = compilePattern(schema.pattern);
+      if (pattern === null) {
+        fail("pattern", `uses an invalid pattern: ${schema.pattern}`);
+      } else if (!pattern.test(value)) {
+        fail("pattern", `must match the pattern ${schema.pattern}`);
+      }
+    }
+    if (typeof schema.format === "string" && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+      fail("format", `must be a valid ${schema.format}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      fail("minimum", `must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      fail("maximum", `must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      fail("exclusiveMinimum", `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      fail("exclusiveMaximum", `must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === "number" && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        fail("multipleOf", `must be a multiple of ${schema.multipleOf}`);
+      }
+    }
+  }
+
+  if (isPlainObject(value)) {
+    value = validateObject(value, schema, path, context);
+  }
+
+  if (Array.isArray(value)) {
+    value = validateArray(value, schema, path, context);
+  }
+
+  // Combinators
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf as JsonSchema[]) {
+      value = validateValue(value, subschema, path, context);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const match = (schema.anyOf as JsonSchema[])
+      .map((subschema) => tryValidate(value, subschema, path, context))
+      .find((result) => result.valid);
+    if (match) {
+      value = match.value;
+    } else {
+      fail("anyOf", "must match at least one of the allowed schemas");
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = (schema.oneOf as JsonSchema[])
+      .map((subschema) => tryValidate(value, subschema, path, context))
+      .filter((result) => result.valid);
+    if (matches.length === 1) {
+      value = matches[0].value;
+    } else {
+      fail("oneOf", `must match exactly one of the allowed schemas, but matched ${matches.length}`);
+    }
+  }
+
+  if (schema.not !== undefined && tryValidate(value, schema.not as JsonSchema, path, context).valid) {
+    fail("not", "must not match the disallowed schema");
+  }
+
+  if (schema.if !== undefined) {
+    const condition = tryValidate(value, schema.if as JsonSchema, path, context);
+    const branch = (condition.valid ? schema.then : schema.else) as JsonSchema | undefined;
+    if (branch !== undefined) {
+      value = validateValue(value, branch, path, context);
+    }
+  }
+
+  return value;
+}
+
+function validateObject(
+  object: Record<string, unknown>,
+  schema: Record<string, unknown>,
+  path: string,
+  context: ValidationContext,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...object };
+  const properties = (isPlainObject(schema.properties) ? schema.properties : {}) as Record<string, JsonSchema>;
+  const patternProperties = (isPlainObject(schema.patternProperties) ? schema.patternProperties : {}) as Record<
+    string,
+    JsonSchema
+  >;
+
+  if (Array.isArray(schema.required)) {
+    for (const name of schema.required as string[]) {
+      if (!(name in object)) {
+        context.errors.push({ path: childPath(path, name), keyword: "required", message: "is required" });
+      }
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(object)) {
+    const propertyPath = childPath(path, name);
+    let evaluated = false;
+
+    if (name in properties) {
+      result[name] = validateValue(result[name], properties[name], propertyPath, context);
+      evaluated = true;
+    }
+    for (const [pattern, propertySchema] of Object.entries(patternProperties)) {
+      if (compilePattern(pattern)?.test(name)) {
+        result[name] = validateValue(result[name], propertySchema, propertyPath, context);
+        evaluated = true;
+      }
+    }
+
+    if (!evaluated && schema.additionalProperties !== undefined) {
+      if (schema.additionalProperties === false) {
+        context.errors.push({
+          path: propertyPath,
+          keyword: "additionalProperties",
+          message: "is not an allowed property",
+        });
+      } else {
+        result[name] = validateValue(propertyValue, schema.additionalProperties as JsonSchema, propertyPath, context);
+      }
+    }
+
+    if (schema.propertyNames !== undefined) {
+      const nameCheck = tryValidate(name, schema.propertyNames as JsonSchema, propertyPath, context);
+      if (!nameCheck.valid) {
+        context.errors.push({
+          path: propertyPath,
+          keyword: "propertyNames",
+          message: "is not an allowed property name",
+        });
+      }
+    }
+  }
+
+  const count = Object.keys(object).length;
+  if (typeof schema.minProperties === "number" && count < schema.minProperties) {
+    context.errors.push({
+      path,
+      keyword: "minProperties",
+      message: `must have at least ${schema.minProperties} properties`,
+    });
+  }
+  if (typeof schema.maxProperties === "number" && count > schema.maxProperties) {
+    context.errors.push({
+      path,
+      keyword: "maxProperties",
+      message: `must have at most ${schema.maxProperties} properties`,
+    });
+  }
+
+  if (isPlainObject(schema.dependentRequired)) {
+    for (const [name, dependencies] of Object.entries(schema.dependentRequired)) {
+      if (!(name in object) || !Array.isArray(dependencies)) continue;
+      for (const dependency of dependencies as string[]) {
+        if (!(dependency in object)) {
+          context.errors.push({
+            path: childPath(path, dependency),
+            keyword: "dependentRequired",
+            message: `is required when '${name}' is present`,
+          });
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+function validateArray(
+  array: unknown[],
+  schema: Record<string, unknown>,
+  path: string,
+  context: ValidationContext,
+): unknown[] {
+  const prefixItems = (Array.isArray(schema.prefixItems) ? schema.prefixItems : []) as JsonSchema[];
+  const result = array.map((item, index) => {
+    if (index < prefixItems.length) {
+      return validateValue(item, prefixItems[index], childPath(path, index), context);
+    }
+    if (schema.items !== undefined) {
+      return validateValue(item, schema.items as JsonSchema, childPath(path, index), context);
+    }
+    return item;
+  });
+
+  if (typeof schema.minItems === "number" && result.length < schema.minItems) {
+    context.errors.push({ path, keyword: "minItems", message: `must contain at least ${schema.minItems} items` });
+  }
+  if (typeof schema.maxItems === "number" && result.length > schema.maxItems) {
+    context.errors.push({ path, keyword: "maxItems", message: `must contain at most ${schema.maxItems} items` });
+  }
+  if (
+    schema.uniqueItems === true &&
+    result.some((item, index) => result.findIndex((other) => deepEqual(item, other)) !== index)
+  ) {
+    context.errors.push({ path, keyword: "uniqueItems", message: "must not contain duplicate items" });
+  }
+  if (
+    schema.contains !== undefined &&
+    !result.some((item, index) =>
+      tryValidate(item, schema.contains as JsonSchema, childPath(path, index), context).valid
+    )
+  ) {
+    context.errors.push({ path, keyword: "contains", message: "must contain at least one matching item" });
+  }
+
+  return result;
+}
@@ -23,6 +23,10 @@ class Logger {
     this.level = level;
   }
 
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
   debug(format: string, ...args: unknown[]): void {
     if (this.level <= LogLevel.DEBUG) {
       console.log(`[DEBUG] ${format}`, ...args);
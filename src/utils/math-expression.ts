@@ -0,0 +1,955 @@
+/**
+ * Math expression engine
+ * Tokenizes, parses and evaluates calculator expressions without executing any code.
+ *
+ * Syntax, from lowest to highest precedence:
+ * - Unit conversion: `5 km to mi`, `2 h in min` (double precision only)
+ * - Addition and subtraction: `a + b`, `a - b`; `a + 10%` and `a - 10%` add or remove a percentage of a
+ * - Multiplication, division and modulo: `a * b`, `a / b`, `a mod b`, `a % b`, implicit `2pi`, `3(4 + 5)`
+ * - Unary plus and minus: `-a`
+ * - Power, right associative: `a ^ b`, `a ** b` (so `-2^2` is -4)
+ * - Postfix factorial and percent: `5!`, `15%`
+ * - Numbers (`1_000`, `1.5e3`, `0xff`, `0b101`), quantities (`5 km`), constants, variables,
+ *   function calls (`sqrt(2)`, `log(8, 2)`) and parentheses
+ *
+ * `%` directly followed by a number, name or `(` is modulo, otherwise it is a percentage.
+ * Errors name the position (1-based) of the offending token and show it with a caret.
+ */
+
+export type ExpressionPrecision = "double" | "decimal" | "bigint";
+
+export interface ExpressionOptions {
+  variables?: Record<string, number | string>;
+  precision?: ExpressionPrecision; // Default double
+  decimals?: number; // Digits after the decimal point with decimal precision, default 20
+}
+
+type TokenType = "number" | "name" | "operator" | "(" | ")" | "," | "end";
+
+interface Token {
+  type: TokenType;
+  text: string;
+  pos: number; // 0-based offset in the expression
+}
+
+type Node =
+  | { type: "number"; text: string; pos: number }
+  | { type: "name"; name: string; pos: number }
+  | { type: "call"; name: string; args: Node[]; pos: number }
+  | { type: "unary"; op: "-"; arg: Node; pos: number }
+  | { type: "binary"; op: "+" | "-" | "*" | "/" | "%" | "^"; left: Node; right: Node; pos: number }
+  | { type: "factorial" | "percent"; arg: Node; pos: number }
+  | { type: "quantity"; value: Node; unit: string; pos: number }
+  | { type: "convert"; arg: Node; unit: string; pos: number };
+
+interface UnitDefinition {
+  dimension: string;
+  factor: number; // Size in the base unit of the dimension
+}
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 100;
+const DEFAULT_DECIMALS = 20;
+const MAX_DECIMALS = 100;
+const GUARD_DIGITS = 10n; // Extra digits kept during decimal arithmetic
+const MAX_BIGINT_BITS = 1_000_000;
+const MAX_DECIMAL_DIGITS = 10_000;
+
+const CONSTANTS: Record<string, string> = {
+  pi: "3.14159265358979323846264338327950288419716939937510582097494459",
+  "π": "3.14159265358979323846264338327950288419716939937510582097494459",
+  tau: "6.28318530717958647692528676655900576839433879875021164194988918",
+  e: "2.71828182845904523536028747135266249775724709369995957496696763",
+  phi: "1.61803398874989484820458683436563811772030917980576286213544862",
+};
+
+const UNITS: Record<string, UnitDefinition> = {};
+
+/**
+ * Own entry of a lookup table; names like `constructor` must not find Object.prototype members
+ */
+function lookup<V>(table: Record<string, V>, name: string): V | undefined {
+  return Object.hasOwn(table, name) ? table[name] : undefined;
+}
+
+function defineUnits(dimension: string, units: Record<string, number>): void {
+  for (const [names, factor] of Object.entries(units)) {
+    for (const name of names.split(" ")) UNITS[name] = { dimension, factor };
+  }
+}
+
+defineUnits("length", {
+  "m meter meters metre metres": 1,
+  "km kilometer kilometers": 1000,
+  "cm centimeter centimeters": 0.01,
+  "mm millimeter millimeters": 0.001,
+  "mi mile miles": 1609.344,
+  "yd yard yards": 0.9144,
+  "ft foot feet": 0.3048,
+  "in inch inches": 0.0254,
+  "nmi": 1852,
+});
+defineUnits("mass", {
+  "kg kilogram kilograms": 1,
+  "g gram grams": 0.001,
+  "mg milligram milligrams": 0.000001,
+  "t tonne tonnes": 1000,
+  "lb lbs pound pounds": 0.45359237,
+  "oz ounce ounces": 0.028349523125,
+});
+defineUnits("time", {
+  "s sec second seconds": 1,
+  "ms millisecond milliseconds": 0.001,
+  "min minute minutes": 60,
+  "h hr hour hours": 3600,
+  "day days": 86400,
+  "week weeks": 604800,
+  "year years": 31536000,
+});
+defineUnits("data", {
+  "B byte bytes": 1,
+  "KB": 1e3,
+  "MB": 1e6,
+  "GB": 1e9,
+  "TB": 1e12,
+  "KiB": 1024,
+  "MiB": 1024 ** 2,
+  "GiB": 1024 ** 3,
+  "TiB": 1024 ** 4,
+});
+defineUnits("volume", {
+  "l L liter liters litre litres": 1,
+  "ml mL milliliter milliliters": 0.001,
+  "gal gallon gallons": 3.785411784,
+});
+
+const KEYWORDS = new Set(["to", "in", "mod"]);
+
+/**
+ * Create an error pointing at a position of the expression
+ */
+function positionError(expression: string, message: string, pos: number): Error {
+  return new Error(`${message} at position ${pos + 1}\n  ${expression}\n  ${" ".repeat(pos)}^`);
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+const NUMBER_PATTERN =
+  /^(?:0[xX][0-9a-fA-F](?:_?[0-9a-fA-F])*|0[bB][01](?:_?[01])*|(?:\d(?:_?\d)*(?:\.(?:\d(?:_?\d)*)?)?|\.\d(?:_?\d)*)(?:[eE][+-]?\d+)?)/;
+const NAME_PATTERN = /^[A-Za-z_π][A-Za-z0-9_]*/;
+const OPERATOR_ALIASES: Record<string, string> = { "×": "*", "·": "*", "÷": "/", "−": "-", "**": "^" };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < expression.length) {
+    const rest = expression.substring(pos);
+    const char = expression[pos];
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number && number[0] !== "") {
+      tokens.push({ type: "number", text: number[0].replace(/_/g, ""), pos });
+      pos += number[0].length;
+      continue;
+    }
+    const name = NAME_PATTERN.exec(rest);
+    if (name) {
+      tokens.push({ type: "name", text: name[0], pos });
+      pos += name[0].length;
+      continue;
+    }
+    if (rest.startsWith("**")) {
+      tokens.push({ type: "operator", text: "^", pos });
+      pos += 2;
+      continue;
+    }
+    if ("+-*/^%!×·÷−".includes(char)) {
+      tokens.push({ type: "operator", text: OPERATOR_ALIASES[char] ?? char, pos });
+    } else if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, text: char, pos });
+    } else {
+      throw positionError(expression, `Expression contains invalid characters: unexpected '${char}'`, pos);
+    }
+    pos++;
+  }
+  tokens.push({ type: "end", text: "", pos: expression.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(
+    private readonly expression: string,
+    private readonly tokens: Token[],
+    private readonly isValueName: (name: string) => boolean,
+  ) {}
+
+  parse(): Node {
+    const node = this.parseConversion();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw this.error(token.type === ")" ? "Unmatched ')'" : `Unexpected '${token.text}'`, token);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private error(message: string, token: Token): Error {
+    return positionError(this.expression, message, token.pos);
+  }
+
+  private isOperator(text: string): boolean {
+    const token = this.peek();
+    return (token.type === "operator" || token.type === "name") && token.text === text;
+  }
+
+  private parseConversion(): Node {
+    const node = this.parseAdditive();
+    if (this.isOperator("to") || this.isOperator("in")) {
+      const keyword = this.next();
+      const unit = this.next();
+      if (unit.type !== "name" || !Object.hasOwn(UNITS, unit.text)) {
+        throw this.error(unit.type === "end" ? `Expected a unit after '${keyword.text}'` : "Unknown unit", unit);
+      }
+      return { type: "convert", arg: node, unit: unit.text, pos: keyword.pos };
+    }
+    return node;
+  }
+
+  private parseAdditive(): Node {
+    let node = this.parseMultiplicative();
+    while (this.isOperator("+") || this.isOperator("-")) {
+      const op = this.next();
+      node = { type: "binary", op: op.text as "+" | "-", left: node, right: this.parseMultiplicative(), pos: op.pos };
+    }
+    return node;
+  }
+
+  private parseMultiplicative(): Node {
+    let node = this.parseUnary();
+    while (true) {
+      const token = this.peek();
+      if (this.isOperator("*") || this.isOperator("/") || this.isOperator("%") || this.isOperator("mod")) {
+        this.next();
+        const op = token.text === "mod" ? "%" : token.text as "*" | "/" | "%";
+        node = { type: "binary", op, left: node, right: this.parseUnary(), pos: token.pos };
+      } else if (this.startsImplicitProduct(node, token)) {
+        node = { type: "binary", op: "*", left: node, right: this.parseUnary(), pos: token.pos };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /**
+   * A number (or quantity) directly followed by a name or "(" multiplies: 2pi, 3x, 2(1 + 2)
+   */
+  private startsImplicitProduct(node: Node, token: Token): boolean {
+    const endsWithNumber = node.type === "number" || node.type === "quantity" ||
+      (node.type === "binary" && node.op === "*" && (node.right.type === "number" || node.right.type === "quantity"));
+    if (!endsWithNumber) return false;
+    return token.type === "(" || (token.type === "name" && !KEYWORDS.has(token.text));
+  }
+
+  private parseUnary(): Node {
+    if (this.isOperator("-") || this.isOperator("+")) {
+      const op = this.next();
+      const arg = this.nested(() => this.parseUnary());
+      return op.text === "-" ? { type: "unary", op: "-", arg, pos: op.pos } : arg;
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Node {
+    const base = this.parsePostfix();
+    if (this.isOperator("^")) {
+      const op = this.next();
+      return { type: "binary", op: "^", left: base, right: this.nested(() => this.parseUnary()), pos: op.pos };
+    }
+    return base;
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+    while (true) {
+      const token = this.peek();
+      if (this.isOperator("!")) {
+        this.next();
+        node = { type: "factorial", arg: node, pos: token.pos };
+      } else if (this.isOperator("%") && !this.startsOperand(this.peek(1))) {
+        this.next();
+        node = { type: "percent", arg: node, pos: token.pos };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private startsOperand(token: Token): boolean {
+    return token.type === "number" || token.type === "(" || (token.type === "name" && !KEYWORDS.has(token.text));
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+    switch (token.type) {
+      case "number": {
+        const node: Node = { type: "number", text: token.text, pos: token.pos };
+        const unit = this.peek();
+        // A unit name right after a number makes a quantity, unless it is also a variable or constant
+        if (
+          unit.type === "name" && Object.hasOwn(UNITS, unit.text) && !this.isValueName(unit.text) &&
+          this.peek(1).type !== "("
+        ) {
+          this.next();
+          return { type: "quantity", value: node, unit: unit.text, pos: token.pos };
+        }
+        return node;
+      }
+      case "name": {
+        if (KEYWORDS.has(token.text)) {
+          throw this.error(`Unexpected '${token.text}'`, token);
+        }
+        if (this.peek().type === "(") {
+          return this.parseCall(token);
+        }
+        return { type: "name", name: token.text, pos: token.pos };
+      }
+      case "(": {
+        const node = this.nested(() => this.parseConversion());
+        if (this.peek().type !== ")") {
+          throw this.error("Missing ')' for '('", token);
+        }
+        this.next();
+        return node;
+      }
+      case "end":
+        throw this.error("Unexpected end of expression", token);
+      default:
+        throw this.error(`Unexpected '${token.text}'`, token);
+    }
+  }
+
+  private parseCall(name: Token): Node {
+    const open = this.next();
+    const args: Node[] = [];
+    if (this.peek().type !== ")") {
+      while (true) {
+        args.push(this.nested(() => this.parseConversion()));
+        if (this.peek().type !== ",") break;
+        this.next();
+      }
+    }
+    if (this.peek().type !== ")") {
+      throw this.error(`Missing ')' for '${name.text}('`, open);
+    }
+    this.next();
+    return { type: "call", name: name.text, args, pos: name.pos };
+  }
+
+  private nested(parse: () => Node): Node {
+    if (++this.depth > MAX_DEPTH) {
+      throw this.error("Expression is nested too deeply", this.peek());
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Number systems
+// ---------------------------------------------------------------------------
+
+/**
+ * Arithmetic of one precision mode
+ * Methods throw plain Errors; the evaluator adds the position.
+ */
+interface NumberSystem<T> {
+  precision: ExpressionPrecision;
+  parse(text: string): T; // Literal, constant digits or variable value
+  fromNumber(value: number): T;
+  add(a: T, b: T): T;
+  sub(a: T, b: T): T;
+  mul(a: T, b: T): T;
+  div(a: T, b: T): T;
+  mod(a: T, b: T): T;
+  pow(a: T, b: T): T;
+  neg(a: T): T;
+  factorial(a: T): T;
+  percent(a: T): T;
+  functions: Record<string, { args: [number, number]; fn: (...args: T[]) => T }>;
+  result(a: T): number | string;
+}
+
+function toInteger(value: number, what: string): number {
+  if (!Number.isInteger(value)) throw new Error(`${what} must be an integer`);
+  return value;
+}
+
+function doubleFactorial(n: number): number {
+  if (!Number.isInteger(n) || n < 0) throw new Error("Factorial is only defined for non-negative integers");
+  if (n > 170) throw new Error("Factorial is too large");
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(toInteger(a, "gcd argument"));
+  b = Math.abs(toInteger(b, "gcd argument"));
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+const double: NumberSystem<number> = {
+  precision: "double",
+  parse: (text) => {
+    const value = Number(text);
+    if (Number.isNaN(value) || !text.trim()) throw new Error(`Invalid number '${text}'`);
+    return value;
+  },
+  fromNumber: (value) => value,
+  add: (a, b) => a + b,
+  sub: (a, b) => a - b,
+  mul: (a, b) => a * b,
+  div: (a, b) => {
+    if (b === 0) throw new Error("Division by zero");
+    return a / b;
+  },
+  mod: (a, b) => {
+    if (b === 0) throw new Error("Modulo by zero");
+    return a % b;
+  },
+  pow: (a, b) => a ** b,
+  neg: (a) => -a,
+  factorial: doubleFactorial,
+  percent: (a) => a / 100,
+  functions: {
+    sin: { args: [1, 1], fn: Math.sin },
+    cos: { args: [1, 1], fn: Math.cos },
+    tan: { args: [1, 1], fn: Math.tan },
+    asin: { args: [1, 1], fn: Math.asin },
+    acos: { args: [1, 1], fn: Math.acos },
+    atan: { args: [1, 1], fn: Math.atan },
+    atan2: { args: [2, 2], fn: Math.atan2 },
+    sinh: { args: [1, 1], fn: Math.sinh },
+    cosh: { args: [1, 1], fn: Math.cosh },
+    tanh: { args: [1, 1], fn: Math.tanh },
+    sqrt: { args: [1, 1], fn: Math.sqrt },
+    cbrt: { args: [1, 1], fn: Math.cbrt },
+    exp: { args: [1, 1], fn: Math.exp },
+    ln: { args: [1, 1], fn: Math.log },
+    log: { args: [1, 2], fn: (x, base) => base === undefined ? Math.log10(x) : Math.log(x) / Math.log(base) },
+    log10: { args: [1, 1], fn: Math.log10 },
+    log2: { args: [1, 1], fn: Math.log2 },
+    abs: { args: [1, 1], fn: Math.abs },
+    sign: { args: [1, 1], fn: Math.sign },
+    floor: { args: [1, 1], fn: Math.floor },
+    ceil: { args: [1, 1], fn: Math.ceil },
+    trunc: { args: [1, 1], fn: Math.trunc },
+    round: {
+      args: [1, 2],
+      fn: (x, digits = 0) => {
+        const d = toInteger(digits, "round digits");
+        return Number(`${Math.round(Number(`${x}e${d}`))}e${-d}`);
+      },
+    },
+    min: { args: [1, Infinity], fn: Math.min },
+    max: { args: [1, Infinity], fn: Math.max },
+    hypot: { args: [1, Infinity], fn: Math.hypot },
+    pow: { args: [2, 2], fn: Math.pow },
+    gcd: { args: [2, 2], fn: gcd },
+    lcm: { args: [2, 2], fn: (a, b) => (a === 0 || b === 0 ? 0 : Math.abs(a * b) / gcd(a, b)) },
+    factorial: { args: [1, 1], fn: doubleFactorial },
+    radians: { args: [1, 1], fn: (degrees) => degrees * Math.PI / 180 },
+    degrees: { args: [1, 1], fn: (radians) => radians * 180 / Math.PI },
+  },
+  result: (a) => {
+    if (!Number.isFinite(a)) throw new Error("Result is not a finite number");
+    // Hide binary rounding noise such as 0.1 + 0.2 = 0.30000000000000004
+    return Number(a.toPrecision(15));
+  },
+};
+
+/**
+ * Parse a decimal literal into an integer scaled by 10^scale
+ * @returns The scaled value and whether it is exact
+ */
+function parseScaled(text: string, scale: bigint): { value: bigint; exact: boolean } {
+  if (/^0[xXbB]/.test(text)) {
+    return { value: BigInt(text) * 10n ** scale, exact: true };
+  }
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text.trim());
+  if (!match || (match[2] === "" && (match[3] ?? "") === "")) {
+    throw new Error(`Invalid number '${text}'`);
+  }
+  const [, sign, whole, fraction = "", exponent = "0"] = match;
+  const digits = BigInt(`${whole}${fraction}` || "0");
+  const shift = scale - BigInt(fraction.length) + BigInt(exponent);
+  if (shift > BigInt(MAX_DECIMAL_DIGITS)) {
+    throw new Error(`Number '${text}' is too large`);
+  }
+  let value: bigint;
+  let exact = true;
+  if (shift >= 0n) {
+    value = digits * 10n ** shift;
+  } else {
+    const divisor = 10n ** -shift;
+    value = roundDivide(digits, divisor);
+    exact = digits % divisor === 0n;
+  }
+  return { value: sign === "-" ? -value : value, exact };
+}
+
+/**
+ * Integer division rounding half away from zero
+ */
+function roundDivide(a: bigint, b: bigint): bigint {
+  const quotient = a / b;
+  const remainder = a % b;
+  const twice = (remainder < 0n ? -remainder : remainder) * 2n;
+  if (twice >= (b < 0n ? -b : b)) {
+    return quotient + ((a < 0n) === (b < 0n) ? 1n : -1n);
+  }
+  return quotient;
+}
+
+function bigintSqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = BigInt(Math.floor(Math.sqrt(Number(value))));
+  while (true) {
+    const next = (x + value / x) / 2n;
+    if (next === x || next === x + 1n && next * next > value) break;
+    x = next;
+  }
+  while (x * x > value) x--;
+  while ((x + 1n) * (x + 1n) <= value) x++;
+  return x;
+}
+
+/**
+ * Fixed-point decimal arithmetic: values are integers scaled by 10^(decimals + guard digits)
+ */
+function decimalSystem(decimals: number): NumberSystem<bigint> {
+  const scale = BigInt(decimals) + GUARD_DIGITS;
+  const one = 10n ** scale;
+  const isInteger = (a: bigint) => a % one === 0n;
+  const integerValue = (a: bigint, what: string) => {
+    if (!isInteger(a)) throw new Error(`${what} must be an integer`);
+    return a / one;
+  };
+  const mul = (a: bigint, b: bigint) => roundDivide(a * b, one);
+  const div = (a: bigint, b: bigint) => {
+    if (b === 0n) throw new Error("Division by zero");
+    return roundDivide(a * one, b);
+  };
+  const floor = (a: bigint) => (a >= 0n || isInteger(a) ? a / one : a / one - 1n) * one;
+
+  return {
+    precision: "decimal",
+    parse: (text) => parseScaled(text, scale).value,
+    fromNumber: (value) => parseScaled(String(value), scale).value,
+    add: (a, b) => a + b,
+    sub: (a, b) => a - b,
+    mul,
+    div,
+    mod: (a, b) => {
+      if (b === 0n) throw new Error("Modulo by zero");
+      return a % b;
+    },
+    pow: (a, b) => {
+      const exponent = integerValue(b, "Exponent with decimal precision");
+      const magnitude = exponent < 0n ? -exponent : exponent;
+      const integerDigits = ((a < 0n ? -a : a) / one).toString().length;
+      if (BigInt(integerDigits) * magnitude > BigInt(MAX_DECIMAL_DIGITS)) {
+        throw new Error("Result is too large");
+      }
+      let result = one;
+      let base = a;
+      for (let n = magnitude; n > 0n; n >>= 1n) {
+        if (n & 1n) result = mul(result, base);
+        base = mul(base, base);
+      }
+      return exponent < 0n ? div(one, result) : result;
+    },
+    neg: (a) => -a,
+    factorial: (a) => {
+      const n = integerValue(a, "Factorial argument");
+      if (n < 0n) throw new Error("Factorial is only defined for non-negative integers");
+      if (n > 1000n) throw new Error("Factorial is too large");
+      let result = 1n;
+      for (let i = 2n; i <= n; i++) result *= i;
+      return result * one;
+    },
+    percent: (a) => roundDivide(a, 100n),
+    functions: {
+      abs: { args: [1, 1], fn: (a) => (a < 0n ? -a : a) },
+      sign: { args: [1, 1], fn: (a) => (a > 0n ? one : a < 0n ? -one : 0n) },
+      floor: { args: [1, 1], fn: floor },
+      ceil: { args: [1, 1], fn: (a) => -floor(-a) },
+      trunc: { args: [1, 1], fn: (a) => (a / one) * one },
+      round: {
+        args: [1, 2],
+        fn: (a, digits = 0n) => {
+          const d = integerValue(digits, "round digits");
+          if (d >= scale) return a;
+          const unit = 10n ** (scale - d);
+          return roundDivide(a, unit) * unit;
+        },
+      },
+      sqrt: {
+        args: [1, 1],
+        fn: (a) => {
+          if (a < 0n) throw new Error("Square root of a negative number");
+          return bigintSqrt(a * one);
+        },
+      },
+      min: { args: [1, Infinity], fn: (...values) => values.reduce((m, v) => (v < m ? v : m)) },
+      max: { args: [1, Infinity], fn: (...values) => values.reduce((m, v) => (v > m ? v : m)) },
+    },
+    result: (a) => {
+      const rounded = roundDivide(a, 10n ** GUARD_DIGITS);
+      const negative = rounded < 0n;
+      const digits = (negative ? -rounded : rounded).toString().padStart(decimals + 1, "0");
+      const whole = digits.substring(0, digits.length - decimals);
+      const fraction = digits.substring(digits.length - decimals).replace(/0+$/, "");
+      return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+    },
+  };
+}
+
+function bitLength(value: bigint): number {
+  return (value < 0n ? -value : value).toString(2).length;
+}
+
+function bigintGcd(a: bigint, b: bigint): bigint {
+  a = a < 0n ? -a : a;
+  b = b < 0n ? -b : b;
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+/**
+ * Exact integer arithmetic
+ */
+const bigint: NumberSystem<bigint> = {
+  precision: "bigint",
+  parse: (text) => {
+    const { value, exact } = parseScaled(text, 0n);
+    if (!exact) throw new Error(`'${text}' is not an integer; bigint precision only supports integers`);
+    return value;
+  },
+  fromNumber: (value) => bigint.parse(String(value)),
+  add: (a, b) => a + b,
+  sub: (a, b) => a - b,
+  mul: (a, b) => a * b,
+  div: (a, b) => {
+    if (b === 0n) throw new Error("Division by zero");
+    if (a % b !== 0n) throw new Error("Division result is not an integer; use decimal precision");
+    return a / b;
+  },
+  mod: (a, b) => {
+    if (b === 0n) throw new Error("Modulo by zero");
+    return a % b;
+  },
+  pow: (a, b) => {
+    if (b < 0n) throw new Error("Negative exponents are not supported with bigint precision");
+    if (a !== 0n && a !== 1n && a !== -1n && BigInt(bitLength(a)) * b > BigInt(MAX_BIGINT_BITS)) {
+      throw new Error("Result is too large");
+    }
+    return a ** b;
+  },
+  neg: (a) => -a,
+  factorial: (a) => {
+    if (a < 0n) throw new Error("Factorial is only defined for non-negative integers");
+    if (a > 10000n) throw new Error("Factorial is too large");
+    let result = 1n;
+    for (let i = 2n; i <= a; i++) result *= i;
+    return result;
+  },
+  percent: () => {
+    throw new Error("Percentages are not supported with bigint precision");
+  },
+  functions: {
+    abs: { args: [1, 1], fn: (a) => (a < 0n ? -a : a) },
+    sign: { args: [1, 1], fn: (a) => (a > 0n ? 1n : a < 0n ? -1n : 0n) },
+    min: { args: [1, Infinity], fn: (...values) => values.reduce((m, v) => (v < m ? v : m)) },
+    max: { args: [1, Infinity], fn: (...values) => values.reduce((m, v) => (v > m ? v : m)) },
+    gcd: { args: [2, 2], fn: bigintGcd },
+    lcm: { args: [2, 2], fn: (a, b) => (a === 0n || b === 0n ? 0n : (a * b < 0n ? -a * b : a * b) / bigintGcd(a, b)) },
+  },
+  result: (a) => a.toString(),
+};
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+interface Value<T> {
+  value: T; // In the base unit of its dimension
+  unit: string | null;
+}
+
+class Evaluator<T> {
+  constructor(
+    private readonly expression: string,
+    private readonly numbers: NumberSystem<T>,
+    private readonly variables: Record<string, T>,
+  ) {}
+
+  evaluate(node: Node): Value<T> {
+    try {
+      return this.evaluateNode(node);
+    } catch (error) {
+      throw this.locate(error, node);
+    }
+  }
+
+  /**
+   * Attach the position of the node to errors from the number system
+   */
+  private locate(error: unknown, node: Node): Error {
+    if (error instanceof Error && / at position \d+\n/.test(error.message)) return error;
+    return positionError(this.expression, error instanceof Error ? error.message : String(error), node.pos);
+  }
+
+  private plain(value: T): Value<T> {
+    return { value, unit: null };
+  }
+
+  private requirePlain(value: Value<T>, what: string): T {
+    if (value.unit) throw new Error(`${what} does not accept values with units (${value.unit})`);
+    return value.value;
+  }
+
+  private unit(name: string): UnitDefinition {
+    if (this.numbers.precision !== "double") throw new Error("Units are only supported with double precision");
+    return UNITS[name];
+  }
+
+  private evaluateNode(node: Node): Value<T> {
+    switch (node.type) {
+      case "number":
+        return this.plain(this.numbers.parse(node.text));
+      case "name":
+        return this.plain(this.resolveName(node.name));
+      case "quantity": {
+        const unit = this.unit(node.unit);
+        const value = this.requirePlain(this.evaluate(node.value), "A quantity");
+        return { value: this.numbers.mul(value, this.numbers.fromNumber(unit.factor)), unit: node.unit };
+      }
+      case "convert": {
+        const target = this.unit(node.unit);
+        const value = this.evaluate(node.arg);
+        if (!value.unit) {
+          throw new Error(`Cannot convert a plain number to ${node.unit}`);
+        }
+        if (UNITS[value.unit].dimension !== target.dimension) {
+          throw new Error(`Cannot convert ${value.unit} to ${node.unit}`);
+        }
+        return { value: value.value, unit: node.unit };
+      }
+      case "unary": {
+        const value = this.evaluate(node.arg);
+        return { value: this.numbers.neg(value.value), unit: value.unit };
+      }
+      case "factorial":
+        return this.plain(this.numbers.factorial(this.requirePlain(this.evaluate(node.arg), "Factorial")));
+      case "percent":
+        return this.plain(this.numbers.percent(this.requirePlain(this.evaluate(node.arg), "A percentage")));
+      case "call":
+        return this.plain(this.call(node));
+      case "binary":
+        return this.binary(node);
+    }
+  }
+
+  private resolveName(name: string): T {
+    if (Object.hasOwn(this.variables, name)) {
+      return this.variables[name];
+    }
+    const constant = lookup(CONSTANTS, name) ?? lookup(CONSTANTS, name.toLowerCase());
+    if (constant) {
+      if (this.numbers.precision === "bigint") {
+        throw new Error(`Constant '${name}' is not available with bigint precision`);
+      }
+      return this.numbers.parse(constant);
+    }
+    if (Object.hasOwn(UNITS, name)) {
+      throw new Error(`Unit '${name}' needs a number in front of it`);
+    }
+    if (Object.hasOwn(this.numbers.functions, name)) {
+      throw new Error(`Function '${name}' needs arguments in parentheses`);
+    }
+    throw new Error(`Unknown variable '${name}'`);
+  }
+
+  private call(node: Extract<Node, { type: "call" }>): T {
+    const fn = lookup(this.numbers.functions, node.name);
+    if (!fn) {
+      throw new Error(
+        Object.hasOwn(double.functions, node.name)
+          ? `Function '${node.name}' is not available with this precision`
+          : `Unknown function '${node.name}'`,
+      );
+    }
+    const [min, max] = fn.args;
+    if (node.args.length < min || node.args.length > max) {
+      const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+      throw new Error(
+        `Function '${node.name}' takes ${expected} argument${max === 1 ? "" : "s"}, got ${node.args.length}`,
+      );
+    }
+    const args = node.args.map((arg) => this.requirePlain(this.evaluate(arg), `Function '${node.name}'`));
+    const result = fn.fn(...args);
+    if (typeof result === "number" && Number.isNaN(result)) {
+      throw new Error(`Function '${node.name}' is not defined for these arguments`);
+    }
+    return result;
+  }
+
+  private binary(node: Extract<Node, { type: "binary" }>): Value<T> {
+    const left = this.evaluate(node.left);
+
+    // a + 10% and a - 10% change a by a percentage of itself
+    if ((node.op === "+" || node.op === "-") && node.right.type === "percent") {
+      const percent = this.numbers.percent(this.requirePlain(this.evaluate(node.right.arg), "A percentage"));
+      const change = this.numbers.mul(left.value, percent);
+      const value = node.op === "+" ? this.numbers.add(left.value, change) : this.numbers.sub(left.value, change);
+      return { value, unit: left.unit };
+    }
+
+    const right = this.evaluate(node.right);
+    const n = this.numbers;
+    switch (node.op) {
+      case "+":
+      case "-": {
+        if (left.unit || right.unit) {
+          const leftDimension = left.unit ? UNITS[left.unit].dimension : null;
+          const rightDimension = right.unit ? UNITS[right.unit].dimension : null;
+          if (leftDimension !== rightDimension) {
+            throw new Error(
+              `Cannot ${node.op === "+" ? "add" : "subtract"} ${right.unit ?? "a plain number"} ` +
+                `${node.op === "+" ? "to" : "from"} ${left.unit ?? "a plain number"}`,
+            );
+          }
+        }
+        return {
+          value: node.op === "+" ? n.add(left.value, right.value) : n.sub(left.value, right.value),
+          unit: left.unit,
+        };
+      }
+      case "*":
+        if (left.unit && right.unit) throw new Error("Cannot multiply two values with units");
+        return { value: n.mul(left.value, right.value), unit: left.unit ?? right.unit };
+      case "/":
+        if (right.unit && !left.unit) throw new Error("Cannot divide a plain number by a value with units");
+        if (left.unit && right.unit) {
+          if (UNITS[left.unit].dimension !== UNITS[right.unit].dimension) {
+            throw new Error(`Cannot divide ${left.unit} by ${right.unit}`);
+          }
+          return this.plain(n.div(left.value, right.value));
+        }
+        return { value: n.div(left.value, right.value), unit: left.unit };
+      case "%":
+        return this.plain(n.mod(this.requirePlain(left, "Modulo"), this.requirePlain(right, "Modulo")));
+      case "^":
+        return this.plain(n.pow(this.requirePlain(left, "A power"), this.requirePlain(right, "A power")));
+    }
+  }
+
+  result(value: Value<T>): number | string {
+    if (!value.unit) {
+      return this.numbers.result(value.value);
+    }
+    const amount = this.numbers.div(value.value, this.numbers.fromNumber(UNITS[value.unit].factor));
+    return `${this.numbers.result(amount)} ${value.unit}`;
+  }
+}
+
+/**
+ * Evaluate a math expression
+ * @param expression Expression such as "sqrt(2) * 10%" or "5 km to mi"
+ * @param options Variables and precision
+ * @returns The result: a number with double precision, otherwise a string with all digits;
+ *   results with units are strings such as "3.10685596118667 mi"
+ * @throws Error with the position of the problem in the expression
+ */
+export function evaluateExpression(expression: string, options: ExpressionOptions = {}): number | string {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  if (!expression.trim()) {
+    throw new Error("Expression is empty");
+  }
+
+  const precision = options.precision ?? "double";
+  const decimals = options.decimals ?? DEFAULT_DECIMALS;
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw new Error(`decimals must be an integer from 0 to ${MAX_DECIMALS}`);
+  }
+
+  const variableValues = options.variables ?? {};
+  for (const name of Object.keys(variableValues)) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || KEYWORDS.has(name)) {
+      throw new Error(`Invalid variable name '${name}'`);
+    }
+  }
+
+  const tokens = tokenize(expression);
+  const ast = new Parser(
+    expression,
+    tokens,
+    (name) => Object.hasOwn(variableValues, name) || Object.hasOwn(CONSTANTS, name),
+  ).parse();
+
+  const run = <T>(numbers: NumberSystem<T>): number | string => {
+    const variables: Record<string, T> = Object.create(null);
+    for (const [name, value] of Object.entries(variableValues)) {
+      try {
+        variables[name] = numbers.parse(String(value));
+      } catch {
+        throw new Error(`Variable '${name}' is not a valid number: ${JSON.stringify(value)}`);
+      }
+    }
+    const evaluator = new Evaluator(expression, numbers, variables);
+    const value = evaluator.evaluate(ast);
+    try {
+      return evaluator.result(value);
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  switch (precision) {
+    case "double":
+      return run(double);
+    case "decimal":
+      return run(decimalSystem(decimals));
+    case "bigint":
+      return run(bigint);
+    default:
+      throw new Error(`Unknown precision '${precision}'`);
+  }
+}
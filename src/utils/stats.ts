@@ -18,6 +18,7 @@ export let liveRequests: LiveRequest[] = [];
 
 // Tool call statistics
 export const toolStats: Record<string, number> = {};
+export const toolErrorStats: Record<string, Record<string, number>> = {}; // Failed calls per tool and error type
 export let totalToolCalls: number = 0;
 
 /**
@@ -111,8 +112,9 @@ export function getLiveRequestsData(): string {
 
 /**
  * Record tool call statistics
+ * @param errorType Why a failed call failed, e.g. "invalid_arguments", a tool policy violation or "error"
  */
-export function recordToolCall(toolName: string, success: boolean): void {
+export function recordToolCall(toolName: string, success: boolean, errorType?: string): void {
   totalToolCalls++;
 
   if (!toolStats[toolName]) {
@@ -121,16 +123,24 @@ export function recordToolCall(toolName: string, success: boolean): void {
 
   if (success) {
     toolStats[toolName]++;
+  } else if (errorType) {
+    const errors = toolErrorStats[toolName] ??= {};
+    errors[errorType] = (errors[errorType] ?? 0) + 1;
   }
 }
 
 /**
  * Get tool call statistics
  */
-export function getToolStats(): { total: number; byTool: Record<string, number> } {
+export function getToolStats(): {
+  total: number;
+  byTool: Record<string, number>;
+  errors: Record<string, Record<string, number>>;
+} {
   return {
     total: totalToolCalls,
     byTool: { ...toolStats },
+    errors: Object.fromEntries(Object.entries(toolErrorStats).map(([name, errors]) => [name, { ...errors }])),
   };
 }
 
@@ -164,7 +174,7 @@ export function getStatsData(): string {
       successfulRequests: 0,
       failedRequests: 0,
       averageResponseTime: 0,
-      toolCalls: { total: 0, byTool: {} },
+      toolCalls: { total: 0, byTool: {}, errors: {} },
     });
   }
 }
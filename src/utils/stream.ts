@@ -5,33 +5,60 @@
  */
 
 import { logger } from "./logger.ts";
-import { detectToolCall, processToolCall } from "../services/tool-processor.ts";
-import type { ToolCall, UpstreamData, Usage } from "../types/definitions.ts";
+import { CONFIG } from "../config/constants.ts";
+import {
+  executeToolCalls,
+  formatToolLimitNotice,
+  partitionToolCalls,
+  routeToolCall,
+  stripToolCallMarkup,
+} from "../services/tool-processor.ts";
+import { StreamingToolCallDetector, type ToolCallStreamEvent } from "../services/tool-call-detector.ts";
+import { DEFAULT_TOOL_CALL_POLICY, requiresToolCall, type ToolCallPolicy } from "../services/tool-choice.ts";
+import { THINK_TAGS_MODES } from "../types/definitions.ts";
+import type { ThinkTagsMode, Tool, UpstreamData, Usage } from "../types/definitions.ts";
+import type { NativeToolCallHandler, NativeToolStep } from "../services/agent-loop.ts";
 import type { OpenAIResponse } from "../types/openai.ts";
 
-// Thinking content handling mode:
-// - "strip": remove <details> tags and show only content
-// - "thinking": convert <details> to <thinking> tags
-// - "think": convert <details> to <think> tags
-// - "raw": keep as-is
-// - "separate": separate reasoning into reasoning_content field
-const THINK_TAGS_MODE = "think";
+/**
+ * Checks whether a value is a supported thinking tags mode.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a ThinkTagsMode.
+ */
+export function isThinkTagsMode(value: unknown): value is ThinkTagsMode {
+  return typeof value === "string" && (THINK_TAGS_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves the thinking tags mode for a request.
+ * Candidates are checked in order of precedence (e.g. header, body field, server default);
+ * empty or unknown values are skipped. Falls back to "think".
+ * @param {...unknown} candidates - Candidate mode values, highest precedence first.
+ * @returns {ThinkTagsMode} The first valid mode.
+ */
+export function resolveThinkTagsMode(...candidates: unknown[]): ThinkTagsMode {
+  for (const candidate of candidates) {
+    const value = typeof candidate === "string" ? candidate.trim().toLowerCase() : candidate;
+    if (isThinkTagsMode(value)) {
+      return value;
+    }
+    if (value !== undefined && value !== null && value !== "") {
+      logger.debug("Ignoring unknown think tags mode: %s", String(candidate));
+    }
+  }
+  return "think";
+}
 
 /**
  * Transforms thinking content based on the specified mode.
  * Returns either a string (for "strip", "thinking", "think", "raw" modes) or an object with reasoning and content (for "separate" mode).
  * @param {string} content - The content to transform, containing thinking tags.
- * @param {"strip" | "thinking" | "think" | "raw" | "separate"} [mode=THINK_TAGS_MODE] - The transformation mode.
+ * @param {ThinkTagsMode} [mode=CONFIG.THINK_TAGS_MODE] - The transformation mode.
  * @returns {string | { reasoning: string; content: string }} The transformed content.
  */
 export function transformThinking(
   content: string,
-  mode: "strip" | "thinking" | "think" | "raw" | "separate" = THINK_TAGS_MODE as
-    | "strip"
-    | "thinking"
-    | "think"
-    | "raw"
-    | "separate",
+  mode: ThinkTagsMode = resolveThinkTagsMode(CONFIG.THINK_TAGS_MODE),
 ): string | { reasoning: string; content: string } {
   // Raw mode: return as-is
   if (mode === "raw") {
@@ -244,13 +271,113 @@ export function transformThinking(
   return result;
 }
 
+/**
+ * Removes upstream thinking markup from an incremental thinking chunk.
+ * Strips <details> and <summary> tags and the "> " quote prefix on each line.
+ * @param {string} chunk - A delta_content chunk from the thinking phase.
+ * @returns {string} The plain thinking text.
+ */
+export function cleanThinkingChunk(chunk: string): string {
+  let result = chunk.replace(/<details[^>]*>/g, "");
+  result = result.replace(/<\/details>/g, "");
+  result = result.replace(/<summary>.*?<\/summary>/gs, "");
+  result = result.replace(/^> /gm, "");
+  return result;
+}
+
+/**
+ * Creates a stateful thinking chunk cleaner for a single stream.
+ * Unlike cleanThinkingChunk, it also removes "> " quote prefixes that are split across chunks
+ * (e.g. "...\n>" followed by " text"), so streamed thinking matches the non-streaming output.
+ * @returns {(chunk: string) => string} Function cleaning successive thinking chunks.
+ */
+export function createThinkingChunkCleaner(): (chunk: string) => string {
+  let lineState: "start" | "marker" | "middle" = "middle";
+
+  return (chunk: string): string => {
+    let pending = chunk;
+    if (lineState === "start" && pending.startsWith(">")) {
+      pending = pending.slice(pending.startsWith("> ") ? 2 : 1);
+      if (pending === "") {
+        lineState = "marker";
+        return "";
+      }
+    } else if (lineState === "marker" && pending.startsWith(" ")) {
+      pending = pending.slice(1);
+    }
+
+    let trailingMarker = false;
+    if (/\n>$/.test(pending)) {
+      pending = pending.slice(0, -1);
+      trailingMarker = true;
+    }
+
+    const result = cleanThinkingChunk(pending);
+    lineState = trailingMarker ? "marker" : chunk.endsWith("\n") ? "start" : "middle";
+    return result;
+  };
+}
+
+/**
+ * Reads an upstream SSE body and yields each parsed data event.
+ * Lines that are not "data: " events or contain invalid JSON are skipped.
+ * @param {ReadableStream<Uint8Array>} body - The upstream response body stream.
+ * @returns {AsyncGenerator<UpstreamData>} Parsed upstream events in arrival order.
+ */
+export async function* readUpstreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<UpstreamData> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || ""; // keep last partial line
+
+      for (const line of lines) {
+        if (!line.startsWith("data: ")) continue;
+
+        const dataStr = line.substring(6);
+        if (dataStr === "") continue;
+
+        logger.debug("Received SSE data: %s", dataStr);
+
+        let upstreamData: UpstreamData;
+        try {
+          upstreamData = JSON.parse(dataStr) as UpstreamData;
+        } catch (error) {
+          logger.debug("Failed to parse SSE data: %v", error);
+          continue;
+        }
+
+        if (!upstreamData || typeof upstreamData !== "object" || !upstreamData.data) {
+          upstreamData = { ...upstreamData, data: { delta_content: "", phase: "", done: false } };
+        }
+
+        yield upstreamData;
+      }
+    }
+  } finally {
+    // Stop the upstream generation if the consumer stopped early
+    await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
 /**
  * Processes the upstream stream response, transforming thinking content and writing to the client stream.
  * @param {ReadableStream<Uint8Array>} body - The upstream response body stream.
  * @param {WritableStreamDefaultWriter<Uint8Array>} writer - The writer for the client response stream.
  * @param {TextEncoder} encoder - Encoder for writing data.
  * @param {string} modelName - The name of the model.
- * @param {"strip" | "thinking" | "think" | "raw" | "separate"} [thinkTagsMode=THINK_TAGS_MODE] - Mode for handling thinking tags.
+ * @param {ThinkTagsMode} [thinkTagsMode=CONFIG.THINK_TAGS_MODE] - Mode for handling thinking tags.
+ * @param {Tool[]} [clientTools] - Tools defined by the client; calls to them are returned as tool_calls.
+ * @param {NativeToolCallHandler} [onNativeToolCall] - Executes native tool calls and returns the next upstream turn.
+ * @param {ToolCallPolicy} [toolPolicy] - Tool call policy from tool_choice and parallel_tool_calls.
  * @returns {Promise<Usage | null>} The usage statistics if available.
  */
 export async function processStreamingResponse(
@@ -258,16 +385,11 @@ export async function processStreamingResponse(
   writer: WritableStreamDefaultWriter<Uint8Array>,
   encoder: TextEncoder,
   modelName: string,
-  thinkTagsMode: "strip" | "thinking" | "think" | "raw" | "separate" = THINK_TAGS_MODE as
-    | "strip"
-    | "thinking"
-    | "think"
-    | "raw"
-    | "separate",
+  thinkTagsMode: ThinkTagsMode = resolveThinkTagsMode(CONFIG.THINK_TAGS_MODE),
+  clientTools?: Tool[],
+  onNativeToolCall?: NativeToolCallHandler,
+  toolPolicy: ToolCallPolicy = DEFAULT_TOOL_CALL_POLICY,
 ): Promise<Usage | null> {
-  const reader = body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
   let finalUsage: Usage | null = null;
 
   // For "separate" mode, accumulate thinking content
@@ -277,295 +399,384 @@ export async function processStreamingResponse(
   // Track thinking phase state for incremental streaming
   let inThinkingPhase = false;
   let thinkingTagOpened = false;
+  let cleanThinking = createThinkingChunkCleaner();
 
-  // Track tool calls in streaming
-  let pendingToolCall: ToolCall | null = null;
+  // Track tool calls in streaming; the detector keeps call markup out of the content
+  const acceptToolCall = (name: string) =>
+    routeToolCall(name, clientTools, toolPolicy) !== "unknown" &&
+    (toolPolicy.parallel || toolCallDetector.toolCalls.length === 0);
+  let toolCallDetector = new StreamingToolCallDetector(acceptToolCall);
   let toolCallBuffer = "";
+  let toolCallIndex = 0;
+  let clientToolCallIndexes = new Map<number, number>();
+
+  // Native tool calls continue the conversation with a new upstream body
+  let currentBody: ReadableStream<Uint8Array> | null = body;
+
+  const writeDelta = async (delta: OpenAIResponse["choices"][0]["delta"]) => {
+    const chunk: OpenAIResponse = {
+      id: `chatcmpl-${Date.now()}`,
+      object: "chat.completion.chunk",
+      created: Math.floor(Date.now() / 1000),
+      model: modelName,
+      choices: [{ index: 0, delta }],
+    };
+    await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+  };
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+  // Send detector events: prose as content and client tool calls as tool_calls deltas.
+  // Native calls are only sent when the turn is finished and they are executed.
+  const writeToolCallEvents = async (events: ToolCallStreamEvent[]) => {
+    for (const event of events) {
+      if (event.type === "text") {
+        await writeDelta({ content: event.text });
+      } else if (event.type === "tool_call_start" && routeToolCall(event.name, clientTools, toolPolicy) === "client") {
+        clientToolCallIndexes.set(event.index, toolCallIndex);
+        await writeDelta({
+          tool_calls: [{
+            index: toolCallIndex++,
+            id: event.id,
+            type: "function",
+            function: { name: event.name, arguments: "" },
+          }],
+        });
+      } else if (event.type === "tool_call_delta" && clientToolCallIndexes.has(event.index)) {
+        await writeDelta({
+          tool_calls: [{ index: clientToolCallIndexes.get(event.index)!, function: { arguments: event.arguments } }],
+        });
+      }
+    }
+  };
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || ""; // keep last partial line
+  // Answer text goes through the tool call detector before it reaches the client
+  const writeAnswer = async (text: string) => {
+    toolCallBuffer += text;
+    await writeToolCallEvents(toolCallDetector.push(text));
+  };
 
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const dataStr = line.substring(6);
-          if (dataStr === "") continue;
-
-          logger.debug("Received SSE data: %s", dataStr);
-
-          try {
-            const upstreamData = JSON.parse(dataStr) as UpstreamData;
-
-            // Error detection
-            if (
-              upstreamData.error || upstreamData.data.error ||
-              (upstreamData.data.inner && upstreamData.data.inner.error)
-            ) {
-              const errObj = upstreamData.error || upstreamData.data.error ||
-                (upstreamData.data.inner && upstreamData.data.inner.error);
-              logger.debug("Upstream error: code=%d, detail=%s", errObj?.code, errObj?.detail);
-
-              const errorDetail = (errObj?.detail || "").toLowerCase();
-              if (errorDetail.includes("something went wrong") || errorDetail.includes("try again later")) {
-                logger.debug("🚨 Z.ai server error analysis:");
-                logger.debug("   📋 Detail: %s", errObj?.detail);
-                logger.debug("   🖼️ Possible cause: image processing failure");
-                logger.debug("   💡 Suggested fixes:");
-                logger.debug("      1. Use smaller images (< 500KB)");
-                logger.debug("      2. Try different formats (JPEG over PNG)");
-                logger.debug("      3. Retry later (server load issue)");
-                logger.debug("      4. Check for corrupted images");
-              }
+  // Reset per-turn state before reading the next upstream turn
+  const startNextTurn = (body: ReadableStream<Uint8Array>) => {
+    currentBody = body;
+    toolCallBuffer = "";
+    toolCallDetector = new StreamingToolCallDetector(acceptToolCall);
+    clientToolCallIndexes = new Map();
+    accumulatedThinking = "";
+    thinkingSent = false;
+    inThinkingPhase = false;
+    thinkingTagOpened = false;
+    cleanThinking = createThinkingChunkCleaner();
+  };
 
-              // Send end chunk
-              const endChunk: OpenAIResponse = {
-                id: `chatcmpl-${Date.now()}`,
-                object: "chat.completion.chunk",
-                created: Math.floor(Date.now() / 1000),
-                model: modelName,
-                choices: [
-                  {
-                    index: 0,
-                    delta: {},
-                    finish_reason: "stop",
-                  },
-                ],
-              };
+  // Handle the tool calls of a finished turn: client calls end the response,
+  // native calls are executed together and the conversation continues upstream
+  const finishToolTurn = async (): Promise<"stop" | "tool_calls" | "continue" | "missing_tool_call"> => {
+    await writeToolCallEvents(toolCallDetector.end());
+    const { client, native } = partitionToolCalls(toolCallDetector.toolCalls, clientTools, toolPolicy);
 
-              await writer.write(encoder.encode(`data: ${JSON.stringify(endChunk)}\n\n`));
-              await writer.write(encoder.encode("data: [DONE]\n\n"));
-              return finalUsage;
+    if (client.length > 0) {
+      if (native.length > 0) {
+        logger.warn("Not executing %d native tool calls mixed with client tool calls", native.length);
+      }
+      logger.info("Client tool calls detected in stream: %s", client.map((call) => call.function.name).join(", "));
+      return "tool_calls";
+    }
+    if (native.length === 0) {
+      // A required call may already have been made in an earlier turn of the tool loop
+      if (!requiresToolCall(toolPolicy) || toolCallIndex > 0) {
+        return "stop";
+      }
+
+      // tool_choice requires a call that the model did not make: re-prompt or fail
+      try {
+        const retry = onNativeToolCall ? await onNativeToolCall([], toolCallBuffer) : null;
+        if (retry) {
+          startNextTurn(retry.body);
+          return "continue";
+        }
+      } catch (error) {
+        logger.error("Failed to re-prompt for a required tool call: %v", error);
+      }
+      return "missing_tool_call";
+    }
+
+    logger.info("Tool calls detected in stream: %s", native.map((call) => call.function.name).join(", "));
+    const separator = stripToolCallMarkup(toolCallBuffer) ? "\n\n" : "";
+
+    if (!onNativeToolCall) {
+      // Without an agent loop the tool results are the answer
+      const results = await executeToolCalls(native);
+      await writeDelta({ content: separator + results.map(({ result }) => result).join("\n\n") });
+      return "stop";
+    }
+
+    // Execute the tools and continue with the upstream turn that has seen the results
+    let step: NativeToolStep | null;
+    try {
+      step = await onNativeToolCall(native, toolCallBuffer);
+    } catch (error) {
+      logger.error("Failed to continue after tool calls in stream: %v", error);
+      const message = `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`;
+      await writeDelta({ content: separator + message });
+      return "stop";
+    }
+    if (!step) {
+      await writeDelta({ content: separator + formatToolLimitNotice(native) });
+      return "stop";
+    }
+
+    // Show the executed calls; their results stay server-side and reach the client through the answer
+    await writeDelta({ tool_calls: native.map((call) => ({ index: toolCallIndex++, ...call })) });
+    startNextTurn(step.body);
+    return "continue";
+  };
+
+  try {
+    while (currentBody) {
+      const turnBody: ReadableStream<Uint8Array> = currentBody;
+      currentBody = null;
+
+      for await (const upstreamData of readUpstreamEvents(turnBody)) {
+        try {
+          // Error detection
+          if (
+            upstreamData.error || upstreamData.data.error ||
+            (upstreamData.data.inner && upstreamData.data.inner.error)
+          ) {
+            const errObj = upstreamData.error || upstreamData.data.error ||
+              (upstreamData.data.inner && upstreamData.data.inner.error);
+            logger.debug("Upstream error: code=%d, detail=%s", errObj?.code, errObj?.detail);
+
+            const errorDetail = (errObj?.detail || "").toLowerCase();
+            if (errorDetail.includes("something went wrong") || errorDetail.includes("try again later")) {
+              logger.debug("🚨 Z.ai server error analysis:");
+              logger.debug("   📋 Detail: %s", errObj?.detail);
+              logger.debug("   🖼️ Possible cause: image processing failure");
+              logger.debug("   💡 Suggested fixes:");
+              logger.debug("      1. Use smaller images (< 500KB)");
+              logger.debug("      2. Try different formats (JPEG over PNG)");
+              logger.debug("      3. Retry later (server load issue)");
+              logger.debug("      4. Check for corrupted images");
             }
 
+            // Send end chunk
+            const endChunk: OpenAIResponse = {
+              id: `chatcmpl-${Date.now()}`,
+              object: "chat.completion.chunk",
+              created: Math.floor(Date.now() / 1000),
+              model: modelName,
+              choices: [
+                {
+                  index: 0,
+                  delta: {},
+                  finish_reason: "stop",
+                },
+              ],
+            };
+
+            await writer.write(encoder.encode(`data: ${JSON.stringify(endChunk)}\n\n`));
+            await writer.write(encoder.encode("data: [DONE]\n\n"));
+            return finalUsage;
+          }
+
+          logger.debug(
+            "Parsed upstream - type: %s, phase: %s, content length: %d, done: %v",
+            upstreamData.type,
+            upstreamData.data.phase,
+            upstreamData.data.delta_content ? upstreamData.data.delta_content.length : 0,
+            upstreamData.data.done,
+          );
+
+          // Capture usage information if present
+          if (upstreamData.data.usage) {
+            finalUsage = upstreamData.data.usage;
             logger.debug(
-              "Parsed upstream - type: %s, phase: %s, content length: %d, done: %v",
-              upstreamData.type,
-              upstreamData.data.phase,
-              upstreamData.data.delta_content ? upstreamData.data.delta_content.length : 0,
-              upstreamData.data.done,
+              "Captured usage data: prompt=%d, completion=%d, total=%d",
+              finalUsage.prompt_tokens,
+              finalUsage.completion_tokens,
+              finalUsage.total_tokens,
             );
+          }
 
-            // Capture usage information if present
-            if (upstreamData.data.usage) {
-              finalUsage = upstreamData.data.usage;
-              logger.debug(
-                "Captured usage data: prompt=%d, completion=%d, total=%d",
-                finalUsage.prompt_tokens,
-                finalUsage.completion_tokens,
-                finalUsage.total_tokens,
-              );
-            }
+          // Handle edit_content (complete thinking block sent when phase changes)
+          if (upstreamData.data.edit_content && !thinkingSent) {
+            logger.debug(
+              "Received edit_content with complete thinking block, length: %d",
+              upstreamData.data.edit_content.length,
+            );
+            logger.debug("Current mode: %s, thinkingSent: %s", thinkTagsMode, thinkingSent);
 
-            // Handle edit_content (complete thinking block sent when phase changes)
-            if (upstreamData.data.edit_content && !thinkingSent) {
-              logger.debug(
-                "Received edit_content with complete thinking block, length: %d",
-                upstreamData.data.edit_content.length,
-              );
-              logger.debug("Current mode: %s, thinkingSent: %s", THINK_TAGS_MODE, thinkingSent);
-
-              if (thinkTagsMode === "separate") {
-                const transformed = transformThinking(upstreamData.data.edit_content, thinkTagsMode);
-                if (typeof transformed === "object" && transformed.reasoning) {
-                  logger.debug("Sending reasoning from edit_content, length: %d", transformed.reasoning.length);
-
-                  // Send reasoning as a separate field
-                  const reasoningChunk: OpenAIResponse = {
-                    id: `chatcmpl-${Date.now()}`,
-                    object: "chat.completion.chunk",
-                    created: Math.floor(Date.now() / 1000),
-                    model: modelName,
-                    choices: [
-                      {
-                        index: 0,
-                        delta: { reasoning_content: transformed.reasoning },
-                      },
-                    ],
-                  };
+            if (thinkTagsMode === "separate") {
+              const transformed = transformThinking(upstreamData.data.edit_content, thinkTagsMode);
+              if (typeof transformed === "object" && transformed.reasoning) {
+                logger.debug("Sending reasoning from edit_content, length: %d", transformed.reasoning.length);
 
-                  await writer.write(encoder.encode(`data: ${JSON.stringify(reasoningChunk)}\n\n`));
-                  thinkingSent = true;
-                }
-              } else {
-                // For non-'separate' modes, edit_content contains the full thinking block + first response character.
-                // We rely on incremental streaming for thinking content, but need to stream the closing tag and the trailing content ('H').
+                // Send reasoning as a separate field
+                const reasoningChunk: OpenAIResponse = {
+                  id: `chatcmpl-${Date.now()}`,
+                  object: "chat.completion.chunk",
+                  created: Math.floor(Date.now() / 1000),
+                  model: modelName,
+                  choices: [
+                    {
+                      index: 0,
+                      delta: { reasoning_content: transformed.reasoning },
+                    },
+                  ],
+                };
 
-                let contentAfterThinking = "";
-                const parts = upstreamData.data.edit_content.split("</details>");
+                await writer.write(encoder.encode(`data: ${JSON.stringify(reasoningChunk)}\n\n`));
+                thinkingSent = true;
 
-                if (parts.length > 1) {
-                  contentAfterThinking = parts.slice(1).join("</details>");
+                // Stream the answer content that arrived together with the thinking block
+                if (transformed.content && transformed.content.trim() !== "") {
+                  await writeAnswer(transformed.content);
                 }
+              }
+            } else {
+              // For non-'separate' modes, edit_content contains the full thinking block + first response character.
+              // We rely on incremental streaming for thinking content, but need to stream the closing tag and the trailing content ('H').
 
-                // 1. Stream closing tag if one was opened incrementally
-                if (inThinkingPhase && thinkingTagOpened) {
-                  let closingTag = "";
-                  switch (thinkTagsMode) {
-                    case "thinking":
-                      closingTag = "</thinking>";
-                      break;
-                    case "think":
-                      closingTag = "</think>";
-                      break;
-                  }
+              let contentAfterThinking = "";
+              const parts = upstreamData.data.edit_content.split("</details>");
 
-                  if (closingTag) {
-                    logger.debug("Sending closing thinking tag from edit_content handler: %s", closingTag);
-                    const chunk: OpenAIResponse = {
-                      id: `chatcmpl-${Date.now()}`,
-                      object: "chat.completion.chunk",
-                      created: Math.floor(Date.now() / 1000),
-                      model: modelName,
-                      choices: [{ index: 0, delta: { content: closingTag } }],
-                    };
-                    await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
-                  }
+              if (parts.length > 1) {
+                contentAfterThinking = parts.slice(1).join("</details>");
+              }
+
+              // 1. Stream closing tag if one was opened incrementally
+              if (inThinkingPhase && thinkingTagOpened) {
+                let closingTag = "";
+                switch (thinkTagsMode) {
+                  case "thinking":
+                    closingTag = "</thinking>";
+                    break;
+                  case "think":
+                    closingTag = "</think>";
+                    break;
+                  case "raw":
+                    closingTag = "</details>";
+                    break;
                 }
 
-                // 2. Stream the content that followed the thinking block ('H')
-                if (contentAfterThinking) {
-                  logger.debug("Streaming content after thinking block: %s", contentAfterThinking.substring(0, 20));
+                if (closingTag) {
+                  logger.debug("Sending closing thinking tag from edit_content handler: %s", closingTag);
                   const chunk: OpenAIResponse = {
                     id: `chatcmpl-${Date.now()}`,
                     object: "chat.completion.chunk",
                     created: Math.floor(Date.now() / 1000),
                     model: modelName,
-                    choices: [{ index: 0, delta: { content: contentAfterThinking } }],
+                    choices: [{ index: 0, delta: { content: closingTag } }],
                   };
                   await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
                 }
+              }
 
-                thinkingSent = true; // Mark as sent to prevent further processing of this block type
+              // 2. Stream the content that followed the thinking block ('H')
+              if (contentAfterThinking) {
+                logger.debug("Streaming content after thinking block: %s", contentAfterThinking.substring(0, 20));
+                await writeAnswer(contentAfterThinking);
               }
 
-              // Reset thinking state after processing the complete thinking block in edit_content
-              inThinkingPhase = false;
-              thinkingTagOpened = false;
+              thinkingSent = true; // Mark as sent to prevent further processing of this block type
             }
 
-            // Handle content
-            if (upstreamData.data.delta_content && upstreamData.data.delta_content !== "") {
-              const rawContent = upstreamData.data.delta_content;
-              const isThinking = upstreamData.data.phase === "thinking";
+            // Reset thinking state after processing the complete thinking block in edit_content
+            inThinkingPhase = false;
+            thinkingTagOpened = false;
+          }
 
-              // Accumulate content for tool call detection
-              toolCallBuffer += rawContent;
+          // Handle content
+          if (upstreamData.data.delta_content && upstreamData.data.delta_content !== "") {
+            const rawContent = upstreamData.data.delta_content;
+            const isThinking = upstreamData.data.phase === "thinking";
 
-              // Check for tool calls in accumulated content
-              const mockUpstreamData: UpstreamData = {
-                type: upstreamData.type,
-                data: {
-                  ...upstreamData.data,
-                  delta_content: toolCallBuffer,
-                },
-              };
+            if (thinkTagsMode === "separate") {
+              // In separate mode, accumulate thinking content
+              if (isThinking) {
+                accumulatedThinking += rawContent;
 
-              const detectedToolCall = detectToolCall(mockUpstreamData);
-              if (detectedToolCall && !pendingToolCall) {
-                logger.info("Tool call detected in stream: %s", detectedToolCall.function.name);
-                pendingToolCall = detectedToolCall;
+                // Check if thinking block is complete (contains closing </details>)
+                if (accumulatedThinking.includes("</details>") && !thinkingSent) {
+                  const transformed = transformThinking(accumulatedThinking, thinkTagsMode);
+                  if (typeof transformed === "object" && transformed.reasoning) {
+                    logger.debug("Sending accumulated reasoning content, length: %d", transformed.reasoning.length);
 
-                // Send tool call event to client
-                const toolCallChunk: OpenAIResponse = {
-                  id: `chatcmpl-${Date.now()}`,
-                  object: "chat.completion.chunk",
-                  created: Math.floor(Date.now() / 1000),
-                  model: modelName,
-                  choices: [
-                    {
-                      index: 0,
-                      delta: {
-                        tool_calls: [detectedToolCall],
-                      },
-                    },
-                  ],
-                };
+                    // Send reasoning as a separate field
+                    const reasoningChunk: OpenAIResponse = {
+                      id: `chatcmpl-${Date.now()}`,
+                      object: "chat.completion.chunk",
+                      created: Math.floor(Date.now() / 1000),
+                      model: modelName,
+                      choices: [
+                        {
+                          index: 0,
+                          delta: { reasoning_content: transformed.reasoning },
+                        },
+                      ],
+                    };
 
-                await writer.write(encoder.encode(`data: ${JSON.stringify(toolCallChunk)}\n\n`));
+                    await writer.write(encoder.encode(`data: ${JSON.stringify(reasoningChunk)}\n\n`));
+                    thinkingSent = true;
+                  }
+                }
+              } else {
+                // Regular content
+                logger.debug("Sending regular content: %s", rawContent);
+                await writeAnswer(rawContent);
+              }
+            } else {
+              // Other modes: stream thinking content incrementally
+              if (isThinking) {
+                // Send opening tag when entering thinking phase
+                if (!inThinkingPhase) {
+                  inThinkingPhase = true;
+                  let openingTag = "";
 
-                // Execute tool and send result
-                try {
-                  const toolResult = await processToolCall(detectedToolCall);
+                  switch (thinkTagsMode) {
+                    case "thinking":
+                      openingTag = "<thinking>";
+                      break;
+                    case "think":
+                      openingTag = "<think>";
+                      break;
+                    case "strip":
+                      openingTag = ""; // No tag for strip mode
+                      break;
+                    case "raw":
+                      openingTag = ""; // Will be included in rawContent
+                      thinkingTagOpened = true; // Closed with </details>
+                      break;
+                  }
 
-                  // Send tool result
-                  const toolResultChunk: OpenAIResponse = {
-                    id: `chatcmpl-${Date.now()}`,
-                    object: "chat.completion.chunk",
-                    created: Math.floor(Date.now() / 1000),
-                    model: modelName,
-                    choices: [
-                      {
-                        index: 0,
-                        delta: {
-                          content: toolResult,
+                  if (openingTag) {
+                    logger.debug("Sending opening thinking tag: %s", openingTag);
+                    const chunk: OpenAIResponse = {
+                      id: `chatcmpl-${Date.now()}`,
+                      object: "chat.completion.chunk",
+                      created: Math.floor(Date.now() / 1000),
+                      model: modelName,
+                      choices: [
+                        {
+                          index: 0,
+                          delta: { content: openingTag },
                         },
-                      },
-                    ],
-                  };
+                      ],
+                    };
+                    await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+                    thinkingTagOpened = true;
+                  }
+                }
 
-                  await writer.write(encoder.encode(`data: ${JSON.stringify(toolResultChunk)}\n\n`));
-                } catch (error) {
-                  logger.error("Failed to execute tool in stream: %v", error);
-                  const errorChunk: OpenAIResponse = {
-                    id: `chatcmpl-${Date.now()}`,
-                    object: "chat.completion.chunk",
-                    created: Math.floor(Date.now() / 1000),
-                    model: modelName,
-                    choices: [
-                      {
-                        index: 0,
-                        delta: {
-                          content: `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`,
-                        },
-                      },
-                    ],
-                  };
+                // Process and stream the thinking content chunk
+                let processedChunk = rawContent;
 
-                  await writer.write(encoder.encode(`data: ${JSON.stringify(errorChunk)}\n\n`));
+                // Clean up the content based on mode
+                if (thinkTagsMode !== "raw") {
+                  processedChunk = cleanThinking(processedChunk);
                 }
 
-                // Clear buffer after processing
-                toolCallBuffer = "";
-                continue; // Skip normal content processing for this chunk
-              }
-
-              if (thinkTagsMode === "separate") {
-                // In separate mode, accumulate thinking content
-                if (isThinking) {
-                  accumulatedThinking += rawContent;
-
-                  // Check if thinking block is complete (contains closing </details>)
-                  if (accumulatedThinking.includes("</details>") && !thinkingSent) {
-                    const transformed = transformThinking(accumulatedThinking, thinkTagsMode);
-                    if (typeof transformed === "object" && transformed.reasoning) {
-                      logger.debug("Sending accumulated reasoning content, length: %d", transformed.reasoning.length);
-
-                      // Send reasoning as a separate field
-                      const reasoningChunk: OpenAIResponse = {
-                        id: `chatcmpl-${Date.now()}`,
-                        object: "chat.completion.chunk",
-                        created: Math.floor(Date.now() / 1000),
-                        model: modelName,
-                        choices: [
-                          {
-                            index: 0,
-                            delta: { reasoning_content: transformed.reasoning },
-                          },
-                        ],
-                      };
-
-                      await writer.write(encoder.encode(`data: ${JSON.stringify(reasoningChunk)}\n\n`));
-                      thinkingSent = true;
-                    }
-                  }
-                } else {
-                  // Regular content
-                  logger.debug("Sending regular content: %s", rawContent);
+                if (processedChunk) {
+                  logger.debug("Streaming thinking chunk, length: %d", processedChunk.length);
 
                   const chunk: OpenAIResponse = {
                     id: `chatcmpl-${Date.now()}`,
@@ -575,7 +786,7 @@ export async function processStreamingResponse(
                     choices: [
                       {
                         index: 0,
-                        delta: { content: rawContent },
+                        delta: { content: processedChunk },
                       },
                     ],
                   };
@@ -583,62 +794,24 @@ export async function processStreamingResponse(
                   await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
                 }
               } else {
-                // Other modes: stream thinking content incrementally
-                if (isThinking) {
-                  // Send opening tag when entering thinking phase
-                  if (!inThinkingPhase) {
-                    inThinkingPhase = true;
-                    let openingTag = "";
-
-                    switch (thinkTagsMode) {
-                      case "thinking":
-                        openingTag = "<thinking>";
-                        break;
-                      case "think":
-                        openingTag = "<think>";
-                        break;
-                      case "strip":
-                        openingTag = ""; // No tag for strip mode
-                        break;
-                      case "raw":
-                        openingTag = ""; // Will be included in rawContent
-                        break;
-                    }
-
-                    if (openingTag) {
-                      logger.debug("Sending opening thinking tag: %s", openingTag);
-                      const chunk: OpenAIResponse = {
-                        id: `chatcmpl-${Date.now()}`,
-                        object: "chat.completion.chunk",
-                        created: Math.floor(Date.now() / 1000),
-                        model: modelName,
-                        choices: [
-                          {
-                            index: 0,
-                            delta: { content: openingTag },
-                          },
-                        ],
-                      };
-                      await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
-                      thinkingTagOpened = true;
-                    }
-                  }
-
-                  // Process and stream the thinking content chunk
-                  let processedChunk = rawContent;
+                // Exiting thinking phase - send closing tag if needed
+                if (inThinkingPhase && thinkingTagOpened) {
+                  let closingTag = "";
 
-                  // Clean up the content based on mode
-                  if (thinkTagsMode !== "raw") {
-                    // Remove <details> tags, <summary> tags, and "> " prefixes
-                    processedChunk = processedChunk.replace(/<details[^>]*>/g, "");
-                    processedChunk = processedChunk.replace(/<\/details>/g, "");
-                    processedChunk = processedChunk.replace(/<summary>.*?<\/summary>/gs, "");
-                    processedChunk = processedChunk.replace(/^> /gm, "");
+                  switch (thinkTagsMode) {
+                    case "thinking":
+                      closingTag = "</thinking>";
+                      break;
+                    case "think":
+                      closingTag = "</think>";
+                      break;
+                    case "raw":
+                      closingTag = "</details>";
+                      break;
                   }
 
-                  if (processedChunk) {
-                    logger.debug("Streaming thinking chunk, length: %d", processedChunk.length);
-
+                  if (closingTag) {
+                    logger.debug("Sending closing thinking tag: %s", closingTag);
                     const chunk: OpenAIResponse = {
                       id: `chatcmpl-${Date.now()}`,
                       object: "chat.completion.chunk",
@@ -647,99 +820,72 @@ export async function processStreamingResponse(
                       choices: [
                         {
                           index: 0,
-                          delta: { content: processedChunk },
+                          delta: { content: closingTag },
                         },
                       ],
                     };
-
                     await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
                   }
-                } else {
-                  // Exiting thinking phase - send closing tag if needed
-                  if (inThinkingPhase && thinkingTagOpened) {
-                    let closingTag = "";
-
-                    switch (thinkTagsMode) {
-                      case "thinking":
-                        closingTag = "</thinking>";
-                        break;
-                      case "think":
-                        closingTag = "</think>";
-                        break;
-                    }
-
-                    if (closingTag) {
-                      logger.debug("Sending closing thinking tag: %s", closingTag);
-                      const chunk: OpenAIResponse = {
-                        id: `chatcmpl-${Date.now()}`,
-                        object: "chat.completion.chunk",
-                        created: Math.floor(Date.now() / 1000),
-                        model: modelName,
-                        choices: [
-                          {
-                            index: 0,
-                            delta: { content: closingTag },
-                          },
-                        ],
-                      };
-                      await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
-                    }
-
-                    inThinkingPhase = false;
-                    thinkingTagOpened = false;
-                  }
-
-                  // Regular content (non-thinking)
-                  logger.debug("Sending regular content: %s", rawContent);
-
-                  const chunk: OpenAIResponse = {
-                    id: `chatcmpl-${Date.now()}`,
-                    object: "chat.completion.chunk",
-                    created: Math.floor(Date.now() / 1000),
-                    model: modelName,
-                    choices: [
-                      {
-                        index: 0,
-                        delta: { content: rawContent },
-                      },
-                    ],
-                  };
 
-                  await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+                  inThinkingPhase = false;
+                  thinkingTagOpened = false;
                 }
+
+                // Regular content (non-thinking)
+                logger.debug("Sending regular content: %s", rawContent);
+                await writeAnswer(rawContent);
               }
             }
+          }
 
-            // Check for done
-            if (upstreamData.data.done || upstreamData.data.phase === "done") {
-              logger.debug("Detected stream end signal");
-
-              // Send final chunk with usage if available
-              const endChunk: OpenAIResponse = {
-                id: `chatcmpl-${Date.now()}`,
-                object: "chat.completion.chunk",
-                created: Math.floor(Date.now() / 1000),
-                model: modelName,
-                choices: [
-                  {
-                    index: 0,
-                    delta: {},
-                    finish_reason: "stop",
-                  },
-                ],
-                usage: finalUsage || undefined,
-              };
+          // Check for done
+          if (upstreamData.data.done || upstreamData.data.phase === "done") {
+            logger.debug("Detected stream end signal");
 
-              await writer.write(encoder.encode(`data: ${JSON.stringify(endChunk)}\n\n`));
+            const toolOutcome = await finishToolTurn();
+            if (toolOutcome === "continue") {
+              break;
+            }
+            if (toolOutcome === "missing_tool_call") {
+              const errorChunk = {
+                error: {
+                  message: "The model did not call the tool required by tool_choice",
+                  type: "tool_choice_error",
+                },
+              };
+              await writer.write(encoder.encode(`data: ${JSON.stringify(errorChunk)}\n\n`));
               await writer.write(encoder.encode("data: [DONE]\n\n"));
               return finalUsage;
             }
-          } catch (error) {
-            logger.debug("Failed to parse SSE data: %v", error);
+
+            // Send final chunk with usage if available
+            const endChunk: OpenAIResponse = {
+              id: `chatcmpl-${Date.now()}`,
+              object: "chat.completion.chunk",
+              created: Math.floor(Date.now() / 1000),
+              model: modelName,
+              choices: [
+                {
+                  index: 0,
+                  delta: {},
+                  finish_reason: toolOutcome,
+                },
+              ],
+              usage: finalUsage || undefined,
+            };
+
+            await writer.write(encoder.encode(`data: ${JSON.stringify(endChunk)}\n\n`));
+            await writer.write(encoder.encode("data: [DONE]\n\n"));
+            return finalUsage;
           }
+        } catch (error) {
+          logger.debug("Failed to process SSE data: %v", error);
         }
       }
     }
+
+    // Upstream closed without a done event: release any held-back text
+    await writeToolCallEvents(toolCallDetector.end().filter((event) => event.type === "text"));
   } finally {
     writer.close();
   }
@@ -750,137 +896,109 @@ export async function processStreamingResponse(
 // Collect full response for non-streaming mode
 export async function collectFullResponse(
   body: ReadableStream<Uint8Array>,
-  thinkTagsMode: "strip" | "thinking" | "think" | "raw" | "separate" = THINK_TAGS_MODE as
-    | "strip"
-    | "thinking"
-    | "think"
-    | "raw"
-    | "separate",
+  thinkTagsMode: ThinkTagsMode = resolveThinkTagsMode(CONFIG.THINK_TAGS_MODE),
 ): Promise<{ content: string; reasoning_content?: string; usage: Usage | null }> {
-  const reader = body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
   let fullContent = "";
   let fullReasoning = "";
   let accumulatedThinking = "";
   let finalUsage: Usage | null = null;
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const dataStr = line.substring(6);
-          if (dataStr === "") continue;
-
-          try {
-            const upstreamData = JSON.parse(dataStr) as UpstreamData;
-
-            // Capture usage information if present
-            if (upstreamData.data.usage) {
-              finalUsage = upstreamData.data.usage;
-              logger.debug(
-                "Captured usage data in non-streaming: prompt=%d, completion=%d, total=%d",
-                finalUsage.prompt_tokens,
-                finalUsage.completion_tokens,
-                finalUsage.total_tokens,
-              );
-            }
+  for await (const upstreamData of readUpstreamEvents(body)) {
+    try {
+      // Capture usage information if present
+      if (upstreamData.data.usage) {
+        finalUsage = upstreamData.data.usage;
+        logger.debug(
+          "Captured usage data in non-streaming: prompt=%d, completion=%d, total=%d",
+          finalUsage.prompt_tokens,
+          finalUsage.completion_tokens,
+          finalUsage.total_tokens,
+        );
+      }
 
-            // Handle edit_content (complete thinking block)
-            if (upstreamData.data.edit_content) {
-              logger.debug("Received edit_content in non-streaming, length: %d", upstreamData.data.edit_content.length);
-
-              if (thinkTagsMode === "separate") {
-                // For separate mode, extract reasoning and content separately
-                if (!fullReasoning) {
-                  const transformed = transformThinking(upstreamData.data.edit_content, thinkTagsMode);
-                  if (typeof transformed === "object") {
-                    fullReasoning = transformed.reasoning;
-                    logger.debug("Extracted reasoning from edit_content, length: %d", fullReasoning.length);
-
-                    // Also add the content part from edit_content to fullContent
-                    if (transformed.content && transformed.content.trim() !== "") {
-                      fullContent += transformed.content || "";
-                      logger.debug(
-                        "Added content part from edit_content, length: %d",
-                        (transformed.content || "").length,
-                      );
-                    }
-                  }
-                }
-              } else {
-                // For other modes, process the thinking content and add to fullContent
-                const transformed = transformThinking(upstreamData.data.edit_content, thinkTagsMode);
-                const processedContent = typeof transformed === "string" ? transformed : transformed.content;
-
-                if (processedContent && processedContent.trim() !== "") {
-                  fullContent += processedContent || "";
-                  logger.debug(
-                    "Added processed edit_content to fullContent, length: %d",
-                    (processedContent || "").length,
-                  );
-                }
+      // Handle edit_content (complete thinking block)
+      if (upstreamData.data.edit_content) {
+        logger.debug("Received edit_content in non-streaming, length: %d", upstreamData.data.edit_content.length);
+
+        if (thinkTagsMode === "separate") {
+          // For separate mode, extract reasoning and content separately
+          if (!fullReasoning) {
+            const transformed = transformThinking(upstreamData.data.edit_content, thinkTagsMode);
+            if (typeof transformed === "object") {
+              fullReasoning = transformed.reasoning;
+              logger.debug("Extracted reasoning from edit_content, length: %d", fullReasoning.length);
+
+              // Also add the content part from edit_content to fullContent
+              if (transformed.content && transformed.content.trim() !== "") {
+                fullContent += transformed.content || "";
+                logger.debug(
+                  "Added content part from edit_content, length: %d",
+                  (transformed.content || "").length,
+                );
               }
             }
+          }
+        } else {
+          // For other modes, process the thinking content and add to fullContent
+          const transformed = transformThinking(upstreamData.data.edit_content, thinkTagsMode);
+          const processedContent = typeof transformed === "string" ? transformed : transformed.content;
 
-            if (upstreamData.data.delta_content && upstreamData.data.delta_content !== "") {
-              const rawContent = upstreamData.data.delta_content || "";
-              const isThinking = upstreamData.data.phase === "thinking";
-
-              if (thinkTagsMode === "separate") {
-                if (isThinking) {
-                  accumulatedThinking += rawContent;
-                } else {
-                  fullContent += rawContent;
-                }
-              } else {
-                // For non-separate modes, only process non-thinking content
-                // Thinking content is handled by edit_content
-                if (!isThinking) {
-                  fullContent += rawContent;
-                }
-              }
-            }
+          if (processedContent && processedContent.trim() !== "") {
+            fullContent += processedContent || "";
+            logger.debug(
+              "Added processed edit_content to fullContent, length: %d",
+              (processedContent || "").length,
+            );
+          }
+        }
+      }
 
-            if (upstreamData.data.done || upstreamData.data.phase === "done") {
-              logger.debug("Detected completion signal, stopping collection");
+      if (upstreamData.data.delta_content && upstreamData.data.delta_content !== "") {
+        const rawContent = upstreamData.data.delta_content || "";
+        const isThinking = upstreamData.data.phase === "thinking";
 
-              // Process accumulated thinking if in separate mode (only if not already set from edit_content)
-              if (thinkTagsMode === "separate" && accumulatedThinking && !fullReasoning) {
-                const transformed = transformThinking(accumulatedThinking, thinkTagsMode);
-                if (typeof transformed === "object") {
-                  fullReasoning = transformed.reasoning;
-                  logger.debug("Set fullReasoning from accumulated thinking, length: %d", fullReasoning.length);
-                }
-              }
+        if (thinkTagsMode === "separate") {
+          if (isThinking) {
+            accumulatedThinking += rawContent;
+          } else {
+            fullContent += rawContent;
+          }
+        } else {
+          // For non-separate modes, only process non-thinking content
+          // Thinking content is handled by edit_content
+          if (!isThinking) {
+            fullContent += rawContent;
+          }
+        }
+      }
 
-              logger.debug(
-                "collectFullResponse early return - content length: %d, reasoning length: %d",
-                fullContent.length,
-                fullReasoning ? fullReasoning.length : 0,
-              );
+      if (upstreamData.data.done || upstreamData.data.phase === "done") {
+        logger.debug("Detected completion signal, stopping collection");
 
-              return {
-                content: fullContent,
-                reasoning_content: fullReasoning || undefined,
-                usage: finalUsage,
-              };
-            }
-          } catch (_error) {
-            // ignore parse errors
+        // Process accumulated thinking if in separate mode (only if not already set from edit_content)
+        if (thinkTagsMode === "separate" && accumulatedThinking && !fullReasoning) {
+          const transformed = transformThinking(accumulatedThinking, thinkTagsMode);
+          if (typeof transformed === "object") {
+            fullReasoning = transformed.reasoning;
+            logger.debug("Set fullReasoning from accumulated thinking, length: %d", fullReasoning.length);
           }
         }
+
+        logger.debug(
+          "collectFullResponse early return - content length: %d, reasoning length: %d",
+          fullContent.length,
+          fullReasoning ? fullReasoning.length : 0,
+        );
+
+        return {
+          content: fullContent,
+          reasoning_content: fullReasoning || undefined,
+          usage: finalUsage,
+        };
       }
+    } catch (_error) {
+      // ignore malformed events
     }
-  } finally {
-    reader.releaseLock();
   }
 
   // Process accumulated thinking if in separate mode
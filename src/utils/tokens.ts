@@ -0,0 +1,13 @@
+/**
+ * Token counting
+ * Local token counts with gpt-tokenizer, for prompts and answers the upstream reports no usage for
+ */
+
+import { countTokens } from "gpt-tokenizer";
+
+/**
+ * Number of tokens in a text
+ */
+export function countTextTokens(text: string): number {
+  return text ? countTokens(text) : 0;
+}
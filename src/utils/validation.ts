@@ -5,6 +5,7 @@
 
 import type { Message, ModelConfig, Tool } from "../types/definitions.ts";
 import { getAllTools, hasTool } from "../services/tool-registry.ts";
+import { validateSchema } from "./json-schema.ts";
 
 /**
  * Debug logging function - will be injected
@@ -204,48 +205,26 @@ export function processMessages(messages: Message[], modelConfig: ModelConfig):
 function validateToolParameters(
   toolName: string,
   parameters: unknown,
-  schema: { type: string; properties?: Record<string, unknown>; required?: string[] },
+  schema: { type?: string; required?: string[] } & Record<string, unknown>,
 ): void {
-  if (schema.type !== "object") {
-    return; // Only validate object schemas
-  }
-
-  if (typeof parameters !== "object" || parameters === null) {
-    if (schema.required && schema.required.length > 0) {
-      throw new Error(`Tool '${toolName}' requires an object with parameters, but received: ${typeof parameters}`);
-    }
+  const [violation] = validateSchema(parameters, schema).errors;
+  if (!violation) {
     return;
   }
 
-  const params = parameters as Record<string, unknown>;
   const required = schema.required || [];
-  const properties = schema.properties || {};
-
-  // Check required parameters
-  for (const requiredParam of required) {
-    if (!(requiredParam in params)) {
-      throw new Error(
-        `Tool '${toolName}' is missing required parameter: '${requiredParam}'. Required parameters: ${
-          required.join(", ")
-        }`,
-      );
-    }
+  if (violation.keyword === "required" && required.includes(violation.path)) {
+    throw new Error(
+      `Tool '${toolName}' is missing required parameter: '${violation.path}'. Required parameters: ${
+        required.join(", ")
+      }`,
+    );
   }
 
-  // Check parameter types
-  for (const [paramName, paramValue] of Object.entries(params)) {
-    const paramSchema = properties[paramName];
-    if (!paramSchema || typeof paramSchema !== "object") {
-      continue; // Skip validation for unknown parameters
-    }
-
-    const paramType = (paramSchema as { type?: string }).type;
-    if (paramType && typeof paramValue !== paramType) {
-      throw new Error(
-        `Tool '${toolName}' parameter '${paramName}' must be of type ${paramType}, but received ${typeof paramValue}`,
-      );
-    }
+  if (violation.path === "") {
+    throw new Error(`Tool '${toolName}' parameters ${violation.message}`);
   }
+  throw new Error(`Tool '${toolName}' parameter '${violation.path}' ${violation.message}`);
 }
 
 /**
@@ -291,7 +270,7 @@ export function validateTools(
           validateToolParameters(
             toolName,
             toolArguments[i],
-            tool.function.parameters as { type: string; properties?: Record<string, unknown>; required?: string[] },
+            tool.function.parameters as { type?: string; required?: string[] } & Record<string, unknown>,
           );
         }
       }
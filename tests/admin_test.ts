@@ -0,0 +1,169 @@
+/**
+ * Admin API tests
+ * Drives the /admin endpoints for client keys, pool tokens, runtime settings and the audit log
+ */
+
+import { assertEquals } from "assert";
+import { handleAdmin } from "../src/handlers/admin.ts";
+import { authenticateApiKey, MemoryApiKeyStore, setApiKeyStore } from "../src/services/api-keys.ts";
+import {
+  type AdminState,
+  getAuditLog,
+  resetAdminState,
+  setAdminStateWriter,
+  tokenId,
+} from "../src/services/admin-state.ts";
+import { getFeatureFlags } from "../src/services/feature-flags.ts";
+import { tokenPool } from "../src/services/token-pool.ts";
+import { logger, LogLevel } from "../src/utils/logger.ts";
+
+function request(method: string, path: string, body?: unknown): Promise<Response> {
+  return handleAdmin(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: { Authorization: "Bearer admin-secret", "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+  );
+}
+
+// States saved by the admin API, in place of ADMIN_STATE_FILE
+const savedStates: AdminState[] = [];
+
+function withAdmin(test: () => Promise<void>): () => Promise<void> {
+  return async () => {
+    Deno.env.set("ADMIN_KEY", "admin-secret");
+    setApiKeyStore(new MemoryApiKeyStore());
+    setAdminStateWriter((state) => {
+      savedStates.push(state);
+      return Promise.resolve();
+    });
+    resetAdminState();
+    savedStates.length = 0;
+    try {
+      await test();
+    } finally {
+      Deno.env.delete("ADMIN_KEY");
+      setApiKeyStore(null);
+      setAdminStateWriter(null);
+      resetAdminState();
+    }
+  };
+}
+
+Deno.test(
+  "Admin - Create, change, rotate and revoke client keys",
+  withAdmin(async () => {
+    assertEquals((await request("POST", "/admin/keys", { owner: "ops" })).status, 400);
+    assertEquals((await request("POST", "/admin/keys", { name: "CI", enabled: "yes" })).status, 400);
+
+    const created = await request("POST", "/admin/keys", { name: "CI", owner: "ops", allowed_models: ["glm-4.5"] });
+    assertEquals(created.status, 201);
+    const { key, id, key_hash } = await created.json();
+    assertEquals([key.startsWith("sk-"), key_hash], [true, undefined]);
+    assertEquals((await authenticateApiKey(key, "/v1/chat/completions")).ok, true);
+
+    const list = await (await request("GET", "/admin/keys")).json();
+    assertEquals(list.keys.map((record: { id: string; name: string }) => [record.id, record.name]), [[id, "CI"]]);
+
+    const changed = await (await request("PATCH", `/admin/keys/${id}`, { enabled: false })).json();
+    assertEquals([changed.enabled, changed.owner], [false, "ops"]);
+    assertEquals((await authenticateApiKey(key, "/v1/chat/completions")).ok, false);
+    await request("PATCH", `/admin/keys/${id}`, { enabled: true });
+
+    const rotated = await (await request("POST", `/admin/keys/${id}/rotate`)).json();
+    assertEquals(rotated.id, id);
+    assertEquals((await authenticateApiKey(key, "/v1/chat/completions")).ok, false);
+    assertEquals((await authenticateApiKey(rotated.key, "/v1/chat/completions")).ok, true);
+
+    assertEquals(await (await request("DELETE", `/admin/keys/${id}`)).json(), { id, revoked: true });
+    assertEquals((await request("GET", `/admin/keys/${id}`)).status, 404);
+    assertEquals((await authenticateApiKey(rotated.key, "/v1/chat/completions")).ok, false);
+
+    assertEquals(getAuditLog().map((entry) => entry.action), [
+      "key.create",
+      "key.update",
+      "key.update",
+      "key.rotate",
+      "key.revoke",
+    ]);
+    assertEquals(JSON.stringify(getAuditLog()).includes(key), false);
+
+    // Without API_KEYS_FILE or API_KEYS_STORE=kv, keys would be lost on restart
+    setApiKeyStore(null);
+    assertEquals((await request("GET", "/admin/keys")).status, 200);
+    const refused = await request("POST", "/admin/keys", { name: "CI" });
+    assertEquals(refused.status, 409);
+    assertEquals((await refused.json()).error.message.includes("API_KEYS_FILE"), true);
+    assertEquals((await request("DELETE", `/admin/keys/${id}`)).status, 409);
+  }),
+);
+
+Deno.test(
+  "Admin - Pool tokens and anonymous token cache",
+  withAdmin(async () => {
+    const id = await tokenId("admin-test-token");
+    const added = await request("POST", "/admin/tokens", { token: "admin-test-token" });
+    assertEquals([added.status, await added.json()], [201, { id, added: true }]);
+    assertEquals((await request("POST", "/admin/tokens", { token: "admin-test-token" })).status, 409);
+    assertEquals((await request("POST", "/admin/tokens", { token: "" })).status, 400);
+
+    const status = await (await request("GET", "/admin/tokens")).json();
+    const entry = status.tokens.find((token: { id: string }) => token.id === id);
+    assertEquals([entry.prefix, entry.valid, entry.failure_count], ["admin-te", true, 0]);
+    assertEquals(JSON.stringify(status).includes("admin-test-token"), false);
+    assertEquals(tokenPool.getTokens().some((token) => token.token === "admin-test-token"), true);
+
+    assertEquals(await (await request("POST", "/admin/tokens/anonymous/clear")).json(), { cleared: true });
+    assertEquals(tokenPool.getAnonymousTokenExpiry(), null);
+
+    assertEquals(await (await request("DELETE", `/admin/tokens/${id}`)).json(), { id, removed: true });
+    assertEquals((await request("DELETE", `/admin/tokens/${id}`)).status, 404);
+    assertEquals(tokenPool.getTokens().some((token) => token.token === "admin-test-token"), false);
+    assertEquals(getAuditLog().map((entry) => [entry.action, entry.target]), [
+      ["token.add", id],
+      ["token.anonymous_clear", null],
+      ["token.remove", id],
+    ]);
+    assertEquals(savedStates.map((state) => state.tokens_added), [["admin-test-token"], []]);
+
+    // Without ADMIN_STATE_FILE, pool changes would be lost on restart
+    setAdminStateWriter(null);
+    const refused = await request("POST", "/admin/tokens", { token: "admin-test-token" });
+    assertEquals(refused.status, 409);
+    assertEquals((await refused.json()).error.message.includes("ADMIN_STATE_FILE"), true);
+    assertEquals((await request("DELETE", `/admin/tokens/${id}`)).status, 409);
+    assertEquals((await request("POST", "/admin/tokens/anonymous/clear")).status, 200);
+  }),
+);
+
+Deno.test(
+  "Admin - Log level, feature flags and audit log",
+  withAdmin(async () => {
+    const level = logger.getLevel();
+    try {
+      const settings = await (await request("GET", "/admin/settings")).json();
+      assertEquals(settings.features.thinking, true);
+
+      assertEquals((await request("PATCH", "/admin/settings", { log_level: "verbose" })).status, 400);
+      assertEquals((await request("PATCH", "/admin/settings", { features: { unknown: true } })).status, 400);
+      assertEquals((await request("PATCH", "/admin/settings", { features: { thinking: "off" } })).status, 400);
+
+      const changed = await request("PATCH", "/admin/settings", { log_level: "warn", features: { thinking: false } });
+      assertEquals((await changed.json()).log_level, "warn");
+      assertEquals([logger.getLevel(), getFeatureFlags().thinking], [LogLevel.WARN, false]);
+
+      const audit = await (await request("GET", "/admin/audit?limit=1")).json();
+      assertEquals(audit.entries.length, 1);
+      assertEquals([audit.entries[0].action, audit.entries[0].details], ["settings.update", {
+        changes: { log_level: "warn", features: { thinking: false } },
+      }]);
+
+      setAdminStateWriter(null);
+      assertEquals((await request("PATCH", "/admin/settings", { log_level: "debug" })).status, 409);
+      assertEquals(logger.getLevel(), LogLevel.WARN);
+    } finally {
+      logger.setLevel(level);
+    }
+  }),
+);
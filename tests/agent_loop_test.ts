@@ -0,0 +1,143 @@
+/**
+ * Native tool agent loop tests
+ * Feeds fake upstream turns through the loop without calling the real upstream
+ */
+
+import { assertEquals } from "assert";
+import { clearTools, registerTool } from "../src/services/tool-registry.ts";
+import {
+  collectWithNativeTools,
+  createNativeToolLoop,
+  type NativeToolCallHandler,
+  resolveMaxToolIterations,
+} from "../src/services/agent-loop.ts";
+import { processStreamingResponse } from "../src/utils/stream.ts";
+
+function upstreamTurn(chunks: string[], completionTokens: number): ReadableStream<Uint8Array> {
+  const events: Array<{ type: string; data: Record<string, unknown> }> = chunks.map((chunk) => ({
+    type: "chat:completion",
+    data: { delta_content: chunk, phase: "answer" },
+  }));
+  events.push({
+    type: "chat:completion",
+    data: {
+      delta_content: "",
+      phase: "done",
+      done: true,
+      usage: { prompt_tokens: 10, completion_tokens: completionTokens, total_tokens: 10 + completionTokens },
+    },
+  });
+  return new Response(events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("")).body!;
+}
+
+const toolCallTurn = ['Checking.\n```json\n{"name": "add", ', '"arguments": {"a": 2, "b": 3}}\n```'];
+
+function fakeLoop(calls: string[]): NativeToolCallHandler {
+  return (toolCalls) => {
+    calls.push(...toolCalls.map((toolCall) => toolCall.function.name));
+    return Promise.resolve({
+      results: toolCalls.map((toolCall) => ({ toolCall, result: "5" })),
+      body: upstreamTurn(["The sum is ", "5."], 4),
+    });
+  };
+}
+
+async function streamChoices(body: ReadableStream<Uint8Array>, handler: NativeToolCallHandler) {
+  const stream = new TransformStream();
+  const output = new Response(stream.readable).text();
+  await processStreamingResponse(
+    body,
+    stream.writable.getWriter(),
+    new TextEncoder(),
+    "glm-4.5",
+    "think",
+    undefined,
+    handler,
+  );
+
+  return (await output)
+    .split("\n")
+    .filter((line) => line.startsWith("data: {"))
+    .map((line) => JSON.parse(line.substring(6)).choices[0]);
+}
+
+Deno.test("Agent loop - Non-streaming continues until the model answers", async () => {
+  clearTools();
+  registerTool("add", () => 5, "Add numbers", { type: "object" });
+
+  const calls: string[] = [];
+  const result = await collectWithNativeTools(upstreamTurn(toolCallTurn, 6), "think", undefined, fakeLoop(calls));
+
+  assertEquals(calls, ["add"]);
+  assertEquals(result.content, "The sum is 5.");
+  assertEquals(result.toolSteps.length, 1);
+  assertEquals(result.usage, { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 });
+  clearTools();
+});
+
+Deno.test("Agent loop - Streaming emits the call and the final answer", async () => {
+  clearTools();
+  registerTool("add", () => 5, "Add numbers", { type: "object" });
+
+  const deltas = await streamChoices(upstreamTurn(toolCallTurn, 6), fakeLoop([]));
+
+  const toolCall = deltas.find((choice) => choice.delta.tool_calls);
+  assertEquals(toolCall.delta.tool_calls[0].function.name, "add");
+
+  // The result stays server-side, the client only sees standard delta fields
+  assertEquals(deltas.every((choice) => Object.keys(choice.delta).every((key) => key !== "tool_result")), true);
+  const afterCall = deltas.slice(deltas.indexOf(toolCall) + 1);
+  assertEquals(afterCall.map((choice) => choice.delta.content ?? "").join(""), "The sum is 5.");
+  assertEquals(afterCall[afterCall.length - 1].finish_reason, "stop");
+  clearTools();
+});
+
+Deno.test("Agent loop - Streaming emits parallel calls with their indexes", async () => {
+  clearTools();
+  registerTool("add", () => 5, "Add numbers", { type: "object" });
+
+  const parallelTurn = [
+    '```json\n{"name": "add", "arguments": {"a": 2, "b": 3}}\n```\n',
+    '```json\n{"name": "add", "arguments": {"a": 1, "b": 4}}\n```',
+  ];
+  const calls: string[] = [];
+  const deltas = (await streamChoices(upstreamTurn(parallelTurn, 6), fakeLoop(calls))).map((choice) => choice.delta);
+
+  assertEquals(calls, ["add", "add"]);
+  const toolCalls = deltas.find((delta) => delta.tool_calls).tool_calls;
+  assertEquals(toolCalls.map((call: { index: number }) => call.index), [0, 1]);
+  assertEquals(toolCalls[0].id === toolCalls[1].id, false);
+  clearTools();
+});
+
+Deno.test("Agent loop - Iteration limit", async () => {
+  assertEquals(resolveMaxToolIterations(2), 2);
+  assertEquals(resolveMaxToolIterations(0), 0);
+  assertEquals(resolveMaxToolIterations(-1), 5);
+  assertEquals(resolveMaxToolIterations("3"), 5);
+
+  // With a limit of 0 the tool is not executed and upstream is not called again
+  const handler = createNativeToolLoop(
+    { stream: false, model: "glm-4.5", messages: [], params: {}, features: {}, chat_id: "chat_test" },
+    "token",
+    0,
+  );
+  const step = await handler([{ id: "call_1", type: "function", function: { name: "add", arguments: "{}" } }], "");
+  assertEquals(step, null);
+});
+
+Deno.test("Agent loop - Calls left at the iteration limit are reported instead of returned", async () => {
+  clearTools();
+  registerTool("add", () => 5, "Add numbers", { type: "object" });
+  const limitReached: NativeToolCallHandler = () => Promise.resolve(null);
+  const notice = "[Tool iteration limit reached, not executed: add]";
+
+  const result = await collectWithNativeTools(upstreamTurn(toolCallTurn, 6), "think", undefined, limitReached);
+  assertEquals(result.content, `Checking.\n\n${notice}`);
+
+  const deltas = await streamChoices(upstreamTurn(toolCallTurn, 6), limitReached);
+  assertEquals(deltas.some((choice) => choice.delta.tool_calls), false);
+  assertEquals(deltas.map((choice) => choice.delta.content ?? "").join(""), `Checking.\n\n\n${notice}`);
+  assertEquals(deltas[deltas.length - 1].finish_reason, "stop");
+  clearTools();
+});
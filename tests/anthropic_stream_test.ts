@@ -0,0 +1,138 @@
+/**
+ * Anthropic streaming tests
+ * Replays recorded upstream SSE fixtures through the Anthropic event converter
+ */
+
+import { assertEquals } from "assert";
+import { processAnthropicStream } from "../anthropic.ts";
+import { clearTools, registerTool } from "../src/services/tool-registry.ts";
+import type { NativeToolCallHandler } from "../src/services/agent-loop.ts";
+
+function sseBody(text: string): ReadableStream<Uint8Array> {
+  return new Response(text).body!;
+}
+
+async function collectEvents(
+  body: ReadableStream<Uint8Array>,
+  options = {},
+): Promise<Array<{ event: string; data: Record<string, unknown> }>> {
+  const events: Array<{ event: string; data: Record<string, unknown> }> = [];
+  for await (const chunk of processAnthropicStream(body, "claude-sonnet-4-20250514", "test", options)) {
+    const [eventLine, dataLine] = chunk.trim().split("\n");
+    events.push({ event: eventLine.substring(7), data: JSON.parse(dataLine.substring(6)) });
+  }
+  return events;
+}
+
+Deno.test("Anthropic stream - Converts recorded upstream fixture", async () => {
+  const fixture = await Deno.readTextFile(new URL("./fixtures/thing.sse.txt", import.meta.url));
+  const events = await collectEvents(sseBody(fixture), { inputTokens: 12 });
+
+  assertEquals(events[0].event, "message_start");
+  assertEquals((events[0].data.message as { usage: { input_tokens: number } }).usage.input_tokens, 12);
+  assertEquals(events[1].event, "ping");
+
+  const blockStarts = events.filter((e) => e.event === "content_block_start");
+  assertEquals(blockStarts.map((e) => (e.data.content_block as { type: string }).type), ["thinking", "text"]);
+  assertEquals(blockStarts.map((e) => e.data.index), [0, 1]);
+  assertEquals(events.filter((e) => e.event === "content_block_stop").length, 2);
+
+  const text = events
+    .filter((e) => e.event === "content_block_delta" && e.data.index === 1)
+    .map((e) => (e.data.delta as { text: string }).text)
+    .join("");
+  assertEquals(text.startsWith("Hey there! I'm doing great"), true);
+  assertEquals(text.endsWith("What can I do for you today?"), true);
+
+  const messageDelta = events[events.length - 2];
+  assertEquals(messageDelta.event, "message_delta");
+  assertEquals((messageDelta.data.delta as { stop_reason: string }).stop_reason, "end_turn");
+  assertEquals((messageDelta.data.usage as { output_tokens: number }).output_tokens, 1565);
+  assertEquals(events[events.length - 1].event, "message_stop");
+});
+
+Deno.test("Anthropic stream - Inlines thinking as text in think mode", async () => {
+  const fixture = await Deno.readTextFile(new URL("./fixtures/thing.sse.txt", import.meta.url));
+  const events = await collectEvents(sseBody(fixture), { thinkTagsMode: "think" });
+
+  const blockStarts = events.filter((e) => e.event === "content_block_start");
+  assertEquals(blockStarts.map((e) => (e.data.content_block as { type: string }).type), ["text"]);
+
+  const text = events
+    .filter((e) => e.event === "content_block_delta")
+    .map((e) => (e.data.delta as { text: string }).text)
+    .join("");
+  assertEquals(text.startsWith("<think>\n\n1.  **Analyze the User's Input:**\n    *"), true);
+  assertEquals(text.includes("</think>Hey there! I'm doing great"), true);
+});
+
+Deno.test("Anthropic stream - Emits tool_use block for client tool call", async () => {
+  const lines = [
+    { data: { delta_content: "Let me check.\n", phase: "answer" } },
+    { data: { delta_content: '```json\n{"name": "get_weather", ', phase: "answer" } },
+    { data: { delta_content: '"arguments": {"city": "Paris"}}\n```', phase: "answer" } },
+    { data: { delta_content: "", phase: "done", done: true } },
+  ];
+  const body = sseBody(lines.map((l) => `data: ${JSON.stringify({ type: "chat:completion", ...l })}\n\n`).join(""));
+  const events = await collectEvents(body, {
+    clientTools: [{ type: "function", function: { name: "get_weather", parameters: { type: "object" } } }],
+  });
+
+  const toolStart = events.find((e) =>
+    e.event === "content_block_start" && (e.data.content_block as { type: string }).type === "tool_use"
+  );
+  assertEquals((toolStart?.data.content_block as { name: string }).name, "get_weather");
+
+  const inputDelta = events.find((e) => (e.data.delta as { type?: string })?.type === "input_json_delta");
+  assertEquals(JSON.parse((inputDelta?.data.delta as { partial_json: string }).partial_json), { city: "Paris" });
+
+  const messageDelta = events.find((e) => e.event === "message_delta");
+  assertEquals((messageDelta?.data.delta as { stop_reason: string }).stop_reason, "tool_use");
+});
+
+Deno.test("Anthropic stream - Reports upstream errors as error events", async () => {
+  const body = sseBody(
+    `data: ${JSON.stringify({ type: "chat:completion", data: { error: { detail: "boom", code: 500 } } })}\n\n`,
+  );
+  const events = await collectEvents(body);
+  assertEquals(events[events.length - 1].event, "error");
+});
+
+Deno.test("Anthropic stream - Native tool results stay out of the assistant message", async () => {
+  clearTools();
+  registerTool("add", () => 5, "Add numbers", { type: "object" });
+  const turn = (chunks: string[]) =>
+    sseBody(
+      [...chunks.map((chunk) => ({ delta_content: chunk, phase: "answer" })), { phase: "done", done: true }]
+        .map((data) => `data: ${JSON.stringify({ type: "chat:completion", data })}\n\n`).join(""),
+    );
+  const toolCallTurn = ['Checking.\n```json\n{"name": "add", "arguments": {"a": 2, "b": 3}}\n```'];
+  const blockTypes = (events: Array<{ event: string; data: Record<string, unknown> }>) =>
+    events
+      .filter((e) => e.event === "content_block_start")
+      .map((e) => (e.data.content_block as { type: string }).type);
+
+  try {
+    const onNativeToolCall: NativeToolCallHandler = (toolCalls) =>
+      Promise.resolve({
+        results: toolCalls.map((toolCall) => ({ toolCall, result: "5" })),
+        body: turn(["The sum is 5."]),
+      });
+    assertEquals(blockTypes(await collectEvents(turn(toolCallTurn), { onNativeToolCall })), [
+      "text",
+      "server_tool_use",
+      "text",
+    ]);
+
+    // At the iteration limit the call is not shown and a notice explains why
+    const limited = await collectEvents(turn(toolCallTurn), { onNativeToolCall: () => Promise.resolve(null) });
+    assertEquals(blockTypes(limited), ["text"]);
+    const text = limited
+      .filter((e) => e.event === "content_block_delta")
+      .map((e) => (e.data.delta as { text: string }).text)
+      .join("");
+    assertEquals(text.endsWith("[Tool iteration limit reached, not executed: add]"), true);
+  } finally {
+    clearTools();
+  }
+});
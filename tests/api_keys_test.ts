@@ -0,0 +1,137 @@
+/**
+ * API key store tests
+ * Hashed key storage in memory, files and Deno KV, and authentication of keys, routes and models
+ */
+
+import { assertEquals } from "assert";
+import {
+  type ApiKeyRecord,
+  authenticateApiKey,
+  createApiKey,
+  extractApiKey,
+  FileApiKeyStore,
+  hashApiKey,
+  isModelAllowed,
+  KvApiKeyStore,
+  MemoryApiKeyStore,
+  setApiKeyStore,
+} from "../src/services/api-keys.ts";
+import { handleModels } from "../src/handlers/models.ts";
+import { handleChatCompletions } from "../src/handlers/openai.ts";
+
+function failure(result: Awaited<ReturnType<typeof authenticateApiKey>>): [number, string] | null {
+  return result.ok ? null : [result.status, result.message];
+}
+
+Deno.test("API keys - Creation and authentication", async () => {
+  setApiKeyStore(new MemoryApiKeyStore());
+  try {
+    const { key, record } = await createApiKey({
+      name: "Reporting",
+      owner: "data@example.com",
+      allowed_models: ["glm-4.5*"],
+      allowed_routes: ["/v1/chat/completions", "/v1/models"],
+    });
+    assertEquals(key.startsWith("sk-") && key.length > 30, true);
+    assertEquals(record.key_hash, await hashApiKey(key));
+    assertEquals(record.key_prefix, key.substring(0, 7));
+    assertEquals(JSON.stringify(record).includes(key), false);
+
+    const auth = await authenticateApiKey(key, "/v1/chat/completions");
+    assertEquals(auth.ok && auth.key.id, record.id);
+    assertEquals(failure(await authenticateApiKey(key, "/anthropic/v1/messages")), [
+      403,
+      "API key may not use /anthropic/v1/messages",
+    ]);
+    assertEquals(failure(await authenticateApiKey(null, "/v1/models")), [401, "Missing API key"]);
+    assertEquals(failure(await authenticateApiKey("sk-guess", "/v1/models")), [401, "Invalid API key"]);
+
+    // DEFAULT_KEY is honoured only when set, and never as the placeholder of the examples
+    assertEquals(failure(await authenticateApiKey("sk-your-key", "/v1/models")), [401, "Invalid API key"]);
+    Deno.env.set("DEFAULT_KEY", "sk-your-key");
+    assertEquals(failure(await authenticateApiKey("sk-your-key", "/v1/models")), [401, "Invalid API key"]);
+    Deno.env.set("DEFAULT_KEY", "sk-default-for-tests");
+    const fallback = await authenticateApiKey("sk-default-for-tests", "/anthropic/v1/messages");
+    assertEquals(fallback.ok && [fallback.key.id, fallback.key.key_prefix], ["default", "sk-defa"]);
+
+    assertEquals(isModelAllowed(record, "GLM-4.5V"), true);
+    assertEquals(isModelAllowed(record, "glm-4.6", "GLM-4-6-API-V1"), false);
+
+    const disabled: ApiKeyRecord = { ...record, id: "key_disabled", enabled: false, key_hash: await hashApiKey("a") };
+    const expired: ApiKeyRecord = {
+      ...record,
+      id: "key_expired",
+      expires_at: "2020-01-01T00:00:00.000Z",
+      key_hash: await hashApiKey("b"),
+    };
+    const store = new MemoryApiKeyStore();
+    await store.save(disabled);
+    await store.save(expired);
+    setApiKeyStore(store);
+    assertEquals(failure(await authenticateApiKey("a", "/v1/models")), [401, "API key is disabled"]);
+    assertEquals(failure(await authenticateApiKey("b", "/v1/models")), [401, "API key has expired"]);
+
+    let error = "";
+    await createApiKey({ name: " ", allowed_models: [] }).catch((e: Error) => error = e.message);
+    assertEquals(error, "name must be a non-empty string");
+  } finally {
+    Deno.env.delete("DEFAULT_KEY");
+    setApiKeyStore(null);
+  }
+});
+
+Deno.test("API keys - Header extraction and handlers", async () => {
+  const request = (headers: Record<string, string>, path = "/v1/models") =>
+    new Request(`http://localhost${path}`, { method: path === "/v1/models" ? "GET" : "POST", headers });
+  assertEquals(extractApiKey(request({ Authorization: "Bearer sk-a" })), "sk-a");
+  assertEquals(extractApiKey(request({ "x-api-key": "sk-b" })), "sk-b");
+  assertEquals(extractApiKey(request({ Authorization: "Basic abc" })), null);
+
+  const store = new MemoryApiKeyStore();
+  setApiKeyStore(store);
+  try {
+    const { key } = await createApiKey({ name: "Limited", allowed_models: ["GLM-4.5"] });
+    const models = await (await handleModels(request({ "x-api-key": key }))).json();
+    assertEquals(models.data.map((model: { id: string }) => model.id), ["GLM-4.5"]);
+
+    assertEquals((await handleModels(request({}))).status, 401);
+    const missing = await handleChatCompletions(request({}, "/v1/chat/completions"));
+    assertEquals([missing.status, await missing.text()], [401, "Missing API key"]);
+    const forbidden = await handleChatCompletions(
+      new Request("http://localhost/v1/chat/completions", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${key}` },
+        body: JSON.stringify({ model: "GLM-4.6", messages: [{ role: "user", content: "Hi" }] }),
+      }),
+    );
+    assertEquals([forbidden.status, await forbidden.text()], [403, "API key may not use model GLM-4.6"]);
+  } finally {
+    setApiKeyStore(null);
+  }
+});
+
+Deno.test("API keys - File and Deno KV stores", async () => {
+  // Plain keys in the file are hashed when it is read
+  const file = new FileApiKeyStore(new URL("./fixtures/api-keys.json", import.meta.url).pathname);
+  const ci = await file.findByHash(await hashApiKey("sk-fixture-ci-key"));
+  assertEquals([ci?.id, ci?.owner, ci?.key_prefix], ["key_ci", "build@example.com", "sk-fixt"]);
+  assertEquals(ci?.allowed_models, ["*"]);
+  assertEquals((await file.list()).map((record) => [record.name, record.enabled]), [["CI", true], ["Retired", false]]);
+
+  const kv = new KvApiKeyStore(":memory:");
+  try {
+    setApiKeyStore(kv);
+    const { key, record } = await createApiKey({ name: "KV" });
+    assertEquals((await authenticateApiKey(key, "/v1/models")).ok, true);
+
+    // Rotating the key replaces the hash index entry
+    await kv.save({ ...record, key_hash: await hashApiKey("sk-rotated") });
+    assertEquals(await kv.findByHash(record.key_hash), null);
+    assertEquals((await kv.findByHash(await hashApiKey("sk-rotated")))?.id, record.id);
+    assertEquals(await kv.delete(record.id), true);
+    assertEquals([await kv.list(), await kv.delete(record.id)], [[], false]);
+  } finally {
+    setApiKeyStore(null);
+    await kv.close();
+  }
+});
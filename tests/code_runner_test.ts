@@ -0,0 +1,92 @@
+/**
+ * Code runner tests
+ * Runs code in the run_code sandbox and checks its limits
+ */
+
+import { assertEquals, assertRejects, assertStringIncludes, assertThrows } from "assert";
+import { parseRunCodePermissions, runCode, type RunCodeLimits } from "../src/services/code-runner.ts";
+
+const canRun = (await Deno.permissions.query({ name: "run" })).state === "granted";
+
+const limits: RunCodeLimits = { timeoutMs: 10000, cpuMs: 5000, memoryMb: 64, maxOutput: 4096, permissions: "" };
+
+Deno.test("Code runner - Permission spec", () => {
+  assertEquals(parseRunCodePermissions(""), { flags: [], env: [] });
+  assertEquals(parseRunCodePermissions("net=api.example.com; read=/srv/data ;env=A,B"), {
+    flags: ["--allow-net=api.example.com", "--allow-read=/srv/data", "--allow-env=A,B"],
+    env: ["A", "B"],
+  });
+  assertThrows(() => parseRunCodePermissions("run"), Error, "'run' cannot be granted");
+  assertThrows(() => parseRunCodePermissions("net;all"), Error, "'all' cannot be granted");
+});
+
+Deno.test("Code runner - Rejected code", async () => {
+  await assertRejects(() => runCode({ code: " " }, limits), Error, "Code is required");
+  await assertRejects(
+    () => runCode({ code: 'const m = await import("/etc/passwd");' }, limits),
+    Error,
+    "must not use import",
+  );
+});
+
+Deno.test({
+  name: "Code runner - Result, output and errors",
+  ignore: !canRun,
+  fn: async () => {
+    const run = await runCode({
+      code:
+        "const values: number[] = input.values;\nconsole.log('count', values.length);\nreturn { sum: values.reduce((a, b) => a + b, 0), big: 2n ** 70n };",
+      input: { values: [1, 2, 3] },
+    }, limits);
+    assertEquals(run.ok, true);
+    assertEquals(run.result, { sum: 6, big: "1180591620717411303424" });
+    assertEquals(run.stdout, "count 3\n");
+
+    const thrown = await runCode({ code: "\nthrow new Error('bad data');", language: "javascript" }, limits);
+    assertEquals(thrown.ok, false);
+    assertStringIncludes(thrown.error!, "bad data");
+    assertStringIncludes(thrown.error!, "at code:2:");
+
+    const denied = await runCode({ code: "return await Deno.readTextFile('/etc/hostname');" }, limits);
+    assertEquals(denied.ok, false);
+    assertStringIncludes(denied.error!, "read access");
+
+    const secret = "run-code-test-secret";
+    Deno.env.set("RUN_CODE_TEST_SECRET", secret);
+    const env = await runCode({ code: "return Deno.env.get('RUN_CODE_TEST_SECRET') ?? null;" }, {
+      ...limits,
+      permissions: "env",
+    });
+    Deno.env.delete("RUN_CODE_TEST_SECRET");
+    assertEquals(env.result, null);
+
+    const syntax = await runCode({ code: "return (;" }, limits);
+    assertEquals(syntax.ok, false);
+    assertStringIncludes(syntax.error!, "parse");
+  },
+});
+
+Deno.test({
+  name: "Code runner - Limits",
+  ignore: !canRun,
+  fn: async () => {
+    const timeout = await runCode({ code: "await new Promise(() => setTimeout(() => {}, 60000));" }, {
+      ...limits,
+      timeoutMs: 300,
+    });
+    assertEquals([timeout.ok, timeout.limit], [false, "timeout"]);
+
+    const output = await runCode({ code: "while (true) console.log('x'.repeat(100));" }, limits);
+    assertEquals([output.ok, output.limit], [false, "output"]);
+    assertEquals(output.stdout.length, 4096);
+
+    const memory = await runCode({ code: "const a = []; while (true) a.push(new Array(100000).fill(1));" }, {
+      ...limits,
+      memoryMb: 32,
+    });
+    assertEquals([memory.ok, memory.limit], [false, "memory"]);
+
+    const cpu = await runCode({ code: "while (true) {}" }, { ...limits, cpuMs: 300 });
+    assertEquals([cpu.ok, cpu.limit], [false, "cpu"]);
+  },
+});
@@ -0,0 +1,146 @@
+/**
+ * Date and time tests
+ * Time zone conversion, date arithmetic, natural-language parsing and formatting
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "assert";
+import {
+  addBusinessDays,
+  addDuration,
+  describeDate,
+  diffDates,
+  formatDate,
+  parseDate,
+  parseDuration,
+  resolveTimeZone,
+  toIsoString,
+} from "../src/utils/date-time.ts";
+import { clearTools, executeTool } from "../src/services/tool-registry.ts";
+import { initializeBuiltinTools } from "../src/services/init-tools.ts";
+
+// Wednesday 2025-03-05 11:30 in Berlin
+const REFERENCE = Date.parse("2025-03-05T10:30:00Z");
+const BERLIN = "Europe/Berlin";
+
+function parse(text: string, timeZone = BERLIN): string {
+  return toIsoString(parseDate(text, { timeZone, reference: REFERENCE }), timeZone);
+}
+
+Deno.test("Date and time - Time zones and DST", () => {
+  assertEquals(resolveTimeZone("asia/tokyo"), "Asia/Tokyo");
+  assertThrows(() => resolveTimeZone("Mars/Olympus"), Error, "Unknown time zone 'Mars/Olympus'");
+
+  const summer = describeDate(Date.parse("2025-07-01T12:00:00Z"), "America/New_York");
+  assertEquals([summer.iso, summer.utc_offset, summer.abbreviation, summer.dst], [
+    "2025-07-01T08:00:00-04:00",
+    "-04:00",
+    "EDT",
+    true,
+  ]);
+  assertEquals(describeDate(REFERENCE, "Asia/Kolkata").iso, "2025-03-05T16:00:00+05:30");
+
+  // 02:30 does not exist on the spring-forward day, 24 hours across it are 25 wall-clock hours
+  assertEquals(parse("2025-03-30 02:30"), "2025-03-30T03:30:00+02:00");
+  const before = parseDate("2025-03-29 12:00", { timeZone: BERLIN });
+  assertEquals(toIsoString(addDuration(before, parseDuration("1 day"), BERLIN), BERLIN), "2025-03-30T12:00:00+02:00");
+  assertEquals(toIsoString(addDuration(before, parseDuration("PT24H"), BERLIN), BERLIN), "2025-03-30T13:00:00+02:00");
+});
+
+Deno.test("Date and time - Arithmetic and differences", () => {
+  assertEquals(parseDuration("2 weeks, 3 days and 4 hours"), {
+    years: 0,
+    months: 0,
+    weeks: 2,
+    days: 3,
+    hours: 4,
+    minutes: 0,
+    seconds: 0,
+  });
+  assertEquals(parseDuration("1h30m").minutes, 30);
+  assertEquals(parseDuration("-P1M").months, -1);
+  assertThrows(() => parseDuration("soon"), Error);
+
+  // Month ends are clamped
+  const endOfJanuary = parseDate("2024-01-31", { timeZone: "UTC" });
+  assertEquals(
+    toIsoString(addDuration(endOfJanuary, parseDuration("1 month"), "UTC"), "UTC"),
+    "2024-02-29T00:00:00+00:00",
+  );
+
+  const holidays = ["2025-03-03"];
+  assertEquals(toIsoString(addBusinessDays(REFERENCE, 3, BERLIN), BERLIN), "2025-03-10T11:30:00+01:00");
+  assertEquals(toIsoString(addBusinessDays(REFERENCE, -3, BERLIN, holidays), BERLIN), "2025-02-27T11:30:00+01:00");
+
+  const difference = diffDates(
+    parseDate("2024-01-31", { timeZone: "UTC" }),
+    parseDate("2025-03-01T05:06:07Z", { timeZone: "UTC" }),
+    "UTC",
+  );
+  assertEquals(
+    [difference.years, difference.months, difference.days, difference.hours, difference.minutes, difference.seconds],
+    [1, 1, 1, 5, 6, 7],
+  );
+  assertEquals(difference.total_days, 395.2126);
+  assertEquals(diffDates(REFERENCE, parseDate("2025-03-14", { timeZone: BERLIN }), BERLIN, holidays).business_days, 7);
+
+  const centuries = diffDates(
+    parseDate("1776-07-04", { timeZone: "UTC" }),
+    parseDate("2026-07-04", { timeZone: "UTC" }),
+    "UTC",
+  );
+  assertEquals([centuries.years, centuries.business_days], [250, null]);
+});
+
+Deno.test("Date and time - Natural-language parsing and formatting", () => {
+  assertEquals(parse("tomorrow 3pm"), "2025-03-06T15:00:00+01:00");
+  assertEquals(parse("next friday at 9:30"), "2025-03-07T09:30:00+01:00");
+  assertEquals(parse("end of next month"), "2025-04-30T23:59:59+02:00");
+  assertEquals(parse("in 2 hours"), "2025-03-05T13:30:00+01:00");
+  assertEquals(parse("3 days ago"), "2025-03-02T11:30:00+01:00");
+  assertEquals(parse("March 5, 2024 noon"), "2024-03-05T12:00:00+01:00");
+  assertEquals(parse("1/2/2025"), "2025-01-02T00:00:00+01:00");
+  assertEquals(parse("2025-03-05T08:00:00-05:00"), "2025-03-05T14:00:00+01:00");
+  assertEquals(parse("1741170600"), "2025-03-05T11:30:00+01:00");
+  assertThrows(() => parse("the day the music died"), Error);
+
+  const options = { timeZone: BERLIN, now: REFERENCE };
+  assertEquals(formatDate(REFERENCE, "yyyy-MM-dd HH:mm XXX", options), "2025-03-05 11:30 +01:00");
+  assertEquals(
+    formatDate(REFERENCE, "EEEE d MMMM 'um' H 'Uhr'", { ...options, locale: "de-DE" }),
+    "Mittwoch 5 März um 11 Uhr",
+  );
+  assertEquals(formatDate(REFERENCE + 3 * 86_400_000, "relative", options), "in 3 days");
+  assertEquals(formatDate(REFERENCE, "unix", options), "1741170600");
+});
+
+Deno.test("Date and time - Tools", async () => {
+  clearTools();
+  initializeBuiltinTools();
+
+  assertEquals(typeof await executeTool("get_current_time", {}), "string");
+  const tokyo = await executeTool("get_current_time", { timezone: "Asia/Tokyo" }) as { utc_offset: string };
+  assertEquals(tokyo.utc_offset, "+09:00");
+
+  const converted = await executeTool("convert_timezone", {
+    datetime: "2025-03-05 09:00",
+    from_timezone: "America/New_York",
+    to_timezone: "Asia/Tokyo",
+  }) as { to: { iso: string } };
+  assertEquals(converted.to.iso, "2025-03-05T23:00:00+09:00");
+
+  const added = await executeTool("date_add", { date: "2025-03-07", business_days: 1, timezone: BERLIN });
+  assertEquals((added as { date: string }).date, "2025-03-10");
+  assertEquals(
+    await executeTool("format_date", { date: "2025-03-05T10:30:00Z", format: "MMM d, yyyy h:mm a", timezone: "UTC" }),
+    "Mar 5, 2025 10:30 AM",
+  );
+  // The date defaults to now
+  const tomorrow = await executeTool("date_add", { duration: "P1D", timezone: "UTC" }) as { date: string };
+  assertEquals(tomorrow.date, new Date(Date.now() + 86400000).toISOString().slice(0, 10));
+  assertEquals(
+    await executeTool("format_date", { format: "yyyy", timezone: "UTC" }),
+    String(new Date().getUTCFullYear()),
+  );
+  await assertRejects(() => executeTool("date_add", { date: "today" }), Error, "Either duration or business_days");
+  await assertRejects(() => executeTool("parse_date", { text: "x", timezone: "Nowhere" }), Error, "Unknown time zone");
+});
@@ -0,0 +1,141 @@
+/**
+ * Small MCP server used by the MCP client tests
+ * Run directly it serves MCP over stdio; serveMcpHttp() serves streamable HTTP in-process.
+ * Tools: echo (text), add (structured content), fail (error result), exit (ends a stdio server),
+ * and add_tool, which registers "extra" and sends notifications/tools/list_changed.
+ */
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+export function createMcpServer(notify: (message: unknown) => void, exit: () => void = () => {}) {
+  const tools = [
+    {
+      name: "echo",
+      description: "Echo text",
+      inputSchema: { type: "object", properties: { text: { type: "string" } } },
+    },
+    { name: "add", description: "Add numbers", inputSchema: { type: "object", properties: { a: { type: "number" } } } },
+    { name: "fail", description: "Always fails", inputSchema: { type: "object" } },
+    { name: "exit", description: "Stop the server", inputSchema: { type: "object" } },
+    { name: "add_tool", description: "Register another tool", inputSchema: { type: "object" } },
+  ];
+
+  return (message: JsonRpcMessage): unknown => {
+    if (message.id === undefined) return null; // Notification
+    const reply = (result: unknown) => ({ jsonrpc: "2.0", id: message.id, result });
+    const args = (message.params?.arguments ?? {}) as Record<string, unknown>;
+
+    switch (message.method) {
+      case "initialize":
+        return reply({
+          protocolVersion: "2025-03-26",
+          capabilities: { tools: { listChanged: true } },
+          serverInfo: { name: "fixture", version: "0.3.0" },
+        });
+      case "tools/list": {
+        // Two pages to exercise pagination
+        const cursor = message.params?.cursor as string | undefined;
+        return cursor ? reply({ tools: tools.slice(3) }) : reply({ tools: tools.slice(0, 3), nextCursor: "page2" });
+      }
+      case "tools/call":
+        switch (message.params?.name) {
+          case "echo":
+            return reply({ content: [{ type: "text", text: `echo: ${args.text}` }] });
+          case "add":
+            return reply({
+              content: [{ type: "text", text: "sum" }],
+              structuredContent: { sum: (args.a as number) + (args.b as number) },
+            });
+          case "fail":
+            return reply({ content: [{ type: "text", text: "something broke" }], isError: true });
+          case "exit":
+            exit();
+            return null;
+          case "add_tool":
+            if (!tools.some((tool) => tool.name === "extra")) {
+              tools.push({ name: "extra", description: "Added later", inputSchema: { type: "object" } });
+            }
+            setTimeout(() => notify({ jsonrpc: "2.0", method: "notifications/tools/list_changed" }), 10);
+            return reply({ content: [{ type: "text", text: "added" }] });
+        }
+        return { jsonrpc: "2.0", id: message.id, error: { code: -32602, message: "Unknown tool" } };
+      default:
+        return { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: "Method not found" } };
+    }
+  };
+}
+
+/**
+ * Serve the fixture over streamable HTTP on a random local port
+ */
+export function serveMcpHttp(): { url: string; shutdown: () => Promise<void> } {
+  const streams = new Set<ReadableStreamDefaultController<Uint8Array>>();
+  const encoder = new TextEncoder();
+  const handle = createMcpServer((message) => {
+    for (const stream of streams) stream.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`));
+  });
+
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async (request) => {
+    if (request.method === "GET") {
+      let controller: ReadableStreamDefaultController<Uint8Array>;
+      const body = new ReadableStream<Uint8Array>({
+        start(c) {
+          controller = c;
+          streams.add(c);
+        },
+        cancel() {
+          streams.delete(controller);
+        },
+      });
+      return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+    }
+    if (request.method === "DELETE") {
+      return new Response(null, { status: 204 });
+    }
+
+    const message = await request.json();
+    const response = handle(message);
+    if (!response) {
+      return new Response(null, { status: 202 });
+    }
+    // Answer initialize as JSON and everything else as an SSE stream, as servers may do either
+    const headers = new Headers({ "Mcp-Session-Id": "session-1" });
+    if (message.method === "initialize") {
+      return Response.json(response, { headers });
+    }
+    headers.set("Content-Type", "text/event-stream");
+    return new Response(`event: message\ndata: ${JSON.stringify(response)}\n\n`, { headers });
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}/mcp`,
+    shutdown: async () => {
+      for (const stream of streams) stream.close();
+      streams.clear();
+      await server.shutdown();
+    },
+  };
+}
+
+if (import.meta.main) {
+  const encoder = new TextEncoder();
+  const write = (message: unknown) => Deno.stdout.writeSync(encoder.encode(JSON.stringify(message) + "\n"));
+  const handle = createMcpServer(write, () => Deno.exit(3));
+
+  let buffer = "";
+  for await (const chunk of Deno.stdin.readable.pipeThrough(new TextDecoderStream())) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const response = handle(JSON.parse(line));
+      if (response) write(response);
+    }
+  }
+}
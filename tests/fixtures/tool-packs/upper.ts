@@ -0,0 +1,8 @@
+import type { ToolDefinition } from "../../../src/services/tool-loader.ts";
+
+export const tools: ToolDefinition = {
+  name: "upper_text",
+  description: "Convert a string to upper case",
+  parameters: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+  handler: (args) => (args as { text: string }).text.toUpperCase(),
+};
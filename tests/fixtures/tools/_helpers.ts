@@ -0,0 +1,2 @@
+// Skipped by the loader: files starting with "_" are not tool packs
+export default { name: "helper", description: "Not a tool", parameters: {}, handler: () => null };
@@ -0,0 +1 @@
+export default { name: "no handler", description: "Broken tool", parameters: {} };
@@ -0,0 +1,21 @@
+import type { ToolDefinition } from "../../../src/services/tool-loader.ts";
+
+export const version = "1.2.0";
+
+const tools: ToolDefinition[] = [
+  {
+    name: "reverse_text",
+    description: "Reverse a string",
+    parameters: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+    handler: (args) => [...(args as { text: string }).text].reverse().join(""),
+  },
+  {
+    name: "count_words",
+    description: "Count the words in a string",
+    parameters: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+    handler: (args) => (args as { text: string }).text.split(/\s+/).filter(Boolean).length,
+    version: "2.0.0",
+  },
+];
+
+export default tools;
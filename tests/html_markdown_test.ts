@@ -0,0 +1,87 @@
+/**
+ * HTML to Markdown tests
+ * Parsing of sloppy HTML, main content extraction, selectors and Markdown rendering
+ */
+
+import { assertEquals, assertThrows } from "assert";
+import { htmlToMarkdown } from "../src/utils/html-markdown.ts";
+
+const PAGE = `<!DOCTYPE html>
+<html><head><title>Release notes &amp; changes</title><script>document.write("</div>")</script></head>
+<body>
+  <header class="site-header"><a href="/">Logo</a><nav><a href="/docs">Docs</a></nav></header>
+  <div id="sidebar"><p>Popular posts, trending topics, and other things that are not the article.</p></div>
+  <div class="post">
+    <h1>Version 2.0</h1>
+    <p>This release, after months of work, brings <strong>faster</strong> startup and a
+       <a href="../guide/upgrade.html">migration guide</a>.
+    <p>Changes:<br>one line<br>another line
+    <div class="share-buttons"><a href="https://social.example/share">Share</a></div>
+  </div>
+  <footer>Copyright 2025</footer>
+</body></html>`;
+
+Deno.test("HTML to Markdown - Main content", () => {
+  const page = htmlToMarkdown(PAGE, { baseUrl: "https://example.com/blog/post/" });
+  assertEquals(page.title, "Release notes & changes");
+  assertEquals(
+    page.markdown,
+    "# Version 2.0\n\n" +
+      "This release, after months of work, brings **faster** startup and a " +
+      "[migration guide](https://example.com/blog/guide/upgrade.html).\n\n" +
+      "Changes:\none line\nanother line",
+  );
+});
+
+Deno.test("HTML to Markdown - Lists, code, quotes and tables", () => {
+  const html = `<main>
+    <ul><li>first<li>second<ul><li>nested</ul></ul>
+    <ol start="3"><li><p>third</p><li>fourth</ol>
+    <pre><code class="language-ts">const a = 1;
+  return a;</code></pre>
+    <blockquote><p>One</p><p>Two</p></blockquote>
+    <table><thead><tr><th>Name<th>Value</thead><tbody><tr><td>a|b<td><code>1</code></tbody></table>
+    <table><tr><td><p>Layout cell</p></td></tr></table>
+    <p>Image: <img src="/i.png" alt="Chart"> <img src="/spacer.gif"> <em>done</em></p>
+  </main>`;
+  assertEquals(
+    htmlToMarkdown(html, { baseUrl: "https://example.com/" }).markdown,
+    "- first\n- second\n  - nested\n\n" +
+      "3. third\n4. fourth\n\n" +
+      "```ts\nconst a = 1;\n  return a;\n```\n\n" +
+      "> One\n>\n> Two\n\n" +
+      "| Name | Value |\n| --- | --- |\n| a\\|b | `1` |\n\n" +
+      "Layout cell\n\n" +
+      "Image: ![Chart](https://example.com/i.png) *done*",
+  );
+});
+
+Deno.test("HTML to Markdown - Selectors", () => {
+  const html = `<div id="a" class="x y"><p data-kind="note">Note</p><span><p>Deep</p></span></div>
+    <section><p class="x">Other</p></section>`;
+  const select = (selector: string) => htmlToMarkdown(html, { selector }).markdown;
+
+  assertEquals(select("#a > p"), "Note");
+  assertEquals(select("div.x.y p"), "Note\n\nDeep");
+  assertEquals(select("[data-kind^=no], section .x"), "Note\n\nOther");
+  assertEquals(select("div, p"), "Note\n\nDeep\n\nOther");
+  assertThrows(() => select("p:first-child"), Error, "Invalid selector 'p:first-child': unsupported ':'");
+  assertThrows(() => select("div >"), Error, "incomplete selector");
+  assertThrows(() => select("article"), Error, "No elements match selector 'article'");
+});
+
+Deno.test("HTML to Markdown - Large and deeply nested pages", () => {
+  // Unclosed and nested elements stay linear: each page takes well under a second
+  const pages = [
+    "<div>".repeat(100000),
+    "<div>".repeat(50000) + "x" + "</div>".repeat(50000),
+    "<div><p>Some text, with commas, and enough words to count as a paragraph.</p>".repeat(7000),
+    "<ul>" + "<b>".repeat(250) + "<li>item".repeat(50000),
+  ];
+  for (const html of pages) {
+    const start = performance.now();
+    htmlToMarkdown(html);
+    const elapsed = performance.now() - start;
+    assertEquals(elapsed < 2000, true, `${html.length} characters took ${Math.round(elapsed)} ms`);
+  }
+});
@@ -0,0 +1,174 @@
+/**
+ * Declarative HTTP tool tests
+ * Runs HTTP tools against a local server
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "assert";
+import { createHttpTool, extractJsonPath, type HttpToolConfig } from "../src/services/http-tools.ts";
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  authorization: string | null;
+  query: string | null;
+  apiKey: string | null;
+  body: string;
+}
+
+async function withServer(test: (baseUrl: string, requests: RecordedRequest[]) => Promise<void>): Promise<void> {
+  const requests: RecordedRequest[] = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async (request) => {
+    const url = new URL(request.url);
+    requests.push({
+      method: request.method,
+      path: url.pathname + url.search,
+      authorization: request.headers.get("Authorization"),
+      query: request.headers.get("X-Query"),
+      apiKey: request.headers.get("X-Api-Key"),
+      body: await request.text(),
+    });
+    if (url.pathname === "/redirect") {
+      return Response.redirect(`http://localhost:${url.port}/orders/1`, 302);
+    }
+    if (url.pathname === "/slow") {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    if (url.pathname === "/missing") {
+      return new Response("no such order", { status: 404 });
+    }
+    return Response.json({ order: { id: url.pathname.split("/").pop(), items: [{ sku: "a" }, { sku: "b" }] } });
+  });
+
+  try {
+    await test(`http://127.0.0.1:${server.addr.port}`, requests);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+function tool(config: Partial<HttpToolConfig> & { url: string }) {
+  return createHttpTool({ name: "orders", description: "Orders API", allow_hosts: ["127.0.0.1"], ...config });
+}
+
+Deno.test("HTTP tools - JSON path extraction", () => {
+  const data = { data: { "item list": [{ name: "a" }, { name: "b" }], total: 2 } };
+  assertEquals(extractJsonPath(data, "$"), data);
+  assertEquals(extractJsonPath(data, "$.data.total"), 2);
+  assertEquals(extractJsonPath(data, "$.data['item list'][1].name"), "b");
+  assertEquals(extractJsonPath(data, "$.data['item list'][*].name"), ["a", "b"]);
+  assertEquals(extractJsonPath(data, "$.data.missing"), undefined);
+  assertThrows(() => extractJsonPath(data, "data.total"), Error, "must start with $");
+  assertThrows(() => extractJsonPath(data, "$.data..total"), Error, "Invalid JSON path");
+});
+
+Deno.test("HTTP tools - Templates, secrets and response extraction", async () => {
+  await withServer(async (baseUrl, requests) => {
+    Deno.env.set("TEST_ORDERS_TOKEN", "s3cret");
+    const getOrder = tool({
+      url: `${baseUrl}/orders/{order_id}?q={query}`,
+      headers: { Authorization: "Bearer {secret:TEST_ORDERS_TOKEN}" },
+      secrets: ["TEST_ORDERS_TOKEN"],
+      response: "$.order.items[*].sku",
+    });
+    assertEquals(getOrder.parameters, {
+      type: "object",
+      properties: { order_id: { type: "string" }, query: { type: "string" } },
+      required: ["order_id", "query"],
+    });
+    assertEquals(await getOrder.handler({ order_id: "7", query: "a b&c" }), ["a", "b"]);
+    assertEquals(requests[0].path, "/orders/7?q=a%20b%26c");
+    assertEquals(requests[0].authorization, "Bearer s3cret");
+
+    const createOrder = tool({
+      url: `${baseUrl}/orders`,
+      method: "post",
+      body: { sku: "{sku}", quantity: "{quantity}", note: "for {customer}" },
+    });
+    await createOrder.handler({ sku: "a", quantity: 3, customer: "Ada" });
+    assertEquals(requests[1].method, "POST");
+    assertEquals(JSON.parse(requests[1].body), { sku: "a", quantity: 3, note: "for Ada" });
+
+    Deno.env.delete("TEST_ORDERS_TOKEN");
+    await assertRejects(async () => await getOrder.handler({ order_id: "7" }), Error, "Secret TEST_ORDERS_TOKEN");
+    await assertRejects(
+      async () => await tool({ url: `${baseUrl}/missing` }).handler({}),
+      Error,
+      "HTTP 404: no such order",
+    );
+    await assertRejects(
+      async () => await tool({ url: `${baseUrl}/slow`, timeout_ms: 50 }).handler({}),
+      Error,
+      "took longer than 50ms",
+    );
+  });
+});
+
+Deno.test("HTTP tools - SSRF checks unless the host is allow-listed", async () => {
+  await withServer(async (baseUrl, requests) => {
+    await assertRejects(
+      async () => await tool({ url: `${baseUrl}/orders/1`, allow_hosts: [] }).handler({}),
+      Error,
+      "Access to localhost is not allowed",
+    );
+    assertEquals(requests.length, 0);
+
+    // Every redirect hop is checked: localhost is not on the allow list
+    await assertRejects(
+      async () => await tool({ url: `${baseUrl}/redirect` }).handler({}),
+      Error,
+      "Access to localhost",
+    );
+    assertEquals(requests.map((request) => request.path), ["/redirect"]);
+
+    assertThrows(() => tool({ url: "ftp://example.com/{path}" }), Error, "needs an http(s) url");
+    assertThrows(() => tool({ url: "https://example.com", method: "TRACE" }), Error, "unsupported method");
+  });
+});
+
+Deno.test("HTTP tools - Arguments cannot pull in secrets", async () => {
+  await withServer(async (baseUrl, requests) => {
+    Deno.env.set("TEST_ORDERS_TOKEN", "s3cret");
+    Deno.env.set("TEST_OTHER_SECRET", "hunter2");
+    try {
+      const search = tool({
+        url: `${baseUrl}/orders/1`,
+        headers: { Authorization: "Bearer {secret:TEST_ORDERS_TOKEN}", "X-Query": "{query}" },
+        secrets: ["TEST_ORDERS_TOKEN"],
+      });
+      await search.handler({ query: "{secret:TEST_OTHER_SECRET} {secret:TEST_ORDERS_TOKEN}" });
+      assertEquals(requests[0].query, "{secret:TEST_OTHER_SECRET} {secret:TEST_ORDERS_TOKEN}");
+      assertEquals(requests[0].authorization, "Bearer s3cret");
+
+      // Secrets must be declared by the definition
+      assertThrows(
+        () => tool({ url: `${baseUrl}/orders/1`, headers: { Authorization: "Bearer {secret:TEST_OTHER_SECRET}" } }),
+        Error,
+        "uses secret TEST_OTHER_SECRET, which is not listed in its secrets",
+      );
+    } finally {
+      Deno.env.delete("TEST_ORDERS_TOKEN");
+      Deno.env.delete("TEST_OTHER_SECRET");
+    }
+  });
+});
+
+Deno.test("HTTP tools - Credentials are not sent to other origins on redirect", async () => {
+  await withServer(async (baseUrl, requests) => {
+    Deno.env.set("TEST_ORDERS_TOKEN", "s3cret");
+    try {
+      const redirected = tool({
+        url: `${baseUrl}/redirect`,
+        headers: { Authorization: "Bearer {secret:TEST_ORDERS_TOKEN}", "X-Api-Key": "{secret:TEST_ORDERS_TOKEN}" },
+        secrets: ["TEST_ORDERS_TOKEN"],
+        allow_hosts: ["127.0.0.1", "localhost"],
+      });
+      await redirected.handler({});
+      assertEquals(requests.map((request) => [request.path, request.authorization, request.apiKey]), [
+        ["/redirect", "Bearer s3cret", "s3cret"],
+        ["/orders/1", null, null],
+      ]);
+    } finally {
+      Deno.env.delete("TEST_ORDERS_TOKEN");
+    }
+  });
+});
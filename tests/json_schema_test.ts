@@ -0,0 +1,127 @@
+/**
+ * JSON Schema validation tests
+ * Keyword coverage, coercion of model-produced values and violation paths
+ */
+
+import { assertEquals, assertThrows } from "assert";
+import { compileSchemaPatterns, type JsonSchema, validateSchema } from "../src/utils/json-schema.ts";
+
+const weatherSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    city: { type: "string", minLength: 1 },
+    days: { type: "integer", minimum: 1, maximum: 14 },
+    units: { enum: ["metric", "imperial"] },
+    detailed: { type: "boolean" },
+    hours: { type: "array", items: { type: "integer" }, uniqueItems: true },
+    location: { $ref: "#/$defs/location" },
+  },
+  required: ["city"],
+  additionalProperties: false,
+  $defs: {
+    location: {
+      type: "object",
+      properties: { lat: { type: "number" }, lon: { type: "number" } },
+      required: ["lat", "lon"],
+    },
+  },
+};
+
+function paths(value: unknown, schema: JsonSchema): string[] {
+  return validateSchema(value, schema).errors.map((error) => `${error.path}:${error.keyword}`);
+}
+
+Deno.test("JSON Schema - Accepts valid values and reports every violation", () => {
+  const valid = { city: "Paris", days: 3, units: "metric", hours: [9, 12], location: { lat: 48.8, lon: 2.3 } };
+  assertEquals(validateSchema(valid, weatherSchema), { valid: true, value: valid, errors: [] });
+
+  assertEquals(
+    paths({ days: 0, units: "kelvin", hours: [1, 1], location: { lat: "north" }, extra: true }, weatherSchema),
+    [
+      "city:required",
+      "days:minimum",
+      "units:enum",
+      "hours:uniqueItems",
+      "location.lon:required",
+      "location.lat:type",
+      "extra:additionalProperties",
+    ],
+  );
+
+  const [typeError] = validateSchema({ city: 42 }, weatherSchema).errors;
+  assertEquals(typeError, { path: "city", keyword: "type", message: "must be of type string, but received number" });
+});
+
+Deno.test("JSON Schema - Coerces loosely typed values", () => {
+  const result = validateSchema(
+    { city: 75001, days: "3", detailed: "TRUE", hours: "[9, 12]", location: '{"lat": "1.5", "lon": 2}' },
+    weatherSchema,
+    { coerce: true },
+  );
+  assertEquals(result.errors, []);
+  assertEquals(result.value, {
+    city: "75001",
+    days: 3,
+    detailed: true,
+    hours: [9, 12],
+    location: { lat: 1.5, lon: 2 },
+  });
+
+  // Single values become one-item arrays, numeric enum members match their string form
+  assertEquals(validateSchema("a", { type: "array", items: { type: "string" } }, { coerce: true }).value, ["a"]);
+  assertEquals(validateSchema("2", { enum: [1, 2, 3] }, { coerce: true }).value, 2);
+
+  // Values that cannot be converted are still violations
+  assertEquals(
+    validateSchema({ city: "Paris", days: "3.5" }, weatherSchema, { coerce: true }).errors.map((e) => e.path),
+    ["days"],
+  );
+  assertEquals(validateSchema({ city: "Paris", days: "3" }, weatherSchema).valid, false);
+});
+
+Deno.test("JSON Schema - Combinators and conditionals", () => {
+  const idSchema: JsonSchema = { anyOf: [{ type: "integer" }, { type: "string", format: "uuid" }] };
+  assertEquals(validateSchema(7, idSchema).valid, true);
+  assertEquals(paths("not-a-uuid", idSchema), [":anyOf"]);
+  assertEquals(validateSchema("7", idSchema, { coerce: true }).value, 7);
+
+  const oneOf: JsonSchema = { oneOf: [{ type: "number" }, { type: "integer" }] };
+  assertEquals(paths(1, oneOf), [":oneOf"]);
+  assertEquals(validateSchema(1.5, oneOf).valid, true);
+
+  const conditional: JsonSchema = {
+    type: "object",
+    if: { properties: { kind: { const: "range" } }, required: ["kind"] },
+    then: { required: ["from", "to"] },
+    else: { not: { required: ["from"] } },
+    dependentRequired: { to: ["from"] },
+  };
+  assertEquals(paths({ kind: "range", from: 1 }, conditional), ["to:required"]);
+  assertEquals(paths({ kind: "point", from: 1 }, conditional), [":not"]);
+  assertEquals(paths({ to: 2 }, conditional), ["from:dependentRequired"]);
+
+  assertEquals(paths([1, "x"], { type: "array", prefixItems: [{ type: "integer" }, { type: "integer" }] }), [
+    "[1]:type",
+  ]);
+  assertEquals(paths(["a"], { contains: { type: "integer" }, minItems: 2 }), [":minItems", ":contains"]);
+  assertEquals(paths("x", { $ref: "#/$defs/missing" }), [":$ref"]);
+  assertEquals(paths("x", false), [":false"]);
+});
+
+Deno.test("JSON Schema - Circular references and invalid patterns", () => {
+  assertEquals(paths("x", { $ref: "#" }), [":$ref"]);
+  assertEquals(paths({ a: 1 }, { properties: { a: { $ref: "#/properties/a" } } }), ["a:$ref"]);
+
+  // A reference followed for a nested value is recursion, not a cycle
+  const tree: JsonSchema = { type: "object", properties: { children: { type: "array", items: { $ref: "#" } } } };
+  assertEquals(validateSchema({ children: [{ children: [] }] }, tree).valid, true);
+  assertEquals(paths({ children: [{ children: "none" }] }, tree), ["children[0].children:type"]);
+
+  assertEquals(validateSchema("x", { pattern: "(" }).errors[0].message, "uses an invalid pattern: (");
+  assertThrows(() => compileSchemaPatterns({ properties: { a: { pattern: "[" } } }), Error, "Invalid pattern: [");
+  assertThrows(() => compileSchemaPatterns({ patternProperties: { "(": {} } }), Error, "Invalid pattern: (");
+  compileSchemaPatterns({
+    properties: { code: { type: "string", pattern: "^[A-Z]{3}$" } },
+    examples: [{ pattern: "(" }],
+  });
+});
@@ -1,5 +1,5 @@
 import { assertEquals } from "assert";
-import { transformThinking } from "../src/utils/stream.ts";
+import { createThinkingChunkCleaner, resolveThinkTagsMode, transformThinking } from "../src/utils/stream.ts";
 
 Deno.test("transformThinking - strip mode", () => {
   const content = "<think>thinking</think>content";
@@ -52,3 +52,17 @@ Deno.test("transformThinking - partial think tag", () => {
   const result = transformThinking(content, "strip");
   assertEquals(result, "thinking</think>content"); // No opening tag, so nothing to strip
 });
+
+Deno.test("resolveThinkTagsMode - precedence and fallback", () => {
+  assertEquals(resolveThinkTagsMode("strip", "raw", "separate"), "strip");
+  assertEquals(resolveThinkTagsMode(null, "raw", "separate"), "raw");
+  assertEquals(resolveThinkTagsMode(" Separate ", undefined, "think"), "separate");
+  assertEquals(resolveThinkTagsMode("bogus", 42, "thinking"), "thinking");
+  assertEquals(resolveThinkTagsMode(null, undefined, ""), "think");
+});
+
+Deno.test("createThinkingChunkCleaner - quote prefix split across chunks", () => {
+  const clean = createThinkingChunkCleaner();
+  const chunks = ["<details>\n<summary>Thinking…</summary>\n> Step", " one\n>", "     * detail\n", "> Step two"];
+  assertEquals(chunks.map(clean).join(""), "\n\nStep one\n    * detail\nStep two");
+});
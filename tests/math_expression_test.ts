@@ -0,0 +1,85 @@
+/**
+ * Math expression engine tests
+ */
+
+import { assertEquals, assertThrows } from "assert";
+import { evaluateExpression } from "../src/utils/math-expression.ts";
+
+Deno.test("Math expressions - Operators, functions and constants", () => {
+  const cases: Array<[string, number]> = [
+    ["2 + 3 * 4", 14],
+    ["(2 + 3) * 4", 20],
+    ["2^10", 1024],
+    ["2 ** 3 ^ 2", 512],
+    ["-2^2", -4],
+    ["2^-1", 0.5],
+    ["10 mod 4", 2],
+    ["10 % 4", 2],
+    ["5!", 120],
+    ["0.1 + 0.2", 0.3],
+    ["1_000 * 0xff + 0b11", 255003],
+    ["sqrt(16) + abs(-2) + round(3.14159, 2)", 9.14],
+    ["log(1000) + ln(e) + log(8, 2)", 7],
+    ["min(3, 1, 2) * max(4, 5)", 5],
+    ["sin(pi / 2) + cos(0)", 2],
+    ["2pi / tau", 1],
+    ["3(4 + 5)", 27],
+    ["200 * 15%", 30],
+    ["80 + 25%", 100],
+    ["80 - 25%", 60],
+  ];
+  for (const [expression, expected] of cases) {
+    assertEquals(evaluateExpression(expression), expected, expression);
+  }
+});
+
+Deno.test("Math expressions - Variables, units and precision", () => {
+  assertEquals(evaluateExpression("pi * r^2", { variables: { r: 2 } }), 12.5663706143592);
+  assertEquals(evaluateExpression("2x + y", { variables: { x: 3, y: "0.5" } }), 6.5);
+  assertEquals(evaluateExpression("2 m", { variables: { m: 4 } }), 8);
+
+  assertEquals(evaluateExpression("5 km + 300 m"), "5.3 km");
+  assertEquals(evaluateExpression("10 in to cm"), "25.4 cm");
+  assertEquals(evaluateExpression("90 min in h"), "1.5 h");
+  assertEquals(evaluateExpression("1 km / 250 m"), 4);
+
+  assertEquals(evaluateExpression("2^100 + 1", { precision: "bigint" }), "1267650600228229401496703205377");
+  assertEquals(evaluateExpression("25! / 24!", { precision: "bigint" }), "25");
+  assertEquals(evaluateExpression("0.1 + 0.2", { precision: "decimal" }), "0.3");
+  assertEquals(evaluateExpression("1 / 3", { precision: "decimal", decimals: 5 }), "0.33333");
+  assertEquals(
+    evaluateExpression("sqrt(2)", { precision: "decimal", decimals: 30 }),
+    "1.41421356237309504880168872421",
+  );
+  assertEquals(evaluateExpression("pi", { precision: "decimal", decimals: 10 }), "3.1415926536");
+});
+
+Deno.test("Math expressions - Errors show the position", () => {
+  assertThrows(() => evaluateExpression("1 / 0"), Error, "Division by zero at position 3\n  1 / 0\n    ^");
+  assertThrows(() => evaluateExpression("process.exit(0)"), Error, "invalid characters: unexpected '.' at position 8");
+  assertThrows(() => evaluateExpression("2 * (3 + 4"), Error, "Missing ')' for '(' at position 5");
+  assertThrows(() => evaluateExpression("2 +"), Error, "Unexpected end of expression at position 4");
+  assertThrows(() => evaluateExpression("1 + foo(2)"), Error, "Unknown function 'foo' at position 5");
+  assertThrows(() => evaluateExpression("x + 1"), Error, "Unknown variable 'x' at position 1");
+  assertThrows(() => evaluateExpression("sqrt(-1)"), Error, "not defined for these arguments at position 1");
+  assertThrows(() => evaluateExpression("5 kg to m"), Error, "Cannot convert kg to m");
+  assertThrows(() => evaluateExpression("5 km + 3"), Error, "Cannot add a plain number to km");
+  assertThrows(() => evaluateExpression("7 / 2", { precision: "bigint" }), Error, "not an integer");
+  assertThrows(
+    () => evaluateExpression("sin(1)", { precision: "decimal" }),
+    Error,
+    "not available with this precision",
+  );
+  assertThrows(() => evaluateExpression("2^(10^9)", { precision: "bigint" }), Error, "Result is too large");
+  assertThrows(() => evaluateExpression("1", { variables: { "bad name": 1 } }), Error, "Invalid variable name");
+});
+
+Deno.test("Math expressions - Names do not resolve to Object.prototype members", () => {
+  for (const name of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+    assertThrows(() => evaluateExpression(`${name} + 1`), Error, `Unknown variable '${name}'`);
+    assertThrows(() => evaluateExpression(`${name}(1)`), Error, `Unknown function '${name}'`);
+  }
+  assertThrows(() => evaluateExpression("valueOf + 1", { precision: "decimal" }), Error, "Unknown variable 'valueOf'");
+  assertEquals(evaluateExpression("constructor * 2", { variables: { constructor: 21 } }), 42);
+  assertEquals(evaluateExpression("__proto__ + 1", { variables: JSON.parse('{"__proto__": 1}') }), 2);
+});
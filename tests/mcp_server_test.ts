@@ -0,0 +1,177 @@
+/**
+ * MCP server tests
+ * Drives the /mcp endpoint directly and with the MCP client
+ */
+
+import { assertEquals } from "assert";
+import { clearTools, registerTool } from "../src/services/tool-registry.ts";
+import { handleMcp } from "../src/handlers/mcp.ts";
+import { handleMcpMessage, stdioContext } from "../src/services/mcp-server.ts";
+import { McpClient } from "../src/services/mcp-client.ts";
+import { SUPPORTED_MODELS } from "../src/config/models.ts";
+import { createApiKey, MemoryApiKeyStore, setApiKeyStore } from "../src/services/api-keys.ts";
+import { resetToolPolicyState, setToolPolicy } from "../src/services/tool-policy.ts";
+
+setApiKeyStore(new MemoryApiKeyStore());
+const { key } = await createApiKey({ name: "MCP" });
+const authorization = { Authorization: `Bearer ${key}` };
+
+function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  return handleMcp(
+    new Request("http://localhost/mcp", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authorization, ...headers },
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+function registerAddTool(): void {
+  registerTool(
+    "add_numbers",
+    (args) => {
+      const { a, b } = args as { a: number; b: number };
+      return a + b;
+    },
+    "Add two numbers",
+    { type: "object", properties: { a: { type: "number" }, b: { type: "number" } }, required: ["a", "b"] },
+  );
+}
+
+Deno.test("MCP server - Sessions, notifications and errors", async () => {
+  const init = await post({ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2024-11-05" } });
+  const sessionId = init.headers.get("Mcp-Session-Id")!;
+  const { result } = await init.json();
+  assertEquals(result.protocolVersion, "2024-11-05");
+  assertEquals(result.serverInfo.name, "ZtoApi");
+
+  const session = { "Mcp-Session-Id": sessionId };
+  assertEquals((await post({ jsonrpc: "2.0", method: "notifications/initialized" }, session)).status, 202);
+  assertEquals((await post({ jsonrpc: "2.0", id: 2, method: "ping" }, { "Mcp-Session-Id": "unknown" })).status, 404);
+
+  const batch = await (await post([
+    { jsonrpc: "2.0", id: 3, method: "ping" },
+    { jsonrpc: "2.0", id: 4, method: "prompts/list" },
+  ], session)).json();
+  assertEquals(batch[0], { jsonrpc: "2.0", id: 3, result: {} });
+  assertEquals(batch[1].error.code, -32601);
+
+  const parseError = await handleMcp(
+    new Request("http://localhost/mcp", { method: "POST", headers: authorization, body: "{" }),
+  );
+  assertEquals(parseError.status, 400);
+  assertEquals(
+    (await handleMcp(new Request("http://localhost/mcp", { method: "GET", headers: authorization }))).status,
+    405,
+  );
+
+  const end = await handleMcp(
+    new Request("http://localhost/mcp", { method: "DELETE", headers: { ...authorization, ...session } }),
+  );
+  assertEquals(end.status, 204);
+  assertEquals((await post({ jsonrpc: "2.0", id: 5, method: "ping" }, session)).status, 404);
+});
+
+Deno.test("MCP server - Model resources", async () => {
+  const { result: list } = await (await post({ jsonrpc: "2.0", id: 1, method: "resources/list" })).json();
+  assertEquals(list.resources.length, SUPPORTED_MODELS.length);
+
+  const uri = list.resources[0].uri;
+  const { result } = await (await post({ jsonrpc: "2.0", id: 2, method: "resources/read", params: { uri } })).json();
+  const model = JSON.parse(result.contents[0].text);
+  assertEquals(model.id, SUPPORTED_MODELS[0].id);
+  assertEquals("upstreamId" in model, false);
+
+  const missing = await (await post({
+    jsonrpc: "2.0",
+    id: 3,
+    method: "resources/read",
+    params: { uri: "ztoapi://models/unknown" },
+  })).json();
+  assertEquals(missing.error.code, -32002);
+});
+
+Deno.test("MCP server - Tools through the MCP client", async () => {
+  clearTools();
+  registerAddTool();
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, handleMcp);
+  const client = new McpClient(
+    "gateway",
+    { url: `http://127.0.0.1:${server.addr.port}/mcp`, headers: authorization },
+    5000,
+  );
+  try {
+    await client.connect();
+    assertEquals(client.serverInfo.name, "ZtoApi");
+
+    const tools = await client.listTools();
+    assertEquals(tools.map((tool) => tool.name), ["chat", "add_numbers"]);
+
+    assertEquals(await client.callTool("add_numbers", { a: 2, b: "3" }), { content: [{ type: "text", text: "5" }] });
+    const invalid = await client.callTool("add_numbers", { a: 2 });
+    assertEquals(invalid.isError, true);
+    assertEquals(JSON.parse(invalid.content![0].text!).error.type, "invalid_arguments");
+
+    const chat = await client.callTool("chat", {});
+    assertEquals(chat, { content: [{ type: "text", text: "Either prompt or messages is required" }], isError: true });
+  } finally {
+    await client.close();
+    await server.shutdown();
+    clearTools();
+  }
+});
+
+Deno.test("MCP server - API key and tool approval", async () => {
+  clearTools();
+  registerAddTool();
+  setToolPolicy({ tools: { add_numbers: { requires_approval: true } } });
+  try {
+    const anonymous = await handleMcp(
+      new Request("http://localhost/mcp", {
+        method: "POST",
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+      }),
+    );
+    assertEquals(anonymous.status, 401);
+    assertEquals((await anonymous.json()).error.message, "Missing API key");
+    const invalid = await post({ jsonrpc: "2.0", id: 1, method: "tools/list" }, { Authorization: "Bearer sk-wrong" });
+    assertEquals(invalid.status, 401);
+
+    const call = {
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tools/call",
+      params: { name: "add_numbers", arguments: { a: 1, b: 2 } },
+    };
+    const refused = (await (await post(call)).json()).result;
+    assertEquals([refused.isError, refused.content[0].text.includes("requires approval")], [true, true]);
+    const approved = (await (await post(call, { "X-Approve-Tools": "add_numbers" })).json()).result;
+    assertEquals(approved, { content: [{ type: "text", text: "3" }] });
+  } finally {
+    resetToolPolicyState();
+    clearTools();
+  }
+});
+
+Deno.test("MCP server - Stdio chat runs with MCP_STDIO_KEY", async () => {
+  const other = SUPPORTED_MODELS[1].id;
+  const { key: stdioKey, record } = await createApiKey({ name: "Stdio", allowed_models: [other] });
+  const call = {
+    jsonrpc: "2.0" as const,
+    id: 1,
+    method: "tools/call",
+    params: { name: "chat", arguments: { model: SUPPORTED_MODELS[0].id, prompt: "Hi" } },
+  };
+  Deno.env.set("MCP_STDIO_KEY", stdioKey);
+  try {
+    const context = await stdioContext();
+    assertEquals([context.authorization, context.keyId], [`Bearer ${stdioKey}`, record.id]);
+
+    // Refused by the key's model list, so the key reached the chat handler
+    const { result } = (await handleMcpMessage(call, context))!;
+    const { content, isError } = result as { content: Array<{ text: string }>; isError: boolean };
+    assertEquals([isError, content[0].text.startsWith("Chat completion failed (403)")], [true, true]);
+  } finally {
+    Deno.env.delete("MCP_STDIO_KEY");
+  }
+});
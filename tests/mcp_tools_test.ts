@@ -0,0 +1,73 @@
+/**
+ * MCP client tests
+ * Registers tools from the MCP server fixture over streamable HTTP and stdio
+ */
+
+import { assertEquals, assertRejects } from "assert";
+import { executeTool, getTool, hasTool } from "../src/services/tool-registry.ts";
+import { getMcpServerStatus, namespacedToolName, startMcpServers, stopMcpServers } from "../src/services/mcp-tools.ts";
+import { serveMcpHttp } from "./fixtures/mcp_server.ts";
+
+const fixture = new URL("./fixtures/mcp_server.ts", import.meta.url).pathname;
+const canRun = (await Deno.permissions.query({ name: "run" })).state === "granted";
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+Deno.test("MCP tools - Namespaced tool names", () => {
+  assertEquals(namespacedToolName("files", "read_file"), "files__read_file");
+  assertEquals(namespacedToolName("my.server", "tool/name"), "my_server__tool_name");
+  assertEquals(namespacedToolName("s", "x".repeat(100)).length, 64);
+});
+
+Deno.test("MCP tools - Streamable HTTP server", async () => {
+  const server = serveMcpHttp();
+  try {
+    const [status] = await startMcpServers({ remote: { url: server.url }, off: { url: server.url, enabled: false } });
+    assertEquals(status.status, "ready");
+    assertEquals(status.transport, "http");
+    assertEquals(status.version, "0.3.0");
+    assertEquals(status.tools, ["remote__echo", "remote__add", "remote__fail", "remote__exit", "remote__add_tool"]);
+    assertEquals(getTool("remote__echo")?.source, "mcp:remote");
+
+    assertEquals(await executeTool("remote__echo", { text: "hi" }), "echo: hi");
+    assertEquals(await executeTool("remote__add", { a: 2, b: 3 }), { sum: 5 });
+    await assertRejects(async () => await executeTool("remote__fail", {}), Error, "something broke");
+
+    // The server announces a new tool over the notification stream
+    await executeTool("remote__add_tool", {});
+    await waitFor(() => hasTool("remote__extra"));
+  } finally {
+    await stopMcpServers();
+    await server.shutdown();
+  }
+  assertEquals(hasTool("remote__echo"), false);
+  assertEquals(getMcpServerStatus(), []);
+});
+
+Deno.test({
+  name: "MCP tools - Stdio server is restarted after it exits",
+  ignore: !canRun,
+  fn: async () => {
+    try {
+      const [status] = await startMcpServers({
+        local: { command: Deno.execPath(), args: ["run", "--no-lock", fixture], namespace: "fx" },
+      });
+      assertEquals(status.status, "ready");
+      assertEquals(status.transport, "stdio");
+      assertEquals(await executeTool("fx__echo", { text: "stdio" }), "echo: stdio");
+
+      // The exit call never gets an answer; the server is reconnected and its tools stay registered
+      await assertRejects(async () => await executeTool("fx__exit", {}), Error);
+      await waitFor(() => getMcpServerStatus()[0].restarts === 1 && getMcpServerStatus()[0].status === "ready");
+      assertEquals(await executeTool("fx__echo", { text: "again" }), "echo: again");
+    } finally {
+      await stopMcpServers();
+    }
+  },
+});
@@ -6,7 +6,15 @@
 import { assertEquals, assertExists, assertRejects, assertThrows } from "assert";
 import { clearTools, executeTool, getAllTools, getTool, hasTool, registerTool } from "../src/services/tool-registry.ts";
 import { getAvailableToolNames, validateTools } from "../src/utils/validation.ts";
-import { detectToolCall, processToolCall } from "../src/services/tool-processor.ts";
+import {
+  detectToolCall,
+  detectToolCalls,
+  executeToolCalls,
+  extractClientToolCalls,
+  processToolCall,
+  routeToolCall,
+  stripToolCallMarkup,
+} from "../src/services/tool-processor.ts";
 import { initializeBuiltinTools } from "../src/services/init-tools.ts";
 import type { Tool, UpstreamData } from "../src/types/definitions.ts";
 
@@ -269,6 +277,54 @@ Deno.test("Tool Call Processing - Process tool calls", async () => {
   assertEquals(result, "Echo: Hello from test");
 });
 
+Deno.test("Tool Call Processing - Arguments are coerced and validated against the schema", async () => {
+  clearTools();
+
+  const received: unknown[] = [];
+  registerTool("repeat", (...args: unknown[]) => received.push(args[0]), "Repeat a word", {
+    type: "object",
+    properties: {
+      word: { type: "string" },
+      times: { type: "integer", minimum: 1 },
+    },
+    required: ["word", "times"],
+  });
+
+  // XML calls deliver every parameter as a string
+  const [xmlCall] = detectToolCalls({
+    type: "chat:completion",
+    data: {
+      delta_content:
+        '<function_calls>\n<invoke name="repeat">\n<parameter name="word">hi</parameter>\n<parameter name="times">3</parameter>\n</invoke>\n</function_calls>',
+      phase: "answer",
+      done: false,
+    },
+  });
+  await processToolCall(xmlCall);
+  assertEquals(received, [{ word: "hi", times: 3 }]);
+
+  const invalid = {
+    id: "call_bad",
+    type: "function" as const,
+    function: { name: "repeat", arguments: '{"times": 0}' },
+  };
+  assertEquals(JSON.parse(await processToolCall(invalid)), {
+    error: {
+      type: "invalid_arguments",
+      message: "The arguments for tool 'repeat' do not match its parameters. Fix them and call the tool again.",
+      errors: [
+        { path: "word", message: "is required" },
+        { path: "times", message: "must be >= 1" },
+      ],
+    },
+  });
+
+  const malformed = { id: "call_json", type: "function" as const, function: { name: "repeat", arguments: "{word" } };
+  assertEquals(JSON.parse(await processToolCall(malformed)).error.errors[0].path, "(arguments)");
+  assertEquals(received.length, 1);
+  clearTools();
+});
+
 Deno.test("Tool Validation - Get available tool names", () => {
   clearTools();
 
@@ -281,6 +337,16 @@ Deno.test("Tool Validation - Get available tool names", () => {
   assertEquals(names.includes("tool2"), true);
 });
 
+Deno.test("Tool Registry - Parameters with invalid patterns are refused", () => {
+  clearTools();
+  assertThrows(
+    () => registerTool("bad_pattern", () => null, "Bad pattern", { properties: { id: { pattern: "(" } } }),
+    Error,
+    "Tool bad_pattern has invalid parameters: Invalid pattern: (",
+  );
+  assertEquals(hasTool("bad_pattern"), false);
+});
+
 Deno.test("Tool Registry - Clear tools", () => {
   clearTools();
 
@@ -621,3 +687,117 @@ Deno.test("Streaming Tool Calls - Malformed partial chunks", () => {
     assertEquals(toolCall, null, "Malformed XML should not be detected as tool call");
   }
 });
+
+Deno.test("Tool Routing - Native, client and unknown tools", () => {
+  clearTools();
+  registerTool("shared_tool", () => "native", "Registered natively", { type: "object" });
+  registerTool("native_only", () => "native", "Registered natively", { type: "object" });
+
+  const clientTools: Tool[] = [
+    { type: "function", function: { name: "shared_tool", parameters: { type: "object" } } },
+    { type: "function", function: { name: "client_only", parameters: { type: "object" } } },
+  ];
+
+  assertEquals(routeToolCall("client_only", clientTools), "client");
+  assertEquals(routeToolCall("native_only", clientTools), "native");
+  assertEquals(routeToolCall("missing", clientTools), "unknown");
+
+  // Collisions follow TOOL_COLLISION_POLICY
+  assertEquals(routeToolCall("shared_tool", clientTools), "native");
+  Deno.env.set("TOOL_COLLISION_POLICY", "client");
+  try {
+    assertEquals(routeToolCall("shared_tool", clientTools), "client");
+  } finally {
+    Deno.env.delete("TOOL_COLLISION_POLICY");
+  }
+
+  clearTools();
+});
+
+Deno.test("Tool Routing - Extract client tool calls from response", () => {
+  clearTools();
+  const clientTools: Tool[] = [
+    { type: "function", function: { name: "lookup_order", parameters: { type: "object" } } },
+  ];
+  const content = 'Let me look that up.\n```json\n{"name": "lookup_order", "arguments": {"id": 42}}\n```\n' +
+    '```json\n{"name": "lookup_order", "arguments": {"id": 43}}\n```';
+
+  const extracted = extractClientToolCalls(content, clientTools);
+  assertExists(extracted);
+  assertEquals(extracted.toolCalls.map((call) => call.function.name), ["lookup_order", "lookup_order"]);
+  assertEquals(JSON.parse(extracted.toolCalls[1].function.arguments), { id: 43 });
+  assertEquals(extracted.content, "Let me look that up.");
+
+  assertEquals(extractClientToolCalls(content, []), null);
+  assertEquals(extractClientToolCalls("No tools needed.", clientTools), null);
+});
+
+Deno.test("Tool Call Detection - Multiple calls in one turn", () => {
+  const content = [
+    'First:\n```json\n{"name": "get_weather", "arguments": {"city": "Paris"}}\n```',
+    "<function_calls>",
+    '<invoke name="get_weather">\n<parameter name="city">Rome</parameter>\n</invoke>',
+    '<invoke name="get_time">\n<parameter name="zone">UTC</parameter>\n</invoke>',
+    "</function_calls>",
+    'function_call: lookup({"id": 1})',
+    '```json\n[{"name": "a", "arguments": {}}, {"name": "b", "arguments": {"x": 1}}]\n```',
+  ].join("\n");
+  const data: UpstreamData = { type: "content", data: { delta_content: content, phase: "answer", done: true } };
+
+  const toolCalls = detectToolCalls(data, "call_turn");
+  assertEquals(toolCalls.map((call) => call.function.name), [
+    "get_weather",
+    "get_weather",
+    "get_time",
+    "lookup",
+    "a",
+    "b",
+  ]);
+  assertEquals(toolCalls.map((call) => call.id), [0, 1, 2, 3, 4, 5].map((index) => `call_turn_${index}`));
+  assertEquals(JSON.parse(toolCalls[1].function.arguments), { city: "Rome" });
+  assertEquals(JSON.parse(toolCalls[2].function.arguments), { zone: "UTC" });
+  assertEquals(JSON.parse(toolCalls[5].function.arguments), { x: 1 });
+
+  // Ids stay the same when the growing turn is detected again
+  const partial: UpstreamData = {
+    type: "content",
+    data: { delta_content: content.substring(0, content.indexOf("<function_calls>")), phase: "answer", done: false },
+  };
+  assertEquals(detectToolCalls(partial, "call_turn")[0].id, toolCalls[0].id);
+  assertEquals(detectToolCall(data)?.function.name, "get_weather");
+
+  // Exactly the markup the calls were read from is stripped, arrays included
+  assertEquals(stripToolCallMarkup(content), "First:");
+  const example = 'Config:\n```json\n{"debug": true}\n```';
+  assertEquals(stripToolCallMarkup(example), example);
+});
+
+Deno.test("Tool Execution - Concurrent calls respect the parallelism limit", async () => {
+  clearTools();
+  let running = 0;
+  let maxRunning = 0;
+  registerTool(
+    "slow_echo",
+    async (...args: unknown[]) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      running--;
+      return (args[0] as { value: number }).value;
+    },
+    "Echo after a delay",
+    { type: "object" },
+  );
+
+  const toolCalls = [1, 2, 3, 4, 5].map((value) => ({
+    id: `call_${value}`,
+    type: "function" as const,
+    function: { name: "slow_echo", arguments: JSON.stringify({ value }) },
+  }));
+
+  const results = await executeToolCalls(toolCalls, {}, 2);
+  assertEquals(results.map((result) => result.result), ["1", "2", "3", "4", "5"]);
+  assertEquals(results.map((result) => result.toolCall.id), toolCalls.map((call) => call.id));
+  assertEquals(maxRunning, 2);
+  clearTools();
+});
@@ -0,0 +1,92 @@
+/**
+ * Sampling parameter mapping tests
+ */
+
+import { assertEquals } from "assert";
+import { SUPPORTED_MODELS } from "../src/config/models.ts";
+import { applyParamWarnings, mapAnthropicParams, mapOpenAIParams } from "../src/services/param-mapper.ts";
+import { createApiKey, MemoryApiKeyStore, setApiKeyStore } from "../src/services/api-keys.ts";
+import { MemoryRateLimitStore, setRateLimitStore } from "../src/services/rate-limiter.ts";
+import { handleAnthropicMessages } from "../src/handlers/anthropic.ts";
+
+const glm45 = SUPPORTED_MODELS.find((m) => m.id === "0727-360B-API")!;
+const glm45v = SUPPORTED_MODELS.find((m) => m.id === "glm-4.5v")!;
+
+Deno.test("Param mapping - Defaults are used when client sends nothing", () => {
+  const result = mapOpenAIParams({ model: "glm-4.5", messages: [] }, glm45);
+  assertEquals(result.params, { top_p: 0.95, temperature: 0.6, max_tokens: 80000 });
+  assertEquals(result.warnings, []);
+});
+
+Deno.test("Param mapping - Client values override defaults", () => {
+  const result = mapOpenAIParams({
+    model: "glm-4.5",
+    messages: [],
+    temperature: 0.2,
+    top_p: 0.5,
+    max_completion_tokens: 1000,
+    max_tokens: 2000,
+    presence_penalty: 0.5,
+  }, glm45);
+
+  assertEquals(result.params, {
+    top_p: 0.5,
+    temperature: 0.2,
+    max_tokens: 1000,
+    presence_penalty: 0.5,
+  });
+  assertEquals(result.warnings, []);
+});
+
+Deno.test("Param mapping - Out-of-range values are clamped", () => {
+  const result = mapOpenAIParams({ model: "glm-4.5", messages: [], temperature: 5, max_tokens: 999999 }, glm45);
+  assertEquals(result.params.temperature, 2);
+  assertEquals(result.params.max_tokens, 80000);
+  assertEquals(result.warnings.length, 2);
+});
+
+Deno.test("Param mapping - Unsupported parameters are reported", () => {
+  const openai = mapOpenAIParams({ model: "glm-4.5v", messages: [], frequency_penalty: 1, seed: 42 }, glm45v);
+  assertEquals(openai.unsupported, ["seed", "frequency_penalty"]);
+  assertEquals(openai.params.frequency_penalty, undefined);
+
+  const anthropic = mapAnthropicParams({ temperature: 0.3, top_k: 40, max_tokens: 512 }, glm45);
+  assertEquals(anthropic.unsupported, ["top_k"]);
+  assertEquals(anthropic.params.temperature, 0.3);
+  assertEquals(anthropic.params.max_tokens, 512);
+});
+
+Deno.test("Param mapping - Warnings leave client values out of the header", () => {
+  const result = mapAnthropicParams({ temperature: "高" as unknown as number, max_tokens: 512 }, glm45);
+  const headers = new Headers();
+  applyParamWarnings(headers, result);
+  assertEquals(result.params.temperature, 0.6);
+  assertEquals(headers.get("X-Param-Warnings"), "temperature must be a number and was ignored");
+});
+
+Deno.test("Param mapping - Strict mode errors keep the response headers", async () => {
+  setApiKeyStore(new MemoryApiKeyStore());
+  setRateLimitStore(new MemoryRateLimitStore());
+  try {
+    const { key } = await createApiKey({ name: "Strict", rate_limits: { requests_per_minute: 10 } });
+    const response = await handleAnthropicMessages(
+      new Request("http://localhost/anthropic/v1/messages", {
+        method: "POST",
+        headers: { "x-api-key": key, "X-Strict-Params": "true" },
+        body: JSON.stringify({
+          model: "claude-3-5-sonnet-20241022",
+          max_tokens: 100,
+          temperature: 5,
+          messages: [{ role: "user", content: "Hi" }],
+        }),
+      }),
+    );
+    assertEquals(response.status, 400);
+    assertEquals(response.headers.get("Content-Type"), "application/json");
+    assertEquals(response.headers.get("Access-Control-Allow-Origin"), "*");
+    assertEquals(response.headers.get("x-ratelimit-remaining-requests"), "9");
+  } finally {
+    setApiKeyStore(null);
+    setRateLimitStore(null);
+  }
+});
@@ -0,0 +1,174 @@
+/**
+ * Rate limiter tests
+ * Token buckets in memory and Deno KV, per-key and per-user limits, headers and 429 responses
+ */
+
+import { assertEquals } from "assert";
+import {
+  checkRateLimit,
+  formatResetDuration,
+  KvRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitStore,
+  setRateLimitStore,
+} from "../src/services/rate-limiter.ts";
+import { type ApiKeyRecord, createApiKey, MemoryApiKeyStore, setApiKeyStore } from "../src/services/api-keys.ts";
+import { handleChatCompletions } from "../src/handlers/openai.ts";
+import { handleAnthropicMessages } from "../src/handlers/anthropic.ts";
+
+async function bucketSemantics(store: RateLimitStore): Promise<void> {
+  const requests = { key: "requests", capacity: 2, cost: 1 };
+  const tokens = { key: "tokens", capacity: 100, cost: 30 };
+
+  assertEquals((await store.take([requests, tokens], 0)).results.map((result) => result.remaining), [1, 70]);
+  assertEquals((await store.take([requests, tokens], 0)).results.map((result) => result.remaining), [0, 40]);
+
+  // Refused: nothing is taken from the tokens bucket either
+  const refused = await store.take([requests, tokens], 0);
+  assertEquals([refused.allowed, refused.results[0].retry_after_ms, refused.results[0].reset_ms], [
+    false,
+    30000,
+    60000,
+  ]);
+  assertEquals((await store.take([tokens], 0)).results[0].remaining, 10);
+
+  // Half a minute refills one request; an oversized cost empties a full bucket
+  assertEquals((await store.take([requests], 30000)).allowed, true);
+  assertEquals((await store.take([{ ...tokens, cost: 500 }], 120000)).results[0], {
+    capacity: 100,
+    remaining: 0,
+    reset_ms: 60000,
+    retry_after_ms: 0,
+  });
+}
+
+Deno.test("Rate limiter - Token buckets in memory and Deno KV", async () => {
+  await bucketSemantics(new MemoryRateLimitStore());
+  const kv = new KvRateLimitStore(":memory:");
+  try {
+    await bucketSemantics(kv);
+  } finally {
+    await kv.close();
+  }
+
+  // Idle buckets are full again and dropped; past the cap the least recently used go first
+  const memory = new MemoryRateLimitStore(2);
+  const full = (key: string) => ({ key, capacity: 1, cost: 1 });
+  await memory.take([full("a")], 0);
+  await memory.take([full("b")], 1000);
+  assertEquals(memory.size, 2);
+  await memory.take([full("c")], 60000);
+  assertEquals(memory.size, 2); // a was idle for a minute
+  assertEquals((await memory.take([full("b")], 60500)).allowed, false);
+  await memory.take([full("d")], 60500);
+  assertEquals(memory.size, 2);
+  assertEquals((await memory.take([full("b")], 60500)).allowed, true); // Over the cap b was dropped
+  assertEquals([formatResetDuration(250), formatResetDuration(1500), formatResetDuration(360000)], [
+    "250ms",
+    "1.5s",
+    "6m0s",
+  ]);
+});
+
+Deno.test("Rate limiter - Per-key and per-user limits", async () => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  try {
+    const key = {
+      id: "key_limits",
+      rate_limits: { requests_per_minute: 3, tokens_per_minute: 1000, user_requests_per_minute: 1 },
+    } as ApiKeyRecord;
+
+    const first = await checkRateLimit(key, "alice", 100);
+    assertEquals(first.allowed, true);
+    // The user bucket is tighter than the key bucket
+    assertEquals(first.headers, {
+      "x-ratelimit-limit-requests": "1",
+      "x-ratelimit-remaining-requests": "0",
+      "x-ratelimit-reset-requests": "1m0s",
+      "x-ratelimit-limit-tokens": "1000",
+      "x-ratelimit-remaining-tokens": "900",
+      "x-ratelimit-reset-tokens": "6s",
+    });
+
+    const second = await checkRateLimit(key, "alice", 100);
+    assertEquals([second.allowed, second.retry_after_seconds, second.headers["retry-after"]], [false, 60, "60"]);
+    assertEquals(
+      second.message,
+      "Rate limit of 1 requests per minute reached for user alice of this API key. Try again in 60 seconds.",
+    );
+
+    assertEquals((await checkRateLimit(key, "bob", 100)).allowed, true);
+    assertEquals((await checkRateLimit(key, undefined, 100)).allowed, true);
+    const exhausted = await checkRateLimit(key, undefined, 100);
+    assertEquals([exhausted.allowed, exhausted.message.endsWith("for this API key. Try again in 20 seconds.")], [
+      false,
+      true,
+    ]);
+
+    // No limits: no buckets and no headers
+    assertEquals(await checkRateLimit({ id: "key_free" } as ApiKeyRecord, "alice", 100), {
+      allowed: true,
+      headers: {},
+      retry_after_seconds: 0,
+      message: "",
+    });
+  } finally {
+    setRateLimitStore(null);
+  }
+});
+
+Deno.test("Rate limiter - 429 responses from the chat handlers", async () => {
+  setApiKeyStore(new MemoryApiKeyStore());
+  setRateLimitStore(new MemoryRateLimitStore());
+  try {
+    const { key, record } = await createApiKey({ name: "Limited", rate_limits: { requests_per_minute: 1 } });
+
+    // Requests without messages are refused before their tokens are estimated
+    const missing = await handleChatCompletions(
+      new Request("http://localhost/v1/chat/completions", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${key}` },
+        body: JSON.stringify({ model: "GLM-4.5" }),
+      }),
+    );
+    assertEquals([missing.status, await missing.text()], [400, "messages must be an array of message objects"]);
+    const invalid = await handleAnthropicMessages(
+      new Request("http://localhost/anthropic/v1/messages", {
+        method: "POST",
+        headers: { "x-api-key": key },
+        body: JSON.stringify({ model: "claude-3-5-sonnet-20241022", max_tokens: 10, messages: [null] }),
+      }),
+    );
+    assertEquals(invalid.status, 400);
+
+    assertEquals((await checkRateLimit(record, undefined, 0)).allowed, true);
+
+    const openai = await handleChatCompletions(
+      new Request("http://localhost/v1/chat/completions", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${key}` },
+        body: JSON.stringify({ model: "GLM-4.5", messages: [{ role: "user", content: "Hi" }] }),
+      }),
+    );
+    assertEquals([openai.status, openai.headers.get("retry-after")], [429, "60"]);
+    assertEquals(openai.headers.get("x-ratelimit-remaining-requests"), "0");
+    assertEquals((await openai.text()).startsWith("Rate limit of 1 requests per minute"), true);
+
+    const anthropic = await handleAnthropicMessages(
+      new Request("http://localhost/anthropic/v1/messages", {
+        method: "POST",
+        headers: { "x-api-key": key },
+        body: JSON.stringify({
+          model: "claude-3-5-sonnet-20241022",
+          max_tokens: 100,
+          messages: [{ role: "user", content: "Hi" }],
+        }),
+      }),
+    );
+    assertEquals(anthropic.status, 429);
+    assertEquals((await anthropic.json()).error.type, "rate_limit_error");
+  } finally {
+    setApiKeyStore(null);
+    setRateLimitStore(null);
+  }
+});
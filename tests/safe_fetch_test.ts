@@ -0,0 +1,156 @@
+/**
+ * Safe fetch tests
+ * URL and address checks, allow/deny lists, and fetch_url against a local server
+ */
+
+import { assertEquals, assertRejects, assertStringIncludes, assertThrows } from "assert";
+import { matchesHostList, parseIpAddress, validateUrl, validateUrlResolved } from "../src/services/safe-fetch.ts";
+import { clearTools, executeTool } from "../src/services/tool-registry.ts";
+import { initializeBuiltinTools } from "../src/services/init-tools.ts";
+
+async function withEnv(values: Record<string, string>, test: () => Promise<void> | void): Promise<void> {
+  const previous = Object.fromEntries(Object.keys(values).map((name) => [name, Deno.env.get(name)]));
+  for (const [name, value] of Object.entries(values)) Deno.env.set(name, value);
+  try {
+    await test();
+  } finally {
+    for (const [name, value] of Object.entries(previous)) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+}
+
+Deno.test("Safe fetch - IP address parsing", () => {
+  assertEquals(parseIpAddress("192.168.0.1"), [192, 168, 0, 1]);
+  assertEquals(parseIpAddress("256.1.1.1"), null);
+  assertEquals(parseIpAddress("::1"), [...new Array(15).fill(0), 1]);
+  assertEquals(parseIpAddress("[::ffff:10.0.0.1]"), [...new Array(10).fill(0), 0xff, 0xff, 10, 0, 0, 1]);
+  assertEquals(parseIpAddress("2001:db8::8a2e:370:7334")?.length, 16);
+  assertEquals(parseIpAddress("1:2:3:4:5:6:7:8:9"), null);
+  assertEquals(parseIpAddress("example.com"), null);
+});
+
+Deno.test("Safe fetch - Encoded, mapped and reserved addresses", () => {
+  // Decimal, hex and short IPv4 forms are normalized by the URL parser
+  for (const url of ["http://2130706433/", "http://0x7f.1/", "http://[::ffff:127.0.0.1]/", "http://[::1]:8080/"]) {
+    assertThrows(() => validateUrl(url), Error, "Access to localhost is not allowed");
+  }
+  assertThrows(() => validateUrl("http://[::ffff:10.0.0.1]/"), Error, "private IP range ::ffff:a00:1");
+  assertThrows(
+    () => validateUrl("http://169.254.169.254/latest/meta-data/"),
+    Error,
+    "private IP range 169.254.169.254",
+  );
+  assertThrows(() => validateUrl("http://[64:ff9b::a9fe:a9fe]/"), Error, "private IP range");
+  assertThrows(() => validateUrl("http://[2002:c0a8:101::]/"), Error, "private IP range");
+  assertThrows(() => validateUrl("http://[fd00::1]/"), Error, "private IP range fd00::1");
+  assertThrows(() => validateUrl("http://100.64.1.1/"), Error, "private IP range 100.64.1.1");
+  assertThrows(() => validateUrl("http://app.localhost/"), Error, "Access to localhost");
+  assertThrows(() => validateUrl("http://printer.local/"), Error, "internal hostname printer.local");
+  assertThrows(() => validateUrl("http://intranet/"), Error, "internal hostname intranet");
+  assertThrows(() => validateUrl("not a url"), Error, "Invalid URL format");
+
+  assertEquals(validateUrl("https://93.184.216.34/"), false);
+  assertEquals(validateUrl("https://dev.example.com/test"), false);
+  assertEquals(validateUrl("https://[2606:4700::1111]/"), false);
+});
+
+Deno.test("Safe fetch - Allow and deny lists", async () => {
+  assertEquals(matchesHostList("a.example.com", null, ["*.example.com"]), true);
+  assertEquals(matchesHostList("example.com", null, ["*.example.com"]), false);
+  assertEquals(matchesHostList("x", [10, 1, 2, 3], ["10.1.0.0/16"]), true);
+  assertEquals(matchesHostList("x", [10, 2, 0, 1], ["10.1.0.0/16"]), false);
+
+  await withEnv({ FETCH_ALLOW_HOSTS: "wiki.corp, 10.1.0.0/16", FETCH_DENY_HOSTS: "*.example.org,8.8.8.0/24" }, () => {
+    assertEquals(validateUrl("http://wiki.corp/page"), true);
+    assertEquals(validateUrl("http://10.1.2.3/"), true);
+    assertThrows(() => validateUrl("http://10.2.0.1/"), Error, "private IP range 10.2.0.1");
+    assertThrows(() => validateUrl("https://www.example.org/"), Error, "www.example.org is denied by configuration");
+    assertThrows(() => validateUrl("https://8.8.8.8/"), Error, "8.8.8.8 is denied by configuration");
+    // Trusted hosts of an HTTP tool
+    assertEquals(validateUrl("http://127.0.0.1/", ["127.0.0.1"]), true);
+  });
+
+  // Names that do not resolve are refused rather than fetched unchecked
+  await assertRejects(() => validateUrlResolved("https://nonexistent.invalid/"), Error, "Could not resolve host");
+});
+
+Deno.test("Safe fetch - fetch_url redirects, charsets, extraction and limits", async () => {
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, (request) => {
+    const url = new URL(request.url);
+    switch (url.pathname) {
+      case "/redirect":
+        return Response.redirect(`http://localhost:${url.port}/page`, 302);
+      case "/moved":
+        return Response.redirect(`http://127.0.0.1:${url.port}/page`, 301);
+      case "/page": {
+        // windows-1252, declared only in the page
+        const html = '<html><head><meta charset="windows-1252"><title>Caf\xe9 menu</title></head><body>' +
+          '<nav><a href="/">Home</a></nav><article><h2>Drinks</h2><p>Our caf\xe9 serves coffee, tea, and cocoa, ' +
+          "brewed fresh every morning from beans roasted in town.</p><table class='prices'><tr><th>Item</th>" +
+          "<th>Price</th></tr><tr><td>Coffee</td><td>2.50</td></tr></table>" + "<p>Filler text. ".repeat(40) +
+          "</p></article><footer>Imprint</footer></body></html>";
+        return new Response(Uint8Array.from(html, (char) => char.charCodeAt(0)), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+      case "/data":
+        return Response.json({ items: [1, 2] });
+      case "/large":
+        return new Response("x".repeat(50_000), { headers: { "Content-Type": "text/plain" } });
+      case "/image":
+        return new Response(new Uint8Array(10), { headers: { "Content-Type": "image/png" } });
+      default:
+        return new Response("not found", { status: 404 });
+    }
+  });
+  const baseUrl = `http://127.0.0.1:${server.addr.port}`;
+
+  try {
+    clearTools();
+    initializeBuiltinTools();
+    await withEnv({ FETCH_ALLOW_HOSTS: "127.0.0.1", FETCH_URL_MAX_BYTES: "20000" }, async () => {
+      const page = await executeTool("fetch_url", { url: `${baseUrl}/moved` }) as string;
+      assertStringIncludes(page, "Title: Café menu\nURL: " + `${baseUrl}/page`);
+      assertStringIncludes(page, "## Drinks\n\nOur café serves coffee");
+      assertStringIncludes(page, "| Item | Price |\n| --- | --- |\n| Coffee | 2.50 |");
+      assertEquals(page.includes("Home") || page.includes("Imprint"), false);
+
+      const prices = await executeTool("fetch_url", { url: `${baseUrl}/page`, selector: "table.prices td" });
+      assertEquals(prices, `Title: Café menu\nURL: ${baseUrl}/page\n\nCoffee\n\n2.50`);
+
+      const short = await executeTool("fetch_url", { url: `${baseUrl}/page`, max_chars: 20 }) as string;
+      assertStringIncludes(short, "[Truncated: showing 20 of");
+
+      assertEquals(
+        await executeTool("fetch_url", { url: `${baseUrl}/data` }),
+        '{\n  "items": [\n    1,\n    2\n  ]\n}',
+      );
+
+      const large = await executeTool("fetch_url", { url: `${baseUrl}/large`, max_chars: 30000 }) as string;
+      assertEquals(large, "x".repeat(20000) + "\n\n[Truncated: only the first 20000 bytes were read]");
+
+      // Every redirect hop is checked: localhost is not on the allow list
+      await assertRejects(() => executeTool("fetch_url", { url: `${baseUrl}/redirect` }), Error, "Access to localhost");
+      await assertRejects(
+        () => executeTool("fetch_url", { url: `${baseUrl}/image` }),
+        Error,
+        "Unsupported content type",
+      );
+      await assertRejects(() => executeTool("fetch_url", { url: `${baseUrl}/missing` }), Error, "HTTP 404");
+      await assertRejects(
+        () => executeTool("fetch_url", { url: `${baseUrl}/data`, selector: "p" }),
+        Error,
+        "selector can only be used with HTML pages",
+      );
+      await assertRejects(
+        () => executeTool("fetch_url", { url: `${baseUrl}/page`, selector: "ul.missing" }),
+        Error,
+        "No elements match selector",
+      );
+    });
+  } finally {
+    await server.shutdown();
+  }
+});
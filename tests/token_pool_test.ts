@@ -0,0 +1,131 @@
+/**
+ * Token pool tests
+ * Tests token selection, failover between configured tokens, cooldowns, expiry and health probes
+ */
+
+import { assertEquals } from "assert";
+import { readTokenExpiry, TokenPool, tokenState } from "../src/services/token-pool.ts";
+import { checkTokenHealth, describePoolTokens, probeToken } from "../src/services/token-health.ts";
+
+function createPool(tokens: string[]): TokenPool {
+  const previous = Deno.env.get("ZAI_TOKENS");
+  Deno.env.set("ZAI_TOKENS", tokens.join(","));
+  try {
+    return new TokenPool();
+  } finally {
+    if (previous === undefined) {
+      Deno.env.delete("ZAI_TOKENS");
+    } else {
+      Deno.env.set("ZAI_TOKENS", previous);
+    }
+  }
+}
+
+Deno.test("TokenPool - Uses configured tokens", async () => {
+  const pool = createPool(["token-a", "token-b"]);
+  assertEquals(pool.getPoolSize(), 2);
+  assertEquals(await pool.getToken(), "token-a");
+});
+
+Deno.test("TokenPool - Fails over to the next untried token", async () => {
+  const pool = createPool(["token-a", "token-b", "token-c"]);
+  const attempted = new Set<string>(["token-a"]);
+
+  const next = await pool.getFailoverToken("token-a", attempted);
+  assertEquals(next, "token-b");
+
+  // The failed token is skipped for the next request
+  assertEquals(await pool.getToken(), "token-b");
+});
+
+Deno.test("TokenPool - Success resets failure count", async () => {
+  const pool = createPool(["token-a", "token-b"]);
+
+  pool.markFailure("token-a");
+  pool.markFailure("token-a");
+  pool.markSuccess("token-a");
+  pool.markFailure("token-a");
+
+  // Still below the retry threshold, so token-a remains usable after a rotation
+  const next = await pool.getFailoverToken("token-b", new Set(["token-b"]));
+  assertEquals(next, "token-a");
+});
+
+function jwt(payload: Record<string, unknown>): string {
+  const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/=+$/, "").replace(/\+/g, "-");
+  return `${encode({ alg: "HS256" })}.${encode(payload)}.signature`;
+}
+
+Deno.test("TokenPool - Failed tokens cool down exponentially and recover", async () => {
+  Deno.env.set("TOKEN_COOLDOWN_MS", "40");
+  try {
+    const pool = createPool(["token-a", "token-b"]);
+    for (let i = 0; i < 3; i++) pool.markFailure("token-a");
+    const [cooling] = pool.getTokens();
+    assertEquals([tokenState(cooling), cooling.cooldowns], ["cooldown", 1]);
+    assertEquals(await pool.getToken(), "token-b");
+
+    // After the cooldown the token is tried again; one more failure doubles the cooldown
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assertEquals(tokenState(pool.getTokens()[0]), "active");
+    pool.markFailure("token-a");
+    const [again] = pool.getTokens();
+    assertEquals([tokenState(again), again.cooldowns, again.cooldownUntil - Date.now() > 40], ["cooldown", 2, true]);
+
+    // Failures during the cooldown do not extend it; a healthy probe ends it
+    pool.markFailure("token-a");
+    assertEquals(pool.getTokens()[0].cooldowns, 2);
+    pool.recordHealthCheck("token-a", true);
+    assertEquals([tokenState(pool.getTokens()[0]), pool.getTokens()[0].failureCount], ["active", 0]);
+  } finally {
+    Deno.env.delete("TOKEN_COOLDOWN_MS");
+  }
+});
+
+Deno.test("TokenPool - Tokens are not used close to their JWT expiry", async () => {
+  const soon = jwt({ id: "user-1", exp: Math.floor(Date.now() / 1000) + 60 });
+  const later = jwt({ id: "user-2", exp: Math.floor(Date.now() / 1000) + 3600 });
+  assertEquals(readTokenExpiry(later), JSON.parse(atob(later.split(".")[1])).exp * 1000);
+  assertEquals(readTokenExpiry("not-a-jwt"), null);
+
+  const pool = createPool([soon, later]);
+  assertEquals(tokenState(pool.getTokens()[0]), "expired");
+  assertEquals(await pool.getToken(), later);
+});
+
+Deno.test("TokenPool - Statistics and health probes", async () => {
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, (request) => {
+    const authorization = request.headers.get("Authorization");
+    if (authorization === "Bearer token-ok") return Response.json({ id: "user-1" });
+    if (authorization === "Bearer token-down") return new Response("Bad gateway", { status: 502 });
+    return new Response("Unauthorized", { status: 401, statusText: "Unauthorized" });
+  });
+  try {
+    const pool = createPool(["token-ok", "token-bad", "token-down"]);
+    pool.recordRequest("token-ok", 100, null);
+    pool.recordRequest("token-ok", 300, "HTTP 500 Internal Server Error");
+
+    const url = `http://127.0.0.1:${server.addr.port}/api/v1/auths/`;
+    assertEquals(await probeToken("token-ok", url), { healthy: true, error: null });
+    for (let i = 0; i < 3; i++) await checkTokenHealth(pool, url);
+
+    const [ok, bad, down] = await describePoolTokens(pool);
+    assertEquals([ok.state, ok.requests, ok.errors, ok.average_latency_ms, ok.last_error], [
+      "active",
+      2,
+      1,
+      200,
+      "HTTP 500 Internal Server Error",
+    ]);
+    assertEquals([bad.state, bad.failure_count, bad.last_error], [
+      "cooldown",
+      3,
+      "Health probe: HTTP 401 Unauthorized",
+    ]);
+    // An unreachable or failing upstream says nothing about the token
+    assertEquals([down.state, down.failure_count, down.last_checked], ["active", 0, null]);
+    assertEquals(ok.id.startsWith("tok_"), true);
+  } finally {
+    await server.shutdown();
+  }
+});
@@ -0,0 +1,153 @@
+/**
+ * Streaming tool call detector tests
+ * Feeds answer text in small pieces and replays a recorded upstream fixture with a tool call
+ */
+
+import { assertEquals } from "assert";
+import { StreamingToolCallDetector, type ToolCallStreamEvent } from "../src/services/tool-call-detector.ts";
+import { processStreamingResponse } from "../src/utils/stream.ts";
+import { processAnthropicStream } from "../anthropic.ts";
+import type { Tool } from "../src/types/definitions.ts";
+
+const weatherTool: Tool = {
+  type: "function",
+  function: { name: "get_weather", parameters: { type: "object", properties: { city: { type: "string" } } } },
+};
+
+function feed(detector: StreamingToolCallDetector, pieces: string[]): ToolCallStreamEvent[] {
+  return [...pieces.flatMap((piece) => detector.push(piece)), ...detector.end()];
+}
+
+function textOf(events: ToolCallStreamEvent[]): string {
+  return events.map((event) => event.type === "text" ? event.text : "").join("");
+}
+
+function argumentsOf(events: ToolCallStreamEvent[], index: number): string {
+  return events
+    .map((event) => event.type === "tool_call_delta" && event.index === index ? event.arguments : "")
+    .join("");
+}
+
+Deno.test("Tool call detector - Holds back markup and streams arguments", () => {
+  const answer = 'Checking.\n```json\n{"name": "get_weather", "arguments": {"city": "Paris"}}\n```\nDone.';
+  const detector = new StreamingToolCallDetector(() => true, "call_test");
+  const events = feed(detector, [...answer]);
+
+  assertEquals(textOf(events), "Checking.\n\nDone.");
+  assertEquals(events.filter((event) => event.type === "tool_call_start"), [
+    { type: "tool_call_start", index: 0, id: "call_test_0", name: "get_weather" },
+  ]);
+  assertEquals(argumentsOf(events, 0), '{"city": "Paris"}');
+  assertEquals(events.filter((event) => event.type === "tool_call_delta").length > 1, true);
+  assertEquals(detector.toolCalls.map((call) => call.function.arguments), ['{"city": "Paris"}']);
+
+  // Prose before the markup is released before the call starts
+  const firstCallEvent = events.findIndex((event) => event.type !== "text");
+  assertEquals(textOf(events.slice(0, firstCallEvent)), "Checking.\n");
+});
+
+Deno.test("Tool call detector - Releases prose that only looks like markup", () => {
+  const samples = [
+    'Example config:\n```json\n{"debug": true}\n```\n',
+    "In Python:\n```python\nprint(1)\n```",
+    "Use the function_call: syntax only when needed.",
+    "A trailing backtick `",
+  ];
+  for (const sample of samples) {
+    assertEquals(textOf(feed(new StreamingToolCallDetector(), [...sample])), sample);
+  }
+
+  // Calls to tools that are not accepted stay in the text
+  const unknown = '```json\n{"name": "launch", "arguments": {}}\n```';
+  const detector = new StreamingToolCallDetector((name) => name === "get_weather");
+  assertEquals(textOf(feed(detector, [unknown])), unknown);
+  assertEquals(detector.toolCalls, []);
+});
+
+Deno.test("Tool call detector - Emits XML, simple and array calls when complete", () => {
+  const answer = [
+    '<function_calls>\n<invoke name="get_weather">\n<parameter name="city">Rome</parameter>\n</invoke>\n',
+    '<invoke name="get_time">\n<parameter name="zone">UTC</parameter>\n</invoke>\n</function_calls>\n',
+    'function_call: lookup({"id": 1})\n',
+    '```json\n[{"name": "a", "arguments": {}}]\n```',
+  ].join("");
+  const detector = new StreamingToolCallDetector(() => true, "call_turn");
+  const events = feed(detector, answer.match(/.{1,7}/gs)!);
+
+  assertEquals(textOf(events), "\n\n");
+  assertEquals(detector.toolCalls.map((call) => call.function.name), ["get_weather", "get_time", "lookup", "a"]);
+  assertEquals(detector.toolCalls.map((call) => call.id), ["call_turn_0", "call_turn_1", "call_turn_2", "call_turn_3"]);
+  assertEquals(argumentsOf(events, 1), '{"zone":"UTC"}');
+});
+
+Deno.test("Tool call detector - OpenAI stream sends argument deltas instead of markup", async () => {
+  const fixture = await Deno.readTextFile(new URL("./fixtures/tool_call.sse.txt", import.meta.url));
+  const stream = new TransformStream();
+  const output = new Response(stream.readable).text();
+  await processStreamingResponse(
+    new Response(fixture).body!,
+    stream.writable.getWriter(),
+    new TextEncoder(),
+    "glm-4.5",
+    "strip",
+    [weatherTool],
+  );
+
+  const choices = (await output)
+    .split("\n")
+    .filter((line) => line.startsWith("data: {"))
+    .map((line) => JSON.parse(line.substring(6)).choices[0]);
+
+  const content = choices.map((choice) => choice.delta.content ?? "").join("");
+  assertEquals(content.includes("```"), false);
+  assertEquals(content.trim().endsWith("Let me check the weather for you."), true);
+
+  const toolCallDeltas = choices.filter((choice) => choice.delta.tool_calls).map((choice) =>
+    choice.delta.tool_calls[0]
+  );
+  assertEquals(toolCallDeltas[0].function.name, "get_weather");
+  assertEquals(toolCallDeltas[0].type, "function");
+  assertEquals(toolCallDeltas.every((delta) => delta.index === 0), true);
+  assertEquals(toolCallDeltas.slice(1).every((delta) => delta.id === undefined), true);
+  assertEquals(
+    JSON.parse(toolCallDeltas.map((delta) => delta.function.arguments).join("")),
+    { city: "Paris", units: { temp: "c" } },
+  );
+  assertEquals(choices[choices.length - 1].finish_reason, "tool_calls");
+});
+
+Deno.test("Tool call detector - Anthropic stream sends input_json_delta events", async () => {
+  const fixture = await Deno.readTextFile(new URL("./fixtures/tool_call.sse.txt", import.meta.url));
+  const events: Array<{ event: string; data: Record<string, unknown> }> = [];
+  for await (
+    const chunk of processAnthropicStream(new Response(fixture).body!, "claude-sonnet-4-20250514", "test", {
+      clientTools: [weatherTool],
+    })
+  ) {
+    const [eventLine, dataLine] = chunk.trim().split("\n");
+    events.push({ event: eventLine.substring(7), data: JSON.parse(dataLine.substring(6)) });
+  }
+
+  const blockStarts = events.filter((e) => e.event === "content_block_start");
+  assertEquals(blockStarts.map((e) => (e.data.content_block as { type: string }).type), [
+    "thinking",
+    "text",
+    "tool_use",
+  ]);
+  const toolUseIndex = blockStarts[2].data.index;
+
+  const text = events
+    .filter((e) => e.event === "content_block_delta" && (e.data.delta as { type: string }).type === "text_delta")
+    .map((e) => (e.data.delta as { text: string }).text)
+    .join("");
+  assertEquals(text, "Let me check the weather for you.\n");
+
+  const partialJson = events
+    .filter((e) => e.event === "content_block_delta" && e.data.index === toolUseIndex)
+    .map((e) => (e.data.delta as { partial_json: string }).partial_json)
+    .join("");
+  assertEquals(JSON.parse(partialJson), { city: "Paris", units: { temp: "c" } });
+
+  const messageDelta = events[events.length - 2];
+  assertEquals((messageDelta.data.delta as { stop_reason: string }).stop_reason, "tool_use");
+});
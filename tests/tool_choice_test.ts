@@ -0,0 +1,159 @@
+/**
+ * tool_choice tests
+ * Policy resolution, routing and enforcement of required calls
+ */
+
+import { assertEquals, assertThrows } from "assert";
+import type { Tool } from "../src/types/definitions.ts";
+import { resolveToolCallPolicy } from "../src/services/tool-choice.ts";
+import { extractClientToolCalls, partitionToolCalls, routeToolCall } from "../src/services/tool-processor.ts";
+import { collectWithNativeTools, type NativeToolCallHandler } from "../src/services/agent-loop.ts";
+import { processStreamingResponse } from "../src/utils/stream.ts";
+import { createApiKey, MemoryApiKeyStore, setApiKeyStore } from "../src/services/api-keys.ts";
+import { handleAnthropicMessages } from "../src/handlers/anthropic.ts";
+
+const tools: Tool[] = ["get_weather", "get_time"].map((name) => ({
+  type: "function",
+  function: { name, parameters: { type: "object" } },
+}));
+
+const weatherCall = '```json\n{"name": "get_weather", "arguments": {"city": "Paris"}}\n```';
+const timeCall = '```json\n{"name": "get_time", "arguments": {}}\n```';
+
+function upstreamTurn(chunks: string[]): ReadableStream<Uint8Array> {
+  const events: Array<{ type: string; data: Record<string, unknown> }> = chunks.map((chunk) => ({
+    type: "chat:completion",
+    data: { delta_content: chunk, phase: "answer" },
+  }));
+  events.push({ type: "chat:completion", data: { delta_content: "", phase: "done", done: true } });
+  return new Response(events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("")).body!;
+}
+
+interface StreamChunk {
+  choices: Array<{
+    delta: { content?: string; tool_calls?: Array<{ index: number; function: { name?: string } }> };
+    finish_reason?: string;
+  }>;
+  error?: { type: string };
+}
+
+async function streamChunks(
+  body: ReadableStream<Uint8Array>,
+  toolChoice: unknown,
+  parallelToolCalls?: boolean,
+): Promise<StreamChunk[]> {
+  const stream = new TransformStream();
+  const output = new Response(stream.readable).text();
+  await processStreamingResponse(
+    body,
+    stream.writable.getWriter(),
+    new TextEncoder(),
+    "glm-4.5",
+    "think",
+    tools,
+    undefined,
+    resolveToolCallPolicy(toolChoice, parallelToolCalls, tools),
+  );
+  return (await output)
+    .split("\n")
+    .filter((line) => line.startsWith("data: {"))
+    .map((line) => JSON.parse(line.substring(6)));
+}
+
+Deno.test("tool_choice - Resolves and validates the policy", () => {
+  assertEquals(resolveToolCallPolicy(undefined, undefined, tools), { mode: "auto", parallel: true });
+  assertEquals(resolveToolCallPolicy("none", false, tools), { mode: "none", parallel: false });
+  assertEquals(resolveToolCallPolicy("required", undefined, tools), { mode: "required", parallel: true });
+  assertEquals(
+    resolveToolCallPolicy({ type: "function", function: { name: "get_time" } }, undefined, tools),
+    { mode: "function", name: "get_time", parallel: true },
+  );
+
+  assertThrows(() => resolveToolCallPolicy("required", undefined, []), Error, "needs at least one tool");
+  assertThrows(
+    () => resolveToolCallPolicy({ type: "function", function: { name: "missing" } }, undefined, tools),
+    Error,
+    "not in 'tools': missing",
+  );
+  assertThrows(() => resolveToolCallPolicy("sometimes", undefined, tools), Error, "Invalid tool_choice");
+});
+
+Deno.test("tool_choice - Routing follows the policy", () => {
+  const none = resolveToolCallPolicy("none", undefined, tools);
+  assertEquals(routeToolCall("get_weather", tools, none), "unknown");
+
+  const forced = resolveToolCallPolicy({ type: "function", function: { name: "get_time" } }, undefined, tools);
+  assertEquals(routeToolCall("get_weather", tools, forced), "unknown");
+  assertEquals(routeToolCall("get_time", tools, forced), "client");
+
+  const content = `${weatherCall}\n${timeCall}`;
+  assertEquals(
+    extractClientToolCalls(content, tools, forced)?.toolCalls.map((call) => call.function.name),
+    ["get_time"],
+  );
+
+  const single = resolveToolCallPolicy("auto", false, tools);
+  const toolCalls = extractClientToolCalls(content, tools)!.toolCalls;
+  assertEquals(partitionToolCalls(toolCalls, tools, single).client.map((call) => call.function.name), ["get_weather"]);
+});
+
+Deno.test("tool_choice - none leaves call markup as text", async () => {
+  const chunks = await streamChunks(upstreamTurn(["Here:\n", weatherCall]), "none");
+  const choices = chunks.map((chunk) => chunk.choices[0]);
+
+  assertEquals(choices.some((choice) => choice.delta.tool_calls), false);
+  assertEquals(choices.map((choice) => choice.delta.content ?? "").join(""), `Here:\n${weatherCall}`);
+  assertEquals(choices[choices.length - 1].finish_reason, "stop");
+});
+
+Deno.test("tool_choice - parallel_tool_calls false streams a single call", async () => {
+  const chunks = await streamChunks(upstreamTurn([weatherCall, "\n", timeCall]), "auto", false);
+  const toolCalls = chunks.flatMap((chunk) => chunk.choices[0].delta.tool_calls ?? []);
+
+  assertEquals(toolCalls.filter((call) => call.function.name).map((call) => call.function.name), ["get_weather"]);
+  assertEquals(toolCalls.every((call) => call.index === 0), true);
+});
+
+Deno.test("tool_choice - required re-prompts, then fails", async () => {
+  const policy = resolveToolCallPolicy("required", undefined, tools);
+  const retries: string[] = [];
+  const handler: NativeToolCallHandler = (toolCalls, assistantText) => {
+    assertEquals(toolCalls, []);
+    retries.push(assistantText);
+    return Promise.resolve(retries.length === 1 ? { results: [], body: upstreamTurn([weatherCall]) } : null);
+  };
+
+  const result = await collectWithNativeTools(upstreamTurn(["It is sunny."]), "think", tools, handler, policy);
+  assertEquals(retries, ["It is sunny."]);
+  assertEquals(extractClientToolCalls(result.content, tools, policy)?.toolCalls[0].function.name, "get_weather");
+
+  // Without a way to re-prompt the stream ends with an error
+  const chunks = await streamChunks(upstreamTurn(["It is sunny."]), "required");
+  assertEquals(chunks[chunks.length - 1].error?.type, "tool_choice_error");
+});
+
+Deno.test("tool_choice - Anthropic rejection keeps the response headers", async () => {
+  setApiKeyStore(new MemoryApiKeyStore());
+  try {
+    const { key } = await createApiKey({ name: "Tools" });
+    const response = await handleAnthropicMessages(
+      new Request("http://localhost/anthropic/v1/messages", {
+        method: "POST",
+        headers: { "x-api-key": key },
+        body: JSON.stringify({
+          model: "claude-3-5-sonnet-20241022",
+          max_tokens: 100,
+          tools: [{ name: "get_weather", input_schema: { type: "object" } }],
+          tool_choice: { type: "tool", name: "missing_tool" },
+          messages: [{ role: "user", content: "Hi" }],
+        }),
+      }),
+    );
+    assertEquals(response.status, 400);
+    assertEquals((await response.json()).error.type, "invalid_request_error");
+    assertEquals(response.headers.get("Content-Type"), "application/json");
+    assertEquals(response.headers.get("Access-Control-Allow-Origin"), "*");
+  } finally {
+    setApiKeyStore(null);
+  }
+});
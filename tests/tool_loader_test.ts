@@ -0,0 +1,113 @@
+/**
+ * Tool pack loader tests
+ * Loads the tool pack fixtures and drives the /admin/tools endpoints
+ */
+
+import { assertEquals } from "assert";
+import { clearTools, executeTool, hasTool, registerTool } from "../src/services/tool-registry.ts";
+import { getToolPackStatus, loadToolPacks, resetToolPacks, setToolEnabled } from "../src/services/tool-loader.ts";
+import { handleAdmin } from "../src/handlers/admin.ts";
+import { resetAdminState, setAdminStateWriter } from "../src/services/admin-state.ts";
+
+const fixtures = new URL("./fixtures/", import.meta.url).pathname;
+
+function configure(env: Record<string, string>): void {
+  for (const name of ["TOOLS_DIR", "TOOLS_MANIFEST", "TOOLS_DISABLED", "ADMIN_KEY"]) {
+    if (name in env) {
+      Deno.env.set(name, env[name]);
+    } else {
+      Deno.env.delete(name);
+    }
+  }
+}
+
+function reset(): void {
+  resetToolPacks();
+  clearTools();
+  configure({});
+}
+
+Deno.test("Tool packs - Load modules from the tools directory", async () => {
+  reset();
+  registerTool("get_current_time", () => "now", "Current time", { type: "object" });
+  configure({ TOOLS_DIR: `${fixtures}tools` });
+
+  const status = await loadToolPacks();
+  assertEquals(
+    status.tools.map(({ name, source, version, enabled }) => ({ name, source, version, enabled })),
+    [
+      { name: "count_words", source: "tests/fixtures/tools/text.ts", version: "2.0.0", enabled: true },
+      { name: "get_current_time", source: "builtin", version: null, enabled: true },
+      { name: "reverse_text", source: "tests/fixtures/tools/text.ts", version: "1.2.0", enabled: true },
+    ],
+  );
+  assertEquals(status.errors.map((error) => error.source), ["tests/fixtures/tools/invalid.ts"]);
+  assertEquals(await executeTool("reverse_text", { text: "abc" }), "cba");
+
+  // Reloading from another directory replaces the pack tools and keeps built-in tools
+  configure({ TOOLS_DIR: `${fixtures}missing` });
+  const reloaded = await loadToolPacks();
+  assertEquals(reloaded.tools.map((tool) => tool.name), ["get_current_time"]);
+  assertEquals(reloaded.errors, []);
+  reset();
+});
+
+Deno.test("Tool packs - Manifest modules and enable/disable flags", async () => {
+  reset();
+  registerTool("get_current_time", () => "now", "Current time", { type: "object" });
+  configure({
+    TOOLS_DIR: `${fixtures}missing`,
+    TOOLS_MANIFEST: `${fixtures}tool-packs/manifest.json`,
+    TOOLS_DISABLED: "get_current_time",
+  });
+
+  await loadToolPacks();
+  const enabled = () => getToolPackStatus().tools.filter((tool) => tool.enabled).map((tool) => tool.name);
+  assertEquals(enabled(), ["get_order", "reverse_text", "upper_text"]);
+  assertEquals(hasTool("count_words"), false);
+  assertEquals(hasTool("get_current_time"), false);
+
+  // Runtime flags win over the configuration and survive a reload
+  assertEquals(setToolEnabled("count_words", true), true);
+  assertEquals(setToolEnabled("upper_text", false), true);
+  assertEquals(setToolEnabled("missing_tool", true), false);
+  await loadToolPacks();
+  assertEquals(enabled(), ["count_words", "get_order", "reverse_text"]);
+  reset();
+});
+
+Deno.test("Tool packs - Admin endpoints", async () => {
+  reset();
+  configure({ TOOLS_DIR: `${fixtures}tools` });
+  await loadToolPacks();
+
+  const request = (method: string, path: string, key?: string) =>
+    handleAdmin(
+      new Request(`http://localhost${path}`, { method, headers: key ? { Authorization: `Bearer ${key}` } : {} }),
+    );
+
+  assertEquals((await request("GET", "/admin/tools")).status, 403);
+
+  configure({ TOOLS_DIR: `${fixtures}tools`, ADMIN_KEY: "admin-secret" });
+  assertEquals((await request("GET", "/admin/tools", "wrong")).status, 401);
+
+  const list = await (await request("GET", "/admin/tools", "admin-secret")).json();
+  assertEquals(list.tools.map((tool: { name: string }) => tool.name), ["count_words", "reverse_text"]);
+
+  // Toggles are refused unless ADMIN_STATE_FILE keeps them
+  assertEquals((await request("POST", "/admin/tools/reverse_text/disable", "admin-secret")).status, 409);
+  assertEquals(hasTool("reverse_text"), true);
+
+  setAdminStateWriter(() => Promise.resolve());
+  const disable = await request("POST", "/admin/tools/reverse_text/disable", "admin-secret");
+  assertEquals(await disable.json(), { name: "reverse_text", enabled: false });
+  assertEquals(hasTool("reverse_text"), false);
+  assertEquals((await request("POST", "/admin/tools/unknown/enable", "admin-secret")).status, 404);
+  setAdminStateWriter(null);
+  resetAdminState();
+
+  const reload = await (await request("POST", "/admin/tools/reload", "admin-secret")).json();
+  assertEquals(reload.tools.find((tool: { name: string }) => tool.name === "reverse_text").enabled, false);
+  assertEquals((await request("GET", "/admin/unknown", "admin-secret")).status, 404);
+  reset();
+});
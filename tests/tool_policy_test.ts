@@ -0,0 +1,120 @@
+/**
+ * Tool policy tests
+ * Per-key access, approval, rate, concurrency, timeout and result size limits around tool execution
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "assert";
+import { clearTools, registerTool } from "../src/services/tool-registry.ts";
+import {
+  checkToolAccess,
+  executeToolWithPolicy,
+  resetToolPolicyState,
+  setToolPolicy,
+  ToolPolicyError,
+} from "../src/services/tool-policy.ts";
+import { processToolCall } from "../src/services/tool-processor.ts";
+import { getToolStats } from "../src/utils/stats.ts";
+import type { ToolCall } from "../src/types/definitions.ts";
+
+function toolCall(name: string, args: Record<string, unknown> = {}): ToolCall {
+  return { id: `call_${name}`, type: "function", function: { name, arguments: JSON.stringify(args) } };
+}
+
+function setup(): void {
+  clearTools();
+  resetToolPolicyState();
+  const schema = { type: "object", properties: {} };
+  registerTool("echo", (args) => args, "Echo", schema);
+  registerTool("shell", () => "ran", "Shell", schema);
+  registerTool("slow", () => new Promise((resolve) => setTimeout(() => resolve("done"), 50)), "Slow", schema);
+  registerTool("big", () => "x".repeat(200), "Big", schema);
+}
+
+Deno.test("Tool policy - Per-key access and approval", () => {
+  setup();
+  setToolPolicy({
+    tools: { shell: { requires_approval: true } },
+    keys: {
+      "*": { deny: ["shell"] },
+      "sk-ops": { allow: ["*"], approve: ["shell"] },
+      "sk-dev": { allow: ["echo", "shell"] },
+      "sk-readonly": { allow: ["*"], deny: ["echo"] },
+    },
+  });
+
+  checkToolAccess("echo");
+  assertThrows(() => checkToolAccess("shell", { apiKey: "sk-unknown" }), ToolPolicyError, "not allowed");
+  checkToolAccess("shell", { apiKey: "sk-ops" });
+  assertThrows(() => checkToolAccess("slow", { apiKey: "sk-dev" }), ToolPolicyError, "not allowed");
+  assertThrows(() => checkToolAccess("shell", { apiKey: "sk-dev" }), ToolPolicyError, "requires approval");
+  checkToolAccess("shell", { apiKey: "sk-dev", approvedTools: ["shell"] });
+  assertThrows(() => checkToolAccess("echo", { apiKey: "sk-readonly" }), ToolPolicyError, "not allowed");
+
+  assertThrows(() => setToolPolicy({ tools: { echo: { max_concurrent: 0 } } }), Error, "tools.echo: max_concurrent");
+  assertThrows(() => setToolPolicy({ keys: { "*": { deny: "shell" as unknown as string[] } } }), Error, "deny");
+  setToolPolicy({});
+});
+
+Deno.test("Tool policy - Rate, concurrency, timeout and result size", async () => {
+  setup();
+  setToolPolicy({
+    defaults: { timeout_ms: 1000 },
+    tools: {
+      echo: { rate_per_minute: 2 },
+      slow: { max_concurrent: 1, timeout_ms: 20 },
+      big: { max_result_chars: 100 },
+    },
+  });
+
+  try {
+    assertEquals(await executeToolWithPolicy("echo", { a: 1 }), { a: 1 });
+    await executeToolWithPolicy("echo", {});
+    const limited = await executeToolWithPolicy("echo", {}).then(() => null, (error: ToolPolicyError) => error);
+    assertEquals([limited instanceof ToolPolicyError, limited?.type, limited?.details.limit], [
+      true,
+      "rate_limited",
+      2,
+    ]);
+
+    // The timed-out call keeps running and holds the only slot
+    await assertRejects(() => executeToolWithPolicy("slow", {}), ToolPolicyError, "did not finish within 20ms");
+    await assertRejects(() => executeToolWithPolicy("slow", {}), ToolPolicyError, "already running 1 times");
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    setToolPolicy({ tools: { slow: { max_concurrent: 1 } } });
+    assertEquals(await executeToolWithPolicy("slow", {}), "done");
+
+    await assertRejects(() => executeToolWithPolicy("missing", {}), Error, "Tool not found: missing");
+  } finally {
+    setToolPolicy({});
+  }
+});
+
+Deno.test("Tool policy - Structured tool results and statistics", async () => {
+  setup();
+  setToolPolicy({
+    tools: { big: { max_result_chars: 100 }, shell: { requires_approval: true } },
+    keys: { "sk-limited": { allow: ["echo"] } },
+  });
+
+  try {
+    const before = getToolStats().errors.big?.result_too_large ?? 0;
+    assertEquals(JSON.parse(await processToolCall(toolCall("big"))), {
+      error: {
+        type: "result_too_large",
+        tool: "big",
+        message: "Tool 'big' returned 200 characters, more than the limit of 100",
+        limit: 100,
+        size: 200,
+      },
+    });
+    assertEquals(getToolStats().errors.big.result_too_large, before + 1);
+
+    const refused = JSON.parse(await processToolCall(toolCall("shell"), { apiKey: "sk-limited" }));
+    assertEquals(refused.error.type, "tool_not_allowed");
+    const unapproved = JSON.parse(await processToolCall(toolCall("shell")));
+    assertEquals(unapproved.error.type, "approval_required");
+    assertEquals(await processToolCall(toolCall("shell"), { approvedTools: ["shell"] }), "ran");
+  } finally {
+    setToolPolicy({});
+  }
+});
@@ -0,0 +1,74 @@
+/**
+ * Tool prompt tests
+ */
+
+import { assertEquals } from "assert";
+import type { Message, Tool } from "../src/types/definitions.ts";
+import { applyToolPrompt, buildToolPrompt, formatToolCallText } from "../src/services/tool-prompt.ts";
+import { detectToolCall } from "../src/services/tool-processor.ts";
+
+const weatherTool: Tool = {
+  type: "function",
+  function: {
+    name: "get_weather",
+    description: "Get the weather for a city",
+    parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+  },
+};
+
+Deno.test("Tool prompt - Renders schemas and tool_choice", () => {
+  const prompt = buildToolPrompt([weatherTool], { type: "function", function: { name: "get_weather" } });
+  assertEquals(prompt.includes('"name":"get_weather"'), true);
+  assertEquals(prompt.includes('"required":["city"]'), true);
+  assertEquals(prompt.includes('You MUST call the tool "get_weather"'), true);
+
+  assertEquals(buildToolPrompt([weatherTool], "none"), "");
+  assertEquals(buildToolPrompt([], "auto"), "");
+});
+
+Deno.test("Tool prompt - Rendered tool calls are detected", () => {
+  const text = formatToolCallText({
+    id: "call_1",
+    type: "function",
+    function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+  });
+  const detected = detectToolCall({
+    type: "chat:completion",
+    data: { delta_content: `Checking.\n${text}`, phase: "answer", done: false },
+  });
+  assertEquals(detected?.function.name, "get_weather");
+  assertEquals(JSON.parse(detected!.function.arguments), { city: "Paris" });
+});
+
+Deno.test("Tool prompt - Converts tool history and merges system prompt", () => {
+  const messages: Message[] = [
+    { role: "system", content: "Be brief." },
+    { role: "user", content: "Weather in Paris and Rome?" },
+    {
+      role: "assistant",
+      content: "",
+      tool_calls: [
+        { id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } },
+        { id: "call_2", type: "function", function: { name: "get_weather", arguments: '{"city":"Rome"}' } },
+      ],
+    },
+    { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+    { role: "tool", tool_call_id: "call_2", content: "Rainy" },
+  ];
+
+  const result = applyToolPrompt(messages, [weatherTool]);
+  assertEquals(result.map((m) => m.role), ["system", "user", "assistant", "user"]);
+  assertEquals((result[0].content as string).startsWith("Be brief.\n\n# Tools"), true);
+  assertEquals(
+    result[2].content,
+    '```json\n{"name":"get_weather","arguments":{"city":"Paris"}}\n```\n\n' +
+      '```json\n{"name":"get_weather","arguments":{"city":"Rome"}}\n```',
+  );
+  assertEquals(
+    result[3].content,
+    '<tool_result name="get_weather" tool_call_id="call_1">\nSunny\n</tool_result>\n\n' +
+      '<tool_result name="get_weather" tool_call_id="call_2">\nRainy\n</tool_result>',
+  );
+  assertEquals(result[2].tool_calls, undefined);
+  assertEquals(messages[0].content, "Be brief.");
+});
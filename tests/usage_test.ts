@@ -0,0 +1,215 @@
+/**
+ * Usage accounting tests
+ * Metering of streamed and complete responses, daily and monthly totals with cost, quotas and the usage report
+ */
+
+import { assertEquals } from "assert";
+import {
+  checkQuotas,
+  getUsage,
+  KvUsageStore,
+  MemoryUsageStore,
+  meterResponse,
+  recordUsage,
+  setUsageStore,
+  UsageMeter,
+  type UsageStore,
+} from "../src/services/usage.ts";
+import { type ApiKeyRecord, createApiKey, MemoryApiKeyStore, setApiKeyStore } from "../src/services/api-keys.ts";
+import { handleAdmin } from "../src/handlers/admin.ts";
+import { handleChatCompletions } from "../src/handlers/openai.ts";
+
+const DAY = new Date("2026-03-14T10:00:00Z");
+
+function sse(events: unknown[]): Response {
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("") + "data: [DONE]\n\n";
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+Deno.test("Usage - Metering reported and estimated usage", () => {
+  // Upstream usage wins; reasoning is estimated from the reasoning text
+  const openai = new UsageMeter();
+  openai.observe({ choices: [{ delta: { reasoning_content: "Let me think about the weather in Paris." } }] });
+  openai.observe({ choices: [{ delta: { content: "Hello there" } }] });
+  openai.observe({ choices: [{ delta: {} }], usage: { prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 } });
+  assertEquals(openai.result(99), { prompt_tokens: 12, completion_tokens: 30, reasoning_tokens: 9, estimated: true });
+
+  // Without usage everything is estimated, tool call arguments included
+  const estimated = new UsageMeter();
+  estimated.observe({
+    choices: [{ message: { content: "The answer is 42.", tool_calls: [{ function: { arguments: '{"a":1}' } }] } }],
+  });
+  assertEquals(estimated.result(7), { prompt_tokens: 7, completion_tokens: 11, reasoning_tokens: 0, estimated: true });
+
+  const reported = new UsageMeter();
+  reported.observe({ choices: [{ message: { content: "Hi" } }], usage: { prompt_tokens: 5, completion_tokens: 1 } });
+  assertEquals(reported.result(7).estimated, false);
+
+  // Anthropic stream events and messages
+  const anthropic = new UsageMeter();
+  anthropic.observe({ type: "message_start", message: { usage: { input_tokens: 20, output_tokens: 0 } } });
+  anthropic.observe({ type: "content_block_delta", delta: { type: "thinking_delta", thinking: "Hmm, maybe." } });
+  anthropic.observe({ type: "content_block_delta", delta: { type: "text_delta", text: "Answer" } });
+  anthropic.observe({ type: "message_delta", usage: { output_tokens: 9 } });
+  assertEquals(anthropic.result(1), { prompt_tokens: 20, completion_tokens: 9, reasoning_tokens: 4, estimated: true });
+
+  const message = new UsageMeter();
+  message.observe({
+    type: "message",
+    content: [{ type: "text", text: "It is sunny and warm today." }],
+    usage: { input_tokens: 0 },
+  });
+  assertEquals(message.result(3), { prompt_tokens: 3, completion_tokens: 7, reasoning_tokens: 0, estimated: true });
+});
+
+async function totalsAndQuotas(store: UsageStore): Promise<void> {
+  setUsageStore(store);
+  const usage = { prompt_tokens: 1_000_000, completion_tokens: 500_000, reasoning_tokens: 100_000, estimated: false };
+  await recordUsage("key_a", "0727-360B-API", usage, DAY);
+  await recordUsage("key_a", "0727-360B-API", { ...usage, estimated: true }, DAY);
+  await recordUsage("key_a", "glm-4.5v", usage, new Date("2026-03-01T00:00:00Z"));
+  await recordUsage("key_b", "0727-360B-API", usage, DAY);
+
+  const day = await getUsage("2026-03-14", "key_a");
+  assertEquals(day, [{
+    period: "2026-03-14",
+    key_id: "key_a",
+    model: "0727-360B-API",
+    requests: 2,
+    estimated_requests: 1,
+    prompt_tokens: 2_000_000,
+    completion_tokens: 1_000_000,
+    reasoning_tokens: 200_000,
+    total_tokens: 3_000_000,
+    cost_usd: 3.4, // 2 × (0.6 + 0.5 × 2.2)
+  }]);
+  const month = await getUsage("2026-03");
+  assertEquals(month.map((row) => [row.key_id, row.model, row.requests, row.cost_usd]), [
+    ["key_a", "0727-360B-API", 2, 3.4],
+    ["key_a", "glm-4.5v", 1, 1.5],
+    ["key_b", "0727-360B-API", 1, 1.7],
+  ]);
+
+  const key = {
+    id: "key_a",
+    quotas: [
+      { period: "month", metric: "cost", limit: 100 },
+      { period: "day", metric: "tokens", limit: 3_000_000, hard: false },
+      { period: "month", metric: "cost", limit: 4.9 },
+    ],
+  } as ApiKeyRecord;
+  assertEquals(await checkQuotas(key, DAY), {
+    exceeded: "Monthly cost quota of $4.90 reached ($4.90 used)",
+    warnings: ["Daily token quota of 3000000 reached (3000000 used)"],
+  });
+  assertEquals(await checkQuotas(key, new Date("2026-04-01T00:00:00Z")), { exceeded: null, warnings: [] });
+}
+
+Deno.test("Usage - Daily and monthly totals, cost and quotas", async () => {
+  try {
+    await totalsAndQuotas(new MemoryUsageStore());
+    const kv = new KvUsageStore(":memory:");
+    try {
+      await totalsAndQuotas(kv);
+    } finally {
+      await kv.close();
+    }
+
+    // MODEL_PRICES overrides the price table
+    setUsageStore(new MemoryUsageStore());
+    Deno.env.set("MODEL_PRICES", JSON.stringify({ "GLM-4.5": { input_per_million: 1, output_per_million: 0 } }));
+    await recordUsage("key_a", "0727-360B-API", {
+      prompt_tokens: 500_000,
+      completion_tokens: 10,
+      reasoning_tokens: 0,
+      estimated: false,
+    }, DAY);
+    assertEquals((await getUsage("2026-03-14"))[0].cost_usd, 0.5);
+
+    // Model ids are matched exactly, mixed case included
+    Deno.env.set("MODEL_PRICES", JSON.stringify({ "GLM-4.6": { input_per_million: 2, output_per_million: 0 } }));
+    await recordUsage("key_b", "GLM-4-6-API-V1", {
+      prompt_tokens: 500_000,
+      completion_tokens: 0,
+      reasoning_tokens: 0,
+      estimated: false,
+    }, DAY);
+    const glm46 = (await getUsage("2026-03-14", "key_b"))[0];
+    assertEquals([glm46.model, glm46.cost_usd], ["GLM-4-6-API-V1", 1]);
+  } finally {
+    Deno.env.delete("MODEL_PRICES");
+    setUsageStore(null);
+  }
+});
+
+Deno.test("Usage - Metered responses, quota refusals and the usage report", async () => {
+  setUsageStore(new MemoryUsageStore());
+  setApiKeyStore(new MemoryApiKeyStore());
+  Deno.env.set("ADMIN_KEY", "admin-secret");
+  try {
+    const streamed = await meterResponse(
+      sse([
+        { choices: [{ delta: { content: "Hello, world" } }] },
+        { choices: [{ delta: {} }], usage: { prompt_tokens: 8, completion_tokens: 4, total_tokens: 12 } },
+      ]),
+      "key_stream",
+      "0727-360B-API",
+      3,
+    );
+    assertEquals((await streamed.text()).includes("Hello, world"), true);
+    const complete = await meterResponse(
+      Response.json({ type: "message", content: [{ type: "text", text: "Hi" }], usage: { output_tokens: 1 } }),
+      "key_stream",
+      "glm-4.5v",
+      6,
+    );
+    assertEquals((await complete.json()).content[0].text, "Hi");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const { key, record } = await createApiKey({
+      name: 'Team, "Search"',
+      owner: "search@example.com",
+      quotas: [{ period: "day", metric: "tokens", limit: 0 }],
+    });
+    const refused = await handleChatCompletions(
+      new Request("http://localhost/v1/chat/completions", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${key}` },
+        body: JSON.stringify({ model: "GLM-4.5", messages: [{ role: "user", content: "Hi" }] }),
+      }),
+    );
+    assertEquals(refused.status, 429);
+    assertEquals((await refused.text()).startsWith("Daily token quota of 0 reached (0 used)."), true);
+
+    await recordUsage(record.id, "0727-360B-API", {
+      prompt_tokens: 1,
+      completion_tokens: 2,
+      reasoning_tokens: 0,
+      estimated: false,
+    });
+    const admin = (query: string) =>
+      handleAdmin(
+        new Request(`http://localhost/admin/usage${query}`, { headers: { Authorization: "Bearer admin-secret" } }),
+      );
+    const report = await (await admin("")).json();
+    assertEquals(report.rows.map((row: { key_id: string; model: string; total_tokens: number }) => row.total_tokens), [
+      3,
+      12,
+      7,
+    ]);
+    assertEquals(report.rows[0].key_name, 'Team, "Search"');
+    assertEquals(report.totals.requests, 3);
+
+    const csv = await admin(`?format=csv&key_id=${record.id}`);
+    assertEquals(csv.headers.get("Content-Type"), "text/csv; charset=utf-8");
+    const lines = (await csv.text()).trim().split("\r\n");
+    assertEquals(lines[0].startsWith("period,key_id,key_name,owner,model,requests"), true);
+    assertEquals(lines[1].split(",").slice(1, 5), [record.id, '"Team', ' ""Search"""', "search@example.com"]);
+    assertEquals(lines.length, 2);
+    assertEquals((await admin("?period=March")).status, 400);
+  } finally {
+    Deno.env.delete("ADMIN_KEY");
+    setApiKeyStore(null);
+    setUsageStore(null);
+  }
+});
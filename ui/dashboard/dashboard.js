@@ -132,6 +132,50 @@ function updateTable() {
   });
 }
 
+function updateTokens() {
+  fetch("/dashboard/tokens")
+    .then((response) => response.json())
+    .then((data) => {
+      const tbody = document.getElementById("tokens-tbody");
+      tbody.innerHTML = "";
+
+      if (!Array.isArray(data.tokens) || data.tokens.length === 0) {
+        const row = document.createElement("tr");
+        const cell = document.createElement("td");
+        cell.colSpan = 7;
+        cell.textContent = "No tokens configured, using anonymous tokens";
+        row.appendChild(cell);
+        tbody.appendChild(row);
+        return;
+      }
+
+      data.tokens.forEach((token) => {
+        const row = document.createElement("tr");
+        let state = token.state;
+        if (token.state === "cooldown" && token.cooldown_until) {
+          state += " until " + new Date(token.cooldown_until).toLocaleTimeString();
+        }
+        const cells = [
+          token.id,
+          state,
+          token.requests,
+          token.errors,
+          (token.average_latency_ms / 1000).toFixed(2) + "s",
+          token.last_error || "",
+          token.expires_at ? new Date(token.expires_at).toLocaleString() : "never",
+        ];
+        cells.forEach((value, i) => {
+          const cell = document.createElement("td");
+          cell.textContent = value;
+          if (i === 1) cell.className = token.state === "active" ? "status-success" : "status-error";
+          row.appendChild(cell);
+        });
+        tbody.appendChild(row);
+      });
+    })
+    .catch((error) => console.error("Error fetching tokens:", error));
+}
+
 function updatePagination() {
   const totalPages = Math.ceil(allRequests.length / itemsPerPage);
   document.getElementById("page-info").textContent = "Page " + currentPage + " of " + totalPages;
@@ -265,10 +309,12 @@ document.getElementById("next-page").addEventListener("click", function () {
 document.addEventListener("DOMContentLoaded", function () {
   updateStats();
   updateRequests();
+  updateTokens();
 
   // Set up auto-refresh
   setInterval(updateStats, 5000);
   setInterval(updateRequests, 5000);
+  setInterval(updateTokens, 5000);
 
   // Add theme change listener to update chart
   const observer = new MutationObserver(() => {
@@ -295,6 +341,7 @@ document.addEventListener("visibilitychange", function () {
     // Resume updates when tab is visible
     updateStats();
     updateRequests();
+    updateTokens();
     console.log("Dashboard resumed - tab is visible");
   }
 });